@@ -0,0 +1,44 @@
+"""Add warranty_policies table for configurable warranty rules
+
+Revision ID: 5d2f8a6c3e91
+Revises: e9a3b5c7d1f2
+Create Date: 2026-10-18 13:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = '5d2f8a6c3e91'
+down_revision: Union[str, None] = 'e9a3b5c7d1f2'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'warranty_policies' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'warranty_policies',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('name', sa.String(length=200), nullable=False),
+        sa.Column('capacity_kw', sa.String(length=10), nullable=True),
+        sa.Column('heater', sa.String(length=50), nullable=True),
+        sa.Column('controller', sa.String(length=50), nullable=True),
+        sa.Column('duration_days', sa.Integer(), nullable=False),
+        sa.Column('start_from', sa.String(length=20), nullable=False, server_default='delivery'),
+        sa.Column('is_active', sa.Boolean(), nullable=False, server_default=sa.true()),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_warranty_policies_id'), 'warranty_policies', ['id'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index(op.f('ix_warranty_policies_id'), table_name='warranty_policies')
+    op.drop_table('warranty_policies')
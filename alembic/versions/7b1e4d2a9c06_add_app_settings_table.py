@@ -0,0 +1,36 @@
+"""Add app_settings table for admin-managed configuration
+
+Revision ID: 7b1e4d2a9c06
+Revises: 3f2a9c1d7e4b
+Create Date: 2026-10-18 10:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = '7b1e4d2a9c06'
+down_revision: Union[str, None] = '3f2a9c1d7e4b'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'app_settings' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'app_settings',
+        sa.Column('key', sa.String(length=100), nullable=False),
+        sa.Column('value', sa.Text(), nullable=False),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_by', sa.String(length=200), nullable=True),
+        sa.PrimaryKeyConstraint('key')
+    )
+
+
+def downgrade() -> None:
+    op.drop_table('app_settings')
@@ -0,0 +1,50 @@
+"""Add service_contracts table for AMC and extended warranty contracts
+
+Revision ID: 8a4c6e2b1d57
+Revises: 5d2f8a6c3e91
+Create Date: 2026-10-18 14:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = '8a4c6e2b1d57'
+down_revision: Union[str, None] = '5d2f8a6c3e91'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'service_contracts' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'service_contracts',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('contract_type', sa.String(length=30), nullable=False),
+        sa.Column('start_date', sa.Date(), nullable=False),
+        sa.Column('end_date', sa.Date(), nullable=False),
+        sa.Column('price', sa.Numeric(precision=10, scale=2), nullable=True),
+        sa.Column('coverage', sa.Text(), nullable=True),
+        sa.Column('renewal_status', sa.String(length=20), nullable=False, server_default='pending'),
+        sa.Column('sold_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_service_contracts_id'), 'service_contracts', ['id'], unique=False)
+    op.create_index(op.f('ix_service_contracts_record_id'), 'service_contracts', ['record_id'], unique=False)
+    op.create_index('idx_contract_end_date', 'service_contracts', ['end_date'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_contract_end_date', table_name='service_contracts')
+    op.drop_index(op.f('ix_service_contracts_record_id'), table_name='service_contracts')
+    op.drop_index(op.f('ix_service_contracts_id'), table_name='service_contracts')
+    op.drop_table('service_contracts')
@@ -0,0 +1,60 @@
+"""Add leads table for the sales pipeline
+
+Revision ID: a1d5c9e3f7b2
+Revises: b4f8e2a6c9d1
+Create Date: 2026-10-18 22:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'a1d5c9e3f7b2'
+down_revision: Union[str, None] = 'b4f8e2a6c9d1'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'leads' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'leads',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('lead_number', sa.String(length=50), nullable=False),
+        sa.Column('enquiry_date', sa.Date(), nullable=False),
+        sa.Column('source', sa.String(length=200), nullable=True),
+        sa.Column('capacity_kw', sa.String(length=10), nullable=True),
+        sa.Column('notes', sa.Text(), nullable=True),
+        sa.Column('contact_name', sa.String(length=200), nullable=False),
+        sa.Column('contact_phone', sa.String(length=20), nullable=True),
+        sa.Column('contact_address', sa.Text(), nullable=True),
+        sa.Column('zone', sa.String(length=100), nullable=True),
+        sa.Column('stage', sa.String(length=20), nullable=False, server_default='new'),
+        sa.Column('expected_value', sa.Numeric(precision=10, scale=2), nullable=True),
+        sa.Column('owner', sa.String(length=200), nullable=True),
+        sa.Column('lost_reason', sa.Text(), nullable=True),
+        sa.Column('closed_at', sa.DateTime(), nullable=True),
+        sa.Column('converted_record_id', sa.Integer(), nullable=True),
+        sa.Column('created_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['converted_record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_leads_id'), 'leads', ['id'], unique=False)
+    op.create_index(op.f('ix_leads_lead_number'), 'leads', ['lead_number'], unique=True)
+    op.create_index('idx_lead_stage', 'leads', ['stage'], unique=False)
+    op.create_index('idx_lead_owner', 'leads', ['owner'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_lead_owner', table_name='leads')
+    op.drop_index('idx_lead_stage', table_name='leads')
+    op.drop_index(op.f('ix_leads_lead_number'), table_name='leads')
+    op.drop_index(op.f('ix_leads_id'), table_name='leads')
+    op.drop_table('leads')
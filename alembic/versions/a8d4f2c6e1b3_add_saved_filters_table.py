@@ -0,0 +1,46 @@
+"""Add saved_filters table for per-user saved filter views
+
+Revision ID: a8d4f2c6e1b3
+Revises: f1c7a3e5b8d2
+Create Date: 2026-10-18 18:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'a8d4f2c6e1b3'
+down_revision: Union[str, None] = 'f1c7a3e5b8d2'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'saved_filters' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'saved_filters',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('user_id', sa.Integer(), nullable=False),
+        sa.Column('name', sa.String(length=100), nullable=False),
+        sa.Column('screen', sa.String(length=20), nullable=False),
+        sa.Column('query', sa.Text(), nullable=False),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['user_id'], ['users.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_saved_filters_id'), 'saved_filters', ['id'], unique=False)
+    op.create_index(op.f('ix_saved_filters_user_id'), 'saved_filters', ['user_id'], unique=False)
+    op.create_index('idx_saved_filter_user_screen', 'saved_filters', ['user_id', 'screen'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_saved_filter_user_screen', table_name='saved_filters')
+    op.drop_index(op.f('ix_saved_filters_user_id'), table_name='saved_filters')
+    op.drop_index(op.f('ix_saved_filters_id'), table_name='saved_filters')
+    op.drop_table('saved_filters')
@@ -0,0 +1,60 @@
+"""Add service_visits table for the per-record service log
+
+Revision ID: b3e7f1a9c524
+Revises: 8a4c6e2b1d57
+Create Date: 2026-10-18 15:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'b3e7f1a9c524'
+down_revision: Union[str, None] = '8a4c6e2b1d57'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'service_visits' not in sa.inspect(op.get_bind()).get_table_names():
+        op.create_table(
+            'service_visits',
+            sa.Column('id', sa.Integer(), nullable=False),
+            sa.Column('record_id', sa.Integer(), nullable=False),
+            sa.Column('visit_date', sa.DateTime(), nullable=False),
+            sa.Column('technician', sa.String(length=200), nullable=True),
+            sa.Column('issue_reported', sa.Text(), nullable=True),
+            sa.Column('work_done', sa.Text(), nullable=True),
+            sa.Column('parts_replaced', sa.Text(), nullable=True),
+            sa.Column('charge', sa.Numeric(precision=10, scale=2), nullable=True),
+            sa.Column('under_warranty', sa.Boolean(), nullable=False, server_default=sa.false()),
+            sa.Column('logged_by', sa.String(length=200), nullable=True),
+            sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+            sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+            sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+            sa.PrimaryKeyConstraint('id')
+        )
+        op.create_index(op.f('ix_service_visits_id'), 'service_visits', ['id'], unique=False)
+        op.create_index(op.f('ix_service_visits_record_id'), 'service_visits', ['record_id'], unique=False)
+        op.create_index('idx_visit_record_date', 'service_visits', ['record_id', 'visit_date'], unique=False)
+    
+    # Carry the single site visit each record held over into the log
+    op.execute(
+        """
+        INSERT INTO service_visits (record_id, visit_date, technician, under_warranty, created_at, updated_at)
+        SELECT r.id, r.date_of_site_visit, r.site_visit_done_by, false, r.updated_at, r.updated_at
+        FROM records r
+        WHERE r.date_of_site_visit IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM service_visits v WHERE v.record_id = r.id)
+        """
+    )
+
+
+def downgrade() -> None:
+    op.drop_index('idx_visit_record_date', table_name='service_visits')
+    op.drop_index(op.f('ix_service_visits_record_id'), table_name='service_visits')
+    op.drop_index(op.f('ix_service_visits_id'), table_name='service_visits')
+    op.drop_table('service_visits')
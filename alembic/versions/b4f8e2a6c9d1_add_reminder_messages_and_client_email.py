@@ -0,0 +1,64 @@
+"""Add reminder_messages table and clients.email for warranty reminders
+
+Revision ID: b4f8e2a6c9d1
+Revises: e7b3d9f1a5c8
+Create Date: 2026-10-18 21:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'b4f8e2a6c9d1'
+down_revision: Union[str, None] = 'e7b3d9f1a5c8'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    inspector = sa.inspect(op.get_bind())
+    # The app also runs create_all on startup, so the table may already exist
+    if 'email' not in [column['name'] for column in inspector.get_columns('clients')]:
+        op.add_column('clients', sa.Column('email', sa.String(length=200), nullable=True))
+    if 'reminder_messages' in inspector.get_table_names():
+        return
+    
+    op.create_table(
+        'reminder_messages',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('channel', sa.String(length=20), nullable=False),
+        sa.Column('warranty_expiry', sa.Date(), nullable=False),
+        sa.Column('days_before', sa.Integer(), nullable=False),
+        sa.Column('recipient', sa.String(length=200), nullable=True),
+        sa.Column('subject', sa.String(length=200), nullable=True),
+        sa.Column('body', sa.Text(), nullable=False),
+        sa.Column('status', sa.String(length=20), nullable=False, server_default='queued'),
+        sa.Column('provider', sa.String(length=50), nullable=True),
+        sa.Column('provider_message_id', sa.String(length=200), nullable=True),
+        sa.Column('error', sa.Text(), nullable=True),
+        sa.Column('attempts', sa.Integer(), nullable=False, server_default='0'),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('sent_at', sa.DateTime(), nullable=True),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_reminder_messages_id'), 'reminder_messages', ['id'], unique=False)
+    op.create_index(op.f('ix_reminder_messages_record_id'), 'reminder_messages', ['record_id'], unique=False)
+    op.create_index('idx_reminder_status', 'reminder_messages', ['status'], unique=False)
+    op.create_index(
+        'idx_reminder_unique', 'reminder_messages',
+        ['record_id', 'channel', 'warranty_expiry', 'days_before'], unique=True
+    )
+
+
+def downgrade() -> None:
+    op.drop_index('idx_reminder_unique', table_name='reminder_messages')
+    op.drop_index('idx_reminder_status', table_name='reminder_messages')
+    op.drop_index(op.f('ix_reminder_messages_record_id'), table_name='reminder_messages')
+    op.drop_index(op.f('ix_reminder_messages_id'), table_name='reminder_messages')
+    op.drop_table('reminder_messages')
+    op.drop_column('clients', 'email')
@@ -0,0 +1,26 @@
+"""Add the full-text search index over record text fields
+
+Revision ID: c2e6a4f8d0b7
+Revises: a8d4f2c6e1b3
+Create Date: 2026-10-18 19:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+from app.utils.search import ensure_search_index, drop_search_index
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'c2e6a4f8d0b7'
+down_revision: Union[str, None] = 'a8d4f2c6e1b3'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # FTS5 table + triggers on SQLite, GIN index on Postgres; skipped if the app already created it
+    ensure_search_index(op.get_bind())
+
+
+def downgrade() -> None:
+    drop_search_index(op.get_bind())
@@ -0,0 +1,44 @@
+"""Add record_changes table for the record audit trail
+
+Revision ID: c4d8e2f1a7b3
+Revises: 7b1e4d2a9c06
+Create Date: 2026-10-18 11:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'c4d8e2f1a7b3'
+down_revision: Union[str, None] = '7b1e4d2a9c06'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'record_changes' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'record_changes',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('record_code', sa.String(length=50), nullable=False),
+        sa.Column('action', sa.String(length=20), nullable=False),
+        sa.Column('changes', sa.JSON(), nullable=False),
+        sa.Column('actor_id', sa.Integer(), nullable=True),
+        sa.Column('actor_name', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_record_changes_id'), 'record_changes', ['id'], unique=False)
+    op.create_index(op.f('ix_record_changes_record_id'), 'record_changes', ['record_id'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index(op.f('ix_record_changes_record_id'), table_name='record_changes')
+    op.drop_index(op.f('ix_record_changes_id'), table_name='record_changes')
+    op.drop_table('record_changes')
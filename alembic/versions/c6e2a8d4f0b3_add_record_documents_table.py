@@ -0,0 +1,60 @@
+"""Add record_documents table for quotations and tax invoices
+
+Revision ID: c6e2a8d4f0b3
+Revises: a1d5c9e3f7b2
+Create Date: 2026-10-18 23:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'c6e2a8d4f0b3'
+down_revision: Union[str, None] = 'a1d5c9e3f7b2'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'record_documents' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'record_documents',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('doc_type', sa.String(length=20), nullable=False),
+        sa.Column('number', sa.String(length=50), nullable=False),
+        sa.Column('issued_on', sa.Date(), nullable=False),
+        sa.Column('valid_until', sa.Date(), nullable=True),
+        sa.Column('client_name', sa.String(length=200), nullable=False),
+        sa.Column('client_gstin', sa.String(length=15), nullable=True),
+        sa.Column('place_of_supply', sa.String(length=100), nullable=True),
+        sa.Column('line_items', sa.JSON(), nullable=False),
+        sa.Column('gst_rate', sa.Numeric(precision=5, scale=2), nullable=False),
+        sa.Column('interstate', sa.Boolean(), nullable=False, server_default=sa.false()),
+        sa.Column('taxable_value', sa.Numeric(precision=12, scale=2), nullable=False),
+        sa.Column('cgst', sa.Numeric(precision=12, scale=2), nullable=False, server_default='0'),
+        sa.Column('sgst', sa.Numeric(precision=12, scale=2), nullable=False, server_default='0'),
+        sa.Column('igst', sa.Numeric(precision=12, scale=2), nullable=False, server_default='0'),
+        sa.Column('total', sa.Numeric(precision=12, scale=2), nullable=False),
+        sa.Column('notes', sa.Text(), nullable=True),
+        sa.Column('pdf', sa.LargeBinary(), nullable=False),
+        sa.Column('created_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_record_documents_id'), 'record_documents', ['id'], unique=False)
+    op.create_index(op.f('ix_record_documents_record_id'), 'record_documents', ['record_id'], unique=False)
+    op.create_index(op.f('ix_record_documents_number'), 'record_documents', ['number'], unique=True)
+
+
+def downgrade() -> None:
+    op.drop_index(op.f('ix_record_documents_number'), table_name='record_documents')
+    op.drop_index(op.f('ix_record_documents_record_id'), table_name='record_documents')
+    op.drop_index(op.f('ix_record_documents_id'), table_name='record_documents')
+    op.drop_table('record_documents')
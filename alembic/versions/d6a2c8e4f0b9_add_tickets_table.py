@@ -0,0 +1,60 @@
+"""Add tickets table for the service ticket workflow
+
+Revision ID: d6a2c8e4f0b9
+Revises: b3e7f1a9c524
+Create Date: 2026-10-18 16:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'd6a2c8e4f0b9'
+down_revision: Union[str, None] = 'b3e7f1a9c524'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'tickets' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'tickets',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('ticket_number', sa.String(length=50), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('title', sa.String(length=200), nullable=False),
+        sa.Column('description', sa.Text(), nullable=True),
+        sa.Column('priority', sa.String(length=20), nullable=False, server_default='medium'),
+        sa.Column('status', sa.String(length=20), nullable=False, server_default='open'),
+        sa.Column('technician', sa.String(length=200), nullable=True),
+        sa.Column('resolution', sa.Text(), nullable=True),
+        sa.Column('opened_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('due_at', sa.DateTime(), nullable=False),
+        sa.Column('assigned_at', sa.DateTime(), nullable=True),
+        sa.Column('started_at', sa.DateTime(), nullable=True),
+        sa.Column('resolved_at', sa.DateTime(), nullable=True),
+        sa.Column('closed_at', sa.DateTime(), nullable=True),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_tickets_id'), 'tickets', ['id'], unique=False)
+    op.create_index(op.f('ix_tickets_ticket_number'), 'tickets', ['ticket_number'], unique=True)
+    op.create_index(op.f('ix_tickets_record_id'), 'tickets', ['record_id'], unique=False)
+    op.create_index('idx_ticket_status', 'tickets', ['status'], unique=False)
+    op.create_index('idx_ticket_technician', 'tickets', ['technician'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_ticket_technician', table_name='tickets')
+    op.drop_index('idx_ticket_status', table_name='tickets')
+    op.drop_index(op.f('ix_tickets_record_id'), table_name='tickets')
+    op.drop_index(op.f('ix_tickets_ticket_number'), table_name='tickets')
+    op.drop_index(op.f('ix_tickets_id'), table_name='tickets')
+    op.drop_table('tickets')
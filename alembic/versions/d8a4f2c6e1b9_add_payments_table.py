@@ -0,0 +1,49 @@
+"""Add payments table for the per-record payments ledger
+
+Revision ID: d8a4f2c6e1b9
+Revises: c6e2a8d4f0b3
+Create Date: 2026-10-19 09:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'd8a4f2c6e1b9'
+down_revision: Union[str, None] = 'c6e2a8d4f0b3'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'payments' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'payments',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('record_id', sa.Integer(), nullable=False),
+        sa.Column('amount', sa.Numeric(precision=12, scale=2), nullable=False),
+        sa.Column('paid_on', sa.Date(), nullable=False),
+        sa.Column('mode', sa.String(length=20), nullable=False),
+        sa.Column('reference', sa.String(length=100), nullable=True),
+        sa.Column('notes', sa.Text(), nullable=True),
+        sa.Column('recorded_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.ForeignKeyConstraint(['record_id'], ['records.id']),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_payments_id'), 'payments', ['id'], unique=False)
+    op.create_index(op.f('ix_payments_record_id'), 'payments', ['record_id'], unique=False)
+    op.create_index('idx_payment_record_date', 'payments', ['record_id', 'paid_on'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_payment_record_date', table_name='payments')
+    op.drop_index(op.f('ix_payments_record_id'), table_name='payments')
+    op.drop_index(op.f('ix_payments_id'), table_name='payments')
+    op.drop_table('payments')
@@ -0,0 +1,45 @@
+"""Add sales_targets table for salesperson and zone targets
+
+Revision ID: e3b7c1f9a2d6
+Revises: d8a4f2c6e1b9
+Create Date: 2026-10-19 10:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'e3b7c1f9a2d6'
+down_revision: Union[str, None] = 'd8a4f2c6e1b9'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # The app also runs create_all on startup, so the table may already exist
+    if 'sales_targets' in sa.inspect(op.get_bind()).get_table_names():
+        return
+    
+    op.create_table(
+        'sales_targets',
+        sa.Column('id', sa.Integer(), nullable=False),
+        sa.Column('period_type', sa.String(length=10), nullable=False),
+        sa.Column('period_start', sa.Date(), nullable=False),
+        sa.Column('scope', sa.String(length=20), nullable=False),
+        sa.Column('name', sa.String(length=200), nullable=False),
+        sa.Column('target_amount', sa.Numeric(precision=12, scale=2), nullable=False),
+        sa.Column('set_by', sa.String(length=200), nullable=True),
+        sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+        sa.PrimaryKeyConstraint('id')
+    )
+    op.create_index(op.f('ix_sales_targets_id'), 'sales_targets', ['id'], unique=False)
+    op.create_index('idx_target_period', 'sales_targets', ['period_type', 'period_start', 'scope', 'name'], unique=True)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_target_period', table_name='sales_targets')
+    op.drop_index(op.f('ix_sales_targets_id'), table_name='sales_targets')
+    op.drop_table('sales_targets')
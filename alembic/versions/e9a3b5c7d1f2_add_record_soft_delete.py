@@ -0,0 +1,33 @@
+"""Add soft delete columns to records
+
+Revision ID: e9a3b5c7d1f2
+Revises: c4d8e2f1a7b3
+Create Date: 2026-10-18 12:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'e9a3b5c7d1f2'
+down_revision: Union[str, None] = 'c4d8e2f1a7b3'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    columns = [column['name'] for column in sa.inspect(op.get_bind()).get_columns('records')]
+    if 'deleted_at' in columns:
+        return
+    
+    op.add_column('records', sa.Column('deleted_at', sa.DateTime(), nullable=True))
+    op.add_column('records', sa.Column('deleted_by', sa.String(length=200), nullable=True))
+    op.create_index('idx_deleted_at', 'records', ['deleted_at'], unique=False)
+
+
+def downgrade() -> None:
+    op.drop_index('idx_deleted_at', table_name='records')
+    op.drop_column('records', 'deleted_by')
+    op.drop_column('records', 'deleted_at')
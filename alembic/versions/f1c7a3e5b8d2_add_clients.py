@@ -0,0 +1,81 @@
+"""Add clients table and link records to it
+
+Revision ID: f1c7a3e5b8d2
+Revises: d6a2c8e4f0b9
+Create Date: 2026-10-18 17:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'f1c7a3e5b8d2'
+down_revision: Union[str, None] = 'd6a2c8e4f0b9'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    bind = op.get_bind()
+    # The app also runs create_all on startup, so the table may already exist
+    if 'clients' not in sa.inspect(bind).get_table_names():
+        op.create_table(
+            'clients',
+            sa.Column('id', sa.Integer(), nullable=False),
+            sa.Column('name', sa.String(length=200), nullable=False),
+            sa.Column('phone', sa.String(length=20), nullable=True),
+            sa.Column('address', sa.Text(), nullable=True),
+            sa.Column('zone', sa.String(length=100), nullable=True),
+            sa.Column('created_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+            sa.Column('updated_at', sa.DateTime(), nullable=False, server_default=sa.func.now()),
+            sa.PrimaryKeyConstraint('id')
+        )
+        op.create_index(op.f('ix_clients_id'), 'clients', ['id'], unique=False)
+        op.create_index('idx_client_name', 'clients', ['name'], unique=False)
+        op.create_index('idx_client_phone_number', 'clients', ['phone'], unique=False)
+    
+    columns = [column['name'] for column in sa.inspect(bind).get_columns('records')]
+    if 'client_id' not in columns:
+        op.add_column('records', sa.Column('client_id', sa.Integer(), nullable=True))
+        op.create_index(op.f('ix_records_client_id'), 'records', ['client_id'], unique=False)
+        # SQLite cannot add a constraint to an existing table
+        if bind.dialect.name != 'sqlite':
+            op.create_foreign_key('fk_records_client_id', 'records', 'clients', ['client_id'], ['id'])
+    
+    # One client per distinct set of client details, so no record's details change.
+    # Near-duplicates are left for the duplicate client tool to merge.
+    op.execute(
+        """
+        INSERT INTO clients (name, phone, address, zone, created_at, updated_at)
+        SELECT r.client_name, r.client_phone, r.client_address, r.zone, MIN(r.created_at), MAX(r.updated_at)
+        FROM records r
+        WHERE r.client_id IS NULL
+        GROUP BY r.client_name, r.client_phone, r.client_address, r.zone
+        """
+    )
+    op.execute(
+        """
+        UPDATE records SET client_id = (
+            SELECT MIN(c.id) FROM clients c
+            WHERE c.name = records.client_name
+            AND COALESCE(c.phone, '') = COALESCE(records.client_phone, '')
+            AND COALESCE(c.address, '') = COALESCE(records.client_address, '')
+            AND COALESCE(c.zone, '') = COALESCE(records.zone, '')
+        )
+        WHERE client_id IS NULL
+        """
+    )
+
+
+def downgrade() -> None:
+    bind = op.get_bind()
+    if bind.dialect.name != 'sqlite':
+        op.drop_constraint('fk_records_client_id', 'records', type_='foreignkey')
+    op.drop_index(op.f('ix_records_client_id'), table_name='records')
+    op.drop_column('records', 'client_id')
+    op.drop_index('idx_client_phone_number', table_name='clients')
+    op.drop_index('idx_client_name', table_name='clients')
+    op.drop_index(op.f('ix_clients_id'), table_name='clients')
+    op.drop_table('clients')
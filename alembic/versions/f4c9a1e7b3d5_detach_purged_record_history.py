@@ -0,0 +1,36 @@
+"""Allow record_changes.record_id to be null so purged records' history is detached
+
+Revision ID: f4c9a1e7b3d5
+Revises: e3b7c1f9a2d6
+Create Date: 2026-10-20 09:00:00.000000
+
+"""
+from typing import Sequence, Union
+from alembic import op
+import sqlalchemy as sa
+from sqlalchemy import text
+
+
+# revision identifiers, used by Alembic.
+revision: str = 'f4c9a1e7b3d5'
+down_revision: Union[str, None] = 'e3b7c1f9a2d6'
+branch_labels: Union[str, Sequence[str], None] = None
+depends_on: Union[str, Sequence[str], None] = None
+
+
+def upgrade() -> None:
+    # batch mode rebuilds the table on SQLite, which can't alter a column
+    with op.batch_alter_table('record_changes') as batch_op:
+        batch_op.alter_column('record_id', existing_type=sa.Integer(), nullable=True)
+    
+    # Entries of records purged before this point no longer belong to a record
+    op.get_bind().execute(text("""
+        UPDATE record_changes SET record_id = NULL
+        WHERE record_id NOT IN (SELECT id FROM records)
+    """))
+
+
+def downgrade() -> None:
+    op.get_bind().execute(text("DELETE FROM record_changes WHERE record_id IS NULL"))
+    with op.batch_alter_table('record_changes') as batch_op:
+        batch_op.alter_column('record_id', existing_type=sa.Integer(), nullable=False)
@@ -5,8 +5,10 @@ import os
 
 class Settings(BaseSettings):
     # Auth - use environment variables with defaults for local dev
-    maintenance_passcode: str = os.getenv("MAINTENANCE_PASSCODE", "maintenance123")
-    sales_passcode: str = os.getenv("SALES_PASSCODE", "sales123")
+    # The admin account is created on first start when no users exist yet
+    admin_username: str = os.getenv("ADMIN_USERNAME", "admin")
+    admin_password: str = os.getenv("ADMIN_PASSWORD", "admin123")
+    admin_display_name: str = os.getenv("ADMIN_DISPLAY_NAME", "Administrator")
     jwt_secret: str = os.getenv("JWT_SECRET", "your-super-secret-jwt-key-change-this-in-production-use-openssl-rand-hex-32")
     
     # Database
@@ -16,6 +18,18 @@ class Settings(BaseSettings):
     jwt_algorithm: str = "HS256"
     jwt_expire_hours: int = 24
     
+    # Warranty reminder delivery, one provider per channel (see app/utils/reminders.py).
+    # "file" appends messages to reminder_outbox_path and logs them instead of sending.
+    sms_provider: str = os.getenv("SMS_PROVIDER", "file")
+    whatsapp_provider: str = os.getenv("WHATSAPP_PROVIDER", "file")
+    email_provider: str = os.getenv("EMAIL_PROVIDER", "file")
+    reminder_outbox_path: str = os.getenv("REMINDER_OUTBOX_PATH", "./reminder_outbox.log")
+    smtp_host: Optional[str] = os.getenv("SMTP_HOST")
+    smtp_port: int = int(os.getenv("SMTP_PORT", "587"))
+    smtp_username: Optional[str] = os.getenv("SMTP_USERNAME")
+    smtp_password: Optional[str] = os.getenv("SMTP_PASSWORD")
+    smtp_from: Optional[str] = os.getenv("SMTP_FROM")
+    
     class Config:
         env_file = ".env"
         case_sensitive = False
@@ -1,44 +1,132 @@
 from sqlalchemy.orm import Session
-from sqlalchemy import or_, and_, func, desc
+from sqlalchemy import or_, and_, func, desc, select
+from sqlalchemy.exc import IntegrityError
 from typing import Optional
-from datetime import datetime, date
-from app.models import Record
-from app.schemas import RecordCreate, RecordUpdate, RecordFilters
-from app.utils.warranty import get_warranty_status
+from datetime import datetime, date, timedelta
+import json
+import re
+from decimal import Decimal
+from app.models import Record, User, AppSetting, RecordChange, WarrantyPolicy, ServiceContract, ServiceVisit, Ticket, Client, SavedFilter, UserPreference, ReminderMessage, Lead, RecordDocument, Payment, SalesTarget
+from app.schemas import (
+    RecordCreate, RecordUpdate, RecordBatchUpdate, RecordFilters, UserCreate, UserUpdate, AppSettings,
+    WarrantyPolicySettings, WarrantyPolicyCreate, WarrantyPolicyUpdate,
+    ServiceContractCreate, ServiceContractUpdate, ServiceVisitCreate, ServiceVisitUpdate,
+    TicketCreate, TicketUpdate, ClientUpdate, ClientMergeRequest, SavedFilterCreate,
+    DEFAULT_REMINDER_TEMPLATES, LeadCreate, LeadUpdate, RecordDocumentCreate, CompanySettings,
+    PaymentCreate, PaymentUpdate, SalesTargetPeriodUpdate
+)
+from app.security import hash_password, verify_password
+from app.utils.warranty import get_warranty_status, get_contract_status, warranty_expiry_sql
+from app.utils.schedule import build_schedule, find_double_bookings
+from app.utils.tickets import STATUS_TIMESTAMPS, calculate_sla_due, is_sla_breached
+from app.utils.duplicates import ClientIdentity, find_duplicate_groups, normalize_phone
+from app.utils.search import search_ranks, find_search_match
+from app.utils.reminders import (
+    DeliveryError, check_recipient, get_provider, reminder_context, render_template
+)
+from app.utils.documents import build_document_pdf, calculate_totals, document_number_prefix
+from app.utils.targets import period_start, period_end, shift_period, elapsed_fraction, attainment_status
 
 
 def generate_record_id(db: Session) -> str:
-    """Generate next record ID in format RMZ-000001"""
+    """Generate next record ID in format RMZ-000001; codes of purged records are never reissued"""
     last_record = db.query(Record).order_by(Record.id.desc()).first()
-    if last_record and last_record.record_id.startswith("RMZ-"):
-        try:
-            num = int(last_record.record_id.split("-")[1])
-            next_num = num + 1
-        except (ValueError, IndexError):
-            next_num = 1
-    else:
-        next_num = 1
-    return f"RMZ-{next_num:06d}"
+    codes = [last_record.record_id] if last_record else []
+    codes += [code for (code,) in db.query(RecordChange.record_code).filter(RecordChange.action == "purge")]
+    last_num = 0
+    for code in codes:
+        if code.startswith("RMZ-"):
+            try:
+                last_num = max(last_num, int(code.split("-")[1]))
+            except (ValueError, IndexError):
+                continue
+    return f"RMZ-{last_num + 1:06d}"
 
 
-def create_record(db: Session, record: RecordCreate, auto_generate_id: bool = True) -> Record:
-    """Create a new record"""
+# Fields tracked in the audit trail (everything a user can edit)
+AUDITED_FIELDS = [
+    column.name for column in Record.__table__.columns
+    if column.name not in ("id", "created_at", "updated_at", "deleted_at", "deleted_by")
+]
+
+
+def _audit_value(value):
+    """Convert a column value into something JSON can store"""
+    if isinstance(value, (datetime, date)):
+        return value.isoformat()
+    if isinstance(value, Decimal):
+        return float(value)
+    return value
+
+
+def _record_snapshot(db_record: Record) -> dict:
+    return {field: _audit_value(getattr(db_record, field)) for field in AUDITED_FIELDS}
+
+
+def log_record_change(
+    db: Session, db_record: Record, action: str, changes: dict, actor: Optional[User] = None
+) -> RecordChange:
+    """Add an audit entry for a record write (committed with the write itself)"""
+    entry = RecordChange(
+        record_id=db_record.id,
+        record_code=db_record.record_id,
+        action=action,
+        changes=changes,
+        actor_id=actor.id if actor else None,
+        actor_name=actor.display_name if actor else None,
+        created_at=datetime.utcnow()
+    )
+    db.add(entry)
+    return entry
+
+
+def _add_record(
+    db: Session, record: RecordCreate, auto_generate_id: bool = True, actor: Optional[User] = None
+) -> Record:
+    """Add a record and its "create" audit entry to the session without committing"""
     record_data = record.model_dump()
     
     # Auto-generate record_id if not provided or if auto_generate_id is True
     if auto_generate_id or not record_data.get("record_id"):
         record_data["record_id"] = generate_record_id(db)
     
+    client = _client_for_new_record(db, record_data, actor)
+    record_data.update(_client_details(client))
+    
     db_record = Record(**record_data)
+    db_record.client = client
     db.add(db_record)
+    db.flush()  # assigns the id used by the audit entry
+    
+    changes = {
+        field: {"old": None, "new": value}
+        for field, value in _record_snapshot(db_record).items()
+        if value is not None
+    }
+    log_record_change(db, db_record, "create", changes, actor)
+    return db_record
+
+
+def create_record(
+    db: Session, record: RecordCreate, auto_generate_id: bool = True, actor: Optional[User] = None
+) -> Record:
+    """Create a new record"""
+    db_record = _add_record(db, record, auto_generate_id, actor)
     db.commit()
     db.refresh(db_record)
+    attach_warranty(db, [db_record])
     return db_record
 
 
-def get_record(db: Session, record_id: int) -> Optional[Record]:
+def active_records(db: Session):
+    """Query over records that are not in the recycle bin"""
+    return db.query(Record).filter(Record.deleted_at.is_(None))
+
+
+def get_record(db: Session, record_id: int, include_deleted: bool = False) -> Optional[Record]:
     """Get record by ID"""
-    return db.query(Record).filter(Record.id == record_id).first()
+    query = db.query(Record) if include_deleted else active_records(db)
+    return query.filter(Record.id == record_id).first()
 
 
 def get_record_by_record_id(db: Session, record_id_str: str) -> Optional[Record]:
@@ -46,94 +134,419 @@ def get_record_by_record_id(db: Session, record_id_str: str) -> Optional[Record]
     return db.query(Record).filter(Record.record_id == record_id_str).first()
 
 
-def update_record(db: Session, record_id: int, record_update: RecordUpdate) -> Optional[Record]:
+def update_record(
+    db: Session, record_id: int, record_update: RecordUpdate, actor: Optional[User] = None
+) -> Optional[Record]:
     """Update a record"""
     db_record = get_record(db, record_id)
     if not db_record:
         return None
     
+    _apply_record_update(db, db_record, record_update, actor)
+    db.commit()
+    db.refresh(db_record)
+    attach_warranty(db, [db_record])
+    return db_record
+
+
+def _get_records_by_ids(db: Session, ids: list[int]) -> Optional[list[Record]]:
+    """Active records with the given ids, in that order; None if any is missing or deleted"""
+    records = active_records(db).filter(Record.id.in_(ids)).all()
+    by_id = {record.id: record for record in records}
+    if len(by_id) != len(set(ids)):
+        return None
+    return [by_id[record_id] for record_id in dict.fromkeys(ids)]
+
+
+def update_records(db: Session, batch: RecordBatchUpdate, actor: Optional[User] = None) -> Optional[list[Record]]:
+    """
+    Apply one change to several records: all of them are updated or none are.
+    Each record gets its own audit entry. Returns None if any record does not exist.
+    """
+    db_records = _get_records_by_ids(db, batch.ids)
+    if db_records is None:
+        return None
+    changes = batch.changes.model_dump(exclude_unset=True)
+    for db_record in db_records:
+        record_changes = dict(changes)
+        if batch.append_remark:
+            remarks = record_changes.get("remarks", db_record.remarks)
+            record_changes["remarks"] = f"{remarks}\n{batch.append_remark}" if remarks else batch.append_remark
+        _apply_record_update(db, db_record, RecordUpdate(**record_changes), actor)
+    db.commit()
+    for db_record in db_records:
+        db.refresh(db_record)
+    return attach_warranty(db, db_records)
+
+
+def count_client_spillover(db: Session, batch: RecordBatchUpdate) -> int:
+    """
+    Active records outside the batch that its client detail changes (name, phone,
+    address, zone) would update too, since those belong to the client
+    """
+    changes = {
+        field: value for field, value in batch.changes.model_dump(exclude_unset=True).items() if field in CLIENT_FIELDS
+    }
+    if not changes or "client_id" in batch.changes.model_fields_set:
+        return 0
+    client_ids = {
+        db_record.client_id for db_record in _get_records_by_ids(db, batch.ids) or []
+        if db_record.client_id is not None and any(getattr(db_record, field) != value for field, value in changes.items())
+    }
+    if not client_ids:
+        return 0
+    return active_records(db).filter(Record.client_id.in_(client_ids), Record.id.notin_(batch.ids)).count()
+
+
+def _apply_record_update(
+    db: Session, db_record: Record, record_update: RecordUpdate, actor: Optional[User] = None
+) -> None:
+    """Apply an update and its audit entry to the session without committing"""
     update_data = record_update.model_dump(exclude_unset=True)
+    client_update = {
+        field: value for field, value in (
+            (field, update_data.pop(field)) for field in CLIENT_FIELDS if field in update_data
+        )
+        if value != getattr(db_record, field)
+    }
+    if "client_id" in update_data:
+        client_id = update_data.pop("client_id")
+        if client_id != db_record.client_id:
+            if client_id is None:
+                # Moved off its client: to the one matching the details being saved, or a new one
+                details = {**_client_details_of_record(db_record), **client_update}
+                client = find_client(db, details["client_name"], details["client_phone"])
+                if client is None or client.id == db_record.client_id:
+                    client = _new_client(db, details)
+            else:
+                client = get_client(db, client_id)
+            _link_record(db, db_record, client, actor)
+            client_update = {}
+    if client_update:
+        # Client details belong to the client, so every one of its machines follows
+        client = db_record.client or _new_client(db, _client_details_of_record(db_record))
+        _set_client_details(client, client_update)
+        _sync_client_records(db, client, actor, include=db_record)
+    
+    before = _record_snapshot(db_record)
     for field, value in update_data.items():
         setattr(db_record, field, value)
+    after = _record_snapshot(db_record)
     
-    db_record.updated_at = datetime.utcnow()
+    changes = {
+        field: {"old": before[field], "new": after[field]}
+        for field in AUDITED_FIELDS
+        if before[field] != after[field]
+    }
+    # Saving an unchanged form is not worth a history entry
+    if changes:
+        db_record.updated_at = datetime.utcnow()
+        log_record_change(db, db_record, "update", changes, actor)
+
+
+def _move_to_recycle_bin(db: Session, db_record: Record, actor: Optional[User] = None) -> None:
+    db_record.deleted_at = datetime.utcnow()
+    db_record.deleted_by = actor.display_name if actor else None
+    log_record_change(db, db_record, "delete", {}, actor)
+
+
+def delete_record(db: Session, record_id: int, actor: Optional[User] = None) -> bool:
+    """Move a record to the recycle bin"""
+    db_record = get_record(db, record_id)
+    if not db_record:
+        return False
+    _move_to_recycle_bin(db, db_record, actor)
+    db.commit()
+    return True
+
+
+def delete_records(db: Session, ids: list[int], actor: Optional[User] = None) -> bool:
+    """Move several records to the recycle bin together; nothing is deleted if any is missing"""
+    db_records = _get_records_by_ids(db, ids)
+    if db_records is None:
+        return False
+    for db_record in db_records:
+        _move_to_recycle_bin(db, db_record, actor)
+    db.commit()
+    return True
+
+
+def get_deleted_records(db: Session, page: int = 1, page_size: int = 50) -> tuple[list[Record], int]:
+    """Records in the recycle bin, most recently deleted first"""
+    query = db.query(Record).filter(Record.deleted_at.isnot(None))
+    total = query.count()
+    
+    records = query.order_by(desc(Record.deleted_at)).offset((page - 1) * page_size).limit(page_size).all()
+    return attach_warranty(db, records), total
+
+
+def import_records(
+    db: Session, rows: list[tuple[int, RecordCreate]], keep_ids: bool, dry_run: bool, actor: Optional[User] = None
+) -> list[dict]:
+    """
+    Create records from validated import rows in a single transaction: either
+    every row is created or none are. A dry run rolls back after assigning IDs
+    so the preview shows the record IDs the import would get.
+    """
+    created = []
+    try:
+        for row_number, record in rows:
+            db_record = _add_record(db, record, auto_generate_id=not keep_ids, actor=actor)
+            created.append({
+                "row": row_number,
+                "id": None if dry_run else db_record.id,
+                "record_id": db_record.record_id,
+                "client_name": db_record.client_name
+            })
+        if dry_run:
+            db.rollback()
+        else:
+            db.commit()
+    except Exception:
+        db.rollback()
+        raise
+    return created
+
+
+def get_existing_record_ids(db: Session, record_ids: list[str]) -> set[str]:
+    """Which of these record IDs are already taken (including records in the recycle bin)"""
+    if not record_ids:
+        return set()
+    existing = set()
+    # Chunked to stay under SQLite's bound parameter limit
+    for start in range(0, len(record_ids), 500):
+        chunk = record_ids[start:start + 500]
+        existing.update(r for (r,) in db.query(Record.record_id).filter(Record.record_id.in_(chunk)).all())
+    return existing
+
+
+def get_schedule(db: Session, date_from: date, date_to: date) -> dict:
+    """Planned installations and site visits in a date range, with double bookings flagged"""
+    records = active_records(db).filter(or_(
+        and_(Record.date_of_installation >= date_from, Record.date_of_installation <= date_to),
+        and_(
+            Record.date_of_site_visit >= datetime.combine(date_from, datetime.min.time()),
+            Record.date_of_site_visit < datetime.combine(date_to, datetime.min.time()) + timedelta(days=1)
+        )
+    )).all()
+    events = build_schedule(records, date_from, date_to)
+    clashing = find_double_bookings(events)
+    return {
+        "date_from": date_from,
+        "date_to": date_to,
+        "events": [
+            {
+                "record": event.record,
+                "kind": event.kind,
+                "date": event.date,
+                "start": event.start,
+                "technician": event.technician,
+                "double_booked": index in clashing
+            }
+            for index, event in enumerate(events)
+        ],
+        "double_booked_technicians": sorted({events[index].technician for index in clashing})
+    }
+
+
+def get_deleted_record(db: Session, record_id: int) -> Optional[Record]:
+    """A record in the recycle bin"""
+    return db.query(Record).filter(Record.id == record_id, Record.deleted_at.isnot(None)).first()
+
+
+def restore_record(db: Session, record_id: int, actor: Optional[User] = None) -> Optional[Record]:
+    """Take a record back out of the recycle bin"""
+    db_record = get_deleted_record(db, record_id)
+    if not db_record:
+        return None
+    db_record.deleted_at = None
+    db_record.deleted_by = None
+    log_record_change(db, db_record, "restore", {}, actor)
     db.commit()
     db.refresh(db_record)
+    attach_warranty(db, [db_record])
     return db_record
 
 
-def delete_record(db: Session, record_id: int) -> bool:
-    """Delete a record"""
-    db_record = get_record(db, record_id)
+def purge_record(db: Session, record_id: int, actor: Optional[User] = None) -> bool:
+    """
+    Permanently delete a record that is already in the recycle bin.
+    Callers check has_invoices and has_payments first: tax invoices and money
+    received are never deleted.
+    """
+    db_record = get_deleted_record(db, record_id)
     if not db_record:
         return False
+    # Keep the final values in the trail since the row itself is gone after this
+    changes = {
+        field: {"old": value, "new": None}
+        for field, value in _record_snapshot(db_record).items()
+        if value is not None
+    }
+    entry = log_record_change(db, db_record, "purge", changes, actor)
+    # Detach the trail from the id, which SQLite can give to the next record; record_code still names it
+    db.query(RecordChange).filter(RecordChange.record_id == db_record.id).update({RecordChange.record_id: None})
+    entry.record_id = None
+    db.query(ServiceContract).filter(ServiceContract.record_id == db_record.id).delete()
+    db.query(ServiceVisit).filter(ServiceVisit.record_id == db_record.id).delete()
+    db.query(Ticket).filter(Ticket.record_id == db_record.id).delete()
+    db.query(ReminderMessage).filter(ReminderMessage.record_id == db_record.id).delete()
+    db.query(RecordDocument).filter(RecordDocument.record_id == db_record.id).delete()
+    # The lead stays in the pipeline as won, without its record
+    db.query(Lead).filter(Lead.converted_record_id == db_record.id).update({Lead.converted_record_id: None})
     db.delete(db_record)
     db.commit()
     return True
 
 
+def get_record_history(db: Session, record_id: int) -> list[RecordChange]:
+    """Audit entries for a record, newest first"""
+    return (
+        db.query(RecordChange)
+        .filter(RecordChange.record_id == record_id)
+        .order_by(desc(RecordChange.created_at), desc(RecordChange.id))
+        .all()
+    )
+
+
+# RecordFilters fields that hold a list of accepted values for the record column of the same name
+MULTI_FILTER_FIELDS = ("zone", "capacity_kw", "heater", "controller", "card", "body", "sold_by", "lead_source")
+
+
+def _capacity_value(capacity: Optional[str]) -> Optional[float]:
+    """Capacity text as a number of KW ('7.5 KW' -> 7.5)"""
+    match = re.search(r"\d+(?:\.\d+)?", capacity or "")
+    return float(match.group()) if match else None
+
+
+def _capacities_between(db: Session, low: Optional[float], high: Optional[float]) -> list[str]:
+    """The stored capacity values within a KW range (capacity is free text, so it is compared in Python)"""
+    values = [row[0] for row in db.query(Record.capacity_kw).filter(Record.capacity_kw.isnot(None)).distinct()]
+    return [
+        value for value in values
+        if (kw := _capacity_value(value)) is not None
+        and (low is None or kw >= low) and (high is None or kw <= high)
+    ]
+
+
+def apply_record_filters(query, filters: RecordFilters):
+    """Apply search and field filters shared by record lists, sales and exports"""
+    # Search: the full-text index over every text field, plus substring matches on
+    # record_id, client_name, client_phone, client_address so partial numbers still work
+    if filters.search:
+        search_term = f"%{filters.search}%"
+        conditions = [
+            Record.record_id.ilike(search_term),
+            Record.client_name.ilike(search_term),
+            Record.client_phone.ilike(search_term),
+            Record.client_address.ilike(search_term)
+        ]
+        ranks = search_ranks(query.session, filters.search)
+        if ranks is not None:
+            conditions.append(Record.id.in_(select(ranks.c.id)))
+        query = query.filter(or_(*conditions))
+    
+    if filters.ids:
+        query = query.filter(Record.id.in_(filters.ids))
+    
+    # Multi-select filters: any of the chosen values
+    for field in MULTI_FILTER_FIELDS:
+        values = getattr(filters, field)
+        if values:
+            query = query.filter(getattr(Record, field).in_(values))
+    
+    # Ranges
+    if filters.price_min is not None:
+        query = query.filter(Record.sale_price >= filters.price_min)
+    if filters.price_max is not None:
+        query = query.filter(Record.sale_price <= filters.price_max)
+    if filters.capacity_min is not None or filters.capacity_max is not None:
+        query = query.filter(Record.capacity_kw.in_(
+            _capacities_between(query.session, filters.capacity_min, filters.capacity_max)
+        ))
+    
+    # Date ranges (delivery, installation, then site visit)
+    for column, date_from, date_to in (
+        (Record.date_of_delivery, filters.date_from, filters.date_to),
+        (Record.date_of_installation, filters.installation_from, filters.installation_to),
+    ):
+        # Date columns are compared with dates: SQLite stores them as text, where
+        # '2026-06-01' sorts before '2026-06-01 00:00:00' and would drop the first day
+        if date_from:
+            query = query.filter(column >= date_from.date())
+        if date_to:
+            query = query.filter(column <= date_to.date())
+    if filters.site_visit_from:
+        query = query.filter(Record.date_of_site_visit >= filters.site_visit_from)
+    if filters.site_visit_to:
+        # A bare date covers the whole day (site visits have a time)
+        if filters.site_visit_to.time() == datetime.min.time():
+            query = query.filter(Record.date_of_site_visit < filters.site_visit_to + timedelta(days=1))
+        else:
+            query = query.filter(Record.date_of_site_visit <= filters.site_visit_to)
+    
+    return query
+
+
+# Sortable record columns; text is compared case-insensitively so "abc" and "ABC" sit together
+SORT_COLUMNS = {
+    "date_of_delivery": Record.date_of_delivery,
+    "date_of_installation": Record.date_of_installation,
+    "sale_price": Record.sale_price,
+    "client_name": func.lower(Record.client_name),
+    "zone": func.lower(Record.zone),
+    "updated_at": Record.updated_at,
+}
+
+
 def get_records(
     db: Session,
     filters: RecordFilters,
     page: int = 1,
-    page_size: int = 50,
-    sort_by: str = "date_of_delivery",
-    sort_desc: bool = True
+    page_size: int = 50
 ) -> tuple[list[Record], int]:
-    """Get records with filters, search, pagination, and sorting"""
-    query = db.query(Record)
-    
-    # Search (record_id, client_name, client_phone, client_address)
-    if filters.search:
-        search_term = f"%{filters.search}%"
-        query = query.filter(
-            or_(
-                Record.record_id.ilike(search_term),
-                Record.client_name.ilike(search_term),
-                Record.client_phone.ilike(search_term),
-                Record.client_address.ilike(search_term)
-            )
-        )
-    
-    # Filters
-    if filters.zone:
-        query = query.filter(Record.zone == filters.zone)
-    if filters.capacity_kw:
-        query = query.filter(Record.capacity_kw == filters.capacity_kw)
-    if filters.heater:
-        query = query.filter(Record.heater == filters.heater)
-    if filters.controller:
-        query = query.filter(Record.controller == filters.controller)
-    if filters.card:
-        query = query.filter(Record.card == filters.card)
-    if filters.body:
-        query = query.filter(Record.body == filters.body)
-    if filters.sold_by:
-        query = query.filter(Record.sold_by == filters.sold_by)
-    if filters.lead_source:
-        query = query.filter(Record.lead_source == filters.lead_source)
-    
-    # Date range filter
-    if filters.date_from:
-        query = query.filter(Record.date_of_delivery >= filters.date_from)
-    if filters.date_to:
-        query = query.filter(Record.date_of_delivery <= filters.date_to)
+    """Get records with filters, search, pagination, and sorting (filters.sort_by / sort_desc)"""
+    query = apply_record_filters(active_records(db), filters)
+    offset = (page - 1) * page_size
+    sort_by = filters.sort_by or ("relevance" if filters.search else "date_of_delivery")
     
     # Get total count before pagination
     total = query.count()
     
-    # Sorting
-    sort_column = getattr(Record, sort_by, Record.date_of_delivery)
-    if sort_desc:
-        query = query.order_by(desc(sort_column))
+    ranks = search_ranks(db, filters.search) if sort_by == "relevance" else None
+    if ranks is not None:
+        # Substring-only matches have no rank and come after the indexed ones
+        rank = func.coalesce(ranks.c.rank, 0)
+        query = query.outerjoin(ranks, ranks.c.id == Record.id).order_by(
+            desc(rank) if filters.sort_desc else rank,
+            desc(Record.date_of_delivery),
+            desc(Record.id)
+        )
     else:
-        query = query.order_by(sort_column)
+        if sort_by == "warranty_expiry":
+            # Not stored: computed from the policies in SQL by the same rules as get_warranty_status
+            sort_column = warranty_expiry_sql(db, *get_warranty_context(db))
+        else:
+            sort_column = SORT_COLUMNS.get(sort_by, Record.date_of_delivery)
+        # Sorting: blanks last in both directions, then id so pages don't shuffle on ties
+        query = query.order_by(
+            sort_column.is_(None),
+            desc(sort_column) if filters.sort_desc else sort_column,
+            desc(Record.id) if filters.sort_desc else Record.id
+        )
     
     # Pagination
-    offset = (page - 1) * page_size
     records = query.offset(offset).limit(page_size).all()
     
-    return records, total
+    return attach_search_matches(attach_warranty(db, records), filters.search), total
+
+
+def attach_search_matches(records: list[Record], search: Optional[str]) -> list[Record]:
+    """Set the highlighted snippet showing where each record matched the search"""
+    if search:
+        for record in records:
+            record.search_match = find_search_match(record, search)
+    return records
 
 
 def get_records_by_client_phone(
@@ -143,7 +556,7 @@ def get_records_by_client_phone(
     limit: int = 10
 ) -> list[Record]:
     """Get records by exact client phone match, sorted by date descending (newest first)"""
-    query = db.query(Record).filter(Record.client_phone == client_phone)
+    query = active_records(db).filter(Record.client_phone == client_phone)
     
     if exclude_id:
         query = query.filter(Record.id != exclude_id)
@@ -151,50 +564,321 @@ def get_records_by_client_phone(
     # Sort by date_of_delivery descending (newest first)
     records = query.order_by(desc(Record.date_of_delivery)).limit(limit).all()
     
-    return records
+    return attach_warranty(db, records)
 
 
-def get_records_out_of_warranty(db: Session, page: int = 1, page_size: int = 50) -> tuple[list[Record], int]:
-    """Get records that are out of warranty"""
-    from datetime import timedelta, date
-    one_year_ago = date.today() - timedelta(days=365)
-    
-    query = db.query(Record).filter(Record.date_of_delivery < one_year_ago)
+# Record fields that hold a copy of the client's details, and the client attribute each comes from
+CLIENT_FIELDS = {"client_name": "name", "client_phone": "phone", "client_address": "address", "zone": "zone"}
+
+
+def _client_details(client: Client) -> dict:
+    """The client's details as record fields"""
+    return {field: getattr(client, attr) for field, attr in CLIENT_FIELDS.items()}
+
+
+def _client_details_of_record(db_record: Record) -> dict:
+    return {field: getattr(db_record, field) for field in CLIENT_FIELDS}
+
+
+def _set_client_details(client: Client, details: dict) -> None:
+    """Apply record-style client fields (client_name, ...) to the client"""
+    for field, value in details.items():
+        setattr(client, CLIENT_FIELDS[field], value)
+    client.updated_at = datetime.utcnow()
+
+
+def _new_client(db: Session, details: dict) -> Client:
+    client = Client(**{CLIENT_FIELDS[field]: details.get(field) for field in CLIENT_FIELDS})
+    db.add(client)
+    return client
+
+
+def find_client(db: Session, name: Optional[str], phone: Optional[str]) -> Optional[Client]:
+    """An existing client with the same phone number (ignoring +91, spaces) and name (ignoring case)"""
+    number = normalize_phone(phone)
+    if len(number) < 7 or not name:
+        return None
+    db.flush()  # clients added earlier in this transaction (e.g. by an import) count too
+    candidates = db.query(Client).filter(func.lower(Client.name) == name.strip().lower()).all()
+    return next((c for c in candidates if normalize_phone(c.phone) == number), None)
+
+
+def _client_for_new_record(db: Session, record_data: dict, actor: Optional[User] = None) -> Client:
+    """The client a new record belongs to: the one given, a match on phone and name, or a new one"""
+    client_id = record_data.pop("client_id", None)
+    client = get_client(db, client_id) if client_id else None
+    if client is None:
+        client = find_client(db, record_data.get("client_name"), record_data.get("client_phone"))
+        if client is None:
+            return _new_client(db, record_data)
+    # Details the client was missing are filled in from the new record
+    missing = {
+        field: record_data[field] for field, attr in CLIENT_FIELDS.items()
+        if record_data.get(field) and not getattr(client, attr)
+    }
+    if missing:
+        _set_client_details(client, missing)
+        _sync_client_records(db, client, actor)
+    return client
+
+
+def _link_record(db: Session, db_record: Record, client: Client, actor: Optional[User] = None) -> bool:
+    """Point a record at a client and copy its details over; audited. Returns whether anything changed."""
+    before = _record_snapshot(db_record)
+    db_record.client = client
+    db.flush()  # assigns client.id for a new client
+    for field, value in _client_details(client).items():
+        setattr(db_record, field, value)
+    after = _record_snapshot(db_record)
+    changes = {
+        field: {"old": before[field], "new": after[field]}
+        for field in ("client_id", *CLIENT_FIELDS)
+        if before[field] != after[field]
+    }
+    if changes:
+        db_record.updated_at = datetime.utcnow()
+        log_record_change(db, db_record, "update", changes, actor)
+    return bool(changes)
+
+
+def _sync_client_records(
+    db: Session, client: Client, actor: Optional[User] = None, include: Optional[Record] = None
+) -> int:
+    """Copy the client's details onto its records (including any in the recycle bin)"""
+    records = list(client.records)
+    if include is not None and include not in records:
+        records.append(include)
+    return sum(1 for db_record in records if _link_record(db, db_record, client, actor))
+
+
+def _client_record_counts(db: Session, client_ids: list[int]) -> dict[int, int]:
+    if not client_ids:
+        return {}
+    rows = (
+        active_records(db)
+        .with_entities(Record.client_id, func.count(Record.id))
+        .filter(Record.client_id.in_(client_ids))
+        .group_by(Record.client_id)
+        .all()
+    )
+    return dict(rows)
+
+
+def attach_record_counts(db: Session, clients: list[Client]) -> list[Client]:
+    """Set record_count (active records) on each client for the response"""
+    counts = _client_record_counts(db, [c.id for c in clients])
+    for client in clients:
+        client.record_count = counts.get(client.id, 0)
+    return clients
+
+
+def get_client(db: Session, client_id: int) -> Optional[Client]:
+    return db.query(Client).filter(Client.id == client_id).first()
+
+
+def get_clients(
+    db: Session, search: Optional[str] = None, page: int = 1, page_size: int = 50
+) -> tuple[list[Client], int]:
+    """Clients with at least one active record, by name"""
+    query = db.query(Client).filter(Client.id.in_(select(Record.client_id).where(Record.deleted_at.is_(None))))
+    if search:
+        term = f"%{search}%"
+        query = query.filter(or_(Client.name.ilike(term), Client.phone.ilike(term), Client.address.ilike(term)))
     total = query.count()
-    
-    records = query.order_by(desc(Record.date_of_delivery)).offset((page - 1) * page_size).limit(page_size).all()
-    return records, total
+    clients = query.order_by(Client.name).offset((page - 1) * page_size).limit(page_size).all()
+    return attach_record_counts(db, clients), total
 
 
-def get_records_expiring_soon(db: Session, days: int = 30, page: int = 1, page_size: int = 50) -> tuple[list[Record], int]:
-    """Get records expiring soon"""
-    from datetime import timedelta, date
-    today = date.today()
-    start_date = today - timedelta(days=365 - days)
-    end_date = today - timedelta(days=365)
-    
-    query = db.query(Record).filter(
-        and_(
-            Record.date_of_delivery >= end_date,
-            Record.date_of_delivery <= start_date
+def update_client(
+    db: Session, client_id: int, client_update: ClientUpdate, actor: Optional[User] = None
+) -> Optional[Client]:
+    """Update a client; the change is copied onto every one of its records"""
+    client = get_client(db, client_id)
+    if not client:
+        return None
+    details = {
+        field: value for field, value in (
+            (field, getattr(client_update, attr)) for field, attr in CLIENT_FIELDS.items()
+        )
+        if CLIENT_FIELDS[field] in client_update.model_fields_set and not (field == "client_name" and value is None)
+    }
+    if details:
+        _set_client_details(client, details)
+        _sync_client_records(db, client, actor)
+    if "email" in client_update.model_fields_set:
+        client.email = (client_update.email or "").strip() or None
+        client.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(client)
+    return attach_record_counts(db, [client])[0]
+
+
+def get_client_profile(db: Session, client_id: int) -> Optional[dict]:
+    """A client with its machines, their service history, contracts, tickets and lifetime value"""
+    client = get_client(db, client_id)
+    if not client:
+        return None
+    records = active_records(db).filter(Record.client_id == client_id).order_by(desc(Record.date_of_delivery)).all()
+    attach_warranty(db, records)
+    record_ids = [r.id for r in records]
+    visits, contracts, tickets = [], [], []
+    if record_ids:
+        visits = (
+            db.query(ServiceVisit)
+            .filter(ServiceVisit.record_id.in_(record_ids))
+            .order_by(desc(ServiceVisit.visit_date), desc(ServiceVisit.id))
+            .all()
+        )
+        contracts = attach_contract_status(db, (
+            db.query(ServiceContract)
+            .filter(ServiceContract.record_id.in_(record_ids))
+            .order_by(desc(ServiceContract.end_date))
+            .all()
+        ))
+        tickets = attach_sla(
+            db.query(Ticket).filter(Ticket.record_id.in_(record_ids)).order_by(desc(Ticket.created_at)).all()
         )
+    sales_value = sum(float(r.sale_price or 0) for r in records)
+    contract_value = sum(float(c.price or 0) for c in contracts)
+    service_value = sum(float(v.charge or 0) for v in visits if not v.under_warranty)
+    return {
+        "client": attach_record_counts(db, [client])[0],
+        "records": records,
+        "visits": visits,
+        "contracts": contracts,
+        "tickets": tickets,
+        "sales_value": sales_value,
+        "contract_value": contract_value,
+        "service_value": service_value,
+        "lifetime_value": sales_value + contract_value + service_value
+    }
+
+
+def get_duplicate_clients(db: Session) -> list[dict]:
+    """Groups of clients that probably are one client entered more than one way"""
+    records_by_client: dict[int, list[Record]] = {}
+    for record in active_records(db).filter(Record.client_id.isnot(None)).order_by(desc(Record.date_of_delivery)):
+        records_by_client.setdefault(record.client_id, []).append(record)
+    clients = db.query(Client).filter(Client.id.in_(records_by_client.keys())).all() if records_by_client else []
+    identities = [
+        ClientIdentity(c.id, c.name, c.phone, c.address, c.zone, records_by_client[c.id])
+        for c in clients
+    ]
+    groups = []
+    for members, reasons in find_duplicate_groups(identities):
+        groups.append({
+            "members": [
+                {
+                    "id": member.id,
+                    "name": member.client_name,
+                    "phone": member.client_phone,
+                    "address": member.client_address,
+                    "zone": member.zone,
+                    "records": member.records
+                }
+                for member in members
+            ],
+            "reasons": reasons,
+            "record_count": sum(len(member.records) for member in members)
+        })
+    return groups
+
+
+def merge_clients(db: Session, merge: ClientMergeRequest, actor: Optional[User] = None) -> Optional[dict]:
+    """
+    Fold several clients into one. Their records all move to the client with the
+    most records and take on the merged details; each record change is audited.
+    Returns None if any listed client does not exist.
+    """
+    client_ids = set(merge.client_ids)
+    clients = db.query(Client).filter(Client.id.in_(client_ids)).all()
+    if len(clients) != len(client_ids):
+        return None
+
+    counts = _client_record_counts(db, list(client_ids))
+    target = max(clients, key=lambda c: (counts.get(c.id, 0), -c.id))
+    _set_client_details(target, {
+        field: getattr(merge, attr) for field, attr in CLIENT_FIELDS.items()
+    })
+    # Email is not part of the record details; keep one if any of the clients had it
+    target.email = merge.email or target.email or next((c.email for c in clients if c.email), None)
+    updated = 0
+    for client in clients:
+        for db_record in list(client.records):
+            if _link_record(db, db_record, target, actor):
+                updated += 1
+    for client in clients:
+        if client is not target:
+            db.delete(client)
+    db.commit()
+    return {"client_id": target.id, "merged": sum(counts.values()), "updated": updated}
+
+
+def get_warranty_context(db: Session) -> tuple[list[WarrantyPolicy], WarrantyPolicySettings]:
+    """Active warranty policies plus the default warranty from settings"""
+    return get_warranty_policies(db, active_only=True), get_app_settings(db).warranty
+
+
+def get_extended_warranty_ends(db: Session) -> dict[int, date]:
+    """Latest extended warranty end date per record"""
+    rows = (
+        db.query(ServiceContract.record_id, func.max(ServiceContract.end_date))
+        .filter(ServiceContract.contract_type == "extended_warranty")
+        .group_by(ServiceContract.record_id)
+        .all()
     )
-    total = query.count()
+    return {record_id: end_date for record_id, end_date in rows}
+
+
+def attach_warranty(db: Session, records: list[Record], days_soon: Optional[int] = None) -> list[Record]:
+    """Set the computed warranty fields on records so RecordResponse can return them"""
+    policies, default = get_warranty_context(db)
+    extended = get_extended_warranty_ends(db)
+    for record in records:
+        info = get_warranty_status(record, policies, default, days_soon, extended.get(record.id))
+        # Plain attributes, not columns: nothing is written back to the database
+        record.warranty_expiry = info.expiry
+        record.warranty_status = info.status
+        record.warranty_days_remaining = info.days_remaining
+        record.warranty_policy = info.policy
+    return records
+
+
+def _records_with_warranty(db: Session, days_soon: Optional[int] = None) -> list[Record]:
+    records = active_records(db).filter(Record.date_of_delivery.isnot(None)).all()
+    return attach_warranty(db, records, days_soon)
+
+
+def get_records_out_of_warranty(db: Session, page: int = 1, page_size: int = 50) -> tuple[list[Record], int]:
+    """Get records that are out of warranty, most recently expired first"""
+    records = [r for r in _records_with_warranty(db) if r.warranty_status == "out_of_warranty"]
+    records.sort(key=lambda r: r.warranty_expiry or date.min, reverse=True)
+    
+    offset = (page - 1) * page_size
+    return records[offset:offset + page_size], len(records)
+
+
+def get_records_expiring_soon(
+    db: Session, days: Optional[int] = None, page: int = 1, page_size: int = 50
+) -> tuple[list[Record], int]:
+    """Get records expiring within days (defaults to the warranty settings), soonest first"""
+    records = [r for r in _records_with_warranty(db, days) if r.warranty_status == "expiring_soon"]
+    records.sort(key=lambda r: r.warranty_expiry)
     
-    records = query.order_by(Record.date_of_delivery).offset((page - 1) * page_size).limit(page_size).all()
-    return records, total
+    offset = (page - 1) * page_size
+    return records[offset:offset + page_size], len(records)
 
 
-def get_warranty_summary(db: Session, days_soon: int = 30) -> dict:
+def get_warranty_summary(db: Session, days_soon: Optional[int] = None) -> dict:
     """Get warranty summary counts"""
-    all_records = db.query(Record).filter(Record.date_of_delivery.isnot(None)).all()
+    all_records = _records_with_warranty(db, days_soon)
     
     in_warranty = 0
     out_of_warranty = 0
     expiring_soon = 0
     
     for record in all_records:
-        _, status = get_warranty_status(record, days_soon)
+        status = record.warranty_status
         if status == "in_warranty":
             in_warranty += 1
         elif status == "expiring_soon":
@@ -202,11 +886,23 @@ def get_warranty_summary(db: Session, days_soon: int = 30) -> dict:
         else:
             out_of_warranty += 1
     
+    # AMC buckets count records (not contracts) covered by a running AMC
+    if days_soon is None:
+        days_soon = get_app_settings(db).warranty.expiring_soon_days
+    amc_status = {}
+    for contract in get_running_contracts(db, "amc"):
+        status = get_contract_status(contract.start_date, contract.end_date, days_soon)
+        # A record with any AMC beyond the threshold is not "expiring"
+        if amc_status.get(contract.record_id) != "active":
+            amc_status[contract.record_id] = status
+    
     return {
         "in_warranty": in_warranty,
         "out_of_warranty": out_of_warranty,
         "expiring_soon": expiring_soon,
-        "total": len(all_records)
+        "total": len(all_records),
+        "under_amc": len(amc_status),
+        "amc_expiring": sum(1 for status in amc_status.values() if status == "expiring")
     }
 
 
@@ -215,25 +911,36 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
     from datetime import timedelta
     from collections import defaultdict
     
-    query = db.query(Record)
+    query = active_records(db)
     
     # Apply filters if provided
     if filters:
-        if filters.zone:
-            query = query.filter(Record.zone == filters.zone)
-        if filters.sold_by:
-            query = query.filter(Record.sold_by == filters.sold_by)
-        if filters.date_from:
-            query = query.filter(Record.date_of_delivery >= filters.date_from)
-        if filters.date_to:
-            query = query.filter(Record.date_of_delivery <= filters.date_to)
+        query = apply_record_filters(query, filters)
     
     records = query.all()
     
+    # AMC / extended warranty contracts sold on the records in view
+    contract_query = db.query(ServiceContract).join(Record, ServiceContract.record_id == Record.id).filter(
+        Record.deleted_at.is_(None),
+        ServiceContract.price.isnot(None)
+    )
+    if filters:
+        contract_query = apply_record_filters(contract_query, filters)
+    contracts = contract_query.all()
+    contract_revenue = sum(float(c.price) for c in contracts)
+    
+    # Payments received against the same records
+    payment_query = db.query(Payment).join(Record, Payment.record_id == Record.id).filter(Record.deleted_at.is_(None))
+    if filters:
+        payment_query = apply_record_filters(payment_query, filters)
+    payments = payment_query.all()
+    collected = sum(float(p.amount) for p in payments)
+    
     total_records = len(records)
     records_with_price = [r for r in records if r.sale_price]
-    total_revenue = sum(float(r.sale_price) for r in records_with_price)
-    avg_order_value = total_revenue / len(records_with_price) if records_with_price else 0
+    sales_revenue = sum(float(r.sale_price) for r in records_with_price)
+    total_revenue = sales_revenue + contract_revenue
+    avg_order_value = sales_revenue / len(records_with_price) if records_with_price else 0
     
     # Breakdown by zone (count and revenue)
     by_zone = {}
@@ -243,6 +950,9 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
         by_zone[zone] = by_zone.get(zone, 0) + 1
         if record.sale_price:
             by_zone_revenue[zone] = by_zone_revenue.get(zone, 0) + float(record.sale_price)
+    for contract in contracts:
+        zone = contract.record.zone or "Unknown"
+        by_zone_revenue[zone] = by_zone_revenue.get(zone, 0) + float(contract.price)
     
     # Breakdown by sold_by (count and revenue)
     by_sold_by = {}
@@ -252,6 +962,10 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
         by_sold_by[sold_by] = by_sold_by.get(sold_by, 0) + 1
         if record.sale_price:
             by_sold_by_revenue[sold_by] = by_sold_by_revenue.get(sold_by, 0) + float(record.sale_price)
+    for contract in contracts:
+        # Credit whoever sold the contract, falling back to the original salesperson
+        sold_by = contract.sold_by or contract.record.sold_by or "Unknown"
+        by_sold_by_revenue[sold_by] = by_sold_by_revenue.get(sold_by, 0) + float(contract.price)
     
     # Breakdown by lead_source (count and revenue)
     by_lead_source = {}
@@ -271,6 +985,13 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
             monthly_sales[month_key]["count"] += 1
             if record.sale_price:
                 monthly_sales[month_key]["revenue"] += float(record.sale_price)
+    for contract in contracts:
+        month_key = contract.start_date.strftime("%Y-%m")
+        monthly_sales[month_key]["revenue"] += float(contract.price)
+    # Kept apart so a month with collections but no sales doesn't change the projections below
+    monthly_collected = defaultdict(float)
+    for payment in payments:
+        monthly_collected[payment.paid_on.strftime("%Y-%m")] += float(payment.amount)
     
     # Sort monthly sales and get last 12 months
     sorted_months = sorted(monthly_sales.keys())[-12:]
@@ -278,7 +999,8 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
         {
             "month": month,
             "count": monthly_sales[month]["count"],
-            "revenue": monthly_sales[month]["revenue"]
+            "revenue": monthly_sales[month]["revenue"],
+            "collected": monthly_collected.get(month, 0)
         }
         for month in sorted_months
     ]
@@ -340,6 +1062,12 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
     return {
         "total_records": total_records,
         "total_revenue": total_revenue if total_revenue > 0 else None,
+        "sales_revenue": sales_revenue,
+        "contract_revenue": contract_revenue,
+        "contract_count": len(contracts),
+        "billed": total_revenue,
+        "collected": collected,
+        "outstanding": total_revenue - collected,
         "average_order_value": avg_order_value if avg_order_value > 0 else None,
         "by_zone": by_zone,
         "by_zone_revenue": by_zone_revenue,
@@ -351,3 +1079,1120 @@ def get_sales_summary(db: Session, filters: Optional[RecordFilters] = None) -> d
         "projected_sales": projected_sales,
         "order_details": order_details
     }
+
+
+def get_user(db: Session, user_id: int) -> Optional[User]:
+    """Get user by ID"""
+    return db.query(User).filter(User.id == user_id).first()
+
+
+def get_user_by_username(db: Session, username: str) -> Optional[User]:
+    """Get user by username (case-insensitive)"""
+    return db.query(User).filter(func.lower(User.username) == username.strip().lower()).first()
+
+
+def get_users(db: Session) -> list[User]:
+    """List all users, active accounts first"""
+    return db.query(User).order_by(desc(User.is_active), User.display_name).all()
+
+
+def create_user(db: Session, user: UserCreate) -> User:
+    """Create a user account with a hashed password"""
+    db_user = User(
+        username=user.username.strip(),
+        display_name=user.display_name.strip(),
+        password_hash=hash_password(user.password),
+        role=user.role,
+        is_active=True
+    )
+    db.add(db_user)
+    db.commit()
+    db.refresh(db_user)
+    return db_user
+
+
+def update_user(db: Session, user_id: int, user_update: UserUpdate) -> Optional[User]:
+    """Update a user's profile, role, password or active flag"""
+    db_user = get_user(db, user_id)
+    if not db_user:
+        return None
+    
+    update_data = user_update.model_dump(exclude_unset=True)
+    password = update_data.pop("password", None)
+    if password:
+        db_user.password_hash = hash_password(password)
+    for field, value in update_data.items():
+        if value is not None:
+            setattr(db_user, field, value)
+    
+    db_user.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_user)
+    return db_user
+
+
+def authenticate_user(db: Session, username: str, password: str) -> Optional[User]:
+    """Return the active user matching the credentials, or None"""
+    db_user = get_user_by_username(db, username)
+    if not db_user or not db_user.is_active:
+        return None
+    if not verify_password(password, db_user.password_hash):
+        return None
+    
+    db_user.last_login_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_user)
+    return db_user
+
+
+def ensure_admin_user(db: Session, username: str, password: str, display_name: str) -> None:
+    """Create the bootstrap admin account when no users exist yet"""
+    if db.query(User).count() > 0:
+        return
+    create_user(db, UserCreate(
+        username=username,
+        display_name=display_name,
+        password=password,
+        role="admin"
+    ))
+
+
+def get_app_settings(db: Session) -> AppSettings:
+    """Load admin-managed settings, falling back to defaults for unset sections"""
+    stored = {row.key: json.loads(row.value) for row in db.query(AppSetting).all()}
+    return AppSettings(**{key: value for key, value in stored.items() if key in AppSettings.model_fields})
+
+
+def update_app_settings(db: Session, new_settings: AppSettings, updated_by: Optional[str] = None) -> AppSettings:
+    """Replace admin-managed settings, one row per section"""
+    for key, value in new_settings.model_dump().items():
+        if isinstance(value, list):
+            # Keep lists tidy: trimmed, de-duplicated, original order
+            value = list(dict.fromkeys(item.strip() for item in value if item and item.strip()))
+        row = db.query(AppSetting).filter(AppSetting.key == key).first()
+        if row is None:
+            row = AppSetting(key=key)
+            db.add(row)
+        row.value = json.dumps(value)
+        row.updated_by = updated_by
+        row.updated_at = datetime.utcnow()
+    db.commit()
+    return get_app_settings(db)
+
+
+def get_warranty_policies(db: Session, active_only: bool = False) -> list[WarrantyPolicy]:
+    """Get warranty policies, oldest first"""
+    query = db.query(WarrantyPolicy)
+    if active_only:
+        query = query.filter(WarrantyPolicy.is_active.is_(True))
+    return query.order_by(WarrantyPolicy.id).all()
+
+
+def _clean_policy_data(data: dict) -> dict:
+    # Blank match criteria mean "any value"
+    for field in ("capacity_kw", "heater", "controller"):
+        if field in data:
+            data[field] = (data[field] or "").strip() or None
+    if "name" in data and data["name"]:
+        data["name"] = data["name"].strip()
+    return data
+
+
+def create_warranty_policy(db: Session, policy: WarrantyPolicyCreate) -> WarrantyPolicy:
+    """Create a warranty policy"""
+    db_policy = WarrantyPolicy(**_clean_policy_data(policy.model_dump()))
+    db.add(db_policy)
+    db.commit()
+    db.refresh(db_policy)
+    return db_policy
+
+
+def update_warranty_policy(db: Session, policy_id: int, policy_update: WarrantyPolicyUpdate) -> Optional[WarrantyPolicy]:
+    """Update a warranty policy"""
+    db_policy = db.query(WarrantyPolicy).filter(WarrantyPolicy.id == policy_id).first()
+    if not db_policy:
+        return None
+    for field, value in _clean_policy_data(policy_update.model_dump(exclude_unset=True)).items():
+        setattr(db_policy, field, value)
+    db_policy.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_policy)
+    return db_policy
+
+
+def delete_warranty_policy(db: Session, policy_id: int) -> bool:
+    """Delete a warranty policy"""
+    db_policy = db.query(WarrantyPolicy).filter(WarrantyPolicy.id == policy_id).first()
+    if not db_policy:
+        return False
+    db.delete(db_policy)
+    db.commit()
+    return True
+
+
+def get_contracts(db: Session, record_id: Optional[int] = None) -> list[ServiceContract]:
+    """Get AMC / extended warranty contracts, latest first"""
+    query = db.query(ServiceContract)
+    if record_id is not None:
+        query = query.filter(ServiceContract.record_id == record_id)
+    return attach_contract_status(db, query.order_by(desc(ServiceContract.end_date)).all())
+
+
+def get_contract(db: Session, contract_id: int) -> Optional[ServiceContract]:
+    """Get contract by ID"""
+    return db.query(ServiceContract).filter(ServiceContract.id == contract_id).first()
+
+
+def get_running_contracts(db: Session, contract_type: Optional[str] = None) -> list[ServiceContract]:
+    """Contracts in force today on records that are not deleted"""
+    today = date.today()
+    query = db.query(ServiceContract).join(Record, ServiceContract.record_id == Record.id).filter(
+        Record.deleted_at.is_(None),
+        ServiceContract.start_date <= today,
+        ServiceContract.end_date >= today
+    )
+    if contract_type:
+        query = query.filter(ServiceContract.contract_type == contract_type)
+    return query.all()
+
+
+def get_contracts_expiring(db: Session, days: Optional[int] = None) -> list[ServiceContract]:
+    """Running contracts that end within days (defaults to the warranty settings), soonest first"""
+    if days is None:
+        days = get_app_settings(db).warranty.expiring_soon_days
+    contracts = attach_contract_status(db, get_running_contracts(db), days)
+    contracts = [c for c in contracts if c.status == "expiring"]
+    contracts.sort(key=lambda c: c.end_date)
+    return contracts
+
+
+def attach_contract_status(db: Session, contracts: list[ServiceContract], days_soon: Optional[int] = None) -> list[ServiceContract]:
+    """Set the computed status on contracts so ServiceContractResponse can return it"""
+    if days_soon is None:
+        days_soon = get_app_settings(db).warranty.expiring_soon_days
+    for contract in contracts:
+        contract.status = get_contract_status(contract.start_date, contract.end_date, days_soon)
+    return contracts
+
+
+def create_contract(db: Session, contract: ServiceContractCreate) -> ServiceContract:
+    """Attach an AMC / extended warranty contract to a record"""
+    db_contract = ServiceContract(**contract.model_dump())
+    db.add(db_contract)
+    db.commit()
+    db.refresh(db_contract)
+    attach_contract_status(db, [db_contract])
+    return db_contract
+
+
+def update_contract(db: Session, contract_id: int, contract_update: ServiceContractUpdate) -> Optional[ServiceContract]:
+    """Update a contract"""
+    db_contract = get_contract(db, contract_id)
+    if not db_contract:
+        return None
+    for field, value in contract_update.model_dump(exclude_unset=True).items():
+        setattr(db_contract, field, value)
+    db_contract.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_contract)
+    attach_contract_status(db, [db_contract])
+    return db_contract
+
+
+def delete_contract(db: Session, contract_id: int) -> bool:
+    """Delete a contract"""
+    db_contract = get_contract(db, contract_id)
+    if not db_contract:
+        return False
+    db.delete(db_contract)
+    db.commit()
+    return True
+
+
+def get_visits(db: Session, record_id: int) -> list[ServiceVisit]:
+    """Service visits for a record, latest first"""
+    return (
+        db.query(ServiceVisit)
+        .filter(ServiceVisit.record_id == record_id)
+        .order_by(desc(ServiceVisit.visit_date), desc(ServiceVisit.id))
+        .all()
+    )
+
+
+def get_visit(db: Session, visit_id: int) -> Optional[ServiceVisit]:
+    """Get service visit by ID"""
+    return db.query(ServiceVisit).filter(ServiceVisit.id == visit_id).first()
+
+
+def _sync_last_visit(db: Session, db_record: Record, actor: Optional[User] = None) -> None:
+    """
+    Keep the record's site visit fields pointing at its latest logged visit so
+    cards, filters and exports that read them stay current; cleared once the last
+    visit is deleted. Audited as a record update.
+    """
+    db.flush()
+    latest = (
+        db.query(ServiceVisit)
+        .filter(ServiceVisit.record_id == db_record.id)
+        .order_by(desc(ServiceVisit.visit_date), desc(ServiceVisit.id))
+        .first()
+    )
+    before = _record_snapshot(db_record)
+    db_record.date_of_site_visit = latest.visit_date if latest else None
+    db_record.site_visit_done_by = latest.technician if latest else None
+    after = _record_snapshot(db_record)
+    changes = {
+        field: {"old": before[field], "new": after[field]}
+        for field in ("date_of_site_visit", "site_visit_done_by")
+        if before[field] != after[field]
+    }
+    if changes:
+        db_record.updated_at = datetime.utcnow()
+        log_record_change(db, db_record, "update", changes, actor)
+
+
+def create_visit(db: Session, visit: ServiceVisitCreate, actor: Optional[User] = None) -> Optional[ServiceVisit]:
+    """Log a service visit against a record"""
+    db_record = get_record(db, visit.record_id)
+    if not db_record:
+        return None
+    visit_data = visit.model_dump()
+    if visit_data["under_warranty"] is None:
+        # Covered if the visit falls on or before the warranty expiry
+        attach_warranty(db, [db_record])
+        expiry = db_record.warranty_expiry
+        visit_data["under_warranty"] = bool(expiry and visit.visit_date.date() <= expiry)
+    db_visit = ServiceVisit(**visit_data, logged_by=actor.display_name if actor else None)
+    db.add(db_visit)
+    _sync_last_visit(db, db_record, actor)
+    db.commit()
+    db.refresh(db_visit)
+    return db_visit
+
+
+def update_visit(
+    db: Session, visit_id: int, visit_update: ServiceVisitUpdate, actor: Optional[User] = None
+) -> Optional[ServiceVisit]:
+    """Update a service visit"""
+    db_visit = get_visit(db, visit_id)
+    if not db_visit:
+        return None
+    # Nulls for required fields (visit_date, under_warranty) are rejected by the router
+    for field, value in visit_update.model_dump(exclude_unset=True).items():
+        setattr(db_visit, field, value)
+    db_visit.updated_at = datetime.utcnow()
+    db_record = get_record(db, db_visit.record_id)
+    if db_record:
+        _sync_last_visit(db, db_record, actor)
+    db.commit()
+    db.refresh(db_visit)
+    return db_visit
+
+
+def delete_visit(db: Session, visit_id: int, actor: Optional[User] = None) -> bool:
+    """Delete a service visit"""
+    db_visit = get_visit(db, visit_id)
+    if not db_visit:
+        return False
+    db.delete(db_visit)
+    db_record = get_record(db, db_visit.record_id)
+    if db_record:
+        _sync_last_visit(db, db_record, actor)
+    db.commit()
+    return True
+
+
+def generate_ticket_number(db: Session) -> str:
+    """Generate next ticket number in format TKT-000001"""
+    last_ticket = db.query(Ticket).order_by(Ticket.id.desc()).first()
+    if last_ticket and last_ticket.ticket_number.startswith("TKT-"):
+        try:
+            next_num = int(last_ticket.ticket_number.split("-")[1]) + 1
+        except (ValueError, IndexError):
+            next_num = 1
+    else:
+        next_num = 1
+    return f"TKT-{next_num:06d}"
+
+
+def attach_sla(tickets: list[Ticket]) -> list[Ticket]:
+    """Set the computed sla_breached flag so TicketResponse can return it"""
+    for ticket in tickets:
+        ticket.sla_breached = is_sla_breached(ticket.due_at, ticket.resolved_at)
+    return tickets
+
+
+def get_tickets(
+    db: Session,
+    status: Optional[list[str]] = None,
+    zone: Optional[str] = None,
+    technician: Optional[str] = None,
+    priority: Optional[str] = None,
+    record_id: Optional[int] = None
+) -> tuple[list[Ticket], int]:
+    """Tickets on records that are not deleted, newest first"""
+    query = db.query(Ticket).join(Record, Ticket.record_id == Record.id).filter(Record.deleted_at.is_(None))
+    if status:
+        query = query.filter(Ticket.status.in_(status))
+    if zone:
+        query = query.filter(Record.zone == zone)
+    if technician:
+        # "unassigned" is the board's filter for tickets nobody has picked up
+        if technician == "unassigned":
+            query = query.filter(or_(Ticket.technician.is_(None), Ticket.technician == ""))
+        else:
+            query = query.filter(Ticket.technician == technician)
+    if priority:
+        query = query.filter(Ticket.priority == priority)
+    if record_id is not None:
+        query = query.filter(Ticket.record_id == record_id)
+    tickets = query.order_by(desc(Ticket.created_at), desc(Ticket.id)).all()
+    return attach_sla(tickets), len(tickets)
+
+
+def get_ticket(db: Session, ticket_id: int) -> Optional[Ticket]:
+    """Get ticket by ID"""
+    ticket = db.query(Ticket).filter(Ticket.id == ticket_id).first()
+    if ticket:
+        attach_sla([ticket])
+    return ticket
+
+
+def _set_ticket_status(ticket: Ticket, status: str) -> None:
+    """Move a ticket to a status, stamping the SLA timestamp the first time it gets there"""
+    ticket.status = status
+    stamp = STATUS_TIMESTAMPS.get(status)
+    if stamp and getattr(ticket, stamp) is None:
+        setattr(ticket, stamp, datetime.utcnow())
+    # Reopening clears the resolution times so the SLA keeps counting
+    if status in ("open", "assigned", "in_progress"):
+        ticket.resolved_at = None
+        ticket.closed_at = None
+
+
+def create_ticket(db: Session, ticket: TicketCreate, actor: Optional[User] = None) -> Ticket:
+    """Raise a ticket against a record"""
+    now = datetime.utcnow()
+    db_ticket = Ticket(
+        **ticket.model_dump(),
+        ticket_number=generate_ticket_number(db),
+        status="open",
+        opened_by=actor.display_name if actor else None,
+        created_at=now,
+        due_at=calculate_sla_due(ticket.priority, now)
+    )
+    if db_ticket.technician:
+        _set_ticket_status(db_ticket, "assigned")
+    db.add(db_ticket)
+    db.commit()
+    db.refresh(db_ticket)
+    return attach_sla([db_ticket])[0]
+
+
+def update_ticket(db: Session, ticket_id: int, ticket_update: TicketUpdate) -> Optional[Ticket]:
+    """Update a ticket; status changes must already be checked with can_transition"""
+    db_ticket = get_ticket(db, ticket_id)
+    if not db_ticket:
+        return None
+    update_data = ticket_update.model_dump(exclude_unset=True)
+    status = update_data.pop("status", None)
+    for field, value in update_data.items():
+        setattr(db_ticket, field, value)
+    if "priority" in update_data:
+        db_ticket.due_at = calculate_sla_due(db_ticket.priority, db_ticket.created_at)
+    if status:
+        _set_ticket_status(db_ticket, status)
+    elif db_ticket.status == "open" and db_ticket.technician:
+        # Picking a technician is what assigns an open ticket
+        _set_ticket_status(db_ticket, "assigned")
+    elif db_ticket.status == "assigned" and not db_ticket.technician:
+        _set_ticket_status(db_ticket, "open")
+    db_ticket.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_ticket)
+    return attach_sla([db_ticket])[0]
+
+
+def get_saved_filters(db: Session, user: User, screen: Optional[str] = None) -> list[SavedFilter]:
+    """The user's saved filter views, by name"""
+    query = db.query(SavedFilter).filter(SavedFilter.user_id == user.id)
+    if screen:
+        query = query.filter(SavedFilter.screen == screen)
+    return query.order_by(func.lower(SavedFilter.name)).all()
+
+
+def save_filter(db: Session, user: User, saved_filter: SavedFilterCreate) -> SavedFilter:
+    """Save a filter view; saving under an existing name on the same screen replaces it"""
+    name = saved_filter.name.strip()
+    db_filter = db.query(SavedFilter).filter(
+        SavedFilter.user_id == user.id,
+        SavedFilter.screen == saved_filter.screen,
+        func.lower(SavedFilter.name) == name.lower()
+    ).first()
+    if db_filter is None:
+        db_filter = SavedFilter(user_id=user.id, screen=saved_filter.screen)
+        db.add(db_filter)
+    db_filter.name = name
+    db_filter.query = saved_filter.query.lstrip("?")
+    db_filter.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_filter)
+    return db_filter
+
+
+def delete_saved_filter(db: Session, user: User, filter_id: int) -> bool:
+    """Delete one of the user's saved filter views"""
+    db_filter = db.query(SavedFilter).filter(SavedFilter.id == filter_id, SavedFilter.user_id == user.id).first()
+    if not db_filter:
+        return False
+    db.delete(db_filter)
+    db.commit()
+    return True
+
+
+def get_user_preference(db: Session, user: User, key: str) -> Optional[dict]:
+    """A stored per-user preference, or None if the user never set it"""
+    row = db.query(UserPreference).filter(UserPreference.user_id == user.id, UserPreference.key == key).first()
+    return json.loads(row.value) if row else None
+
+
+def set_user_preference(db: Session, user: User, key: str, value: dict) -> dict:
+    row = db.query(UserPreference).filter(UserPreference.user_id == user.id, UserPreference.key == key).first()
+    if row is None:
+        row = UserPreference(user_id=user.id, key=key)
+        db.add(row)
+    row.value = json.dumps(value)
+    row.updated_at = datetime.utcnow()
+    db.commit()
+    return value
+
+
+def _build_reminder(record: Record, channel: str, days_before: int, days_remaining: int, templates: dict) -> ReminderMessage:
+    template = templates.get(channel) or DEFAULT_REMINDER_TEMPLATES[channel]
+    context = reminder_context(record, days_remaining)
+    return ReminderMessage(
+        record_id=record.id,
+        channel=channel,
+        warranty_expiry=record.warranty_expiry,
+        days_before=days_before,
+        recipient=_reminder_recipient(record, channel),
+        subject=render_template(template.subject, context) if channel == "email" else None,
+        body=render_template(template.body, context),
+        status="queued",
+        created_at=datetime.utcnow()
+    )
+
+
+def _reminder_recipient(record: Record, channel: str) -> Optional[str]:
+    if channel == "email":
+        return record.client.email if record.client else None
+    return record.client_phone
+
+
+def queue_warranty_reminders(db: Session, today: Optional[date] = None) -> int:
+    """
+    Queue a reminder on every configured channel for records whose warranty expiry is
+    within one of the reminder steps. Each step is queued once per record and channel,
+    so running this again (e.g. every hour) only picks up newly due reminders.
+    """
+    reminder_settings = get_app_settings(db).reminders
+    steps = sorted(set(reminder_settings.days_before))
+    if not steps or not reminder_settings.channels:
+        return 0
+    today = today or date.today()
+    existing = set(
+        db.query(ReminderMessage.record_id, ReminderMessage.channel, ReminderMessage.warranty_expiry, ReminderMessage.days_before).all()
+    )
+    queued = 0
+    for record in _records_with_warranty(db):
+        if record.warranty_expiry is None or record.warranty_expiry < today:
+            continue
+        days_remaining = (record.warranty_expiry - today).days
+        # The nearest step reached: 5 days out with steps 30 and 7 sends the 7-day reminder only
+        step = next((days for days in steps if days_remaining <= days), None)
+        if step is None:
+            continue
+        for channel in reminder_settings.channels:
+            if (record.id, channel, record.warranty_expiry, step) in existing:
+                continue
+            db.add(_build_reminder(record, channel, step, days_remaining, reminder_settings.templates))
+            queued += 1
+    db.commit()
+    return queued
+
+
+def _deliver_reminder(message: ReminderMessage, providers: dict) -> bool:
+    """Hand a message to its channel's provider and record the outcome; returns whether it was sent"""
+    message.attempts += 1
+    message.updated_at = datetime.utcnow()
+    problem = check_recipient(message.channel, message.recipient)
+    if problem:
+        message.status = "failed"
+        message.error = problem
+        return False
+    try:
+        if message.channel not in providers:
+            providers[message.channel] = get_provider(message.channel)
+        provider = providers[message.channel]
+        message.provider = provider.name
+        message.provider_message_id = provider.send(message.channel, message.recipient, message.subject, message.body)
+    except DeliveryError as e:
+        message.status = "failed"
+        message.error = str(e)
+        return False
+    message.status = "sent"
+    message.error = None
+    message.sent_at = datetime.utcnow()
+    return True
+
+
+def send_queued_reminders(db: Session) -> tuple[int, int]:
+    """Send every queued reminder; returns (sent, failed). Each outcome is committed as it happens."""
+    messages = db.query(ReminderMessage).filter(ReminderMessage.status == "queued").order_by(ReminderMessage.id).all()
+    providers = {}
+    sent = failed = 0
+    for message in messages:
+        if _deliver_reminder(message, providers):
+            sent += 1
+        else:
+            failed += 1
+        db.commit()
+    return sent, failed
+
+
+def run_warranty_reminders(db: Session, today: Optional[date] = None) -> dict:
+    """Queue the reminders now due and send everything in the queue"""
+    queued = queue_warranty_reminders(db, today)
+    sent, failed = send_queued_reminders(db)
+    return {"queued": queued, "sent": sent, "failed": failed}
+
+
+def _attach_reminder_records(messages: list[ReminderMessage]) -> list[ReminderMessage]:
+    """Set record_code and client_name on each message for the response"""
+    for message in messages:
+        message.record_code = message.record.record_id
+        message.client_name = message.record.client_name
+    return messages
+
+
+def get_reminders(
+    db: Session, status: Optional[str] = None, page: int = 1, page_size: int = 50
+) -> tuple[list[ReminderMessage], int, dict[str, int]]:
+    """Reminder messages, newest first, with the number of messages per status"""
+    query = db.query(ReminderMessage)
+    if status:
+        query = query.filter(ReminderMessage.status == status)
+    total = query.count()
+    messages = query.order_by(desc(ReminderMessage.created_at), desc(ReminderMessage.id)).offset((page - 1) * page_size).limit(page_size).all()
+    counts = dict(db.query(ReminderMessage.status, func.count(ReminderMessage.id)).group_by(ReminderMessage.status).all())
+    return _attach_reminder_records(messages), total, counts
+
+
+def get_reminder(db: Session, reminder_id: int) -> Optional[ReminderMessage]:
+    return db.query(ReminderMessage).filter(ReminderMessage.id == reminder_id).first()
+
+
+def retry_reminder(db: Session, message: ReminderMessage) -> ReminderMessage:
+    """Send a failed or cancelled reminder again, to the client's current phone number or email"""
+    message.recipient = _reminder_recipient(message.record, message.channel)
+    message.status = "queued"
+    message.error = None
+    _deliver_reminder(message, {})
+    db.commit()
+    db.refresh(message)
+    return _attach_reminder_records([message])[0]
+
+
+def cancel_reminder(db: Session, message: ReminderMessage) -> ReminderMessage:
+    message.status = "cancelled"
+    message.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(message)
+    return _attach_reminder_records([message])[0]
+
+
+# Stages that end a lead; the board only keeps recent ones
+CLOSED_LEAD_STAGES = ("won", "lost")
+
+
+def generate_lead_number(db: Session) -> str:
+    """Generate next lead number in format LEAD-000001"""
+    last_lead = db.query(Lead).order_by(Lead.id.desc()).first()
+    if last_lead and last_lead.lead_number.startswith("LEAD-"):
+        try:
+            next_num = int(last_lead.lead_number.split("-")[1]) + 1
+        except (ValueError, IndexError):
+            next_num = 1
+    else:
+        next_num = 1
+    return f"LEAD-{next_num:06d}"
+
+
+def get_leads(
+    db: Session,
+    owner: Optional[str] = None,
+    zone: Optional[str] = None,
+    search: Optional[str] = None,
+    closed_days: Optional[int] = None
+) -> tuple[list[Lead], int]:
+    """Leads for the pipeline, newest enquiry first; won and lost ones only if closed within closed_days"""
+    query = db.query(Lead)
+    if owner:
+        if owner == "unassigned":
+            query = query.filter(or_(Lead.owner.is_(None), Lead.owner == ""))
+        else:
+            query = query.filter(Lead.owner == owner)
+    if zone:
+        query = query.filter(Lead.zone == zone)
+    if search:
+        term = f"%{search}%"
+        query = query.filter(or_(
+            Lead.lead_number.ilike(term), Lead.contact_name.ilike(term),
+            Lead.contact_phone.ilike(term), Lead.contact_address.ilike(term)
+        ))
+    if closed_days is not None:
+        since = datetime.utcnow() - timedelta(days=closed_days)
+        query = query.filter(or_(Lead.stage.notin_(CLOSED_LEAD_STAGES), Lead.closed_at >= since))
+    leads = query.order_by(desc(Lead.enquiry_date), desc(Lead.id)).all()
+    return leads, len(leads)
+
+
+def get_lead(db: Session, lead_id: int) -> Optional[Lead]:
+    """Get lead by ID"""
+    return db.query(Lead).filter(Lead.id == lead_id).first()
+
+
+def _set_lead_stage(lead: Lead, stage: str) -> None:
+    """Move a lead to a stage, stamping when it was won or lost"""
+    if stage in CLOSED_LEAD_STAGES:
+        if lead.stage != stage or lead.closed_at is None:
+            lead.closed_at = datetime.utcnow()
+    else:
+        # Reopened: it is an open opportunity again
+        lead.closed_at = None
+        lead.lost_reason = None
+    lead.stage = stage
+
+
+def create_lead(db: Session, lead: LeadCreate, actor: Optional[User] = None) -> Lead:
+    """Add a lead to the pipeline"""
+    lead_data = lead.model_dump()
+    stage = lead_data.pop("stage")
+    db_lead = Lead(
+        **lead_data,
+        lead_number=generate_lead_number(db),
+        stage="new",
+        created_by=actor.display_name if actor else None
+    )
+    _set_lead_stage(db_lead, stage)
+    db.add(db_lead)
+    db.commit()
+    db.refresh(db_lead)
+    return db_lead
+
+
+def update_lead(db: Session, lead_id: int, lead_update: LeadUpdate) -> Optional[Lead]:
+    """Update a lead or move it to another stage"""
+    db_lead = get_lead(db, lead_id)
+    if not db_lead:
+        return None
+    update_data = lead_update.model_dump(exclude_unset=True)
+    stage = update_data.pop("stage", None)
+    if stage:
+        _set_lead_stage(db_lead, stage)
+    for field, value in update_data.items():
+        setattr(db_lead, field, value)
+    db_lead.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_lead)
+    return db_lead
+
+
+def delete_lead(db: Session, lead_id: int) -> bool:
+    db_lead = get_lead(db, lead_id)
+    if not db_lead:
+        return False
+    db.delete(db_lead)
+    db.commit()
+    return True
+
+
+def convert_lead(db: Session, db_lead: Lead, record: RecordCreate, actor: Optional[User] = None) -> Record:
+    """Create the record for a won lead and link the two in one transaction"""
+    db_record = _add_record(db, record, actor=actor)
+    db_lead.converted_record_id = db_record.id
+    db_lead.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_record)
+    attach_warranty(db, [db_record])
+    return db_record
+
+
+def generate_document_number(db: Session, prefix: str, issued_on: date) -> str:
+    """Next number in the prefix's series for the financial year, e.g. INV/2026-27/0001"""
+    series = document_number_prefix(prefix, issued_on)
+    last_num = 0
+    for (number,) in db.query(RecordDocument.number).filter(RecordDocument.number.startswith(series)):
+        try:
+            last_num = max(last_num, int(number[len(series):]))
+        except ValueError:
+            continue
+    return f"{series}{last_num + 1:04d}"
+
+
+def has_invoices(db: Session, record_id: int) -> bool:
+    """Whether a tax invoice has been issued for the record"""
+    return db.query(
+        db.query(RecordDocument).filter(RecordDocument.record_id == record_id, RecordDocument.doc_type == "invoice").exists()
+    ).scalar()
+
+
+def get_documents(db: Session, record_id: int) -> list[RecordDocument]:
+    """Quotations and invoices issued for a record, latest first"""
+    return (
+        db.query(RecordDocument)
+        .filter(RecordDocument.record_id == record_id)
+        .order_by(desc(RecordDocument.created_at), desc(RecordDocument.id))
+        .all()
+    )
+
+
+def get_document(db: Session, document_id: int) -> Optional[RecordDocument]:
+    return db.query(RecordDocument).filter(RecordDocument.id == document_id).first()
+
+
+def create_document(
+    db: Session, db_record: Record, document: RecordDocumentCreate, company: CompanySettings, actor: Optional[User] = None
+) -> RecordDocument:
+    """
+    Number a quotation or tax invoice, work out its GST and store it with its PDF.
+    If another document takes the same number first, it is numbered again once;
+    an IntegrityError after that is left to the caller.
+    """
+    issued_on = document.issued_on or date.today()
+    gst_rate = document.gst_rate if document.gst_rate is not None else company.gst_rate
+    totals = calculate_totals(
+        [item.model_dump(exclude={"amount"}) for item in document.line_items],
+        gst_rate, document.interstate, document.prices_include_gst
+    )
+    prefix = company.quotation_prefix if document.doc_type == "quotation" else company.invoice_prefix
+    db_document = RecordDocument(
+        record_id=db_record.id,
+        doc_type=document.doc_type,
+        issued_on=issued_on,
+        valid_until=issued_on + timedelta(days=company.quotation_valid_days) if document.doc_type == "quotation" else None,
+        client_name=db_record.client_name,
+        client_gstin=document.client_gstin or None,
+        place_of_supply=document.place_of_supply or company.state or None,
+        gst_rate=gst_rate,
+        interstate=document.interstate,
+        notes=document.notes or None,
+        created_by=actor.display_name if actor else None,
+        created_at=datetime.utcnow(),
+        **totals
+    )
+    for attempt in range(2):
+        db_document.number = generate_document_number(db, prefix, issued_on)
+        db_document.pdf = build_document_pdf(db_document, db_record, company)
+        db.add(db_document)
+        try:
+            db.commit()
+            break
+        except IntegrityError:
+            db.rollback()
+            if attempt:
+                raise
+    db.refresh(db_document)
+    return db_document
+
+
+def delete_document(db: Session, document_id: int) -> bool:
+    db_document = get_document(db, document_id)
+    if not db_document:
+        return False
+    db.delete(db_document)
+    db.commit()
+    return True
+
+
+AGEING_BUCKETS = [(30, "0-30"), (60, "31-60"), (90, "61-90"), (None, "90+")]
+
+
+def ageing_bucket(days: int) -> str:
+    """Ageing bucket label for a balance outstanding this many days"""
+    for limit, label in AGEING_BUCKETS:
+        if limit is None or days <= limit:
+            return label
+    return AGEING_BUCKETS[-1][1]
+
+
+def _contract_totals(db: Session, record_ids: Optional[list[int]] = None) -> dict[int, float]:
+    """AMC / extended warranty contract value per record"""
+    query = db.query(ServiceContract.record_id, func.sum(ServiceContract.price)).filter(ServiceContract.price.isnot(None))
+    if record_ids is not None:
+        query = query.filter(ServiceContract.record_id.in_(record_ids))
+    return {record_id: float(total) for record_id, total in query.group_by(ServiceContract.record_id)}
+
+
+def _payment_totals(db: Session, record_ids: Optional[list[int]] = None) -> dict[int, tuple[float, date]]:
+    """Amount collected and the latest payment date per record"""
+    query = db.query(Payment.record_id, func.sum(Payment.amount), func.max(Payment.paid_on))
+    if record_ids is not None:
+        query = query.filter(Payment.record_id.in_(record_ids))
+    return {record_id: (float(total), last_paid) for record_id, total, last_paid in query.group_by(Payment.record_id)}
+
+
+def has_payments(db: Session, record_id: int) -> bool:
+    """Whether any payment has been recorded against the record"""
+    return db.query(db.query(Payment).filter(Payment.record_id == record_id).exists()).scalar()
+
+
+def get_payments(db: Session, record_id: int) -> list[Payment]:
+    """Payments received for a record, latest first"""
+    return (
+        db.query(Payment)
+        .filter(Payment.record_id == record_id)
+        .order_by(desc(Payment.paid_on), desc(Payment.id))
+        .all()
+    )
+
+
+def get_payment(db: Session, payment_id: int) -> Optional[Payment]:
+    return db.query(Payment).filter(Payment.id == payment_id).first()
+
+
+def get_payment_ledger(db: Session, db_record: Record) -> dict:
+    """A record's payments with the amount billed, collected and still due"""
+    payments = get_payments(db, db_record.id)
+    billed = float(db_record.sale_price or 0) + _contract_totals(db, [db_record.id]).get(db_record.id, 0)
+    collected = sum(float(p.amount) for p in payments)
+    return {
+        "record_id": db_record.id,
+        "billed": billed,
+        "collected": collected,
+        "balance_due": billed - collected,
+        "payments": payments,
+    }
+
+
+def create_payment(db: Session, payment: PaymentCreate, actor: Optional[User] = None) -> Optional[Payment]:
+    """Record a payment received against a record"""
+    if not get_record(db, payment.record_id):
+        return None
+    db_payment = Payment(**payment.model_dump(), recorded_by=actor.display_name if actor else None)
+    db.add(db_payment)
+    db.commit()
+    db.refresh(db_payment)
+    return db_payment
+
+
+def update_payment(db: Session, payment_id: int, payment_update: PaymentUpdate) -> Optional[Payment]:
+    db_payment = get_payment(db, payment_id)
+    if not db_payment:
+        return None
+    for field, value in payment_update.model_dump(exclude_unset=True).items():
+        setattr(db_payment, field, value)
+    db_payment.updated_at = datetime.utcnow()
+    db.commit()
+    db.refresh(db_payment)
+    return db_payment
+
+
+def delete_payment(db: Session, payment_id: int) -> bool:
+    db_payment = get_payment(db, payment_id)
+    if not db_payment:
+        return False
+    db.delete(db_payment)
+    db.commit()
+    return True
+
+
+def get_receivables(db: Session, filters: Optional[RecordFilters] = None, as_of: Optional[date] = None) -> dict:
+    """
+    Records with a balance still due, oldest first, aged from the delivery date
+    (or the day the record was entered if it has not been delivered).
+    """
+    as_of = as_of or date.today()
+    query = active_records(db)
+    if filters:
+        query = apply_record_filters(query, filters)
+    records = query.all()
+    contracts = _contract_totals(db)
+    payments = _payment_totals(db)
+    
+    rows = []
+    total_billed = total_collected = 0.0
+    buckets = {label: 0.0 for _, label in AGEING_BUCKETS}
+    for record in records:
+        billed = float(record.sale_price or 0) + contracts.get(record.id, 0)
+        collected, last_paid = payments.get(record.id, (0.0, None))
+        total_billed += billed
+        total_collected += collected
+        balance = round(billed - collected, 2)
+        if balance <= 0:
+            continue
+        billed_on = record.date_of_delivery or record.created_at.date()
+        days = max(0, (as_of - billed_on).days)
+        bucket = ageing_bucket(days)
+        buckets[bucket] += balance
+        rows.append({
+            "record_id": record.id,
+            "record_code": record.record_id,
+            "client_name": record.client_name,
+            "client_phone": record.client_phone,
+            "zone": record.zone,
+            "sold_by": record.sold_by,
+            "billed_on": billed_on,
+            "billed": billed,
+            "collected": collected,
+            "balance_due": balance,
+            "last_payment_on": last_paid,
+            "days_outstanding": days,
+            "bucket": bucket,
+        })
+    rows.sort(key=lambda row: (-row["days_outstanding"], -row["balance_due"]))
+    return {
+        "rows": rows,
+        "buckets": buckets,
+        "total_billed": total_billed,
+        "total_collected": total_collected,
+        "total_outstanding": sum(buckets.values()),
+    }
+
+
+def get_sales_targets(db: Session, period_type: str, start: date, scope: Optional[str] = None) -> list[SalesTarget]:
+    """Targets for one month or quarter, by name"""
+    query = db.query(SalesTarget).filter(
+        SalesTarget.period_type == period_type,
+        SalesTarget.period_start == period_start(period_type, start)
+    )
+    if scope:
+        query = query.filter(SalesTarget.scope == scope)
+    return query.order_by(SalesTarget.scope, SalesTarget.name).all()
+
+
+def set_sales_targets(db: Session, update: SalesTargetPeriodUpdate, actor: Optional[User] = None) -> list[SalesTarget]:
+    """Replace the targets of one scope for one period"""
+    start = period_start(update.period_type, update.period_start)
+    existing = {target.name: target for target in get_sales_targets(db, update.period_type, start, update.scope)}
+    wanted = {item.name.strip(): item.target_amount for item in update.targets if item.name.strip()}
+    for name, target in existing.items():
+        if name not in wanted:
+            db.delete(target)
+    for name, amount in wanted.items():
+        target = existing.get(name)
+        if target is None:
+            target = SalesTarget(period_type=update.period_type, period_start=start, scope=update.scope, name=name)
+            db.add(target)
+        elif float(target.target_amount) == amount:
+            continue
+        target.target_amount = amount
+        target.set_by = actor.display_name if actor else None
+        target.updated_at = datetime.utcnow()
+    db.commit()
+    return get_sales_targets(db, update.period_type, start, update.scope)
+
+
+def _achieved_by_period(db: Session, period_type: str, scope: str, start: date, end: date) -> dict[date, dict[str, float]]:
+    """
+    Revenue credited per period and salesperson or zone, the same way as the sales summary:
+    machine sales on their delivery date, contracts on their start date.
+    """
+    achieved = {}
+    
+    def credit(day: date, name: Optional[str], amount: float) -> None:
+        if not name:
+            return
+        totals = achieved.setdefault(period_start(period_type, day), {})
+        totals[name] = totals.get(name, 0) + amount
+    
+    records = active_records(db).filter(
+        Record.sale_price.isnot(None),
+        Record.date_of_delivery >= start,
+        Record.date_of_delivery < end
+    )
+    for record in records:
+        credit(record.date_of_delivery, record.sold_by if scope == "salesperson" else record.zone, float(record.sale_price))
+    contracts = db.query(ServiceContract).join(Record, ServiceContract.record_id == Record.id).filter(
+        Record.deleted_at.is_(None),
+        ServiceContract.price.isnot(None),
+        ServiceContract.start_date >= start,
+        ServiceContract.start_date < end
+    )
+    for contract in contracts:
+        # Credit whoever sold the contract, falling back to the original salesperson
+        name = (contract.sold_by or contract.record.sold_by) if scope == "salesperson" else contract.record.zone
+        credit(contract.start_date, name, float(contract.price))
+    return achieved
+
+
+def _attainment(achieved: float, target: Optional[float]) -> Optional[float]:
+    return round(achieved / target * 100, 1) if target else None
+
+
+def get_leaderboard(
+    db: Session, period_type: str, day: date, scope: str, trend_periods: int = 6, today: Optional[date] = None
+) -> dict:
+    """Attainment against target for every salesperson or zone in a period, ranked, with the periods before it"""
+    start = period_start(period_type, day)
+    end = period_end(period_type, start)
+    periods = [shift_period(period_type, start, offset) for offset in range(1 - trend_periods, 1)]
+    achieved = _achieved_by_period(db, period_type, scope, periods[0], end)
+    targets = {}
+    for target in db.query(SalesTarget).filter(
+        SalesTarget.period_type == period_type,
+        SalesTarget.scope == scope,
+        SalesTarget.period_start >= periods[0],
+        SalesTarget.period_start <= start
+    ):
+        targets[(target.period_start, target.name)] = float(target.target_amount)
+    
+    # Everyone with a target or sales this period, plus the names in settings so a quiet month still shows
+    settings = get_app_settings(db)
+    names = set(settings.salespeople if scope == "salesperson" else settings.zones)
+    names.update(name for period, name in targets if period == start)
+    names.update(achieved.get(start, {}))
+    
+    elapsed = elapsed_fraction(period_type, start, today)
+    rows = []
+    for name in names:
+        target = targets.get((start, name))
+        current = achieved.get(start, {}).get(name, 0)
+        attainment = _attainment(current, target)
+        rows.append({
+            "name": name,
+            "target": target,
+            "achieved": current,
+            "attainment": attainment,
+            "rank": None,
+            "status": attainment_status(attainment, elapsed),
+            "trend": [
+                {
+                    "period_start": period,
+                    "target": targets.get((period, name)),
+                    "achieved": achieved.get(period, {}).get(name, 0),
+                    "attainment": _attainment(achieved.get(period, {}).get(name, 0), targets.get((period, name))),
+                }
+                for period in periods
+            ],
+        })
+    
+    # Ranked by attainment; equal attainment shares a rank. Those without a target follow, by revenue.
+    rows.sort(key=lambda row: (row["attainment"] is None, -(row["attainment"] or 0), -row["achieved"], row["name"]))
+    for index, row in enumerate(rows):
+        if row["attainment"] is None:
+            break
+        previous = rows[index - 1] if index else None
+        row["rank"] = previous["rank"] if previous and previous["attainment"] == row["attainment"] else index + 1
+    
+    return {
+        "period_type": period_type,
+        "period_start": start,
+        "period_end": end - timedelta(days=1),
+        "scope": scope,
+        "elapsed_pct": round(elapsed * 100, 1),
+        "total_target": sum(row["target"] or 0 for row in rows),
+        "total_achieved": sum(row["achieved"] for row in rows),
+        "rows": rows,
+    }
+
@@ -1,28 +1,52 @@
-from fastapi import Depends, HTTPException, status
+from fastapi import Depends, HTTPException, Query, status
 from fastapi.security import HTTPBearer, HTTPAuthorizationCredentials
+from sqlalchemy.orm import Session
+from typing import Optional
+from datetime import datetime
+from app.database import get_db
 from app.security import verify_token
-from app.config import settings
+from app.models import User
+from app.schemas import RecordFilters, RecordSortField
+from app.crud import get_user
 
 security = HTTPBearer()
 
 
-def get_current_role(credentials: HTTPAuthorizationCredentials = Depends(security)) -> str:
-    """Extract role from JWT token"""
+def get_current_user(
+    credentials: HTTPAuthorizationCredentials = Depends(security),
+    db: Session = Depends(get_db)
+) -> User:
+    """Resolve the signed-in user from the JWT subject"""
     token = credentials.credentials
     payload = verify_token(token)
-    if payload is None:
+    if payload is None or payload.get("sub") is None:
         raise HTTPException(
             status_code=status.HTTP_401_UNAUTHORIZED,
             detail="Invalid authentication credentials",
             headers={"WWW-Authenticate": "Bearer"},
         )
-    role = payload.get("role")
-    if role not in ["maintenance", "sales"]:
+    try:
+        user_id = int(payload["sub"])
+    except (TypeError, ValueError):
+        user_id = None
+    user = get_user(db, user_id) if user_id is not None else None
+    if user is None or not user.is_active:
+        raise HTTPException(
+            status_code=status.HTTP_401_UNAUTHORIZED,
+            detail="Account not found or disabled",
+            headers={"WWW-Authenticate": "Bearer"},
+        )
+    return user
+
+
+def get_current_role(user: User = Depends(get_current_user)) -> str:
+    """Role of the signed-in user (read from the database, not the token)"""
+    if user.role not in ["maintenance", "sales", "admin"]:
         raise HTTPException(
             status_code=status.HTTP_403_FORBIDDEN,
             detail="Invalid role"
         )
-    return role
+    return user.role
 
 
 def require_maintenance(role: str = Depends(get_current_role)) -> str:
@@ -45,6 +69,99 @@ def require_sales(role: str = Depends(get_current_role)) -> str:
     return role
 
 
+def require_maintenance_view(role: str = Depends(get_current_role)) -> str:
+    """Require maintenance role, or admin for read-only access"""
+    if role not in ("maintenance", "admin"):
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail="Maintenance role required"
+        )
+    return role
+
+
+def require_sales_view(role: str = Depends(get_current_role)) -> str:
+    """Require sales role, or admin for read-only access"""
+    if role not in ("sales", "admin"):
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail="Sales role required"
+        )
+    return role
+
+
+def require_maintenance_or_sales(role: str = Depends(get_current_role)) -> str:
+    """Require maintenance or sales role (both teams take payments from clients)"""
+    if role not in ("maintenance", "sales"):
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail="Maintenance or sales role required"
+        )
+    return role
+
+
+def require_admin(user: User = Depends(get_current_user)) -> User:
+    """Require admin role"""
+    if user.role != "admin":
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail="Admin role required"
+        )
+    return user
+
+
 def require_any_role(role: str = Depends(get_current_role)) -> str:
-    """Allow either maintenance or sales role"""
+    """Allow any signed-in role"""
     return role
+
+
+def get_record_filters(
+    search: Optional[str] = Query(None, description="Search in record_id, name, phone, address"),
+    zone: list[str] = Query([], description="Repeat to match any of several values, e.g. zone=North&zone=South"),
+    capacity_kw: list[str] = Query([]),
+    heater: list[str] = Query([]),
+    controller: list[str] = Query([]),
+    card: list[str] = Query([]),
+    body: list[str] = Query([]),
+    sold_by: list[str] = Query([]),
+    lead_source: list[str] = Query([]),
+    price_min: Optional[float] = Query(None, ge=0),
+    price_max: Optional[float] = Query(None, ge=0),
+    capacity_min: Optional[float] = Query(None, ge=0, description="Lowest capacity in KW"),
+    capacity_max: Optional[float] = Query(None, ge=0, description="Highest capacity in KW"),
+    date_from: Optional[datetime] = Query(None, description="Delivered on or after"),
+    date_to: Optional[datetime] = Query(None, description="Delivered on or before"),
+    installation_from: Optional[datetime] = None,
+    installation_to: Optional[datetime] = None,
+    site_visit_from: Optional[datetime] = None,
+    site_visit_to: Optional[datetime] = None,
+    sort_by: Optional[RecordSortField] = Query(
+        None, description="Field to order results by (default: relevance when searching, else delivery date)"
+    ),
+    sort_desc: bool = Query(True, description="Descending order"),
+    ids: list[int] = Query([], description="Only these records (repeat), e.g. a selection being exported"),
+) -> RecordFilters:
+    """Collect the shared record filter query params into RecordFilters"""
+    return RecordFilters(
+        search=search,
+        zone=zone,
+        capacity_kw=capacity_kw,
+        heater=heater,
+        controller=controller,
+        card=card,
+        body=body,
+        sold_by=sold_by,
+        lead_source=lead_source,
+        price_min=price_min,
+        price_max=price_max,
+        capacity_min=capacity_min,
+        capacity_max=capacity_max,
+        date_from=date_from,
+        date_to=date_to,
+        installation_from=installation_from,
+        installation_to=installation_to,
+        site_visit_from=site_visit_from,
+        site_visit_to=site_visit_to,
+        sort_by=sort_by,
+        sort_desc=sort_desc,
+        ids=ids
+    )
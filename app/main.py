@@ -1,15 +1,26 @@
+import asyncio
+import logging
 from fastapi import FastAPI
 from fastapi.middleware.cors import CORSMiddleware
-from app.routers import auth, records, sales, export, filters
-from app.database import engine, Base
-from app.models import Record  # Import models to register with Base
+from app.routers import auth, records, sales, export, filters, users, settings as settings_router, warranty_policies, contracts, visits, tickets, imports, clients, saved_filters, preferences, reminders, leads, documents, payments, targets
+from app.database import engine, Base, SessionLocal
+from app.models import Record, User, AppSetting, RecordChange, WarrantyPolicy, ServiceContract, ServiceVisit, Ticket, Client, SavedFilter, UserPreference, ReminderMessage, Lead, RecordDocument, Payment, SalesTarget  # Import models to register with Base
+from app.config import settings
+from app.crud import ensure_admin_user, get_app_settings, run_warranty_reminders
+from app.utils.search import ensure_search_index
 
 # Create database tables
 Base.metadata.create_all(bind=engine)
+with engine.begin() as connection:
+    ensure_search_index(connection)
+
+# Seed the first admin account so user management is reachable on a fresh install
+with SessionLocal() as db:
+    ensure_admin_user(db, settings.admin_username, settings.admin_password, settings.admin_display_name)
 
 app = FastAPI(
     title="Maintenance CRM + Sales Report CRM",
-    description="FastAPI backend for Maintenance CRM and Sales Report CRM with two-passcode authentication",
+    description="FastAPI backend for Maintenance CRM and Sales Report CRM with per-user accounts",
     version="1.0.0"
 )
 
@@ -38,6 +49,48 @@ app.include_router(records.router)
 app.include_router(sales.router)
 app.include_router(export.router)
 app.include_router(filters.router)
+app.include_router(users.router)
+app.include_router(settings_router.router)
+app.include_router(warranty_policies.router)
+app.include_router(contracts.router)
+app.include_router(visits.router)
+app.include_router(tickets.router)
+app.include_router(imports.router)
+app.include_router(clients.router)
+app.include_router(saved_filters.router)
+app.include_router(preferences.router)
+app.include_router(reminders.router)
+app.include_router(leads.router)
+app.include_router(documents.router)
+app.include_router(payments.router)
+app.include_router(targets.router)
+
+# Warranty reminders are queued and sent in the background while they are enabled in settings
+REMINDER_INTERVAL_SECONDS = 60 * 60
+logger = logging.getLogger(__name__)
+
+
+def _run_reminders_once():
+    with SessionLocal() as db:
+        if get_app_settings(db).reminders.enabled:
+            result = run_warranty_reminders(db)
+            if any(result.values()):
+                logger.info("Warranty reminders: %s", result)
+
+
+async def _reminder_loop():
+    while True:
+        try:
+            await asyncio.to_thread(_run_reminders_once)
+        except Exception:
+            # Keep the loop alive; the next run tries again
+            logger.exception("Warranty reminder run failed")
+        await asyncio.sleep(REMINDER_INTERVAL_SECONDS)
+
+
+@app.on_event("startup")
+async def start_reminder_loop():
+    asyncio.create_task(_reminder_loop())
 
 
 @app.get("/")
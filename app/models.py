@@ -1,8 +1,8 @@
 from sqlalchemy import (
-    Column, Integer, String, Text, DateTime, Date, Numeric, 
-    Index, func
+    Column, Integer, String, Text, DateTime, Date, Numeric, Boolean,
+    JSON, LargeBinary, ForeignKey, Index, func
 )
-from sqlalchemy.orm import Mapped, mapped_column
+from sqlalchemy.orm import Mapped, mapped_column, relationship
 from datetime import datetime, date
 from app.database import Base
 
@@ -33,7 +33,8 @@ class Record(Base):
     card: Mapped[str | None] = mapped_column(String(50), nullable=True)
     body: Mapped[str | None] = mapped_column(String(50), nullable=True)
     
-    # Client
+    # Client (details are copied from the linked client so filters, search and exports can read them directly)
+    client_id: Mapped[int | None] = mapped_column(Integer, ForeignKey("clients.id"), index=True, nullable=True)
     client_name: Mapped[str] = mapped_column(String(200), nullable=False)
     client_phone: Mapped[str | None] = mapped_column(String(20), nullable=True)
     client_address: Mapped[str | None] = mapped_column(Text, nullable=True)
@@ -47,6 +48,12 @@ class Record(Base):
     # Other
     remarks: Mapped[str | None] = mapped_column(Text, nullable=True)
     
+    # Soft delete (set while the record sits in the recycle bin)
+    deleted_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    deleted_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    
+    client: Mapped["Client"] = relationship(back_populates="records")
+    
     # Indexes
     __table_args__ = (
         Index('idx_client_phone', 'client_phone'),
@@ -59,4 +66,338 @@ class Record(Base):
         Index('idx_controller', 'controller'),
         Index('idx_card', 'card'),
         Index('idx_body', 'body'),
+        Index('idx_deleted_at', 'deleted_at'),
+    )
+
+
+class Client(Base):
+    __tablename__ = "clients"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    name: Mapped[str] = mapped_column(String(200), nullable=False)
+    phone: Mapped[str | None] = mapped_column(String(20), nullable=True)
+    address: Mapped[str | None] = mapped_column(Text, nullable=True)
+    zone: Mapped[str | None] = mapped_column(String(100), nullable=True)
+    email: Mapped[str | None] = mapped_column(String(200), nullable=True)  # for email reminders; not copied onto records
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    records: Mapped[list["Record"]] = relationship(back_populates="client")
+    
+    __table_args__ = (
+        Index('idx_client_name', 'name'),
+        Index('idx_client_phone_number', 'phone'),
+    )
+
+
+class User(Base):
+    __tablename__ = "users"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    username: Mapped[str] = mapped_column(String(100), unique=True, index=True, nullable=False)
+    display_name: Mapped[str] = mapped_column(String(200), nullable=False)
+    password_hash: Mapped[str] = mapped_column(String(255), nullable=False)
+    role: Mapped[str] = mapped_column(String(20), nullable=False)  # "maintenance", "sales", "admin"
+    is_active: Mapped[bool] = mapped_column(Boolean, default=True, nullable=False)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    last_login_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+
+
+class AppSetting(Base):
+    __tablename__ = "app_settings"
+    
+    # One row per settings section, value stored as JSON text
+    key: Mapped[str] = mapped_column(String(100), primary_key=True)
+    value: Mapped[str] = mapped_column(Text, nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    updated_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+
+
+class RecordChange(Base):
+    __tablename__ = "record_changes"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    # No foreign key: the trail must outlive a deleted record. Null once the record is purged,
+    # since SQLite can give its id to the next record; record_code still names it
+    record_id: Mapped[int | None] = mapped_column(Integer, index=True, nullable=True)
+    record_code: Mapped[str] = mapped_column(String(50), nullable=False)  # RMZ-000001 at the time of the change
+    action: Mapped[str] = mapped_column(String(20), nullable=False)  # "create", "update", "delete", "restore", "purge"
+    changes: Mapped[dict] = mapped_column(JSON, nullable=False)  # {field: {"old": ..., "new": ...}}
+    actor_id: Mapped[int | None] = mapped_column(Integer, nullable=True)
+    actor_name: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+
+
+class WarrantyPolicy(Base):
+    __tablename__ = "warranty_policies"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    name: Mapped[str] = mapped_column(String(200), nullable=False)
+    
+    # Match criteria (empty = any value)
+    capacity_kw: Mapped[str | None] = mapped_column(String(10), nullable=True)
+    heater: Mapped[str | None] = mapped_column(String(50), nullable=True)
+    controller: Mapped[str | None] = mapped_column(String(50), nullable=True)
+    
+    # Coverage
+    duration_days: Mapped[int] = mapped_column(Integer, nullable=False)
+    start_from: Mapped[str] = mapped_column(String(20), default="delivery", nullable=False)  # "delivery", "installation"
+    
+    is_active: Mapped[bool] = mapped_column(Boolean, default=True, nullable=False)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+
+
+class ServiceContract(Base):
+    __tablename__ = "service_contracts"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    contract_type: Mapped[str] = mapped_column(String(30), nullable=False)  # "amc", "extended_warranty"
+    
+    start_date: Mapped[date] = mapped_column(Date, nullable=False)
+    end_date: Mapped[date] = mapped_column(Date, nullable=False)
+    price: Mapped[float | None] = mapped_column(Numeric(10, 2), nullable=True)
+    coverage: Mapped[str | None] = mapped_column(Text, nullable=True)
+    renewal_status: Mapped[str] = mapped_column(String(20), default="pending", nullable=False)  # "pending", "renewed", "not_renewing"
+    sold_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    record: Mapped["Record"] = relationship()
+    
+    __table_args__ = (
+        Index('idx_contract_end_date', 'end_date'),
+    )
+
+
+class ServiceVisit(Base):
+    __tablename__ = "service_visits"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    
+    visit_date: Mapped[datetime] = mapped_column(DateTime, nullable=False)
+    technician: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    issue_reported: Mapped[str | None] = mapped_column(Text, nullable=True)
+    work_done: Mapped[str | None] = mapped_column(Text, nullable=True)
+    parts_replaced: Mapped[str | None] = mapped_column(Text, nullable=True)
+    charge: Mapped[float | None] = mapped_column(Numeric(10, 2), nullable=True)
+    under_warranty: Mapped[bool] = mapped_column(Boolean, default=False, nullable=False)
+    logged_by: Mapped[str | None] = mapped_column(String(200), nullable=True)  # display name of the user who logged it
+    
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    __table_args__ = (
+        Index('idx_visit_record_date', 'record_id', 'visit_date'),
+    )
+
+
+class Ticket(Base):
+    __tablename__ = "tickets"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    ticket_number: Mapped[str] = mapped_column(String(50), unique=True, index=True, nullable=False)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    
+    title: Mapped[str] = mapped_column(String(200), nullable=False)
+    description: Mapped[str | None] = mapped_column(Text, nullable=True)
+    priority: Mapped[str] = mapped_column(String(20), default="medium", nullable=False)  # "low", "medium", "high", "urgent"
+    status: Mapped[str] = mapped_column(String(20), default="open", nullable=False)  # see app/utils/tickets.py
+    technician: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    resolution: Mapped[str | None] = mapped_column(Text, nullable=True)
+    opened_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    
+    # SLA timestamps
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    due_at: Mapped[datetime] = mapped_column(DateTime, nullable=False)
+    assigned_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    started_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    resolved_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    closed_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    record: Mapped["Record"] = relationship()
+    
+    __table_args__ = (
+        Index('idx_ticket_status', 'status'),
+        Index('idx_ticket_technician', 'technician'),
+    )
+
+
+class SavedFilter(Base):
+    __tablename__ = "saved_filters"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    user_id: Mapped[int] = mapped_column(Integer, ForeignKey("users.id"), index=True, nullable=False)
+    name: Mapped[str] = mapped_column(String(100), nullable=False)
+    screen: Mapped[str] = mapped_column(String(20), nullable=False)  # "records", "sales"
+    # The filters as a URL query string, exactly as the screen puts them in its address
+    query: Mapped[str] = mapped_column(Text, nullable=False)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    __table_args__ = (
+        Index('idx_saved_filter_user_screen', 'user_id', 'screen'),
+    )
+
+
+class UserPreference(Base):
+    __tablename__ = "user_preferences"
+    
+    # One row per user and preference (e.g. "records_view"), value stored as JSON text
+    user_id: Mapped[int] = mapped_column(Integer, ForeignKey("users.id"), primary_key=True)
+    key: Mapped[str] = mapped_column(String(100), primary_key=True)
+    value: Mapped[str] = mapped_column(Text, nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+
+
+class ReminderMessage(Base):
+    __tablename__ = "reminder_messages"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    channel: Mapped[str] = mapped_column(String(20), nullable=False)  # "sms", "whatsapp", "email"
+    # Which reminder this is: the expiry it warns about and how many days ahead it was due
+    warranty_expiry: Mapped[date] = mapped_column(Date, nullable=False)
+    days_before: Mapped[int] = mapped_column(Integer, nullable=False)
+    
+    recipient: Mapped[str | None] = mapped_column(String(200), nullable=True)  # phone number or email address
+    subject: Mapped[str | None] = mapped_column(String(200), nullable=True)  # email only
+    body: Mapped[str] = mapped_column(Text, nullable=False)  # rendered from the template when queued
+    
+    # Delivery state: "queued" -> "sent" or "failed"; "cancelled" by staff
+    status: Mapped[str] = mapped_column(String(20), default="queued", nullable=False)
+    provider: Mapped[str | None] = mapped_column(String(50), nullable=True)
+    provider_message_id: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    error: Mapped[str | None] = mapped_column(Text, nullable=True)
+    attempts: Mapped[int] = mapped_column(Integer, default=0, nullable=False)
+    
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    sent_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    record: Mapped["Record"] = relationship()
+    
+    __table_args__ = (
+        Index('idx_reminder_status', 'status'),
+        # One message per record, channel and reminder step
+        Index('idx_reminder_unique', 'record_id', 'channel', 'warranty_expiry', 'days_before', unique=True),
     )
+
+
+class Lead(Base):
+    __tablename__ = "leads"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    lead_number: Mapped[str] = mapped_column(String(50), unique=True, index=True, nullable=False)
+    
+    # Enquiry
+    enquiry_date: Mapped[date] = mapped_column(Date, nullable=False)
+    source: Mapped[str | None] = mapped_column(String(200), nullable=True)  # becomes the record's lead_source
+    capacity_kw: Mapped[str | None] = mapped_column(String(10), nullable=True)  # requested capacity
+    notes: Mapped[str | None] = mapped_column(Text, nullable=True)
+    
+    # Contact (a prospect, not yet a client)
+    contact_name: Mapped[str] = mapped_column(String(200), nullable=False)
+    contact_phone: Mapped[str | None] = mapped_column(String(20), nullable=True)
+    contact_address: Mapped[str | None] = mapped_column(Text, nullable=True)
+    zone: Mapped[str | None] = mapped_column(String(100), nullable=True)
+    
+    # Pipeline
+    stage: Mapped[str] = mapped_column(String(20), default="new", nullable=False)  # see LeadStage in app/schemas.py
+    expected_value: Mapped[float | None] = mapped_column(Numeric(10, 2), nullable=True)
+    owner: Mapped[str | None] = mapped_column(String(200), nullable=True)  # salesperson; becomes the record's sold_by
+    lost_reason: Mapped[str | None] = mapped_column(Text, nullable=True)
+    closed_at: Mapped[datetime | None] = mapped_column(DateTime, nullable=True)  # set when won or lost
+    
+    # The record created from the lead once it was won
+    converted_record_id: Mapped[int | None] = mapped_column(Integer, ForeignKey("records.id"), nullable=True)
+    
+    created_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    converted_record: Mapped["Record"] = relationship()
+    
+    __table_args__ = (
+        Index('idx_lead_stage', 'stage'),
+        Index('idx_lead_owner', 'owner'),
+    )
+
+
+class RecordDocument(Base):
+    __tablename__ = "record_documents"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    doc_type: Mapped[str] = mapped_column(String(20), nullable=False)  # "quotation", "invoice"
+    number: Mapped[str] = mapped_column(String(50), unique=True, index=True, nullable=False)  # e.g. INV/2026-27/0001
+    issued_on: Mapped[date] = mapped_column(Date, nullable=False)
+    valid_until: Mapped[date | None] = mapped_column(Date, nullable=True)  # quotations only
+    
+    # Billed to, as printed on the document
+    client_name: Mapped[str] = mapped_column(String(200), nullable=False)
+    client_gstin: Mapped[str | None] = mapped_column(String(15), nullable=True)
+    place_of_supply: Mapped[str | None] = mapped_column(String(100), nullable=True)
+    
+    # Amounts: line items hold prices before GST ({description, hsn, quantity, unit_price, amount})
+    line_items: Mapped[list] = mapped_column(JSON, nullable=False)
+    gst_rate: Mapped[float] = mapped_column(Numeric(5, 2), nullable=False)
+    interstate: Mapped[bool] = mapped_column(Boolean, default=False, nullable=False)  # IGST instead of CGST + SGST
+    taxable_value: Mapped[float] = mapped_column(Numeric(12, 2), nullable=False)
+    cgst: Mapped[float] = mapped_column(Numeric(12, 2), default=0, nullable=False)
+    sgst: Mapped[float] = mapped_column(Numeric(12, 2), default=0, nullable=False)
+    igst: Mapped[float] = mapped_column(Numeric(12, 2), default=0, nullable=False)
+    total: Mapped[float] = mapped_column(Numeric(12, 2), nullable=False)
+    notes: Mapped[str | None] = mapped_column(Text, nullable=True)
+    
+    # The PDF as issued, so a reprint matches the original even after the record or settings change
+    pdf: Mapped[bytes] = mapped_column(LargeBinary, nullable=False, deferred=True)
+    
+    created_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+
+
+class Payment(Base):
+    __tablename__ = "payments"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    record_id: Mapped[int] = mapped_column(Integer, ForeignKey("records.id"), index=True, nullable=False)
+    
+    amount: Mapped[float] = mapped_column(Numeric(12, 2), nullable=False)
+    paid_on: Mapped[date] = mapped_column(Date, nullable=False)
+    mode: Mapped[str] = mapped_column(String(20), nullable=False)  # "cash", "upi", "bank_transfer", "cheque", "card"
+    reference: Mapped[str | None] = mapped_column(String(100), nullable=True)  # UTR, cheque number, receipt number
+    notes: Mapped[str | None] = mapped_column(Text, nullable=True)
+    recorded_by: Mapped[str | None] = mapped_column(String(200), nullable=True)  # display name of the user who entered it
+    
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    __table_args__ = (
+        Index('idx_payment_record_date', 'record_id', 'paid_on'),
+    )
+
+
+class SalesTarget(Base):
+    __tablename__ = "sales_targets"
+    
+    id: Mapped[int] = mapped_column(Integer, primary_key=True, index=True)
+    period_type: Mapped[str] = mapped_column(String(10), nullable=False)  # "month", "quarter"
+    period_start: Mapped[date] = mapped_column(Date, nullable=False)  # first day of the month or quarter
+    scope: Mapped[str] = mapped_column(String(20), nullable=False)  # "salesperson", "zone"
+    name: Mapped[str] = mapped_column(String(200), nullable=False)  # salesperson or zone, as on records
+    target_amount: Mapped[float] = mapped_column(Numeric(12, 2), nullable=False)
+    set_by: Mapped[str | None] = mapped_column(String(200), nullable=True)
+    
+    created_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), nullable=False)
+    updated_at: Mapped[datetime] = mapped_column(DateTime, default=func.now(), onupdate=func.now(), nullable=False)
+    
+    __table_args__ = (
+        Index('idx_target_period', 'period_type', 'period_start', 'scope', 'name', unique=True),
+    )
+
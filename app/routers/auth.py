@@ -1,31 +1,42 @@
-from fastapi import APIRouter, HTTPException, status
-from datetime import timedelta
-from app.schemas import LoginRequest, TokenResponse
+from fastapi import APIRouter, Depends, HTTPException, status
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import get_current_user
+from app.models import User
+from app.schemas import LoginRequest, TokenResponse, UserResponse
 from app.security import create_access_token
-from app.config import settings
+from app.crud import authenticate_user
 
 router = APIRouter(prefix="/auth", tags=["auth"])
 
 
 @router.post("/login", response_model=TokenResponse)
-async def login(request: LoginRequest):
-    """Login with passcode and get JWT token"""
-    role = None
-    
-    if request.passcode == settings.maintenance_passcode:
-        role = "maintenance"
-    elif request.passcode == settings.sales_passcode:
-        role = "sales"
-    else:
+def login(request: LoginRequest, db: Session = Depends(get_db)):
+    """Login with username and password and get JWT token"""
+    user = authenticate_user(db, request.username, request.password)
+    if not user:
         raise HTTPException(
             status_code=status.HTTP_401_UNAUTHORIZED,
-            detail="Invalid passcode"
+            detail="Invalid username or password"
         )
     
-    access_token = create_access_token(data={"role": role})
+    access_token = create_access_token(data={
+        "sub": str(user.id),
+        "role": user.role,
+        "name": user.display_name
+    })
     
     return TokenResponse(
         access_token=access_token,
         token_type="bearer",
-        role=role
+        role=user.role,
+        user_id=user.id,
+        username=user.username,
+        display_name=user.display_name
     )
+
+
+@router.get("/me", response_model=UserResponse)
+def get_me(user: User = Depends(get_current_user)):
+    """Get the signed-in user's account"""
+    return user
@@ -0,0 +1,80 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from app.database import get_db
+from app.dependencies import require_maintenance, require_maintenance_view, get_current_user
+from app.models import User
+from app.schemas import (
+    ClientUpdate, ClientResponse, ClientListResponse, ClientProfile,
+    DuplicateClientsResponse, ClientMergeRequest, ClientMergeResult
+)
+from app.crud import (
+    get_clients, get_client_profile, update_client, get_duplicate_clients, merge_clients
+)
+
+router = APIRouter(prefix="/clients", tags=["clients"])
+
+
+@router.get("", response_model=ClientListResponse)
+def list_clients(
+    search: Optional[str] = Query(None, description="Search name, phone and address"),
+    page: int = Query(1, ge=1),
+    page_size: int = Query(50, ge=1, le=100),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """List clients with at least one active record (maintenance only)"""
+    clients, total = get_clients(db, search, page, page_size)
+    return ClientListResponse(clients=clients, total=total, page=page, page_size=page_size)
+
+
+@router.get("/duplicates", response_model=DuplicateClientsResponse)
+def list_duplicate_clients(
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Probable duplicate clients by normalized phone and similar name/address (maintenance only)"""
+    groups = get_duplicate_clients(db)
+    return DuplicateClientsResponse(groups=groups, total=len(groups))
+
+
+@router.post("/merge", response_model=ClientMergeResult)
+def merge_clients_endpoint(
+    merge: ClientMergeRequest,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Fold several clients into one, keeping all of their records (maintenance only)"""
+    result = merge_clients(db, merge, actor=user)
+    if result is None:
+        raise HTTPException(status_code=404, detail="One or more clients not found")
+    return result
+
+
+@router.get("/{client_id}", response_model=ClientProfile)
+def get_client_profile_endpoint(
+    client_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Client profile with machines, service history and lifetime value (maintenance only)"""
+    profile = get_client_profile(db, client_id)
+    if not profile:
+        raise HTTPException(status_code=404, detail="Client not found")
+    return profile
+
+
+@router.patch("/{client_id}", response_model=ClientResponse)
+def update_client_endpoint(
+    client_id: int,
+    client_update: ClientUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Update a client's details on all of its records (maintenance only)"""
+    client = update_client(db, client_id, client_update, actor=user)
+    if not client:
+        raise HTTPException(status_code=404, detail="Client not found")
+    return client
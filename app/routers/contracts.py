@@ -0,0 +1,83 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from app.database import get_db
+from app.dependencies import require_maintenance, require_any_role
+from app.schemas import ServiceContractCreate, ServiceContractUpdate, ServiceContractResponse
+from app.crud import (
+    get_contracts, get_contract, get_contracts_expiring, create_contract, update_contract,
+    delete_contract, get_record
+)
+
+router = APIRouter(prefix="/contracts", tags=["contracts"])
+
+
+def _check_dates(start_date, end_date):
+    if start_date and end_date and end_date < start_date:
+        raise HTTPException(status_code=400, detail="End date must be on or after the start date")
+
+
+@router.get("", response_model=list[ServiceContractResponse])
+def list_contracts(
+    record_id: Optional[int] = Query(None, description="Only contracts for this record"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """List AMC / extended warranty contracts (any role)"""
+    return get_contracts(db, record_id)
+
+
+@router.get("/expiring", response_model=list[ServiceContractResponse])
+def list_expiring_contracts(
+    days: Optional[int] = Query(None, ge=1, le=365, description="Days until contract end (defaults to the warranty settings)"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """Running contracts ending within the specified days (any role)"""
+    return get_contracts_expiring(db, days)
+
+
+@router.post("", response_model=ServiceContractResponse, status_code=201)
+def create_contract_endpoint(
+    contract: ServiceContractCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Add a contract to a record (maintenance only)"""
+    if not get_record(db, contract.record_id):
+        raise HTTPException(status_code=404, detail="Record not found")
+    _check_dates(contract.start_date, contract.end_date)
+    return create_contract(db, contract)
+
+
+@router.patch("/{contract_id}", response_model=ServiceContractResponse)
+def update_contract_endpoint(
+    contract_id: int,
+    contract_update: ServiceContractUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Update a contract (maintenance only)"""
+    existing = get_contract(db, contract_id)
+    if not existing:
+        raise HTTPException(status_code=404, detail="Contract not found")
+    for field in ("contract_type", "start_date", "end_date", "renewal_status"):
+        if field in contract_update.model_fields_set and getattr(contract_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    _check_dates(
+        contract_update.start_date or existing.start_date,
+        contract_update.end_date or existing.end_date
+    )
+    return update_contract(db, contract_id, contract_update)
+
+
+@router.delete("/{contract_id}", status_code=204)
+def delete_contract_endpoint(
+    contract_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Delete a contract (maintenance only)"""
+    if not delete_contract(db, contract_id):
+        raise HTTPException(status_code=404, detail="Contract not found")
+    return None
@@ -0,0 +1,93 @@
+from fastapi import APIRouter, Depends, HTTPException, Query, Response
+from sqlalchemy.orm import Session
+from sqlalchemy.exc import IntegrityError
+from app.database import get_db
+from app.dependencies import require_maintenance, require_any_role, get_current_user
+from app.models import User
+from app.schemas import RecordDocumentCreate, RecordDocumentResponse, DocumentDraft
+from app.crud import get_documents, get_document, create_document, delete_document, get_record, get_app_settings
+from app.utils.documents import default_line_items
+
+router = APIRouter(prefix="/documents", tags=["documents"])
+
+
+@router.get("", response_model=list[RecordDocumentResponse])
+def list_documents(
+    record_id: int = Query(..., description="Record to list documents for"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """List quotations and invoices issued for a record, latest first (any role)"""
+    if not get_record(db, record_id):
+        raise HTTPException(status_code=404, detail="Record not found")
+    return get_documents(db, record_id)
+
+
+@router.get("/draft", response_model=DocumentDraft)
+def get_document_draft(
+    record_id: int = Query(...),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Line items from the record's machine and the default GST rate, to start a document from (maintenance only)"""
+    record = get_record(db, record_id)
+    if not record:
+        raise HTTPException(status_code=404, detail="Record not found")
+    company = get_app_settings(db).company
+    return DocumentDraft(line_items=default_line_items(record), gst_rate=company.gst_rate, place_of_supply=company.state or None)
+
+
+@router.post("", response_model=RecordDocumentResponse, status_code=201)
+def create_document_endpoint(
+    document: RecordDocumentCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Issue a quotation or tax invoice for a record (maintenance only)"""
+    record = get_record(db, document.record_id)
+    if not record:
+        raise HTTPException(status_code=404, detail="Record not found")
+    company = get_app_settings(db).company
+    if not company.name.strip():
+        raise HTTPException(status_code=400, detail="Set the company name for the letterhead in Settings first")
+    if document.doc_type == "invoice" and not company.gstin.strip():
+        raise HTTPException(status_code=400, detail="Set the company GSTIN in Settings before issuing a tax invoice")
+    try:
+        return create_document(db, record, document, company, actor=user)
+    except IntegrityError:
+        raise HTTPException(status_code=409, detail="Another document took this number at the same time; please issue it again")
+
+
+@router.get("/{document_id}/pdf")
+def download_document(
+    document_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """Download a document's PDF as it was issued (any role)"""
+    document = get_document(db, document_id)
+    if not document:
+        raise HTTPException(status_code=404, detail="Document not found")
+    filename = document.number.replace("/", "-")
+    return Response(
+        content=document.pdf,
+        media_type="application/pdf",
+        headers={"Content-Disposition": f"attachment; filename={filename}.pdf"}
+    )
+
+
+@router.delete("/{document_id}", status_code=204)
+def delete_document_endpoint(
+    document_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Delete a quotation; tax invoices stay so the numbering has no gaps (maintenance only)"""
+    document = get_document(db, document_id)
+    if not document:
+        raise HTTPException(status_code=404, detail="Document not found")
+    if document.doc_type == "invoice":
+        raise HTTPException(status_code=400, detail="A tax invoice cannot be deleted once issued")
+    delete_document(db, document_id)
+    return None
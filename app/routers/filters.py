@@ -15,15 +15,15 @@ def get_filter_options(
 ):
     """Get all available filter options from the database"""
     
-    # Get distinct values for each filter field
-    zones = [row[0] for row in db.query(distinct(Record.zone)).filter(Record.zone.isnot(None)).order_by(Record.zone).all()]
-    capacity_kw = [row[0] for row in db.query(distinct(Record.capacity_kw)).filter(Record.capacity_kw.isnot(None)).order_by(Record.capacity_kw).all()]
-    heaters = [row[0] for row in db.query(distinct(Record.heater)).filter(Record.heater.isnot(None)).order_by(Record.heater).all()]
-    controllers = [row[0] for row in db.query(distinct(Record.controller)).filter(Record.controller.isnot(None)).order_by(Record.controller).all()]
-    cards = [row[0] for row in db.query(distinct(Record.card)).filter(Record.card.isnot(None)).order_by(Record.card).all()]
-    bodies = [row[0] for row in db.query(distinct(Record.body)).filter(Record.body.isnot(None)).order_by(Record.body).all()]
-    sold_by = [row[0] for row in db.query(distinct(Record.sold_by)).filter(Record.sold_by.isnot(None)).order_by(Record.sold_by).all()]
-    lead_sources = [row[0] for row in db.query(distinct(Record.lead_source)).filter(Record.lead_source.isnot(None)).order_by(Record.lead_source).all()]
+    # Get distinct values for each filter field (records in the recycle bin are left out)
+    zones = [row[0] for row in db.query(distinct(Record.zone)).filter(Record.zone.isnot(None), Record.deleted_at.is_(None)).order_by(Record.zone).all()]
+    capacity_kw = [row[0] for row in db.query(distinct(Record.capacity_kw)).filter(Record.capacity_kw.isnot(None), Record.deleted_at.is_(None)).order_by(Record.capacity_kw).all()]
+    heaters = [row[0] for row in db.query(distinct(Record.heater)).filter(Record.heater.isnot(None), Record.deleted_at.is_(None)).order_by(Record.heater).all()]
+    controllers = [row[0] for row in db.query(distinct(Record.controller)).filter(Record.controller.isnot(None), Record.deleted_at.is_(None)).order_by(Record.controller).all()]
+    cards = [row[0] for row in db.query(distinct(Record.card)).filter(Record.card.isnot(None), Record.deleted_at.is_(None)).order_by(Record.card).all()]
+    bodies = [row[0] for row in db.query(distinct(Record.body)).filter(Record.body.isnot(None), Record.deleted_at.is_(None)).order_by(Record.body).all()]
+    sold_by = [row[0] for row in db.query(distinct(Record.sold_by)).filter(Record.sold_by.isnot(None), Record.deleted_at.is_(None)).order_by(Record.sold_by).all()]
+    lead_sources = [row[0] for row in db.query(distinct(Record.lead_source)).filter(Record.lead_source.isnot(None), Record.deleted_at.is_(None)).order_by(Record.lead_source).all()]
     
     return {
         "zones": zones,
@@ -0,0 +1,112 @@
+import json
+from fastapi import APIRouter, Depends, HTTPException, UploadFile, File, Form
+from sqlalchemy.exc import IntegrityError
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_maintenance, get_current_user
+from app.models import User
+from app.schemas import ImportPreview, ImportResult
+from app.crud import import_records, get_existing_record_ids
+from app.utils.import_utils import (
+    IMPORT_FIELDS, REQUIRED_FIELDS, ImportFileError, read_spreadsheet, suggest_mapping, validate_rows
+)
+
+router = APIRouter(prefix="/import", tags=["import"])
+
+MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+
+def _read_upload(file: UploadFile) -> tuple[list[str], list[dict[str, str]]]:
+    content = file.file.read(MAX_UPLOAD_BYTES + 1)
+    if len(content) > MAX_UPLOAD_BYTES:
+        raise HTTPException(status_code=400, detail="File is larger than 5 MB")
+    try:
+        return read_spreadsheet(file.filename or "", content)
+    except ImportFileError as exc:
+        raise HTTPException(status_code=400, detail=str(exc))
+
+
+@router.post("/preview", response_model=ImportPreview)
+def preview_import(
+    file: UploadFile = File(...),
+    role: str = Depends(require_maintenance)
+):
+    """Read an uploaded CSV/XLSX and suggest a column mapping (maintenance only)"""
+    headers, rows = _read_upload(file)
+    return ImportPreview(
+        filename=file.filename or "",
+        columns=headers,
+        row_count=len(rows),
+        sample_rows=rows[:5],
+        suggested_mapping=suggest_mapping(headers),
+        fields=IMPORT_FIELDS,
+        required_fields=list(REQUIRED_FIELDS)
+    )
+
+
+@router.post("/records", response_model=ImportResult)
+def import_records_endpoint(
+    file: UploadFile = File(...),
+    mapping: str = Form(..., description="JSON object of column name -> record field (or null to skip)"),
+    dry_run: bool = Form(True),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """
+    Validate and import records from a CSV/XLSX (maintenance only).
+    Nothing is created unless every row is valid; dry_run only validates.
+    """
+    try:
+        column_mapping = json.loads(mapping)
+    except json.JSONDecodeError:
+        raise HTTPException(status_code=400, detail="Column mapping is not valid JSON")
+    if not isinstance(column_mapping, dict):
+        raise HTTPException(status_code=400, detail="Column mapping must be an object")
+    unknown = {f for f in column_mapping.values() if f and f not in IMPORT_FIELDS}
+    if unknown:
+        raise HTTPException(status_code=400, detail=f"Unknown fields in mapping: {', '.join(sorted(unknown))}")
+    mapped_fields = [f for f in column_mapping.values() if f]
+    if len(mapped_fields) != len(set(mapped_fields)):
+        raise HTTPException(status_code=400, detail="Each field can only be mapped from one column")
+    missing = [f for f in REQUIRED_FIELDS if f not in mapped_fields]
+    if missing:
+        raise HTTPException(status_code=400, detail=f"Map a column to: {', '.join(missing)}")
+
+    headers, rows = _read_upload(file)
+    keep_ids = "record_id" in mapped_fields
+    valid_rows, errors = validate_rows(rows, column_mapping)
+
+    # Record IDs already in the database (checked once for the whole file)
+    taken = get_existing_record_ids(db, [r.record_id for _, r in valid_rows if r.record_id])
+    if taken:
+        for row_number, record in list(valid_rows):
+            if record.record_id in taken:
+                errors.append({
+                    "row": row_number, "field": "record_id",
+                    "message": f"Record ID {record.record_id} already exists"
+                })
+        valid_rows = [(n, r) for n, r in valid_rows if r.record_id not in taken]
+
+    errors.sort(key=lambda e: e["row"])
+    if errors and not dry_run:
+        raise HTTPException(
+            status_code=400,
+            detail=f"{len({e['row'] for e in errors})} rows have errors; nothing was imported. Fix them and run the dry run again."
+        )
+
+    try:
+        created = import_records(db, valid_rows, keep_ids=keep_ids, dry_run=dry_run, actor=user)
+    except IntegrityError:
+        # A generated record ID ran into one further down the file
+        raise HTTPException(
+            status_code=400,
+            detail="Record IDs in the file clash with generated ones; nothing was imported. Remove the record ID mapping or fill every row's ID."
+        )
+    return ImportResult(
+        dry_run=dry_run,
+        total_rows=len(rows),
+        valid_rows=len(valid_rows),
+        errors=errors,
+        created=created
+    )
@@ -0,0 +1,104 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from app.database import get_db
+from app.dependencies import require_sales, require_sales_view, get_current_user
+from app.models import User
+from app.schemas import LeadCreate, LeadUpdate, LeadResponse, LeadListResponse, RecordCreate, RecordResponse
+from app.crud import get_leads, get_lead, create_lead, update_lead, delete_lead, convert_lead, get_client
+
+router = APIRouter(prefix="/leads", tags=["leads"])
+
+
+@router.get("", response_model=LeadListResponse)
+def list_leads(
+    owner: Optional[str] = Query(None, description="Salesperson, or 'unassigned'"),
+    zone: Optional[str] = Query(None),
+    search: Optional[str] = Query(None, description="Lead number, contact name, phone or address"),
+    closed_days: Optional[int] = Query(90, ge=1, description="Only won and lost leads closed within this many days"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales_view)
+):
+    """List leads for the sales pipeline (sales or admin)"""
+    leads, total = get_leads(db, owner, zone, search, closed_days)
+    return {"leads": leads, "total": total}
+
+
+@router.get("/{lead_id}", response_model=LeadResponse)
+def get_lead_endpoint(
+    lead_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales_view)
+):
+    """Get a lead by ID (sales or admin)"""
+    lead = get_lead(db, lead_id)
+    if not lead:
+        raise HTTPException(status_code=404, detail="Lead not found")
+    return lead
+
+
+@router.post("", response_model=LeadResponse, status_code=201)
+def create_lead_endpoint(
+    lead: LeadCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales),
+    user: User = Depends(get_current_user)
+):
+    """Add an enquiry to the pipeline (sales only)"""
+    return create_lead(db, lead, actor=user)
+
+
+@router.patch("/{lead_id}", response_model=LeadResponse)
+def update_lead_endpoint(
+    lead_id: int,
+    lead_update: LeadUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales)
+):
+    """Update a lead or move it to another stage (sales only)"""
+    lead = get_lead(db, lead_id)
+    if not lead:
+        raise HTTPException(status_code=404, detail="Lead not found")
+    for field in ("enquiry_date", "contact_name", "stage"):
+        if field in lead_update.model_fields_set and getattr(lead_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    if lead.converted_record_id and lead_update.stage and lead_update.stage != "won":
+        raise HTTPException(status_code=400, detail="This lead already has a record and stays won")
+    return update_lead(db, lead_id, lead_update)
+
+
+@router.delete("/{lead_id}", status_code=204)
+def delete_lead_endpoint(
+    lead_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales)
+):
+    """Delete a lead (sales only)"""
+    lead = get_lead(db, lead_id)
+    if not lead:
+        raise HTTPException(status_code=404, detail="Lead not found")
+    if lead.converted_record_id:
+        raise HTTPException(status_code=400, detail="A lead that became a record cannot be deleted")
+    delete_lead(db, lead_id)
+    return None
+
+
+@router.post("/{lead_id}/convert", response_model=RecordResponse, status_code=201)
+def convert_lead_endpoint(
+    lead_id: int,
+    record: RecordCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales),
+    user: User = Depends(get_current_user)
+):
+    """Create the record for a won lead, usually from the form it prefilled (sales only)"""
+    lead = get_lead(db, lead_id)
+    if not lead:
+        raise HTTPException(status_code=404, detail="Lead not found")
+    if lead.stage != "won":
+        raise HTTPException(status_code=400, detail="Only a won lead can become a record")
+    if lead.converted_record_id:
+        raise HTTPException(status_code=400, detail="This lead already has a record")
+    if record.client_id is not None and not get_client(db, record.client_id):
+        raise HTTPException(status_code=400, detail="Client not found")
+    return convert_lead(db, lead, record, actor=user)
@@ -0,0 +1,65 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_maintenance_or_sales, require_any_role, get_current_user
+from app.models import User
+from app.schemas import PaymentCreate, PaymentUpdate, PaymentResponse, PaymentLedger
+from app.crud import get_payment_ledger, get_record, create_payment, update_payment, delete_payment
+
+router = APIRouter(prefix="/payments", tags=["payments"])
+
+
+@router.get("", response_model=PaymentLedger)
+def get_ledger(
+    record_id: int = Query(..., description="Record to show the ledger for"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """Payments for a record, latest first, with the balance due (any role)"""
+    record = get_record(db, record_id)
+    if not record:
+        raise HTTPException(status_code=404, detail="Record not found")
+    return get_payment_ledger(db, record)
+
+
+@router.post("", response_model=PaymentResponse, status_code=201)
+def create_payment_endpoint(
+    payment: PaymentCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_or_sales),
+    user: User = Depends(get_current_user)
+):
+    """Record a payment received (maintenance or sales)"""
+    db_payment = create_payment(db, payment, actor=user)
+    if not db_payment:
+        raise HTTPException(status_code=404, detail="Record not found")
+    return db_payment
+
+
+@router.patch("/{payment_id}", response_model=PaymentResponse)
+def update_payment_endpoint(
+    payment_id: int,
+    payment_update: PaymentUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_or_sales)
+):
+    """Correct a payment (maintenance or sales)"""
+    for field in ("amount", "paid_on", "mode"):
+        if field in payment_update.model_fields_set and getattr(payment_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    payment = update_payment(db, payment_id, payment_update)
+    if not payment:
+        raise HTTPException(status_code=404, detail="Payment not found")
+    return payment
+
+
+@router.delete("/{payment_id}", status_code=204)
+def delete_payment_endpoint(
+    payment_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_or_sales)
+):
+    """Delete a payment entered by mistake (maintenance or sales)"""
+    if not delete_payment(db, payment_id):
+        raise HTTPException(status_code=404, detail="Payment not found")
+    return None
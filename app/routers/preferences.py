@@ -0,0 +1,29 @@
+from fastapi import APIRouter, Depends
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import get_current_user
+from app.models import User
+from app.schemas import RecordsViewPreference
+from app.crud import get_user_preference, set_user_preference
+
+router = APIRouter(prefix="/preferences", tags=["preferences"])
+
+
+@router.get("/records-view", response_model=RecordsViewPreference)
+def get_records_view(
+    db: Session = Depends(get_db),
+    user: User = Depends(get_current_user)
+):
+    """The signed-in user's records list layout; cards until they choose otherwise (any role)"""
+    stored = get_user_preference(db, user, "records_view")
+    return RecordsViewPreference(**stored) if stored else RecordsViewPreference()
+
+
+@router.put("/records-view", response_model=RecordsViewPreference)
+def update_records_view(
+    preference: RecordsViewPreference,
+    db: Session = Depends(get_db),
+    user: User = Depends(get_current_user)
+):
+    """Save the signed-in user's records list layout (any role)"""
+    return set_user_preference(db, user, "records_view", preference.model_dump())
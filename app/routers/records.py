@@ -1,55 +1,190 @@
 from fastapi import APIRouter, Depends, HTTPException, Query
 from sqlalchemy.orm import Session
 from typing import Optional
-from datetime import datetime
+from datetime import date, timedelta
 from app.database import get_db
-from app.dependencies import require_maintenance
+from app.dependencies import require_maintenance, require_maintenance_view, get_current_user, get_record_filters
+from app.models import User
 from app.schemas import (
     RecordCreate, RecordUpdate, RecordResponse, RecordListResponse,
-    RecordFilters, RecordWithWarranty, WarrantySummary
+    RecordBatchUpdate, RecordBatchDelete, RecordFilters, WarrantySummary, RecordChangeResponse, ScheduleResponse
 )
 from app.crud import (
-    create_record, get_record, update_record, delete_record,
+    create_record, get_record, update_record, delete_record, update_records, delete_records,
     get_records, get_records_out_of_warranty, get_records_expiring_soon,
-    get_warranty_summary, get_records_by_client_phone
+    get_warranty_summary, get_records_by_client_phone, attach_warranty,
+    get_record_history, get_deleted_records, get_deleted_record, restore_record, purge_record,
+    get_schedule, get_client, has_invoices, has_payments, count_client_spillover
 )
-from app.utils.warranty import get_warranty_status
 
 router = APIRouter(prefix="/records", tags=["records"])
 
 
+def _check_client(db: Session, client_id: Optional[int]):
+    if client_id is not None and not get_client(db, client_id):
+        raise HTTPException(status_code=400, detail="Client not found")
+
+
 @router.post("", response_model=RecordResponse, status_code=201)
 def create_record_endpoint(
     record: RecordCreate,
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
 ):
     """Create a new record (maintenance only)"""
-    return create_record(db, record)
+    _check_client(db, record.client_id)
+    return create_record(db, record, actor=user)
+
+
+@router.get("/deleted", response_model=RecordListResponse)
+def list_deleted_records(
+    page: int = Query(1, ge=1),
+    page_size: int = Query(50, ge=1, le=100),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """List records in the recycle bin (maintenance only)"""
+    records, total = get_deleted_records(db, page, page_size)
+    
+    return RecordListResponse(
+        records=records,
+        total=total,
+        page=page,
+        page_size=page_size
+    )
+
+
+@router.get("/schedule", response_model=ScheduleResponse)
+def get_schedule_endpoint(
+    date_from: date = Query(..., description="First day of the range"),
+    date_to: date = Query(..., description="Last day of the range (inclusive)"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Installations and site visits planned in a date range, per technician (maintenance only)"""
+    if date_to < date_from:
+        raise HTTPException(status_code=400, detail="date_to must be on or after date_from")
+    if date_to - date_from > timedelta(days=62):
+        raise HTTPException(status_code=400, detail="Schedule range cannot exceed 62 days")
+    return get_schedule(db, date_from, date_to)
+
+
+@router.patch("/batch", response_model=list[RecordResponse])
+def update_records_endpoint(
+    batch: RecordBatchUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Apply one change to several records; all are updated or none are (maintenance only)"""
+    changes = batch.changes.model_dump(exclude_unset=True)
+    if not changes and not batch.append_remark:
+        raise HTTPException(status_code=400, detail="No changes given")
+    if "record_id" in changes and len(set(batch.ids)) > 1:
+        raise HTTPException(status_code=400, detail="Record ID is unique and cannot be set on several records")
+    if "date_of_delivery" in changes and changes["date_of_delivery"] is None:
+        raise HTTPException(status_code=400, detail="Delivery date cannot be cleared")
+    if "client_name" in changes and not (changes["client_name"] or "").strip():
+        raise HTTPException(status_code=400, detail="Client name cannot be cleared")
+    _check_client(db, batch.changes.client_id)
+    if not batch.include_client_records:
+        others = count_client_spillover(db, batch)
+        if others:
+            raise HTTPException(
+                status_code=409,
+                detail=f"Client details are shared by all of a client's records, so this also changes {others} unselected "
+                       f"{'record' if others == 1 else 'records'} of the same {'client' if others == 1 else 'clients'}"
+            )
+    records = update_records(db, batch, actor=user)
+    if records is None:
+        raise HTTPException(status_code=404, detail="One or more records not found")
+    return records
+
+
+@router.post("/batch/delete", status_code=204)
+def delete_records_endpoint(
+    batch: RecordBatchDelete,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Move several records to the recycle bin together (maintenance only)"""
+    if not delete_records(db, batch.ids, actor=user):
+        raise HTTPException(status_code=404, detail="One or more records not found")
+    return None
+
+
+@router.post("/{record_id}/restore", response_model=RecordResponse)
+def restore_record_endpoint(
+    record_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Restore a record from the recycle bin (maintenance only)"""
+    record = restore_record(db, record_id, actor=user)
+    if not record:
+        raise HTTPException(status_code=404, detail="Deleted record not found")
+    return record
+
+
+@router.delete("/{record_id}/purge", status_code=204)
+def purge_record_endpoint(
+    record_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Permanently delete a record from the recycle bin (maintenance only)"""
+    if not get_deleted_record(db, record_id):
+        raise HTTPException(status_code=404, detail="Deleted record not found")
+    if has_invoices(db, record_id):
+        raise HTTPException(status_code=400, detail="A record with a tax invoice cannot be purged, so the invoice numbering has no gaps")
+    if has_payments(db, record_id):
+        raise HTTPException(status_code=400, detail="A record with payments recorded against it cannot be purged")
+    purge_record(db, record_id, actor=user)
+    return None
 
 
 @router.get("/{record_id}", response_model=RecordResponse)
 def get_record_endpoint(
     record_id: int,
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """Get a record by ID (maintenance only)"""
     record = get_record(db, record_id)
     if not record:
         raise HTTPException(status_code=404, detail="Record not found")
+    attach_warranty(db, [record])
     return record
 
 
+@router.get("/{record_id}/history", response_model=list[RecordChangeResponse])
+def get_record_history_endpoint(
+    record_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Get the change log of a record, newest first (maintenance only)"""
+    history = get_record_history(db, record_id)
+    if not history and not get_record(db, record_id, include_deleted=True):
+        raise HTTPException(status_code=404, detail="Record not found")
+    return history
+
+
 @router.patch("/{record_id}", response_model=RecordResponse)
 def update_record_endpoint(
     record_id: int,
     record_update: RecordUpdate,
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
 ):
     """Update a record (maintenance only)"""
-    record = update_record(db, record_id, record_update)
+    _check_client(db, record_update.client_id)
+    record = update_record(db, record_id, record_update, actor=user)
     if not record:
         raise HTTPException(status_code=404, detail="Record not found")
     return record
@@ -59,10 +194,11 @@ def update_record_endpoint(
 def delete_record_endpoint(
     record_id: int,
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
 ):
-    """Delete a record (maintenance only)"""
-    success = delete_record(db, record_id)
+    """Move a record to the recycle bin (maintenance only)"""
+    success = delete_record(db, record_id, actor=user)
     if not success:
         raise HTTPException(status_code=404, detail="Record not found")
     return None
@@ -70,36 +206,14 @@ def delete_record_endpoint(
 
 @router.get("", response_model=RecordListResponse)
 def list_records(
-    search: Optional[str] = Query(None, description="Search in record_id, name, phone, address"),
-    zone: Optional[str] = None,
-    capacity_kw: Optional[str] = None,
-    heater: Optional[str] = None,
-    controller: Optional[str] = None,
-    card: Optional[str] = None,
-    body: Optional[str] = None,
-    sold_by: Optional[str] = None,
-    lead_source: Optional[str] = None,
+    filters: RecordFilters = Depends(get_record_filters),
     page: int = Query(1, ge=1),
-    page_size: int = Query(50, ge=1, le=100),
-    sort_by: str = Query("date_of_delivery"),
-    sort_desc: bool = Query(True),
+    page_size: int = Query(50, ge=1, le=500),  # the table view shows long pages
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """List records with search, filters, and pagination (maintenance only)"""
-    filters = RecordFilters(
-        search=search,
-        zone=zone,
-        capacity_kw=capacity_kw,
-        heater=heater,
-        controller=controller,
-        card=card,
-        body=body,
-        sold_by=sold_by,
-        lead_source=lead_source
-    )
-    
-    records, total = get_records(db, filters, page, page_size, sort_by, sort_desc)
+    records, total = get_records(db, filters, page, page_size)
     
     return RecordListResponse(
         records=records,
@@ -114,7 +228,7 @@ def get_out_of_warranty(
     page: int = Query(1, ge=1),
     page_size: int = Query(50, ge=1, le=100),
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """Get records that are out of warranty (maintenance only)"""
     records, total = get_records_out_of_warranty(db, page, page_size)
@@ -129,11 +243,11 @@ def get_out_of_warranty(
 
 @router.get("/warranty/expiring-soon", response_model=RecordListResponse)
 def get_expiring_soon(
-    days: int = Query(30, ge=1, le=365, description="Days until expiry"),
+    days: Optional[int] = Query(None, ge=1, le=365, description="Days until expiry (defaults to the warranty settings)"),
     page: int = Query(1, ge=1),
     page_size: int = Query(50, ge=1, le=100),
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """Get records expiring soon (maintenance only)"""
     records, total = get_records_expiring_soon(db, days, page, page_size)
@@ -148,9 +262,9 @@ def get_expiring_soon(
 
 @router.get("/warranty/summary", response_model=WarrantySummary)
 def get_warranty_summary_endpoint(
-    days: int = Query(30, ge=1, le=365, description="Days for expiring soon threshold"),
+    days: Optional[int] = Query(None, ge=1, le=365, description="Days for expiring soon threshold (defaults to the warranty settings)"),
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """Get warranty summary counts (maintenance only)"""
     summary = get_warranty_summary(db, days)
@@ -163,7 +277,7 @@ def get_client_history(
     exclude_id: Optional[int] = Query(None, description="Record ID to exclude from results"),
     limit: int = Query(10, ge=1, le=50, description="Maximum number of records to return"),
     db: Session = Depends(get_db),
-    role: str = Depends(require_maintenance)
+    role: str = Depends(require_maintenance_view)
 ):
     """Get history of records for a specific client phone number (maintenance only)"""
     records = get_records_by_client_phone(db, client_phone, exclude_id=exclude_id, limit=limit)
@@ -0,0 +1,61 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from app.database import get_db
+from app.dependencies import require_maintenance, require_maintenance_view
+from app.schemas import ReminderListResponse, ReminderMessageResponse, ReminderRunResult, ReminderStatus
+from app.crud import get_reminders, get_reminder, run_warranty_reminders, retry_reminder, cancel_reminder
+
+router = APIRouter(prefix="/reminders", tags=["reminders"])
+
+
+@router.get("", response_model=ReminderListResponse)
+def list_reminders(
+    status: Optional[ReminderStatus] = Query(None, description="Only messages in this delivery state"),
+    page: int = Query(1, ge=1),
+    page_size: int = Query(50, ge=1, le=100),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """List warranty reminder messages, newest first (maintenance only)"""
+    messages, total, counts = get_reminders(db, status, page, page_size)
+    return ReminderListResponse(messages=messages, total=total, page=page, page_size=page_size, counts=counts)
+
+
+@router.post("/run", response_model=ReminderRunResult)
+def run_reminders_endpoint(
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Queue the warranty reminders now due and send the queue, without waiting for the hourly run (maintenance or admin)"""
+    return run_warranty_reminders(db)
+
+
+@router.post("/{reminder_id}/retry", response_model=ReminderMessageResponse)
+def retry_reminder_endpoint(
+    reminder_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Send a failed or cancelled reminder again (maintenance only)"""
+    message = get_reminder(db, reminder_id)
+    if not message:
+        raise HTTPException(status_code=404, detail="Reminder not found")
+    if message.status not in ("failed", "cancelled"):
+        raise HTTPException(status_code=400, detail="Only failed or cancelled reminders can be retried")
+    return retry_reminder(db, message)
+
+
+@router.post("/{reminder_id}/cancel", response_model=ReminderMessageResponse)
+def cancel_reminder_endpoint(
+    reminder_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Stop a queued or failed reminder from being sent (maintenance only)"""
+    message = get_reminder(db, reminder_id)
+    if not message:
+        raise HTTPException(status_code=404, detail="Reminder not found")
+    if message.status not in ("queued", "failed"):
+        raise HTTPException(status_code=400, detail="Only queued or failed reminders can be cancelled")
+    return cancel_reminder(db, message)
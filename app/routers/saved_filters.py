@@ -0,0 +1,44 @@
+from typing import Optional
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import get_current_user
+from app.models import User
+from app.schemas import SavedFilterCreate, SavedFilterResponse, SavedFilterScreen
+from app.crud import get_saved_filters, save_filter, delete_saved_filter
+
+router = APIRouter(prefix="/saved-filters", tags=["saved-filters"])
+
+
+@router.get("", response_model=list[SavedFilterResponse])
+def list_saved_filters(
+    screen: Optional[SavedFilterScreen] = None,
+    db: Session = Depends(get_db),
+    user: User = Depends(get_current_user)
+):
+    """The signed-in user's saved filter views (any role)"""
+    return get_saved_filters(db, user, screen)
+
+
+@router.post("", response_model=SavedFilterResponse, status_code=201)
+def create_saved_filter(
+    saved_filter: SavedFilterCreate,
+    db: Session = Depends(get_db),
+    user: User = Depends(get_current_user)
+):
+    """Save the current filters under a name, replacing a view with the same name (any role)"""
+    if not saved_filter.name.strip():
+        raise HTTPException(status_code=400, detail="Name is required")
+    return save_filter(db, user, saved_filter)
+
+
+@router.delete("/{filter_id}", status_code=204)
+def delete_saved_filter_endpoint(
+    filter_id: int,
+    db: Session = Depends(get_db),
+    user: User = Depends(get_current_user)
+):
+    """Delete one of the signed-in user's saved filter views (any role)"""
+    if not delete_saved_filter(db, user, filter_id):
+        raise HTTPException(status_code=404, detail="Saved filter not found")
+    return None
@@ -0,0 +1,28 @@
+from fastapi import APIRouter, Depends
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_admin, require_any_role
+from app.models import User
+from app.schemas import AppSettings
+from app.crud import get_app_settings, update_app_settings
+
+router = APIRouter(prefix="/settings", tags=["settings"])
+
+
+@router.get("", response_model=AppSettings)
+def get_settings_endpoint(
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """Get zones, staff lists and warranty policy (any role)"""
+    return get_app_settings(db)
+
+
+@router.put("", response_model=AppSettings)
+def update_settings_endpoint(
+    new_settings: AppSettings,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Replace zones, staff lists and warranty policy (admin only)"""
+    return update_app_settings(db, new_settings, admin.display_name)
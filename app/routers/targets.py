@@ -0,0 +1,46 @@
+from fastapi import APIRouter, Depends, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from datetime import date
+from app.database import get_db
+from app.dependencies import require_admin, require_sales_view
+from app.models import User
+from app.schemas import SalesTargetPeriodUpdate, SalesTargetResponse, Leaderboard, TargetPeriod, TargetScope
+from app.crud import get_sales_targets, set_sales_targets, get_leaderboard
+
+router = APIRouter(prefix="/targets", tags=["targets"])
+
+
+@router.get("", response_model=list[SalesTargetResponse])
+def list_targets(
+    period_type: TargetPeriod = Query("month"),
+    period_start: date = Query(..., description="Any day in the month or quarter"),
+    scope: Optional[TargetScope] = Query(None),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales_view)
+):
+    """Sales targets for one month or quarter (sales or admin)"""
+    return get_sales_targets(db, period_type, period_start, scope)
+
+
+@router.put("", response_model=list[SalesTargetResponse])
+def set_targets(
+    update: SalesTargetPeriodUpdate,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Set the salesperson or zone targets for a period, replacing the ones there (admin only)"""
+    return set_sales_targets(db, update, actor=admin)
+
+
+@router.get("/leaderboard", response_model=Leaderboard)
+def get_leaderboard_endpoint(
+    period_type: TargetPeriod = Query("month"),
+    period_start: Optional[date] = Query(None, description="Any day in the period; defaults to the current one"),
+    scope: TargetScope = Query("salesperson"),
+    trend_periods: int = Query(6, ge=1, le=12, description="Periods shown in each trend, ending with this one"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_sales_view)
+):
+    """Attainment against target, rank and trend per salesperson or zone (sales or admin)"""
+    return get_leaderboard(db, period_type, period_start or date.today(), scope, trend_periods)
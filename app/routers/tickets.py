@@ -0,0 +1,77 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from typing import Optional
+from app.database import get_db
+from app.dependencies import require_maintenance, require_maintenance_view, get_current_user
+from app.models import User
+from app.schemas import TicketCreate, TicketUpdate, TicketResponse, TicketListResponse
+from app.crud import get_tickets, get_ticket, get_record, create_ticket, update_ticket
+from app.utils.tickets import can_transition
+
+router = APIRouter(prefix="/tickets", tags=["tickets"])
+
+
+@router.get("", response_model=TicketListResponse)
+def list_tickets(
+    status: Optional[list[str]] = Query(None, description="One or more statuses"),
+    zone: Optional[str] = Query(None, description="Zone of the ticket's record"),
+    technician: Optional[str] = Query(None, description="Assigned technician, or 'unassigned'"),
+    priority: Optional[str] = Query(None),
+    record_id: Optional[int] = Query(None),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """List service tickets with filters (maintenance or admin)"""
+    tickets, total = get_tickets(db, status, zone, technician, priority, record_id)
+    return {"tickets": tickets, "total": total}
+
+
+@router.get("/{ticket_id}", response_model=TicketResponse)
+def get_ticket_endpoint(
+    ticket_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance_view)
+):
+    """Get a ticket by ID (maintenance or admin)"""
+    ticket = get_ticket(db, ticket_id)
+    if not ticket:
+        raise HTTPException(status_code=404, detail="Ticket not found")
+    return ticket
+
+
+@router.post("", response_model=TicketResponse, status_code=201)
+def create_ticket_endpoint(
+    ticket: TicketCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Raise a ticket against a record (maintenance only)"""
+    if not get_record(db, ticket.record_id):
+        raise HTTPException(status_code=404, detail="Record not found")
+    return create_ticket(db, ticket, actor=user)
+
+
+@router.patch("/{ticket_id}", response_model=TicketResponse)
+def update_ticket_endpoint(
+    ticket_id: int,
+    ticket_update: TicketUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance)
+):
+    """Update a ticket or move it along its workflow (maintenance only)"""
+    ticket = get_ticket(db, ticket_id)
+    if not ticket:
+        raise HTTPException(status_code=404, detail="Ticket not found")
+    for field in ("title", "priority", "status"):
+        if field in ticket_update.model_fields_set and getattr(ticket_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    if ticket_update.status and not can_transition(ticket.status, ticket_update.status):
+        raise HTTPException(
+            status_code=400,
+            detail=f"Cannot move a ticket from {ticket.status} to {ticket_update.status}"
+        )
+    technician = ticket_update.technician if "technician" in ticket_update.model_fields_set else ticket.technician
+    if ticket_update.status in ("assigned", "in_progress") and not technician:
+        raise HTTPException(status_code=400, detail="Assign a technician first")
+    return update_ticket(db, ticket_id, ticket_update)
@@ -0,0 +1,46 @@
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_admin
+from app.models import User
+from app.schemas import UserCreate, UserUpdate, UserResponse
+from app.crud import get_users, get_user_by_username, create_user, update_user
+
+router = APIRouter(prefix="/users", tags=["users"])
+
+
+@router.get("", response_model=list[UserResponse])
+def list_users(
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """List user accounts (admin only)"""
+    return get_users(db)
+
+
+@router.post("", response_model=UserResponse, status_code=201)
+def create_user_endpoint(
+    user: UserCreate,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Create a user account (admin only)"""
+    if get_user_by_username(db, user.username):
+        raise HTTPException(status_code=400, detail="Username already exists")
+    return create_user(db, user)
+
+
+@router.patch("/{user_id}", response_model=UserResponse)
+def update_user_endpoint(
+    user_id: int,
+    user_update: UserUpdate,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Update, disable or reset the password of a user account (admin only)"""
+    if user_id == admin.id and (user_update.is_active is False or (user_update.role and user_update.role != "admin")):
+        raise HTTPException(status_code=400, detail="You cannot disable or demote your own account")
+    user = update_user(db, user_id, user_update)
+    if not user:
+        raise HTTPException(status_code=404, detail="User not found")
+    return user
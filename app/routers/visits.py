@@ -0,0 +1,66 @@
+from fastapi import APIRouter, Depends, HTTPException, Query
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_maintenance, require_any_role, get_current_user
+from app.models import User
+from app.schemas import ServiceVisitCreate, ServiceVisitUpdate, ServiceVisitResponse
+from app.crud import get_visits, get_record, create_visit, update_visit, delete_visit
+
+router = APIRouter(prefix="/visits", tags=["visits"])
+
+
+@router.get("", response_model=list[ServiceVisitResponse])
+def list_visits(
+    record_id: int = Query(..., description="Record to list visits for"),
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """List service visits for a record, latest first (any role)"""
+    if not get_record(db, record_id):
+        raise HTTPException(status_code=404, detail="Record not found")
+    return get_visits(db, record_id)
+
+
+@router.post("", response_model=ServiceVisitResponse, status_code=201)
+def create_visit_endpoint(
+    visit: ServiceVisitCreate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Log a service visit (maintenance only)"""
+    db_visit = create_visit(db, visit, actor=user)
+    if not db_visit:
+        raise HTTPException(status_code=404, detail="Record not found")
+    return db_visit
+
+
+@router.patch("/{visit_id}", response_model=ServiceVisitResponse)
+def update_visit_endpoint(
+    visit_id: int,
+    visit_update: ServiceVisitUpdate,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Update a service visit (maintenance only)"""
+    for field in ("visit_date", "under_warranty"):
+        if field in visit_update.model_fields_set and getattr(visit_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    visit = update_visit(db, visit_id, visit_update, actor=user)
+    if not visit:
+        raise HTTPException(status_code=404, detail="Service visit not found")
+    return visit
+
+
+@router.delete("/{visit_id}", status_code=204)
+def delete_visit_endpoint(
+    visit_id: int,
+    db: Session = Depends(get_db),
+    role: str = Depends(require_maintenance),
+    user: User = Depends(get_current_user)
+):
+    """Delete a service visit (maintenance only)"""
+    if not delete_visit(db, visit_id, actor=user):
+        raise HTTPException(status_code=404, detail="Service visit not found")
+    return None
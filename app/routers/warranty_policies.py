@@ -0,0 +1,59 @@
+from fastapi import APIRouter, Depends, HTTPException
+from sqlalchemy.orm import Session
+from app.database import get_db
+from app.dependencies import require_admin, require_any_role
+from app.models import User
+from app.schemas import WarrantyPolicyCreate, WarrantyPolicyUpdate, WarrantyPolicyResponse
+from app.crud import (
+    get_warranty_policies, create_warranty_policy, update_warranty_policy, delete_warranty_policy
+)
+
+router = APIRouter(prefix="/warranty-policies", tags=["warranty-policies"])
+
+
+@router.get("", response_model=list[WarrantyPolicyResponse])
+def list_warranty_policies(
+    db: Session = Depends(get_db),
+    role: str = Depends(require_any_role)
+):
+    """List warranty policies (any role)"""
+    return get_warranty_policies(db)
+
+
+@router.post("", response_model=WarrantyPolicyResponse, status_code=201)
+def create_warranty_policy_endpoint(
+    policy: WarrantyPolicyCreate,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Create a warranty policy (admin only)"""
+    return create_warranty_policy(db, policy)
+
+
+@router.patch("/{policy_id}", response_model=WarrantyPolicyResponse)
+def update_warranty_policy_endpoint(
+    policy_id: int,
+    policy_update: WarrantyPolicyUpdate,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Update a warranty policy (admin only)"""
+    for field in ("name", "duration_days", "start_from", "is_active"):
+        if field in policy_update.model_fields_set and getattr(policy_update, field) is None:
+            raise HTTPException(status_code=400, detail=f"{field.replace('_', ' ').capitalize()} cannot be cleared")
+    policy = update_warranty_policy(db, policy_id, policy_update)
+    if not policy:
+        raise HTTPException(status_code=404, detail="Warranty policy not found")
+    return policy
+
+
+@router.delete("/{policy_id}", status_code=204)
+def delete_warranty_policy_endpoint(
+    policy_id: int,
+    db: Session = Depends(get_db),
+    admin: User = Depends(require_admin)
+):
+    """Delete a warranty policy (admin only)"""
+    if not delete_warranty_policy(db, policy_id):
+        raise HTTPException(status_code=404, detail="Warranty policy not found")
+    return None
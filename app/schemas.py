@@ -1,17 +1,164 @@
 from pydantic import BaseModel, Field
-from typing import Optional
+from typing import Annotated, Any, Optional, Literal
 from datetime import datetime, date
 
 
+UserRole = Literal["maintenance", "sales", "admin"]
+WarrantyStart = Literal["delivery", "installation"]
+ContractType = Literal["amc", "extended_warranty"]
+TicketPriority = Literal["low", "medium", "high", "urgent"]
+TicketStatus = Literal["open", "assigned", "in_progress", "resolved", "closed"]
+RenewalStatus = Literal["pending", "renewed", "not_renewing"]
+SavedFilterScreen = Literal["records", "sales"]
+ReminderChannel = Literal["sms", "whatsapp", "email"]
+ReminderStatus = Literal["queued", "sent", "failed", "cancelled"]
+LeadStage = Literal["new", "contacted", "quoted", "negotiation", "won", "lost"]
+DocumentType = Literal["quotation", "invoice"]
+PaymentMode = Literal["cash", "upi", "bank_transfer", "cheque", "card"]
+TargetPeriod = Literal["month", "quarter"]
+TargetScope = Literal["salesperson", "zone"]
+RecordSortField = Literal[
+    "relevance", "date_of_delivery", "date_of_installation", "sale_price", "client_name", "zone", "updated_at", "warranty_expiry"
+]
+
+
 # Auth schemas
 class LoginRequest(BaseModel):
-    passcode: str
+    username: str
+    password: str
 
 
 class TokenResponse(BaseModel):
     access_token: str
     token_type: str = "bearer"
     role: str
+    user_id: int
+    username: str
+    display_name: str
+
+
+# User schemas
+class UserCreate(BaseModel):
+    username: str = Field(..., min_length=3, max_length=100)
+    display_name: str = Field(..., min_length=1, max_length=200)
+    password: str = Field(..., min_length=6)
+    role: UserRole
+
+
+class UserUpdate(BaseModel):
+    display_name: Optional[str] = Field(None, min_length=1, max_length=200)
+    password: Optional[str] = Field(None, min_length=6)
+    role: Optional[UserRole] = None
+    is_active: Optional[bool] = None
+
+
+class UserResponse(BaseModel):
+    id: int
+    username: str
+    display_name: str
+    role: str
+    is_active: bool
+    created_at: datetime
+    last_login_at: Optional[datetime] = None
+    
+    class Config:
+        from_attributes = True
+
+
+# Settings schemas
+class WarrantyPolicySettings(BaseModel):
+    """Default warranty, used when no warranty policy matches a record"""
+    duration_days: int = Field(365, ge=1, le=3650)
+    start_from: WarrantyStart = "delivery"
+    expiring_soon_days: int = Field(30, ge=1, le=365)
+
+
+class ReminderTemplate(BaseModel):
+    """Message text with {placeholders} for client and machine fields (see app/utils/reminders.py)"""
+    subject: str = Field("", max_length=200)  # email only
+    body: str = Field(..., min_length=1, max_length=2000)
+
+
+DEFAULT_REMINDER_TEMPLATES = {
+    "sms": ReminderTemplate(
+        body="Dear {client_name}, the warranty on your {capacity_kw} KW machine ({record_id}) ends on {warranty_expiry}. Call us to renew or book a service."
+    ),
+    "whatsapp": ReminderTemplate(
+        body="Hello {client_name},\n\nThe warranty on your {capacity_kw} KW machine ({record_id}) ends in {days_remaining} days, on {warranty_expiry}.\nReply to this message to renew it or book a service visit."
+    ),
+    "email": ReminderTemplate(
+        subject="Your warranty ends on {warranty_expiry}",
+        body="Dear {client_name},\n\nThe warranty on your {capacity_kw} KW machine ({record_id}) ends on {warranty_expiry}, in {days_remaining} days.\n\nReply to this email to renew it with an AMC or extended warranty, or to book a service visit before it ends."
+    ),
+}
+
+
+class ReminderSettings(BaseModel):
+    """Warranty-expiry reminders sent to clients"""
+    enabled: bool = False  # when off nothing is queued automatically; staff can still queue by hand
+    # One reminder as each of these is reached, e.g. 30 and 7 days before expiry
+    days_before: list[Annotated[int, Field(ge=1, le=365)]] = Field([30, 7], max_length=5)
+    channels: list[ReminderChannel] = ["sms"]
+    templates: dict[ReminderChannel, ReminderTemplate] = DEFAULT_REMINDER_TEMPLATES
+
+
+class CompanySettings(BaseModel):
+    """Letterhead, GST and numbering for quotations and tax invoices"""
+    name: str = Field("", max_length=200)
+    address: str = Field("", max_length=500)
+    phone: str = Field("", max_length=50)
+    email: str = Field("", max_length=200)
+    gstin: str = Field("", max_length=15)
+    state: str = Field("", max_length=100)  # place of supply when the client's is not given
+    gst_rate: float = Field(18, ge=0, le=28)  # default rate on new documents
+    quotation_prefix: str = Field("QTN", min_length=1, max_length=10)
+    invoice_prefix: str = Field("INV", min_length=1, max_length=10)
+    quotation_valid_days: int = Field(30, ge=1, le=365)
+    bank_details: str = Field("", max_length=500)  # printed on invoices
+    terms: str = Field("", max_length=2000)  # printed on every document
+
+
+class AppSettings(BaseModel):
+    zones: list[str] = []
+    technicians: list[str] = []
+    salespeople: list[str] = []
+    warranty: WarrantyPolicySettings = WarrantyPolicySettings()
+    reminders: ReminderSettings = ReminderSettings()
+    company: CompanySettings = CompanySettings()
+
+
+# Warranty policy schemas
+class WarrantyPolicyBase(BaseModel):
+    name: str = Field(..., min_length=1, max_length=200)
+    capacity_kw: Optional[str] = None
+    heater: Optional[str] = None
+    controller: Optional[str] = None
+    duration_days: int = Field(..., ge=1, le=3650)
+    start_from: WarrantyStart = "delivery"
+    is_active: bool = True
+
+
+class WarrantyPolicyCreate(WarrantyPolicyBase):
+    pass
+
+
+class WarrantyPolicyUpdate(BaseModel):
+    name: Optional[str] = Field(None, min_length=1, max_length=200)
+    capacity_kw: Optional[str] = None
+    heater: Optional[str] = None
+    controller: Optional[str] = None
+    duration_days: Optional[int] = Field(None, ge=1, le=3650)
+    start_from: Optional[WarrantyStart] = None
+    is_active: Optional[bool] = None
+
+
+class WarrantyPolicyResponse(WarrantyPolicyBase):
+    id: int
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
 
 
 # Record schemas
@@ -28,6 +175,7 @@ class RecordBase(BaseModel):
     controller: Optional[str] = None
     card: Optional[str] = None
     body: Optional[str] = None
+    client_id: Optional[int] = None  # None on create: matched by phone and name, or a new client
     client_name: str
     client_phone: Optional[str] = None
     client_address: Optional[str] = None
@@ -55,6 +203,7 @@ class RecordUpdate(BaseModel):
     controller: Optional[str] = None
     card: Optional[str] = None
     body: Optional[str] = None
+    client_id: Optional[int] = None  # moves the record to another client (null: matched or new from the details)
     client_name: Optional[str] = None
     client_phone: Optional[str] = None
     client_address: Optional[str] = None
@@ -65,18 +214,320 @@ class RecordUpdate(BaseModel):
     remarks: Optional[str] = None
 
 
+class RecordBatchUpdate(BaseModel):
+    """One change applied to several records in a single transaction"""
+    ids: list[int] = Field(..., min_length=1, max_length=500)
+    changes: RecordUpdate = Field(default_factory=RecordUpdate)
+    append_remark: Optional[str] = Field(None, max_length=1000)  # added as a new line to each record's remarks
+    include_client_records: bool = False  # confirms client detail changes may also reach unselected records of the same clients
+
+
+class RecordBatchDelete(BaseModel):
+    ids: list[int] = Field(..., min_length=1, max_length=500)
+
+
+class SearchSnippetPart(BaseModel):
+    text: str
+    highlight: bool
+
+
+class SearchMatch(BaseModel):
+    field: str  # record field the snippet comes from, e.g. "remarks"
+    parts: list[SearchSnippetPart]
+
+
 class RecordResponse(RecordBase):
     id: int
     created_at: datetime
     updated_at: datetime
+    deleted_at: Optional[datetime] = None
+    deleted_by: Optional[str] = None
+    
+    # Computed from the warranty policies on each read (see crud.attach_warranty)
+    warranty_expiry: Optional[date] = None
+    warranty_status: Optional[str] = None  # "in_warranty", "out_of_warranty", "expiring_soon"
+    warranty_days_remaining: Optional[int] = None
+    warranty_policy: Optional[str] = None
+    
+    # Set on searched lists: where the search words were found (see crud.attach_search_matches)
+    search_match: Optional[SearchMatch] = None
     
     class Config:
         from_attributes = True
 
 
-class RecordWithWarranty(RecordResponse):
-    warranty_expiry: Optional[datetime] = None
-    warranty_status: Optional[str] = None  # "in_warranty", "out_of_warranty", "expiring_soon"
+class FieldChange(BaseModel):
+    old: Any = None
+    new: Any = None
+
+
+class RecordChangeResponse(BaseModel):
+    id: int
+    record_id: Optional[int] = None  # None once the record was purged
+    record_code: str
+    action: Literal["create", "update", "delete", "restore", "purge"]
+    changes: dict[str, FieldChange]
+    actor_name: Optional[str] = None
+    created_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+# Service contract (AMC / extended warranty) schemas
+class ServiceContractBase(BaseModel):
+    contract_type: ContractType
+    start_date: date
+    end_date: date
+    price: Optional[float] = Field(None, ge=0)
+    coverage: Optional[str] = None
+    renewal_status: RenewalStatus = "pending"
+    sold_by: Optional[str] = None
+
+
+class ServiceContractCreate(ServiceContractBase):
+    record_id: int
+
+
+class ServiceContractUpdate(BaseModel):
+    contract_type: Optional[ContractType] = None
+    start_date: Optional[date] = None
+    end_date: Optional[date] = None
+    price: Optional[float] = Field(None, ge=0)
+    coverage: Optional[str] = None
+    renewal_status: Optional[RenewalStatus] = None
+    sold_by: Optional[str] = None
+
+
+class RecordBrief(BaseModel):
+    """The few record fields shown next to a contract or ticket"""
+    id: int
+    record_id: str
+    client_name: str
+    client_phone: Optional[str] = None
+    client_address: Optional[str] = None
+    zone: Optional[str] = None
+    
+    class Config:
+        from_attributes = True
+
+
+class ServiceContractResponse(ServiceContractBase):
+    id: int
+    record_id: int
+    record: Optional[RecordBrief] = None
+    status: Optional[str] = None  # computed: "upcoming", "active", "expiring", "expired"
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class ServiceVisitBase(BaseModel):
+    visit_date: datetime
+    technician: Optional[str] = None
+    issue_reported: Optional[str] = None
+    work_done: Optional[str] = None
+    parts_replaced: Optional[str] = None
+    charge: Optional[float] = Field(None, ge=0)
+    under_warranty: Optional[bool] = None  # defaults to the record's warranty on the visit date
+
+
+class ServiceVisitCreate(ServiceVisitBase):
+    record_id: int
+
+
+class ServiceVisitUpdate(BaseModel):
+    visit_date: Optional[datetime] = None
+    technician: Optional[str] = None
+    issue_reported: Optional[str] = None
+    work_done: Optional[str] = None
+    parts_replaced: Optional[str] = None
+    charge: Optional[float] = Field(None, ge=0)
+    under_warranty: Optional[bool] = None
+
+
+class ServiceVisitResponse(ServiceVisitBase):
+    id: int
+    record_id: int
+    under_warranty: bool
+    logged_by: Optional[str] = None
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class TicketBase(BaseModel):
+    title: str = Field(..., min_length=1, max_length=200)
+    description: Optional[str] = None
+    priority: TicketPriority = "medium"
+    technician: Optional[str] = None
+
+
+class TicketCreate(TicketBase):
+    record_id: int
+
+
+class TicketUpdate(BaseModel):
+    title: Optional[str] = Field(None, min_length=1, max_length=200)
+    description: Optional[str] = None
+    priority: Optional[TicketPriority] = None
+    status: Optional[TicketStatus] = None
+    technician: Optional[str] = None
+    resolution: Optional[str] = None
+
+
+class TicketResponse(TicketBase):
+    id: int
+    ticket_number: str
+    record_id: int
+    record: Optional[RecordBrief] = None
+    status: TicketStatus
+    resolution: Optional[str] = None
+    opened_by: Optional[str] = None
+    created_at: datetime
+    due_at: datetime
+    assigned_at: Optional[datetime] = None
+    started_at: Optional[datetime] = None
+    resolved_at: Optional[datetime] = None
+    closed_at: Optional[datetime] = None
+    updated_at: datetime
+    sla_breached: bool = False  # computed
+    
+    class Config:
+        from_attributes = True
+
+
+class TicketListResponse(BaseModel):
+    tickets: list[TicketResponse]
+    total: int
+
+
+ScheduleKind = Literal["installation", "site_visit"]
+
+
+class ScheduleEventResponse(BaseModel):
+    record: RecordBrief
+    kind: ScheduleKind
+    date: date
+    start: Optional[datetime] = None
+    technician: Optional[str] = None
+    double_booked: bool = False
+
+
+class ScheduleResponse(BaseModel):
+    date_from: date
+    date_to: date
+    events: list[ScheduleEventResponse]
+    double_booked_technicians: list[str]
+
+
+class ImportPreview(BaseModel):
+    filename: str
+    columns: list[str]
+    row_count: int
+    sample_rows: list[dict[str, str]]
+    suggested_mapping: dict[str, Optional[str]]
+    fields: list[str]
+    required_fields: list[str]
+
+
+class ImportRowError(BaseModel):
+    row: int  # spreadsheet row number (header is row 1)
+    field: Optional[str] = None
+    message: str
+
+
+class ImportedRecord(BaseModel):
+    row: int
+    id: Optional[int] = None  # None on a dry run
+    record_id: str
+    client_name: str
+
+
+class ImportResult(BaseModel):
+    dry_run: bool
+    total_rows: int
+    valid_rows: int
+    errors: list[ImportRowError]
+    created: list[ImportedRecord]
+
+
+# Client schemas
+class ClientBase(BaseModel):
+    name: str = Field(..., min_length=1, max_length=200)
+    phone: Optional[str] = None
+    address: Optional[str] = None
+    zone: Optional[str] = None
+    email: Optional[str] = Field(None, max_length=200)
+
+
+class ClientUpdate(BaseModel):
+    name: Optional[str] = Field(None, min_length=1, max_length=200)
+    phone: Optional[str] = None
+    address: Optional[str] = None
+    zone: Optional[str] = None
+    email: Optional[str] = Field(None, max_length=200)
+
+
+class ClientResponse(ClientBase):
+    id: int
+    record_count: int = 0  # active records, set by crud
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class ClientListResponse(BaseModel):
+    clients: list[ClientResponse]
+    total: int
+    page: int
+    page_size: int
+
+
+class ClientProfile(BaseModel):
+    client: ClientResponse
+    records: list[RecordResponse]
+    visits: list[ServiceVisitResponse]
+    contracts: list[ServiceContractResponse]
+    tickets: list[TicketResponse]
+    sales_value: float  # machine sale prices
+    contract_value: float  # AMC / extended warranty prices
+    service_value: float  # chargeable service visits
+    lifetime_value: float
+
+
+class DuplicateClientMember(ClientBase):
+    """One client and the records that carry its details"""
+    id: int
+    records: list[RecordBrief]
+
+
+class DuplicateClientGroup(BaseModel):
+    members: list[DuplicateClientMember]
+    reasons: list[str]  # "phone", "name", "address"
+    record_count: int
+
+
+class DuplicateClientsResponse(BaseModel):
+    groups: list[DuplicateClientGroup]
+    total: int
+
+
+class ClientMergeRequest(ClientBase):
+    """Clients to fold into one, with the details the merged client keeps"""
+    client_ids: list[int] = Field(..., min_length=2)
+
+
+class ClientMergeResult(BaseModel):
+    client_id: int  # the client that was kept
+    merged: int  # records that now belong to it
+    updated: int  # of those, records whose details changed
 
 
 class RecordListResponse(BaseModel):
@@ -89,16 +540,60 @@ class RecordListResponse(BaseModel):
 # Filter/Pagination schemas
 class RecordFilters(BaseModel):
     search: Optional[str] = None  # searches record_id, name, phone, address
-    zone: Optional[str] = None
-    capacity_kw: Optional[str] = None
-    heater: Optional[str] = None
-    controller: Optional[str] = None
-    card: Optional[str] = None
-    body: Optional[str] = None
-    sold_by: Optional[str] = None
-    lead_source: Optional[str] = None
+    # Multi-select: a record matches any of the chosen values
+    zone: list[str] = []
+    capacity_kw: list[str] = []
+    heater: list[str] = []
+    controller: list[str] = []
+    card: list[str] = []
+    body: list[str] = []
+    sold_by: list[str] = []
+    lead_source: list[str] = []
+    # Ranges (inclusive); date_from / date_to are the delivery date
+    price_min: Optional[float] = None
+    price_max: Optional[float] = None
+    capacity_min: Optional[float] = None
+    capacity_max: Optional[float] = None
     date_from: Optional[datetime] = None
     date_to: Optional[datetime] = None
+    installation_from: Optional[datetime] = None
+    installation_to: Optional[datetime] = None
+    site_visit_from: Optional[datetime] = None
+    site_visit_to: Optional[datetime] = None
+    # Order of the results; lists and exports share it so a download matches the screen.
+    # None is relevance while searching, otherwise delivery date.
+    sort_by: Optional[RecordSortField] = None
+    sort_desc: bool = True
+    ids: list[int] = []  # only these records, e.g. a selection being exported
+
+
+class SavedFilterCreate(BaseModel):
+    name: str = Field(..., min_length=1, max_length=100)
+    screen: SavedFilterScreen
+    query: str = Field("", max_length=2000)  # e.g. "zone=North&sold_by=Anil"
+
+
+class SavedFilterResponse(SavedFilterCreate):
+    id: int
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+RecordsView = Literal["cards", "table"]
+
+
+class TableColumnLayout(BaseModel):
+    field: str = Field(..., min_length=1, max_length=50)
+    width: int = Field(..., ge=40, le=1000)  # pixels
+
+
+class RecordsViewPreference(BaseModel):
+    """How a user likes the records list laid out: cards or a table, and the table's columns in order"""
+    view: RecordsView = "cards"
+    columns: list[TableColumnLayout] = Field([], max_length=50)
 
 
 # Warranty schemas
@@ -107,6 +602,8 @@ class WarrantySummary(BaseModel):
     out_of_warranty: int
     expiring_soon: int
     total: int
+    under_amc: int = 0
+    amc_expiring: int = 0
 
 
 # Sales schemas
@@ -114,6 +611,7 @@ class MonthlyTrend(BaseModel):
     month: str
     count: int
     revenue: float
+    collected: float = 0  # payments received in the month
 
 
 class ProjectedSale(BaseModel):
@@ -133,7 +631,13 @@ class OrderDetails(BaseModel):
 
 class SalesSummary(BaseModel):
     total_records: int
-    total_revenue: Optional[float] = None
+    total_revenue: Optional[float] = None  # machine sales + contracts
+    sales_revenue: float = 0
+    contract_revenue: float = 0
+    contract_count: int = 0
+    billed: float = 0  # machine sales + contracts, as booked
+    collected: float = 0  # payments received against the records in view
+    outstanding: float = 0
     average_order_value: Optional[float] = None
     by_zone: dict[str, int]
     by_zone_revenue: dict[str, float]
@@ -144,3 +648,271 @@ class SalesSummary(BaseModel):
     monthly_trends: list[MonthlyTrend]
     projected_sales: list[ProjectedSale]
     order_details: OrderDetails
+
+
+# Reminder schemas
+class ReminderMessageResponse(BaseModel):
+    id: int
+    record_id: int
+    record_code: str  # RMZ-000001, set by crud
+    client_name: str  # set by crud
+    channel: ReminderChannel
+    warranty_expiry: date
+    days_before: int
+    recipient: Optional[str] = None
+    subject: Optional[str] = None
+    body: str
+    status: ReminderStatus
+    provider: Optional[str] = None
+    error: Optional[str] = None
+    attempts: int
+    created_at: datetime
+    sent_at: Optional[datetime] = None
+    
+    class Config:
+        from_attributes = True
+
+
+class ReminderListResponse(BaseModel):
+    messages: list[ReminderMessageResponse]
+    total: int
+    page: int
+    page_size: int
+    counts: dict[str, int]  # messages per status, for the filter tabs
+
+
+class ReminderRunResult(BaseModel):
+    queued: int = 0
+    sent: int = 0
+    failed: int = 0
+
+
+# Lead schemas
+class LeadBase(BaseModel):
+    enquiry_date: date
+    source: Optional[str] = Field(None, max_length=200)
+    capacity_kw: Optional[str] = Field(None, max_length=10)
+    notes: Optional[str] = None
+    contact_name: str = Field(..., min_length=1, max_length=200)
+    contact_phone: Optional[str] = Field(None, max_length=20)
+    contact_address: Optional[str] = None
+    zone: Optional[str] = None
+    expected_value: Optional[float] = Field(None, ge=0)
+    owner: Optional[str] = None
+
+
+class LeadCreate(LeadBase):
+    stage: LeadStage = "new"
+
+
+class LeadUpdate(BaseModel):
+    enquiry_date: Optional[date] = None
+    source: Optional[str] = Field(None, max_length=200)
+    capacity_kw: Optional[str] = Field(None, max_length=10)
+    notes: Optional[str] = None
+    contact_name: Optional[str] = Field(None, min_length=1, max_length=200)
+    contact_phone: Optional[str] = Field(None, max_length=20)
+    contact_address: Optional[str] = None
+    zone: Optional[str] = None
+    expected_value: Optional[float] = Field(None, ge=0)
+    owner: Optional[str] = None
+    stage: Optional[LeadStage] = None
+    lost_reason: Optional[str] = None
+
+
+class LeadResponse(LeadBase):
+    id: int
+    lead_number: str
+    stage: LeadStage
+    lost_reason: Optional[str] = None
+    closed_at: Optional[datetime] = None
+    converted_record_id: Optional[int] = None
+    converted_record: Optional[RecordBrief] = None
+    created_by: Optional[str] = None
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class LeadListResponse(BaseModel):
+    leads: list[LeadResponse]
+    total: int
+
+
+# Document schemas (quotations and tax invoices)
+class DocumentLineItem(BaseModel):
+    description: str = Field(..., min_length=1, max_length=200)
+    hsn: Optional[str] = Field(None, max_length=20)  # HSN / SAC code
+    quantity: float = Field(1, gt=0)
+    unit_price: float = Field(..., ge=0)
+    amount: Optional[float] = None  # quantity x unit price before GST, set by the server
+
+
+class RecordDocumentCreate(BaseModel):
+    record_id: int
+    doc_type: DocumentType
+    issued_on: Optional[date] = None  # defaults to today
+    line_items: list[DocumentLineItem] = Field(..., min_length=1, max_length=30)
+    gst_rate: Optional[float] = Field(None, ge=0, le=28)  # defaults to the company settings
+    prices_include_gst: bool = False  # unit prices are GST-inclusive and get split into price + tax
+    interstate: bool = False
+    client_gstin: Optional[str] = Field(None, max_length=15)
+    place_of_supply: Optional[str] = Field(None, max_length=100)
+    notes: Optional[str] = Field(None, max_length=1000)
+
+
+class DocumentDraft(BaseModel):
+    """Starting values for a new document on a record"""
+    line_items: list[DocumentLineItem]
+    gst_rate: float
+    place_of_supply: Optional[str] = None
+
+
+class RecordDocumentResponse(BaseModel):
+    id: int
+    record_id: int
+    doc_type: DocumentType
+    number: str
+    issued_on: date
+    valid_until: Optional[date] = None
+    client_name: str
+    client_gstin: Optional[str] = None
+    place_of_supply: Optional[str] = None
+    line_items: list[DocumentLineItem]
+    gst_rate: float
+    interstate: bool
+    taxable_value: float
+    cgst: float
+    sgst: float
+    igst: float
+    total: float
+    notes: Optional[str] = None
+    created_by: Optional[str] = None
+    created_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+# Payment schemas
+class PaymentBase(BaseModel):
+    amount: float = Field(..., gt=0)
+    paid_on: date
+    mode: PaymentMode
+    reference: Optional[str] = Field(None, max_length=100)
+    notes: Optional[str] = Field(None, max_length=500)
+
+
+class PaymentCreate(PaymentBase):
+    record_id: int
+
+
+class PaymentUpdate(BaseModel):
+    amount: Optional[float] = Field(None, gt=0)
+    paid_on: Optional[date] = None
+    mode: Optional[PaymentMode] = None
+    reference: Optional[str] = Field(None, max_length=100)
+    notes: Optional[str] = Field(None, max_length=500)
+
+
+class PaymentResponse(PaymentBase):
+    id: int
+    record_id: int
+    recorded_by: Optional[str] = None
+    created_at: datetime
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class PaymentLedger(BaseModel):
+    """A record's payments with what was billed and what is still due"""
+    record_id: int
+    billed: float  # sale price + AMC / extended warranty contracts
+    collected: float
+    balance_due: float  # negative when the client has paid in advance of billing
+    payments: list[PaymentResponse]
+
+
+class ReceivableRow(BaseModel):
+    record_id: int
+    record_code: str
+    client_name: str
+    client_phone: Optional[str] = None
+    zone: Optional[str] = None
+    sold_by: Optional[str] = None
+    billed_on: date  # delivery date, or the day the record was entered
+    billed: float
+    collected: float
+    balance_due: float
+    last_payment_on: Optional[date] = None
+    days_outstanding: int
+    bucket: str
+
+
+class ReceivablesReport(BaseModel):
+    rows: list[ReceivableRow]
+    buckets: dict[str, float]  # balance due per ageing bucket, "0-30" ... "90+"
+    total_billed: float
+    total_collected: float
+    total_outstanding: float
+
+
+# Sales target schemas
+class SalesTargetAmount(BaseModel):
+    name: str = Field(..., min_length=1, max_length=200)  # salesperson or zone
+    target_amount: float = Field(..., gt=0)
+
+
+class SalesTargetPeriodUpdate(BaseModel):
+    """Every target of one scope for one period; names left out have their target removed"""
+    period_type: TargetPeriod
+    period_start: date  # any day in the period
+    scope: TargetScope
+    targets: list[SalesTargetAmount] = Field(default_factory=list, max_length=200)
+
+
+class SalesTargetResponse(BaseModel):
+    id: int
+    period_type: TargetPeriod
+    period_start: date
+    scope: TargetScope
+    name: str
+    target_amount: float
+    set_by: Optional[str] = None
+    updated_at: datetime
+    
+    class Config:
+        from_attributes = True
+
+
+class TargetTrendPoint(BaseModel):
+    period_start: date
+    target: Optional[float] = None
+    achieved: float
+    attainment: Optional[float] = None  # percent of target
+
+
+class LeaderboardRow(BaseModel):
+    name: str
+    target: Optional[float] = None
+    achieved: float
+    attainment: Optional[float] = None  # percent of target, None without one
+    rank: Optional[int] = None  # by attainment, among those with a target
+    status: Optional[Literal["exceeded", "on_track", "behind"]] = None
+    trend: list[TargetTrendPoint]  # earlier periods first, ending with this one
+
+
+class Leaderboard(BaseModel):
+    period_type: TargetPeriod
+    period_start: date
+    period_end: date  # last day of the period
+    scope: TargetScope
+    elapsed_pct: float  # share of the period gone by, for judging pace
+    total_target: float
+    total_achieved: float
+    rows: list[LeaderboardRow]
+
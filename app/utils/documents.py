@@ -0,0 +1,239 @@
+import io
+from datetime import date
+from decimal import Decimal, ROUND_HALF_UP
+from typing import Optional
+from reportlab.lib import colors
+from reportlab.lib.pagesizes import A4
+from reportlab.lib.styles import getSampleStyleSheet, ParagraphStyle
+from reportlab.lib.units import mm
+from reportlab.platypus import SimpleDocTemplate, Table, TableStyle, Paragraph, Spacer
+from xml.sax.saxutils import escape
+
+DOCUMENT_TITLES = {
+    "quotation": "QUOTATION",
+    "invoice": "TAX INVOICE",
+}
+
+PAISE = Decimal("0.01")
+
+
+def _money(value) -> Decimal:
+    return Decimal(str(value)).quantize(PAISE, rounding=ROUND_HALF_UP)
+
+
+def financial_year(day: date) -> str:
+    """Indian financial year (April to March) of a date, e.g. "2026-27" """
+    start = day.year if day.month >= 4 else day.year - 1
+    return f"{start}-{(start + 1) % 100:02d}"
+
+
+def document_number_prefix(prefix: str, issued_on: date) -> str:
+    """Numbers run per prefix and financial year: INV/2026-27/0001, INV/2026-27/0002, ..."""
+    return f"{prefix}/{financial_year(issued_on)}/"
+
+
+def default_line_items(record) -> list[dict]:
+    """Lines for the machine and its parts, with the record's sale price on the machine"""
+    capacity = f"{record.capacity_kw} KW " if record.capacity_kw else ""
+    items = [{"description": f"{capacity}Machine", "unit_price": float(record.sale_price or 0)}]
+    for label, value in (("Heater", record.heater), ("Controller", record.controller), ("Card", record.card), ("Body", record.body)):
+        if value:
+            items.append({"description": f"{label}: {value}", "unit_price": 0})
+    items.append({"description": "Installation and commissioning", "unit_price": 0})
+    return items
+
+
+def calculate_totals(line_items: list[dict], gst_rate: float, interstate: bool, prices_include_gst: bool = False) -> dict:
+    """Line amounts, taxable value and the GST split. GST-inclusive prices are brought back to the price before tax."""
+    rate = Decimal(str(gst_rate))
+    items = []
+    taxable = Decimal(0)
+    for item in line_items:
+        quantity = Decimal(str(item.get("quantity") or 1))
+        unit_price = Decimal(str(item["unit_price"]))
+        if prices_include_gst:
+            unit_price = unit_price * 100 / (100 + rate)
+        unit_price = _money(unit_price)
+        amount = _money(unit_price * quantity)
+        taxable += amount
+        items.append({**item, "quantity": float(quantity), "unit_price": float(unit_price), "amount": float(amount)})
+    tax = _money(taxable * rate / 100)
+    if interstate:
+        cgst = sgst = Decimal(0)
+        igst = tax
+    else:
+        cgst = _money(tax / 2)
+        sgst = tax - cgst
+        igst = Decimal(0)
+    return {
+        "line_items": items,
+        "taxable_value": float(taxable),
+        "cgst": float(cgst),
+        "sgst": float(sgst),
+        "igst": float(igst),
+        "total": float(taxable + cgst + sgst + igst),
+    }
+
+
+_ONES = [
+    "", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+    "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+]
+_TENS = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"]
+
+
+def _below_thousand(n: int) -> str:
+    words = []
+    if n >= 100:
+        words.append(f"{_ONES[n // 100]} Hundred")
+        n %= 100
+    if n >= 20:
+        words.append(_TENS[n // 10] + (f" {_ONES[n % 10]}" if n % 10 else ""))
+    elif n:
+        words.append(_ONES[n])
+    return " ".join(words)
+
+
+def _number_in_words(n: int) -> str:
+    """Indian grouping: crore, lakh, thousand"""
+    parts = []
+    for unit, size in (("Crore", 10 ** 7), ("Lakh", 10 ** 5), ("Thousand", 10 ** 3)):
+        if n >= size:
+            parts.append(f"{_number_in_words(n // size)} {unit}")
+            n %= size
+    if n:
+        parts.append(_below_thousand(n))
+    return " ".join(parts)
+
+
+def amount_in_words(amount: float) -> str:
+    """Rupees in words, e.g. "Rupees One Lakh Twenty Thousand Only" """
+    value = _money(amount)
+    rupees = int(value)
+    paise = int((value - rupees) * 100)
+    words = "Rupees " + (_number_in_words(rupees) or "Zero")
+    if paise:
+        words += f" and {_below_thousand(paise)} Paise"
+    return words + " Only"
+
+
+def _format_amount(value) -> str:
+    return f"{_money(value):,.2f}"
+
+
+def _lines(*values: Optional[str]) -> str:
+    """Non-empty values as escaped Paragraph lines"""
+    return "<br/>".join(escape(value) for value in values if value)
+
+
+def build_document_pdf(document, record, company) -> bytes:
+    """Render a quotation or tax invoice on the company letterhead"""
+    output = io.BytesIO()
+    doc = SimpleDocTemplate(
+        output, pagesize=A4, leftMargin=15 * mm, rightMargin=15 * mm, topMargin=15 * mm, bottomMargin=15 * mm,
+        title=f"{DOCUMENT_TITLES[document.doc_type].title()} {document.number}"
+    )
+    styles = getSampleStyleSheet()
+    small = ParagraphStyle("small", parent=styles["Normal"], fontSize=8.5, leading=11)
+    heading = ParagraphStyle("heading", parent=styles["Normal"], fontSize=9, leading=11, fontName="Helvetica-Bold")
+    width = doc.width
+    elements = []
+
+    # Letterhead
+    contact = " | ".join(value for value in (company.phone, company.email) if value)
+    elements.append(Paragraph(escape(company.name), ParagraphStyle("company", parent=styles["Title"], alignment=0, fontSize=18, spaceAfter=2)))
+    elements.append(Paragraph(_lines(company.address, contact, f"GSTIN: {company.gstin}" if company.gstin else None), small))
+    elements.append(Spacer(1, 4 * mm))
+    rule = Table([[""]], colWidths=[width], rowHeights=[1])
+    rule.setStyle(TableStyle([("LINEABOVE", (0, 0), (-1, -1), 1.5, colors.HexColor("#366092"))]))
+    elements.append(rule)
+    elements.append(Paragraph(DOCUMENT_TITLES[document.doc_type], ParagraphStyle("doctitle", parent=styles["Heading2"], alignment=1)))
+
+    # Billed to and document details
+    billed_to = Paragraph(
+        "<b>Billed to</b><br/>" + _lines(
+            document.client_name, record.client_address, record.client_phone,
+            f"GSTIN: {document.client_gstin}" if document.client_gstin else None
+        ),
+        small
+    )
+    details = [
+        f"<b>No.:</b> {escape(document.number)}",
+        f"<b>Date:</b> {document.issued_on.strftime('%d %b %Y')}",
+    ]
+    if document.valid_until:
+        details.append(f"<b>Valid until:</b> {document.valid_until.strftime('%d %b %Y')}")
+    details.append(f"<b>Record:</b> {escape(record.record_id)}")
+    if document.place_of_supply:
+        details.append(f"<b>Place of supply:</b> {escape(document.place_of_supply)}")
+    header = Table([[billed_to, Paragraph("<br/>".join(details), small)]], colWidths=[width * 0.55, width * 0.45])
+    header.setStyle(TableStyle([
+        ("VALIGN", (0, 0), (-1, -1), "TOP"),
+        ("BOX", (0, 0), (-1, -1), 0.5, colors.grey),
+        ("LINEAFTER", (0, 0), (0, 0), 0.5, colors.grey),
+    ]))
+    elements.append(header)
+    elements.append(Spacer(1, 4 * mm))
+
+    # Line items
+    rows = [["#", "Description", "HSN/SAC", "Qty", "Rate", "Amount"]]
+    for index, item in enumerate(document.line_items, 1):
+        rows.append([
+            str(index),
+            Paragraph(escape(item["description"]), small),
+            item.get("hsn") or "",
+            f"{item['quantity']:g}",
+            _format_amount(item["unit_price"]),
+            _format_amount(item["amount"]),
+        ])
+    rate = f"{Decimal(str(document.gst_rate)).normalize():f}"
+    totals = [("Taxable value", document.taxable_value)]
+    if document.interstate:
+        totals.append((f"IGST @ {rate}%", document.igst))
+    else:
+        half = f"{(Decimal(str(document.gst_rate)) / 2).normalize():f}"
+        totals += [(f"CGST @ {half}%", document.cgst), (f"SGST @ {half}%", document.sgst)]
+    totals.append(("Total", document.total))
+    first_total = len(rows)
+    for label, value in totals:
+        rows.append(["", label, "", "", "", _format_amount(value)])
+    items_table = Table(rows, colWidths=[width * w for w in (0.06, 0.44, 0.12, 0.08, 0.15, 0.15)], repeatRows=1)
+    items_table.setStyle(TableStyle([
+        ("BACKGROUND", (0, 0), (-1, 0), colors.HexColor("#366092")),
+        ("TEXTCOLOR", (0, 0), (-1, 0), colors.white),
+        ("FONTNAME", (0, 0), (-1, 0), "Helvetica-Bold"),
+        ("FONTSIZE", (0, 0), (-1, -1), 8.5),
+        ("ALIGN", (3, 0), (-1, -1), "RIGHT"),
+        ("VALIGN", (0, 0), (-1, -1), "MIDDLE"),
+        ("GRID", (0, 0), (-1, first_total - 1), 0.5, colors.grey),
+        ("BOX", (0, first_total), (-1, -1), 0.5, colors.grey),
+        *[("SPAN", (1, row), (4, row)) for row in range(first_total, len(rows))],
+        ("ALIGN", (1, first_total), (1, -1), "RIGHT"),
+        ("FONTNAME", (0, -1), (-1, -1), "Helvetica-Bold"),
+        ("LINEABOVE", (0, -1), (-1, -1), 0.5, colors.grey),
+    ]))
+    elements.append(items_table)
+    elements.append(Spacer(1, 2 * mm))
+    elements.append(Paragraph(f"<b>Amount in words:</b> {amount_in_words(document.total)}", small))
+
+    # Notes, bank details and terms
+    if document.notes:
+        elements.append(Spacer(1, 3 * mm))
+        elements.append(Paragraph("Notes", heading))
+        elements.append(Paragraph(_lines(*document.notes.splitlines()), small))
+    if document.doc_type == "invoice" and company.bank_details:
+        elements.append(Spacer(1, 3 * mm))
+        elements.append(Paragraph("Bank details", heading))
+        elements.append(Paragraph(_lines(*company.bank_details.splitlines()), small))
+    if company.terms:
+        elements.append(Spacer(1, 3 * mm))
+        elements.append(Paragraph("Terms and conditions", heading))
+        elements.append(Paragraph(_lines(*company.terms.splitlines()), small))
+
+    # Signature
+    elements.append(Spacer(1, 12 * mm))
+    signature = Paragraph(f"For <b>{escape(company.name)}</b><br/><br/><br/>Authorised Signatory", ParagraphStyle("sign", parent=small, alignment=2))
+    elements.append(signature)
+
+    doc.build(elements)
+    return output.getvalue()
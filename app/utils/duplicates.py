@@ -0,0 +1,154 @@
+import re
+from collections import defaultdict
+from difflib import SequenceMatcher
+from typing import NamedTuple, Optional
+from app.models import Record
+
+# Words that say nothing about who the client is
+NAME_STOPWORDS = {"mr", "mrs", "ms", "miss", "dr", "shri", "sri", "smt"}
+ADDRESS_STOPWORDS = {"near", "opp", "opposite", "road", "rd", "street", "st", "lane", "house", "no", "post", "dist", "district"}
+
+NAME_THRESHOLD = 0.85
+ADDRESS_THRESHOLD = 0.6
+
+# Name tokens shared by more clients than this (common surnames) are too vague to pair on
+MAX_BLOCK_SIZE = 300
+
+
+class ClientIdentity(NamedTuple):
+    """A client's details and its active records, as compared by the duplicate finder"""
+    id: int
+    client_name: str
+    client_phone: Optional[str]
+    client_address: Optional[str]
+    zone: Optional[str]
+    records: list[Record]
+
+
+def normalize_phone(phone: Optional[str]) -> str:
+    """Digits only, without the +91 / leading 0 prefixes (so '+91 98450 12345' == '09845012345')"""
+    digits = re.sub(r"\D", "", phone or "")
+    if len(digits) == 12 and digits.startswith("91"):
+        digits = digits[2:]
+    elif len(digits) == 11 and digits.startswith("0"):
+        digits = digits[1:]
+    return digits
+
+
+def _name_tokens(name: Optional[str]) -> list[str]:
+    words = re.sub(r"[^a-z\s]", " ", (name or "").lower()).split()
+    return [w for w in words if w not in NAME_STOPWORDS]
+
+
+def _address_tokens(address: Optional[str]) -> set[str]:
+    words = re.sub(r"[^a-z0-9\s]", " ", (address or "").lower()).split()
+    return {w for w in words if len(w) > 1 and w not in ADDRESS_STOPWORDS}
+
+
+def _tokens_match(a: str, b: str) -> bool:
+    """Same word, an initial for it ('r' / 'ramesh'), or a near spelling"""
+    if a == b:
+        return True
+    if len(a) == 1 or len(b) == 1:
+        return a[0] == b[0]
+    return SequenceMatcher(None, a, b).ratio() >= 0.8
+
+
+def name_similarity(a: Optional[str], b: Optional[str]) -> float:
+    """0..1 score for two client names, allowing initials and dropped middle names"""
+    tokens_a, tokens_b = _name_tokens(a), _name_tokens(b)
+    if not tokens_a or not tokens_b:
+        return 0.0
+    if tokens_a == tokens_b:
+        return 1.0
+    # Every word of the shorter name has to line up with a word of the longer one
+    shorter, longer = sorted((tokens_a, tokens_b), key=len)
+    remaining = list(longer)
+    for token in shorter:
+        match = next((t for t in remaining if _tokens_match(token, t)), None)
+        if match is None:
+            return SequenceMatcher(None, " ".join(tokens_a), " ".join(tokens_b)).ratio() * 0.9
+        remaining.remove(match)
+    # Initials and dropped words are likely the same person but not certain
+    initials = sum(1 for t in tokens_a + tokens_b if len(t) == 1)
+    return max(NAME_THRESHOLD, 0.95 - 0.05 * (initials + len(longer) - len(shorter)))
+
+
+def address_similarity(a: Optional[str], b: Optional[str]) -> float:
+    """Share of address words the two addresses have in common"""
+    tokens_a, tokens_b = _address_tokens(a), _address_tokens(b)
+    if not tokens_a or not tokens_b:
+        return 0.0
+    return len(tokens_a & tokens_b) / min(len(tokens_a), len(tokens_b))
+
+
+def match_reasons(a: ClientIdentity, b: ClientIdentity) -> list[str]:
+    """Why two identities look like the same client (empty if they don't)"""
+    reasons = []
+    phone_a, phone_b = normalize_phone(a.client_phone), normalize_phone(b.client_phone)
+    same_phone = len(phone_a) >= 7 and phone_a == phone_b
+    if same_phone:
+        reasons.append("phone")
+    names = name_similarity(a.client_name, b.client_name)
+    addresses = address_similarity(a.client_address, b.client_address)
+    if names >= NAME_THRESHOLD:
+        # A similar name alone is common; it needs a phone or address to back it up
+        if addresses >= ADDRESS_THRESHOLD:
+            reasons.extend(["name", "address"])
+        elif same_phone:
+            reasons.append("name")
+    return reasons
+
+
+def find_duplicate_groups(identities: list[ClientIdentity]) -> list[tuple[list[ClientIdentity], list[str]]]:
+    """
+    Group identities that probably belong to one client. Only identities sharing
+    a phone number or a name word are compared, so this stays fast on large books.
+    Returns each group (largest first) with the reasons its members were linked.
+    """
+    blocks: dict[str, list[int]] = defaultdict(list)
+    for index, identity in enumerate(identities):
+        phone = normalize_phone(identity.client_phone)
+        if len(phone) >= 7:
+            blocks[f"phone:{phone}"].append(index)
+        for token in set(_name_tokens(identity.client_name)):
+            if len(token) > 2:
+                blocks[f"name:{token}"].append(index)
+
+    parent = list(range(len(identities)))
+
+    def find(i: int) -> int:
+        while parent[i] != i:
+            parent[i] = parent[parent[i]]
+            i = parent[i]
+        return i
+
+    reasons: dict[int, set[str]] = defaultdict(set)
+    compared: set[tuple[int, int]] = set()
+    for key, members in blocks.items():
+        if len(members) < 2 or (key.startswith("name:") and len(members) > MAX_BLOCK_SIZE):
+            continue
+        for pos, i in enumerate(members):
+            for j in members[pos + 1:]:
+                pair = (min(i, j), max(i, j))
+                if pair in compared:
+                    continue
+                compared.add(pair)
+                found = match_reasons(identities[i], identities[j])
+                if found:
+                    root_i, root_j = find(i), find(j)
+                    if root_i != root_j:
+                        parent[root_j] = root_i
+                        reasons[root_i] |= reasons.pop(root_j, set())
+                    reasons[find(i)].update(found)
+
+    groups: dict[int, list[ClientIdentity]] = defaultdict(list)
+    for index, identity in enumerate(identities):
+        groups[find(index)].append(identity)
+    result = [
+        (sorted(members, key=lambda m: -len(m.records)), sorted(reasons[root]))
+        for root, members in groups.items()
+        if len(members) > 1
+    ]
+    result.sort(key=lambda g: -sum(len(m.records) for m in g[0]))
+    return result
@@ -14,8 +14,8 @@ from app.utils.warranty import get_warranty_status
 
 
 def export_to_csv(records: List[Record]) -> io.BytesIO:
-    """Export records to CSV"""
-    output = io.BytesIO()
+    """Export records to CSV (UTF-8)"""
+    output = io.StringIO()
     writer = csv.writer(output)
     
     # Header
@@ -56,8 +56,8 @@ def export_to_csv(records: List[Record]) -> io.BytesIO:
             record.remarks or ""
         ])
     
-    output.seek(0)
-    return output
+    # csv writes text; the response streams bytes
+    return io.BytesIO(output.getvalue().encode("utf-8"))
 
 
 def export_to_xlsx(records: List[Record]) -> io.BytesIO:
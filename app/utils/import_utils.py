@@ -0,0 +1,224 @@
+import csv
+import io
+import re
+from datetime import datetime, date
+from decimal import Decimal, InvalidOperation
+from typing import Any, Optional
+from openpyxl import load_workbook
+from pydantic import ValidationError
+from app.schemas import RecordCreate
+
+# Fields a spreadsheet column can be mapped onto (RecordCreate)
+IMPORT_FIELDS = [
+    "record_id", "date_of_delivery", "date_of_installation", "date_of_site_visit",
+    "site_visit_done_by", "installation_done_by", "commission_done_by",
+    "capacity_kw", "heater", "controller", "card", "body",
+    "client_name", "client_phone", "client_address", "zone",
+    "sale_price", "sold_by", "lead_source", "remarks",
+]
+REQUIRED_FIELDS = ("client_name", "date_of_delivery")
+DATE_FIELDS = ("date_of_delivery", "date_of_installation")
+DATETIME_FIELDS = ("date_of_site_visit",)
+
+# Header spellings seen in old sheets (and in our own exports) beyond the field names
+HEADER_ALIASES = {
+    "delivery": "date_of_delivery",
+    "delivery_date": "date_of_delivery",
+    "installation": "date_of_installation",
+    "installation_date": "date_of_installation",
+    "site_visit": "date_of_site_visit",
+    "site_visit_date": "date_of_site_visit",
+    "capacity": "capacity_kw",
+    "capacity_(kw)": "capacity_kw",
+    "kw": "capacity_kw",
+    "name": "client_name",
+    "client": "client_name",
+    "customer": "client_name",
+    "customer_name": "client_name",
+    "phone": "client_phone",
+    "mobile": "client_phone",
+    "contact": "client_phone",
+    "address": "client_address",
+    "price": "sale_price",
+    "amount": "sale_price",
+    "salesperson": "sold_by",
+    "source": "lead_source",
+    "notes": "remarks",
+}
+
+# Day-first, since that is how dates are written on the legacy sheets
+DATE_FORMATS = ("%Y-%m-%d", "%d/%m/%Y", "%d-%m-%Y", "%d.%m.%Y", "%d/%m/%y", "%d-%b-%Y", "%d %b %Y")
+DATETIME_FORMATS = ("%Y-%m-%dT%H:%M:%S", "%Y-%m-%d %H:%M:%S", "%Y-%m-%d %H:%M", "%d/%m/%Y %H:%M", "%d-%m-%Y %H:%M")
+
+MAX_IMPORT_ROWS = 5000
+
+
+class ImportFileError(ValueError):
+    """The uploaded file could not be read as a spreadsheet"""
+
+
+def _cell_text(value: Any) -> str:
+    """Spreadsheet cell as text (whole-number floats lose their .0)"""
+    if value is None:
+        return ""
+    if isinstance(value, float) and value.is_integer():
+        return str(int(value))
+    if isinstance(value, datetime):
+        return value.isoformat() if value.time() != datetime.min.time() else value.date().isoformat()
+    if isinstance(value, date):
+        return value.isoformat()
+    return str(value).strip()
+
+
+def read_spreadsheet(filename: str, content: bytes) -> tuple[list[str], list[dict[str, str]]]:
+    """Read a CSV or XLSX upload into its header row and one dict per data row"""
+    name = (filename or "").lower()
+    if name.endswith(".xlsx"):
+        try:
+            workbook = load_workbook(io.BytesIO(content), read_only=True, data_only=True)
+        except Exception as exc:
+            raise ImportFileError("Could not read the Excel file") from exc
+        rows = [[_cell_text(v) for v in row] for row in workbook.active.iter_rows(values_only=True)]
+    elif name.endswith(".csv"):
+        try:
+            text = content.decode("utf-8-sig")
+        except UnicodeDecodeError:
+            text = content.decode("latin-1")
+        rows = [[cell.strip() for cell in row] for row in csv.reader(io.StringIO(text))]
+    else:
+        raise ImportFileError("Upload a .csv or .xlsx file")
+
+    # Blank lines are common at the end of exported sheets
+    rows = [row for row in rows if any(row)]
+    if not rows:
+        raise ImportFileError("The file is empty")
+    headers = [h or f"Column {i + 1}" for i, h in enumerate(rows[0])]
+    data = [
+        {header: (row[i] if i < len(row) else "") for i, header in enumerate(headers)}
+        for row in rows[1:]
+    ]
+    if len(data) > MAX_IMPORT_ROWS:
+        raise ImportFileError(f"Imports are limited to {MAX_IMPORT_ROWS} rows per file")
+    return headers, data
+
+
+def _normalize_header(header: str) -> str:
+    return re.sub(r"[\s\-]+", "_", header.strip().lower())
+
+
+def suggest_mapping(headers: list[str]) -> dict[str, Optional[str]]:
+    """Best guess at which record field each column holds (None to skip the column)"""
+    mapping: dict[str, Optional[str]] = {}
+    used = set()
+    for header in headers:
+        key = _normalize_header(header)
+        field = key if key in IMPORT_FIELDS else HEADER_ALIASES.get(key)
+        if field and field not in used:
+            mapping[header] = field
+            used.add(field)
+        else:
+            mapping[header] = None
+    return mapping
+
+
+def parse_date(value: str) -> date:
+    for fmt in DATE_FORMATS:
+        try:
+            return datetime.strptime(value, fmt).date()
+        except ValueError:
+            continue
+    # Excel cells come through as ISO datetimes
+    try:
+        return datetime.fromisoformat(value).date()
+    except ValueError:
+        raise ValueError(f"'{value}' is not a date (use YYYY-MM-DD or DD/MM/YYYY)")
+
+
+def parse_datetime(value: str) -> datetime:
+    for fmt in DATETIME_FORMATS:
+        try:
+            return datetime.strptime(value, fmt)
+        except ValueError:
+            continue
+    # A bare date means the visit time was not recorded
+    return datetime.combine(parse_date(value), datetime.min.time())
+
+
+def parse_price(value: str) -> float:
+    cleaned = re.sub(r"[₹,\s]|^rs\.?", "", value.lower())
+    try:
+        price = Decimal(cleaned)
+    except InvalidOperation:
+        raise ValueError(f"'{value}' is not a number")
+    if price < 0:
+        raise ValueError("Sale price cannot be negative")
+    return float(price)
+
+
+def map_row(row: dict[str, str], mapping: dict[str, Optional[str]]) -> tuple[dict[str, Any], dict[str, str]]:
+    """
+    Turn one spreadsheet row into RecordCreate data using the column mapping.
+    Returns the parsed values and an error message per field that failed.
+    """
+    data: dict[str, Any] = {}
+    errors: dict[str, str] = {}
+    for column, field in mapping.items():
+        if not field:
+            continue
+        raw = (row.get(column) or "").strip()
+        if not raw:
+            continue
+        try:
+            if field in DATE_FIELDS:
+                data[field] = parse_date(raw)
+            elif field in DATETIME_FIELDS:
+                data[field] = parse_datetime(raw)
+            elif field == "sale_price":
+                data[field] = parse_price(raw)
+            else:
+                data[field] = raw
+        except ValueError as exc:
+            errors[field] = str(exc)
+    for field in REQUIRED_FIELDS:
+        if field not in data and field not in errors:
+            errors[field] = "Required"
+    return data, errors
+
+
+def validate_rows(
+    rows: list[dict[str, str]], mapping: dict[str, Optional[str]]
+) -> tuple[list[tuple[int, RecordCreate]], list[dict]]:
+    """
+    Validate every row against RecordCreate and catch record IDs repeated within the file.
+    Returns (spreadsheet row number, record) for valid rows and one error dict per problem.
+    """
+    valid_rows = []
+    errors = []
+    seen_ids: dict[str, int] = {}
+    for index, row in enumerate(rows):
+        row_number = index + 2  # header is row 1
+        data, field_errors = map_row(row, mapping)
+        for field, message in field_errors.items():
+            errors.append({"row": row_number, "field": field, "message": message})
+        if field_errors:
+            continue
+
+        record_id = data.get("record_id")
+        if record_id:
+            if record_id in seen_ids:
+                errors.append({
+                    "row": row_number, "field": "record_id",
+                    "message": f"Duplicate record ID {record_id} (also on row {seen_ids[record_id]})"
+                })
+                continue
+            seen_ids[record_id] = row_number
+        try:
+            # Rows without a record ID get one generated on import
+            record = RecordCreate(**{"record_id": "", **data})
+        except ValidationError as exc:
+            for error in exc.errors():
+                field = str(error["loc"][0]) if error["loc"] else None
+                errors.append({"row": row_number, "field": field, "message": error["msg"]})
+            continue
+        valid_rows.append((row_number, record))
+    return valid_rows, errors
@@ -0,0 +1,138 @@
+import json
+import logging
+import re
+import smtplib
+import uuid
+from datetime import date, datetime
+from email.message import EmailMessage
+from typing import Callable, Optional
+from app.config import settings
+from app.utils.duplicates import normalize_phone
+
+logger = logging.getLogger(__name__)
+
+# Placeholders a reminder template can use, e.g. "Dear {client_name}"
+TEMPLATE_FIELDS = (
+    "client_name", "client_phone", "client_address", "zone", "record_id",
+    "capacity_kw", "heater", "controller", "warranty_expiry", "days_remaining",
+)
+
+
+def reminder_context(record, days_remaining: int) -> dict:
+    """Values for the template placeholders, taken from a record with its warranty attached"""
+    context = {field: getattr(record, field, None) or "" for field in TEMPLATE_FIELDS}
+    expiry: Optional[date] = record.warranty_expiry
+    context["warranty_expiry"] = expiry.strftime("%d %b %Y") if expiry else ""
+    context["days_remaining"] = days_remaining
+    return context
+
+
+def render_template(text: str, context: dict) -> str:
+    """Fill {placeholders}; an unknown one is left as typed so a typo shows up in the message preview"""
+    return re.sub(r"\{(\w+)\}", lambda m: str(context.get(m.group(1), m.group(0))), text)
+
+
+def check_recipient(channel: str, recipient: Optional[str]) -> Optional[str]:
+    """Why a message cannot go to this recipient, or None if it can"""
+    if channel == "email":
+        if not recipient or "@" not in recipient:
+            return "No email address for this client"
+    elif len(normalize_phone(recipient)) < 7:
+        return "No phone number for this client"
+    return None
+
+
+class DeliveryError(Exception):
+    """A provider could not hand a message over; the message is marked failed with this text"""
+
+
+class ReminderProvider:
+    """Sends one message on a channel. Returns the provider's id for it, or raises DeliveryError."""
+    name = "base"
+
+    def send(self, channel: str, recipient: str, subject: Optional[str], body: str) -> str:
+        raise NotImplementedError
+
+
+class ConsoleProvider(ReminderProvider):
+    """Logs messages instead of sending them"""
+    name = "console"
+
+    def send(self, channel: str, recipient: str, subject: Optional[str], body: str) -> str:
+        message_id = uuid.uuid4().hex
+        logger.info("[%s reminder to %s] %s%s", channel, recipient, f"{subject}: " if subject else "", body)
+        return message_id
+
+
+class FileProvider(ConsoleProvider):
+    """Appends messages to a file (one JSON object per line) for local testing, and logs them"""
+    name = "file"
+
+    def __init__(self, path: str):
+        self.path = path
+
+    def send(self, channel: str, recipient: str, subject: Optional[str], body: str) -> str:
+        message_id = super().send(channel, recipient, subject, body)
+        entry = {
+            "id": message_id,
+            "channel": channel,
+            "to": recipient,
+            "subject": subject,
+            "body": body,
+            "at": datetime.utcnow().isoformat(),
+        }
+        try:
+            with open(self.path, "a", encoding="utf-8") as outbox:
+                outbox.write(json.dumps(entry) + "\n")
+        except OSError as e:
+            raise DeliveryError(f"Could not write to {self.path}: {e}")
+        return message_id
+
+
+class SmtpProvider(ReminderProvider):
+    """Sends email through an SMTP server (STARTTLS)"""
+    name = "smtp"
+
+    def send(self, channel: str, recipient: str, subject: Optional[str], body: str) -> str:
+        if channel != "email":
+            raise DeliveryError("The smtp provider only sends email")
+        if not settings.smtp_host or not settings.smtp_from:
+            raise DeliveryError("SMTP_HOST and SMTP_FROM must be set to send email")
+        message = EmailMessage()
+        message["From"] = settings.smtp_from
+        message["To"] = recipient
+        message["Subject"] = subject or ""
+        message_id = f"<{uuid.uuid4().hex}@{settings.smtp_host}>"
+        message["Message-ID"] = message_id
+        message.set_content(body)
+        try:
+            with smtplib.SMTP(settings.smtp_host, settings.smtp_port, timeout=30) as server:
+                server.starttls()
+                if settings.smtp_username:
+                    server.login(settings.smtp_username, settings.smtp_password or "")
+                server.send_message(message)
+        except (smtplib.SMTPException, OSError) as e:
+            raise DeliveryError(f"SMTP error: {e}")
+        return message_id
+
+
+# Providers by the name used in SMS_PROVIDER / WHATSAPP_PROVIDER / EMAIL_PROVIDER.
+# A gateway (e.g. an SMS or WhatsApp Business API) is added with register_provider.
+PROVIDERS: dict[str, Callable[[], ReminderProvider]] = {
+    "console": ConsoleProvider,
+    "file": lambda: FileProvider(settings.reminder_outbox_path),
+    "smtp": SmtpProvider,
+}
+
+
+def register_provider(name: str, factory: Callable[[], ReminderProvider]) -> None:
+    PROVIDERS[name] = factory
+
+
+def get_provider(channel: str) -> ReminderProvider:
+    """The provider configured for a channel"""
+    name = getattr(settings, f"{channel}_provider")
+    factory = PROVIDERS.get(name)
+    if factory is None:
+        raise DeliveryError(f"Unknown {channel} provider '{name}'")
+    return factory()
@@ -0,0 +1,59 @@
+from datetime import datetime, date, time, timedelta
+from typing import NamedTuple, Optional
+from app.models import Record
+
+# How long a site visit is assumed to keep a technician busy
+VISIT_DURATION = timedelta(hours=2)
+
+
+class ScheduleEvent(NamedTuple):
+    record: Record
+    kind: str  # "installation" or "site_visit"
+    date: date
+    start: Optional[datetime]  # site visits only; installations take the whole day
+    technician: Optional[str]
+
+    def window(self) -> tuple[datetime, datetime]:
+        """Time the technician is busy for this event"""
+        if self.kind == "installation" or self.start is None:
+            day_start = datetime.combine(self.date, time.min)
+            return day_start, day_start + timedelta(days=1)
+        return self.start, self.start + VISIT_DURATION
+
+
+def build_schedule(records: list[Record], date_from: date, date_to: date) -> list[ScheduleEvent]:
+    """Installations and site visits planned between date_from and date_to (inclusive)"""
+    events = []
+    for record in records:
+        if record.date_of_installation and date_from <= record.date_of_installation <= date_to:
+            events.append(ScheduleEvent(
+                record, "installation", record.date_of_installation, None, record.installation_done_by
+            ))
+        if record.date_of_site_visit and date_from <= record.date_of_site_visit.date() <= date_to:
+            events.append(ScheduleEvent(
+                record, "site_visit", record.date_of_site_visit.date(), record.date_of_site_visit,
+                record.site_visit_done_by
+            ))
+    events.sort(key=lambda e: (e.date, e.start or datetime.combine(e.date, time.min)))
+    return events
+
+
+def find_double_bookings(events: list[ScheduleEvent]) -> set[int]:
+    """
+    Indexes of events whose technician is booked for another overlapping event.
+    Technician names are compared case-insensitively; unassigned events never clash.
+    """
+    clashing = set()
+    by_technician: dict[str, list[int]] = {}
+    for index, event in enumerate(events):
+        name = (event.technician or "").strip().lower()
+        if name:
+            by_technician.setdefault(name, []).append(index)
+    for indexes in by_technician.values():
+        for i, first in enumerate(indexes):
+            first_start, first_end = events[first].window()
+            for second in indexes[i + 1:]:
+                second_start, second_end = events[second].window()
+                if first_start < second_end and second_start < first_end:
+                    clashing.update((first, second))
+    return clashing
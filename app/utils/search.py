@@ -0,0 +1,174 @@
+import re
+from typing import Optional
+from sqlalchemy import Float, Integer, func, literal_column, select, text
+from sqlalchemy.orm import Session
+from app.models import Record
+
+# Text fields in the search index, with their weight in the ranking (a hit on the
+# record ID or client name counts for more than one buried in the remarks)
+SEARCH_FIELDS = {
+    "record_id": 10.0,
+    "client_name": 8.0,
+    "client_phone": 8.0,
+    "client_address": 4.0,
+    "zone": 3.0,
+    "capacity_kw": 2.0,
+    "heater": 2.0,
+    "controller": 2.0,
+    "card": 2.0,
+    "body": 2.0,
+    "site_visit_done_by": 2.0,
+    "installation_done_by": 2.0,
+    "commission_done_by": 2.0,
+    "sold_by": 2.0,
+    "lead_source": 2.0,
+    "remarks": 1.0,
+}
+
+SNIPPET_LENGTH = 120
+
+
+def search_tokens(term: Optional[str]) -> list[str]:
+    """Words of a search, lower-cased; punctuation separates words as it does in the index"""
+    return re.findall(r"\w+", (term or "").lower())
+
+
+def _is_postgres(db: Session) -> bool:
+    return db.get_bind().dialect.name == "postgresql"
+
+
+def _document_sql() -> str:
+    """All search fields as one tsvector, for Postgres (|| and coalesce keep it indexable, unlike concat_ws)"""
+    text_sql = " || ' ' || ".join(f"coalesce({field}, '')" for field in SEARCH_FIELDS)
+    return f"to_tsvector('simple', {text_sql})"
+
+
+def ensure_search_index(connection) -> None:
+    """
+    Create the full-text index if it is missing: an FTS5 table kept in step with
+    records by triggers on SQLite, an expression GIN index on Postgres. Safe to run on every start.
+    """
+    dialect = connection.dialect.name
+    if dialect == "postgresql":
+        connection.execute(text(f"CREATE INDEX IF NOT EXISTS idx_records_search ON records USING GIN (({_document_sql()}))"))
+        return
+    if dialect != "sqlite":
+        return
+
+    exists = connection.execute(
+        text("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'records_fts'")
+    ).first()
+    if exists:
+        return
+    columns = ", ".join(SEARCH_FIELDS)
+    new_values = ", ".join(f"new.{field}" for field in SEARCH_FIELDS)
+    old_values = ", ".join(f"old.{field}" for field in SEARCH_FIELDS)
+    connection.execute(text(
+        f"CREATE VIRTUAL TABLE records_fts USING fts5({columns}, content='records', content_rowid='id')"
+    ))
+    connection.execute(text(
+        f"CREATE TRIGGER records_fts_insert AFTER INSERT ON records BEGIN "
+        f"INSERT INTO records_fts(rowid, {columns}) VALUES (new.id, {new_values}); END"
+    ))
+    connection.execute(text(
+        f"CREATE TRIGGER records_fts_delete AFTER DELETE ON records BEGIN "
+        f"INSERT INTO records_fts(records_fts, rowid, {columns}) VALUES ('delete', old.id, {old_values}); END"
+    ))
+    connection.execute(text(
+        f"CREATE TRIGGER records_fts_update AFTER UPDATE ON records BEGIN "
+        f"INSERT INTO records_fts(records_fts, rowid, {columns}) VALUES ('delete', old.id, {old_values}); "
+        f"INSERT INTO records_fts(rowid, {columns}) VALUES (new.id, {new_values}); END"
+    ))
+    # Index the records that are already there
+    connection.execute(text("INSERT INTO records_fts(records_fts) VALUES ('rebuild')"))
+
+
+def drop_search_index(connection) -> None:
+    if connection.dialect.name == "postgresql":
+        connection.execute(text("DROP INDEX IF EXISTS idx_records_search"))
+    elif connection.dialect.name == "sqlite":
+        for trigger in ("records_fts_insert", "records_fts_delete", "records_fts_update"):
+            connection.execute(text(f"DROP TRIGGER IF EXISTS {trigger}"))
+        connection.execute(text("DROP TABLE IF EXISTS records_fts"))
+
+
+def search_ranks(db: Session, term: Optional[str]):
+    """
+    Subquery of (id, rank) for records matching every word of the search (as a word
+    prefix, so 'ram' finds 'Ramesh'); higher rank is a better match. None for a search with no words.
+    """
+    tokens = search_tokens(term)
+    if not tokens:
+        return None
+    if _is_postgres(db):
+        document = literal_column(_document_sql())
+        ts_query = func.to_tsquery("simple", " & ".join(f"{token}:*" for token in tokens))
+        return (
+            select(Record.id.label("id"), func.ts_rank(document, ts_query).label("rank"))
+            .where(document.op("@@")(ts_query))
+            .subquery()
+        )
+    # bm25() is lower for better matches, so it is negated to rank like ts_rank
+    weights = ", ".join(str(weight) for weight in SEARCH_FIELDS.values())
+    return (
+        text(f"SELECT rowid AS id, -bm25(records_fts, {weights}) AS rank FROM records_fts WHERE records_fts MATCH :match")
+        .bindparams(match=" ".join(f'"{token}"*' for token in tokens))
+        .columns(id=Integer, rank=Float)
+        .subquery()
+    )
+
+
+def _snippet(value: str, tokens: list[str]) -> Optional[dict]:
+    """
+    The part of value around its first matching word, split into plain and matched
+    parts, with how many of the search words it contains
+    """
+    matches = []
+    found = set()
+    for m in re.finditer(r"\w+", value):
+        hit = [token for token in tokens if m.group().lower().startswith(token)]
+        if hit:
+            matches.append(m.span())
+            found.update(hit)
+    if not matches:
+        return None
+    start = 0
+    if len(value) > SNIPPET_LENGTH:
+        # Keep a little context before the first hit
+        start = max(0, min(matches[0][0] - 30, len(value) - SNIPPET_LENGTH))
+    end = min(len(value), start + SNIPPET_LENGTH)
+
+    parts = []
+    position = start
+    for match_start, match_end in matches:
+        if match_start < start or match_start >= end:
+            continue
+        match_end = min(match_end, end)
+        if match_start > position:
+            parts.append({"text": value[position:match_start], "highlight": False})
+        parts.append({"text": value[match_start:match_end], "highlight": True})
+        position = match_end
+    if position < end:
+        parts.append({"text": value[position:end], "highlight": False})
+    if start > 0:
+        parts.insert(0, {"text": "…", "highlight": False})
+    if end < len(value):
+        parts.append({"text": "…", "highlight": False})
+    return {"parts": parts, "words": len(found)}
+
+
+def find_search_match(record: Record, term: Optional[str]) -> Optional[dict]:
+    """The field that best explains why a record matched the search, as a highlighted snippet"""
+    tokens = search_tokens(term)
+    if not tokens:
+        return None
+    best = None
+    for field in SEARCH_FIELDS:
+        value = getattr(record, field)
+        snippet = _snippet(str(value), tokens) if value else None
+        # Fields are in weight order, so on a tie the earlier (more telling) one is kept
+        if snippet and (best is None or snippet["words"] > best["words"]):
+            best = {"field": field, **snippet}
+    if best:
+        del best["words"]
+    return best
@@ -0,0 +1,57 @@
+from datetime import date
+from typing import Optional
+
+# Months per target period; quarters are calendar quarters (Jan-Mar, Apr-Jun, ...)
+PERIOD_MONTHS = {
+    "month": 1,
+    "quarter": 3,
+}
+
+# Below this share of the pace expected so far a salesperson or zone is flagged as behind
+BEHIND_RATIO = 0.9
+
+
+def _add_months(day: date, months: int) -> date:
+    month_index = day.year * 12 + day.month - 1 + months
+    return date(month_index // 12, month_index % 12 + 1, 1)
+
+
+def period_start(period_type: str, day: date) -> date:
+    """First day of the month or quarter a date falls in"""
+    months = PERIOD_MONTHS[period_type]
+    return date(day.year, (day.month - 1) // months * months + 1, 1)
+
+
+def period_end(period_type: str, start: date) -> date:
+    """First day after the period, so a period is start <= day < end"""
+    return _add_months(start, PERIOD_MONTHS[period_type])
+
+
+def shift_period(period_type: str, start: date, periods: int) -> date:
+    """Start of the period this many periods before (negative) or after"""
+    return _add_months(start, PERIOD_MONTHS[period_type] * periods)
+
+
+def elapsed_fraction(period_type: str, start: date, today: Optional[date] = None) -> float:
+    """How much of the period has gone by: 0 before it starts, 1 once it is over"""
+    today = today or date.today()
+    end = period_end(period_type, start)
+    if today < start:
+        return 0.0
+    if today >= end:
+        return 1.0
+    return ((today - start).days + 1) / (end - start).days
+
+
+def attainment_status(attainment: Optional[float], elapsed: float) -> Optional[str]:
+    """
+    "exceeded" at 100% or more, "behind" when short of the pace expected by now
+    (e.g. under 45% halfway through), otherwise "on_track"
+    """
+    if attainment is None:
+        return None
+    if attainment >= 100:
+        return "exceeded"
+    if attainment < elapsed * 100 * BEHIND_RATIO:
+        return "behind"
+    return "on_track"
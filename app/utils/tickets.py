@@ -0,0 +1,45 @@
+from datetime import datetime, timedelta
+from typing import Optional
+
+# Status flow: open → assigned → in_progress → resolved → closed.
+# A step back is allowed so a ticket can be reassigned or reopened.
+TICKET_TRANSITIONS = {
+    "open": ("assigned",),
+    "assigned": ("in_progress", "open"),
+    "in_progress": ("resolved", "assigned"),
+    "resolved": ("closed", "in_progress"),
+    "closed": (),
+}
+
+# Hours from opening within which a ticket should be resolved
+SLA_HOURS = {
+    "urgent": 4,
+    "high": 24,
+    "medium": 48,
+    "low": 96,
+}
+
+# Timestamp column set the first time a ticket enters each status
+STATUS_TIMESTAMPS = {
+    "assigned": "assigned_at",
+    "in_progress": "started_at",
+    "resolved": "resolved_at",
+    "closed": "closed_at",
+}
+
+
+def can_transition(current: str, new: str) -> bool:
+    """Whether a ticket may move from current to new status"""
+    return current == new or new in TICKET_TRANSITIONS.get(current, ())
+
+
+def calculate_sla_due(priority: str, opened_at: datetime) -> datetime:
+    """Resolution deadline for a ticket of the given priority"""
+    return opened_at + timedelta(hours=SLA_HOURS.get(priority, SLA_HOURS["medium"]))
+
+
+def is_sla_breached(due_at: Optional[datetime], resolved_at: Optional[datetime]) -> bool:
+    """A ticket breaches its SLA when it is (or was) resolved after the due time"""
+    if not due_at:
+        return False
+    return (resolved_at or datetime.utcnow()) > due_at
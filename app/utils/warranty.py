@@ -1,32 +1,160 @@
 from datetime import datetime, date, timedelta
-from typing import Optional
-from app.models import Record
+from typing import NamedTuple, Optional
+from sqlalchemy import and_, or_, case, extract, func, select, true
+from sqlalchemy.orm import Session
+from app.models import Record, WarrantyPolicy, ServiceContract
+from app.schemas import WarrantyPolicySettings
 
+# Machine fields a warranty policy can be scoped to
+POLICY_MATCH_FIELDS = ("capacity_kw", "heater", "controller")
 
-def calculate_warranty_expiry(date_of_delivery: date) -> date:
-    """Calculate warranty expiry (1 year from delivery date)"""
-    return date_of_delivery + timedelta(days=365)
 
+class WarrantyInfo(NamedTuple):
+    expiry: Optional[date]
+    status: str  # "in_warranty", "expiring_soon", "out_of_warranty"
+    days_remaining: Optional[int]
+    policy: str  # name of the policy that applied
 
-def get_warranty_status(record: Record, days_soon: int = 30) -> tuple[Optional[date], str]:
+
+def _normalize(value: Optional[str]) -> str:
+    return (value or "").strip().lower()
+
+
+def policy_matches(policy: WarrantyPolicy, record: Record) -> bool:
+    """A policy matches when every machine field it sets equals the record's value"""
+    for field in POLICY_MATCH_FIELDS:
+        wanted = getattr(policy, field)
+        if wanted and _normalize(wanted) != _normalize(getattr(record, field)):
+            return False
+    return True
+
+
+def find_warranty_policy(record: Record, policies: list[WarrantyPolicy]) -> Optional[WarrantyPolicy]:
+    """
+    Pick the policy for a record.
+    The most specific match wins (most machine fields set); ties go to the
+    oldest policy so adding a new one never silently changes existing records.
+    """
+    matches = [p for p in policies if p.is_active and policy_matches(p, record)]
+    if not matches:
+        return None
+    return min(matches, key=lambda p: (-sum(1 for f in POLICY_MATCH_FIELDS if getattr(p, f)), p.id))
+
+
+def calculate_warranty_expiry(record: Record, duration_days: int, start_from: str = "delivery") -> Optional[date]:
+    """Calculate warranty expiry (duration_days from delivery, or installation when set)"""
+    start = record.date_of_delivery
+    if start_from == "installation" and record.date_of_installation:
+        start = record.date_of_installation
+    if not start:
+        return None
+    return start + timedelta(days=duration_days)
+
+
+def get_warranty_status(
+    record: Record,
+    policies: list[WarrantyPolicy],
+    default: WarrantyPolicySettings,
+    days_soon: Optional[int] = None,
+    extended_until: Optional[date] = None
+) -> WarrantyInfo:
     """
-    Calculate warranty expiry and status.
-    Returns (expiry_date, status) where status is:
+    Calculate warranty expiry and status using the matching policy
+    (or the default warranty when no policy matches). A purchased extended
+    warranty (extended_until) replaces the expiry when it runs longer.
+    Status is:
     - "in_warranty": still under warranty
     - "expiring_soon": expiring within days_soon
     - "out_of_warranty": warranty expired
     """
-    if not record.date_of_delivery:
-        return None, "out_of_warranty"
-    
-    expiry = calculate_warranty_expiry(record.date_of_delivery)
+    if days_soon is None:
+        days_soon = default.expiring_soon_days
+
+    policy = find_warranty_policy(record, policies)
+    if policy:
+        expiry = calculate_warranty_expiry(record, policy.duration_days, policy.start_from)
+        policy_name = policy.name
+    else:
+        expiry = calculate_warranty_expiry(record, default.duration_days, default.start_from)
+        policy_name = "Standard warranty"
+
+    if extended_until and (expiry is None or extended_until > expiry):
+        expiry = extended_until
+        policy_name = "Extended warranty"
+
+    if expiry is None:
+        return WarrantyInfo(None, "out_of_warranty", None, policy_name)
+
     today = datetime.utcnow().date()
-    
-    if expiry < today:
-        return expiry, "out_of_warranty"
-    
     days_remaining = (expiry - today).days
+    if days_remaining < 0:
+        return WarrantyInfo(expiry, "out_of_warranty", days_remaining, policy_name)
     if days_remaining <= days_soon:
-        return expiry, "expiring_soon"
-    
-    return expiry, "in_warranty"
+        return WarrantyInfo(expiry, "expiring_soon", days_remaining, policy_name)
+    return WarrantyInfo(expiry, "in_warranty", days_remaining, policy_name)
+
+
+def _day_number(db: Session, column):
+    """A date as a number of days, so dates can be offset and compared the same way on SQLite and Postgres"""
+    if db.get_bind().dialect.name == "postgresql":
+        return extract("epoch", column) / 86400
+    return func.julianday(column)
+
+
+def _expiry_day_sql(db: Session, duration_days: int, start_from: str):
+    """calculate_warranty_expiry as a day number in SQL"""
+    start = Record.date_of_delivery
+    if start_from == "installation":
+        start = func.coalesce(Record.date_of_installation, Record.date_of_delivery)
+    return _day_number(db, start) + duration_days
+
+
+def warranty_expiry_sql(db: Session, policies: list[WarrantyPolicy], default: WarrantyPolicySettings):
+    """
+    The expiry get_warranty_status works out, as a day number computed in SQL so
+    records can be sorted by it a page at a time. Null for records without one.
+    """
+    expiry = _expiry_day_sql(db, default.duration_days, default.start_from)
+    # Same order as find_warranty_policy: most specific first, then oldest
+    matching = sorted(
+        (p for p in policies if p.is_active),
+        key=lambda p: (-sum(1 for f in POLICY_MATCH_FIELDS if getattr(p, f)), p.id)
+    )
+    if matching:
+        expiry = case(
+            *[
+                (
+                    and_(true(), *[
+                        func.lower(func.trim(getattr(Record, field))) == _normalize(getattr(policy, field))
+                        for field in POLICY_MATCH_FIELDS if getattr(policy, field)
+                    ]),
+                    _expiry_day_sql(db, policy.duration_days, policy.start_from)
+                )
+                for policy in matching
+            ],
+            else_=expiry
+        )
+    extended = _day_number(db, (
+        select(func.max(ServiceContract.end_date))
+        .where(ServiceContract.record_id == Record.id, ServiceContract.contract_type == "extended_warranty")
+        .scalar_subquery()
+    ))
+    return case(
+        (and_(extended.isnot(None), or_(expiry.is_(None), extended > expiry)), extended),
+        else_=expiry
+    )
+
+
+def get_contract_status(start_date: date, end_date: date, days_soon: int = 30) -> str:
+    """
+    Status of an AMC / extended warranty contract:
+    "upcoming", "active", "expiring" (ends within days_soon) or "expired"
+    """
+    today = datetime.utcnow().date()
+    if end_date < today:
+        return "expired"
+    if start_date > today:
+        return "upcoming"
+    if (end_date - today).days <= days_soon:
+        return "expiring"
+    return "active"
@@ -1,9 +1,11 @@
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
-import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { AuthProvider, useAuth, homePathForRole } from './contexts/AuthContext'
 import { DarkModeProvider } from './contexts/DarkModeContext'
+import { SettingsProvider } from './contexts/SettingsContext'
 import Login from './pages/Login'
 import MaintenanceDashboard from './pages/MaintenanceDashboard'
 import SalesDashboard from './pages/SalesDashboard'
+import AdminDashboard from './pages/AdminDashboard'
 import ProtectedRoute from './components/ProtectedRoute'
 
 function AppRoutes() {
@@ -15,7 +17,7 @@ function AppRoutes() {
       <Route
         path="/maintenance/*"
         element={
-          <ProtectedRoute allowedRole="maintenance">
+          <ProtectedRoute allowedRoles={['maintenance', 'admin']}>
             <MaintenanceDashboard />
           </ProtectedRoute>
         }
@@ -23,20 +25,24 @@ function AppRoutes() {
       <Route
         path="/sales/*"
         element={
-          <ProtectedRoute allowedRole="sales">
+          <ProtectedRoute allowedRoles={['sales', 'admin']}>
             <SalesDashboard />
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/admin/*"
+        element={
+          <ProtectedRoute allowedRoles={['admin']}>
+            <AdminDashboard />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/"
         element={
           user ? (
-            user.role === 'maintenance' ? (
-              <Navigate to="/maintenance" replace />
-            ) : (
-              <Navigate to="/sales" replace />
-            )
+            <Navigate to={homePathForRole(user.role)} replace />
           ) : (
             <Navigate to="/login" replace />
           )
@@ -50,9 +56,11 @@ function App() {
   return (
     <DarkModeProvider>
       <AuthProvider>
-        <Router>
-          <AppRoutes />
-        </Router>
+        <SettingsProvider>
+          <Router>
+            <AppRoutes />
+          </Router>
+        </SettingsProvider>
       </AuthProvider>
     </DarkModeProvider>
   )
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react'
+import { useParams, useNavigate, Link } from 'react-router-dom'
+import { format } from 'date-fns'
+import { clientsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import RecordDetailModal from './RecordDetailModal'
+import { CONTRACT_STATUS_STYLES, CONTRACT_TYPE_LABELS } from './RecordContracts'
+import { ClientInput, ClientProfile as ClientProfileData, Record, WarrantyStatus } from '../types'
+
+const WARRANTY_STYLES: { [status in WarrantyStatus]: { label: string; className: string } } = {
+  in_warranty: { label: 'In Warranty', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  expiring_soon: { label: 'Expiring Soon', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300' },
+  out_of_warranty: { label: 'Out of Warranty', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+}
+
+const formatMoney = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+
+function ClientProfile() {
+  const { id } = useParams<{ id: string }>()
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  const canEdit = user?.role === 'maintenance'
+  const [profile, setProfile] = useState<ClientProfileData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ClientInput | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [selectedRecord, setSelectedRecord] = useState<Record | null>(null)
+
+  const fetchProfile = async () => {
+    try {
+      setProfile(await clientsApi.profile(Number(id)))
+    } catch (error) {
+      console.error('Error fetching client:', error)
+      setProfile(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    setForm(null)
+    fetchProfile()
+  }, [id])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form || !profile) return
+    setSaving(true)
+    setError('')
+    try {
+      await clientsApi.update(profile.client.id, form)
+      setForm(null)
+      fetchProfile()
+    } catch (err: any) {
+      console.error('Error saving client:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save client')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+  const sectionClass = 'bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700'
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-gray-600 dark:text-gray-400 mt-4">Loading client...</p>
+      </div>
+    )
+  }
+
+  if (!profile) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500 dark:text-gray-400">Client not found</p>
+        <Link to="/maintenance" className="text-sm font-semibold text-primary-600 dark:text-primary-400 mt-2 inline-block">← Back to Records</Link>
+      </div>
+    )
+  }
+
+  const { client, records, visits, contracts, tickets } = profile
+  const recordCodes = new Map(records.map((record) => [record.id, record.record_id]))
+  const inWarranty = records.filter((record) => record.warranty_status && record.warranty_status !== 'out_of_warranty').length
+  const openTickets = tickets.filter((ticket) => ticket.status !== 'resolved' && ticket.status !== 'closed').length
+
+  return (
+    <div className="px-4 py-8 sm:px-0 space-y-6">
+      <div className={sectionClass}>
+        {form ? (
+          <form onSubmit={handleSave}>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Edit Client</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">Changes are copied onto all {client.record_count} of this client's records.</p>
+            {error && (
+              <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+                <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className={labelClass}>Name</label>
+                <input
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Phone</label>
+                <input
+                  type="text"
+                  value={form.phone || ''}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Zone</label>
+                <input
+                  type="text"
+                  list="client-zones-list"
+                  value={form.zone || ''}
+                  onChange={(e) => setForm({ ...form, zone: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Email</label>
+                <input
+                  type="email"
+                  value={form.email || ''}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  placeholder="For warranty reminders"
+                  className={inputClass}
+                />
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>Address</label>
+                <textarea
+                  rows={2}
+                  value={form.address || ''}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            <datalist id="client-zones-list">
+              {settings.zones.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+            <div className="flex justify-end gap-3 mt-4">
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Save Client'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div>
+              <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">{client.name}</h2>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {client.phone || 'No phone'}
+                {client.email && <> | {client.email}</>}
+                {client.zone && <> | {client.zone}</>}
+              </p>
+              {client.address && <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 whitespace-pre-line">{client.address}</p>}
+            </div>
+            {canEdit && (
+              <div className="flex gap-3">
+                <button
+                  onClick={() => setForm({ name: client.name, phone: client.phone || '', address: client.address || '', zone: client.zone || '', email: client.email || '' })}
+                  className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+                >
+                  Edit Client
+                </button>
+                <Link
+                  to={`/maintenance/records/new?client=${client.id}`}
+                  className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+                >
+                  + Add Machine
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className={sectionClass}>
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Machines</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">{records.length}</p>
+        </div>
+        <div className={sectionClass}>
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">In Warranty</p>
+          <p className="text-3xl font-bold text-green-700 dark:text-green-400 mt-1">{inWarranty}</p>
+        </div>
+        <div className={sectionClass}>
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Open Tickets</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">{openTickets}</p>
+        </div>
+        <div className={sectionClass}>
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">Lifetime Value</p>
+          <p className="text-3xl font-bold text-primary-700 dark:text-primary-400 mt-1">{formatMoney(profile.lifetime_value)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Machines {formatMoney(profile.sales_value)} · AMC/EW {formatMoney(profile.contract_value)} · Service {formatMoney(profile.service_value)}
+          </p>
+        </div>
+      </div>
+
+      <div className={sectionClass}>
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 pb-2 border-b-2 border-primary-500 dark:border-primary-400">Machines</h3>
+        {records.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No active records for this client</p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {records.map((record) => {
+              const warranty = WARRANTY_STYLES[record.warranty_status || 'out_of_warranty']
+              return (
+                <div
+                  key={record.id}
+                  onClick={() => setSelectedRecord(record)}
+                  className="py-3 flex flex-wrap items-center justify-between gap-3 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50 -mx-2 px-2 rounded-lg transition-all"
+                >
+                  <div>
+                    <p className="text-sm font-semibold text-gray-900 dark:text-white font-mono">{record.record_id}</p>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5">
+                      {[record.capacity_kw && `${record.capacity_kw} KW`, record.heater, record.controller].filter(Boolean).join(' · ') || 'No machine details'}
+                      {' | '}Delivered {format(new Date(record.date_of_delivery), 'MMM dd, yyyy')}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    {record.sale_price != null && (
+                      <span className="text-sm font-semibold text-gray-700 dark:text-gray-300">{formatMoney(Number(record.sale_price))}</span>
+                    )}
+                    <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${warranty.className}`}>
+                      {warranty.label}
+                      {record.warranty_expiry && ` · ${format(new Date(record.warranty_expiry), 'MMM dd, yyyy')}`}
+                    </span>
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={sectionClass}>
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 pb-2 border-b-2 border-primary-500 dark:border-primary-400">Service History</h3>
+          {visits.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No service visits logged yet</p>
+          ) : (
+            <ol className="space-y-4 max-h-[32rem] overflow-y-auto pr-2">
+              {visits.map((visit) => (
+                <li key={visit.id} className="border-l-2 border-primary-300 dark:border-primary-700 pl-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900 dark:text-white">{format(new Date(visit.visit_date), 'MMM dd, yyyy')}</span>
+                    <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{recordCodes.get(visit.record_id)}</span>
+                    {visit.technician && <span className="text-xs text-gray-600 dark:text-gray-400">by {visit.technician}</span>}
+                    {!visit.under_warranty && visit.charge != null && (
+                      <span className="text-xs font-semibold text-primary-700 dark:text-primary-400">{formatMoney(Number(visit.charge))}</span>
+                    )}
+                  </div>
+                  {(visit.issue_reported || visit.work_done) && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {visit.issue_reported}
+                      {visit.issue_reported && visit.work_done && ' → '}
+                      {visit.work_done}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <div className={sectionClass}>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 pb-2 border-b-2 border-primary-500 dark:border-primary-400">Contracts</h3>
+            {contracts.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No AMC or extended warranty contracts</p>
+            ) : (
+              <div className="space-y-2">
+                {contracts.map((contract) => {
+                  const status = CONTRACT_STATUS_STYLES[contract.status]
+                  return (
+                    <div key={contract.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                      <span className="text-gray-900 dark:text-white">
+                        <span className="font-semibold">{CONTRACT_TYPE_LABELS[contract.contract_type]}</span>
+                        <span className="text-xs font-mono text-gray-500 dark:text-gray-400 ml-2">{recordCodes.get(contract.record_id)}</span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <span className="text-xs text-gray-600 dark:text-gray-400">
+                          {format(new Date(contract.start_date), 'MMM yyyy')} – {format(new Date(contract.end_date), 'MMM yyyy')}
+                        </span>
+                        <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>{status.label}</span>
+                      </span>
+                    </div>
+                  )
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className={sectionClass}>
+            <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 pb-2 border-b-2 border-primary-500 dark:border-primary-400">Tickets</h3>
+            {tickets.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No service tickets</p>
+            ) : (
+              <div className="space-y-2">
+                {tickets.map((ticket) => (
+                  <div key={ticket.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="text-gray-900 dark:text-white">
+                      <span className="font-mono text-xs text-gray-500 dark:text-gray-400 mr-2">{ticket.ticket_number}</span>
+                      {ticket.title}
+                    </span>
+                    <span className="flex items-center gap-2">
+                      <span className="text-xs text-gray-600 dark:text-gray-400">{format(new Date(ticket.created_at), 'MMM dd, yyyy')}</span>
+                      <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 capitalize">
+                        {ticket.status.replace('_', ' ')}
+                      </span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {selectedRecord && (
+        <RecordDetailModal
+          record={selectedRecord}
+          isOpen={true}
+          onClose={() => setSelectedRecord(null)}
+          onEdit={canEdit ? (recordId) => navigate(`/maintenance/records/${recordId}/edit`) : undefined}
+        />
+      )}
+    </div>
+  )
+}
+
+export default ClientProfile
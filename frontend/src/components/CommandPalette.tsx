@@ -0,0 +1,254 @@
+import { useState, useEffect, useRef } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { recordsApi, salesApi, clientsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { Client, Record, UserRole } from '../types'
+import RecordDetailModal from './RecordDetailModal'
+
+interface PaletteCommand {
+  label: string
+  path: string
+  roles: UserRole[]
+  keywords?: string
+}
+
+const COMMANDS: PaletteCommand[] = [
+  { label: 'New record', path: '/maintenance/records/new', roles: ['maintenance'], keywords: 'add create machine' },
+  { label: 'Records', path: '/maintenance', roles: ['maintenance', 'admin'], keywords: 'maintenance list' },
+  { label: 'Service tickets', path: '/maintenance/tickets', roles: ['maintenance', 'admin'], keywords: 'breakdown complaints board' },
+  { label: 'Technician calendar', path: '/maintenance/calendar', roles: ['maintenance', 'admin'], keywords: 'schedule installations visits' },
+  { label: 'Warranty reports', path: '/maintenance/warranty', roles: ['maintenance', 'admin'], keywords: 'expiring amc' },
+  { label: 'Warranty reminders', path: '/maintenance/reminders', roles: ['maintenance', 'admin'], keywords: 'sms whatsapp email notifications queue' },
+  { label: 'Duplicate clients', path: '/maintenance/duplicates', roles: ['maintenance', 'admin'], keywords: 'merge' },
+  { label: 'Recently deleted', path: '/maintenance/deleted', roles: ['maintenance', 'admin'], keywords: 'recycle bin restore' },
+  { label: 'Import records', path: '/maintenance/import', roles: ['maintenance'], keywords: 'csv xlsx excel upload' },
+  { label: 'Sales records', path: '/sales', roles: ['sales', 'admin'] },
+  { label: 'Sales pipeline', path: '/sales/pipeline', roles: ['sales', 'admin'], keywords: 'leads enquiries opportunities kanban' },
+  { label: 'Receivables', path: '/sales/receivables', roles: ['sales', 'admin'], keywords: 'payments outstanding balance due ageing collections' },
+  { label: 'Sales leaderboard', path: '/sales/leaderboard', roles: ['sales', 'admin'], keywords: 'targets attainment ranking performance' },
+  { label: 'Sales summary', path: '/sales/summary', roles: ['sales', 'admin'], keywords: 'revenue report charts' },
+  { label: 'User accounts', path: '/admin', roles: ['admin'], keywords: 'users passwords' },
+  { label: 'Settings', path: '/admin/settings', roles: ['admin'], keywords: 'zones technicians salespeople' },
+  { label: 'Warranty policies', path: '/admin/warranty-policies', roles: ['admin'] },
+  { label: 'Sales targets', path: '/admin/targets', roles: ['admin'], keywords: 'goals quota salespeople zones monthly quarterly' },
+]
+
+type PaletteItem =
+  | { kind: 'record'; record: Record }
+  | { kind: 'client'; client: Client }
+  | { kind: 'command'; command: PaletteCommand }
+
+interface CommandPaletteProps {
+  isOpen: boolean
+  setIsOpen: React.Dispatch<React.SetStateAction<boolean>>
+}
+
+function CommandPalette({ isOpen, setIsOpen }: CommandPaletteProps) {
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [query, setQuery] = useState('')
+  const [records, setRecords] = useState<Record[]>([])
+  const [clients, setClients] = useState<Client[]>([])
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [openRecord, setOpenRecord] = useState<Record | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Only the newest lookup may fill the list; slower older ones are dropped
+  const lookupId = useRef(0)
+
+  const role = user?.role
+  const canSeeMaintenance = role === 'maintenance' || role === 'admin'
+
+  // Ctrl+K (Cmd+K on a Mac) opens the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        setIsOpen((open) => !open)
+      }
+    }
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [setIsOpen])
+
+  useEffect(() => {
+    if (isOpen) {
+      setQuery('')
+      setActiveIndex(0)
+      inputRef.current?.focus()
+    }
+  }, [isOpen])
+
+  // Type-ahead: a short pause so every keystroke doesn't fire a request
+  useEffect(() => {
+    const search = query.trim()
+    if (!isOpen || !search) {
+      setRecords([])
+      setClients([])
+      return
+    }
+    const id = ++lookupId.current
+    const timer = setTimeout(async () => {
+      try {
+        const filters = { search }
+        const [recordResults, clientResults] = await Promise.all([
+          canSeeMaintenance ? recordsApi.list(filters, 1, 6) : salesApi.records(filters, 1, 6),
+          canSeeMaintenance ? clientsApi.list(search, 1, 4) : Promise.resolve(null),
+        ])
+        if (id !== lookupId.current) return
+        setRecords(recordResults.records)
+        setClients(clientResults ? clientResults.clients : [])
+        setActiveIndex(0)
+      } catch (error) {
+        console.error('Error searching:', error)
+      }
+    }, 150)
+    return () => clearTimeout(timer)
+  }, [query, isOpen, canSeeMaintenance])
+
+  if (!user) return null
+
+  const search = query.trim().toLowerCase()
+  const commands = COMMANDS.filter(
+    (command) =>
+      command.roles.includes(user.role) &&
+      (!search || `${command.label} ${command.keywords || ''}`.toLowerCase().includes(search))
+  )
+  const items: PaletteItem[] = [
+    ...records.map((record) => ({ kind: 'record' as const, record })),
+    ...clients.map((client) => ({ kind: 'client' as const, client })),
+    ...commands.map((command) => ({ kind: 'command' as const, command })),
+  ]
+
+  const close = () => setIsOpen(false)
+
+  const runItem = (item: PaletteItem) => {
+    close()
+    if (item.kind === 'record') {
+      setOpenRecord(item.record)
+    } else if (item.kind === 'client') {
+      navigate(`/maintenance/clients/${item.client.id}`)
+    } else {
+      navigate(item.command.path)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      close()
+    } else if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.min(items.length - 1, index + 1))
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault()
+      setActiveIndex((index) => Math.max(0, index - 1))
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault()
+      runItem(items[activeIndex])
+    }
+  }
+
+  const sectionClass = 'px-4 pt-3 pb-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide'
+  const itemClass = (index: number) =>
+    `w-full text-left px-4 py-2 flex items-center justify-between gap-3 text-sm ${
+      index === activeIndex
+        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+        : 'text-gray-700 dark:text-gray-300'
+    }`
+
+  let index = -1
+  const nextIndex = () => ++index
+
+  return (
+    <>
+      {isOpen && (
+        <div className="fixed inset-0 z-50 flex items-start justify-center pt-24 px-4" role="dialog" aria-modal="true" aria-label="Command palette">
+          <div className="fixed inset-0 bg-gray-900 bg-opacity-50" onClick={close} />
+          <div className="relative w-full max-w-xl bg-white dark:bg-gray-800 rounded-xl shadow-2xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <input
+              ref={inputRef}
+              type="text"
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value)
+                setActiveIndex(0)
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder="Record ID, client name or phone, or a page..."
+              className="w-full px-4 py-3.5 text-base border-b border-gray-200 dark:border-gray-700 bg-transparent text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 focus:outline-none"
+            />
+            <div className="max-h-96 overflow-y-auto pb-2">
+              {records.length > 0 && (
+                <>
+                  <p className={sectionClass}>Records</p>
+                  {records.map((record) => {
+                    const i = nextIndex()
+                    return (
+                      <button key={`record-${record.id}`} onMouseEnter={() => setActiveIndex(i)} onClick={() => runItem(items[i])} className={itemClass(i)}>
+                        <span className="truncate">
+                          <span className="font-mono text-xs mr-2">{record.record_id}</span>
+                          <span className="font-semibold">{record.client_name}</span>
+                        </span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">{record.client_phone || record.zone}</span>
+                      </button>
+                    )
+                  })}
+                </>
+              )}
+              {clients.length > 0 && (
+                <>
+                  <p className={sectionClass}>Clients</p>
+                  {clients.map((client) => {
+                    const i = nextIndex()
+                    return (
+                      <button key={`client-${client.id}`} onMouseEnter={() => setActiveIndex(i)} onClick={() => runItem(items[i])} className={itemClass(i)}>
+                        <span className="font-semibold truncate">{client.name}</span>
+                        <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                          {client.phone || client.zone} · {client.record_count} {client.record_count === 1 ? 'machine' : 'machines'}
+                        </span>
+                      </button>
+                    )
+                  })}
+                </>
+              )}
+              {commands.length > 0 && (
+                <>
+                  <p className={sectionClass}>Go to</p>
+                  {commands.map((command) => {
+                    const i = nextIndex()
+                    return (
+                      <button key={command.path} onMouseEnter={() => setActiveIndex(i)} onClick={() => runItem(items[i])} className={itemClass(i)}>
+                        <span>{command.label}</span>
+                      </button>
+                    )
+                  })}
+                </>
+              )}
+              {items.length === 0 && (
+                <p className="px-4 py-6 text-sm text-center text-gray-500 dark:text-gray-400">Nothing matches "{query}"</p>
+              )}
+            </div>
+            <div className="px-4 py-2 border-t border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400 flex gap-4">
+              <span>↑↓ to move</span>
+              <span>Enter to open</span>
+              <span>Esc to close</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {openRecord && (
+        <RecordDetailModal
+          record={openRecord}
+          isOpen={true}
+          onClose={() => setOpenRecord(null)}
+          onEdit={role === 'maintenance' ? (id) => {
+            setOpenRecord(null)
+            navigate(`/maintenance/records/${id}/edit`)
+          } : undefined}
+        />
+      )}
+    </>
+  )
+}
+
+export default CommandPalette
@@ -0,0 +1,257 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { clientsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { ClientInput, DuplicateClientGroup, DuplicateReason } from '../types'
+
+const REASON_LABELS: { [reason in DuplicateReason]: string } = {
+  phone: 'Same phone',
+  name: 'Similar name',
+  address: 'Similar address',
+}
+
+interface DuplicateGroupCardProps {
+  group: DuplicateClientGroup
+  canMerge: boolean
+  onMerged: () => void
+}
+
+const detailsOf = (member: ClientInput): ClientInput => ({
+  name: member.name,
+  phone: member.phone || '',
+  address: member.address || '',
+  zone: member.zone || '',
+})
+
+function DuplicateGroupCard({ group, canMerge, onMerged }: DuplicateGroupCardProps) {
+  const { settings } = useSettings()
+  // Members are sorted by record count, so the first is the likeliest "right" spelling
+  const [included, setIncluded] = useState<boolean[]>(group.members.map(() => true))
+  const [details, setDetails] = useState<ClientInput>(detailsOf(group.members[0]))
+  const [keepIndex, setKeepIndex] = useState<number | null>(0)
+  const [merging, setMerging] = useState(false)
+  const [error, setError] = useState('')
+
+  const selected = group.members.filter((_, index) => included[index])
+  const recordCount = selected.reduce((sum, member) => sum + member.records.length, 0)
+
+  const handleKeep = (index: number) => {
+    setKeepIndex(index)
+    setDetails(detailsOf(group.members[index]))
+  }
+
+  const handleMerge = async () => {
+    if (!confirm(`Merge ${selected.length} clients (${recordCount} records) into "${details.name}"?`)) return
+    setMerging(true)
+    setError('')
+    try {
+      await clientsApi.merge(selected.map((member) => member.id), details)
+      onMerged()
+    } catch (err: any) {
+      console.error('Error merging clients:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to merge clients')
+    } finally {
+      setMerging(false)
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+
+  return (
+    <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        <span className="text-sm font-bold text-gray-900 dark:text-white">
+          {group.members.length} clients · {group.record_count} records
+        </span>
+        {group.reasons.map((reason) => (
+          <span key={reason} className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300">
+            {REASON_LABELS[reason]}
+          </span>
+        ))}
+      </div>
+
+      <div className="divide-y divide-gray-200 dark:divide-gray-600 rounded-lg border border-gray-200 dark:border-gray-600">
+        {group.members.map((member, index) => (
+          <div key={member.id} className={`px-4 py-3 flex flex-wrap items-start gap-4 ${included[index] ? '' : 'opacity-50'}`}>
+            {canMerge && (
+              <label className="flex items-center gap-2 text-xs font-medium text-gray-600 dark:text-gray-400 pt-0.5">
+                <input
+                  type="checkbox"
+                  checked={included[index]}
+                  onChange={(e) => setIncluded(included.map((value, i) => (i === index ? e.target.checked : value)))}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                Merge
+              </label>
+            )}
+            <div className="flex-1 min-w-0">
+              <Link
+                to={`/maintenance/clients/${member.id}`}
+                className="text-sm font-semibold text-gray-900 dark:text-white hover:text-primary-600 dark:hover:text-primary-400"
+              >
+                {member.name}
+              </Link>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {member.phone || 'No phone'}
+                {member.zone && <> | {member.zone}</>}
+              </p>
+              {member.address && <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{member.address}</p>}
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {member.records.map((record) => record.record_id).join(', ')}
+              </p>
+            </div>
+            {canMerge && (
+              <button
+                onClick={() => handleKeep(index)}
+                className={`px-3 py-1.5 text-xs font-medium rounded-lg border transition-all ${
+                  keepIndex === index
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'text-primary-600 dark:text-primary-400 border-primary-300 dark:border-primary-700 hover:bg-primary-50 dark:hover:bg-primary-900/30'
+                }`}
+              >
+                {keepIndex === index ? 'Keeping these details' : 'Keep these details'}
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {canMerge && (
+        <div className="mt-4 bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h5 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">Merged Client</h5>
+          {error && (
+            <div className="mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Client Name</label>
+              <input
+                type="text"
+                value={details.name}
+                onChange={(e) => {
+                  setDetails({ ...details, name: e.target.value })
+                  setKeepIndex(null)
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Phone</label>
+              <input
+                type="text"
+                value={details.phone || ''}
+                onChange={(e) => {
+                  setDetails({ ...details, phone: e.target.value })
+                  setKeepIndex(null)
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Address</label>
+              <input
+                type="text"
+                value={details.address || ''}
+                onChange={(e) => {
+                  setDetails({ ...details, address: e.target.value })
+                  setKeepIndex(null)
+                }}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Zone</label>
+              <select
+                value={details.zone || ''}
+                onChange={(e) => {
+                  setDetails({ ...details, zone: e.target.value })
+                  setKeepIndex(null)
+                }}
+                className={inputClass}
+              >
+                <option value="">No zone</option>
+                {details.zone && !settings.zones.includes(details.zone) && <option value={details.zone}>{details.zone}</option>}
+                {settings.zones.map((zone) => (
+                  <option key={zone} value={zone}>{zone}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="flex justify-end mt-4">
+            <button
+              onClick={handleMerge}
+              disabled={merging || selected.length < 2 || !details.name.trim()}
+              className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {merging ? 'Merging...' : `Merge ${selected.length} Clients`}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DuplicateClients() {
+  const { user } = useAuth()
+  const canMerge = user?.role === 'maintenance'
+  const [groups, setGroups] = useState<DuplicateClientGroup[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const fetchGroups = async () => {
+    setLoading(true)
+    try {
+      const data = await clientsApi.duplicates()
+      setGroups(data.groups)
+    } catch (error) {
+      console.error('Error fetching duplicate clients:', error)
+      setGroups([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchGroups()
+  }, [])
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Duplicate Clients</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Clients entered more than one way, matched on phone number and similar name and address. Merging folds them into one client; every record is kept.
+        </p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+          <p className="text-gray-600 dark:text-gray-400 mt-4">Looking for duplicates...</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <p className="text-gray-500 dark:text-gray-400">No probable duplicate clients found</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <p className="text-sm text-gray-600 dark:text-gray-400">{groups.length} probable duplicate clients</p>
+          {groups.map((group) => (
+            <DuplicateGroupCard
+              key={group.members.map((member) => member.id).join('-')}
+              group={group}
+              canMerge={canMerge}
+              onMerged={fetchGroups}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DuplicateClients
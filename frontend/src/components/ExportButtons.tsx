@@ -1,48 +1,15 @@
 import { RecordFilters } from '../types'
+import { exportApi, ExportFormat, ExportType } from '../services/client'
 
 interface ExportButtonsProps {
   filters: RecordFilters
-  type: 'records' | 'sales'
+  type: ExportType
 }
 
 function ExportButtons({ filters, type }: ExportButtonsProps) {
-  const buildExportUrl = (format: string) => {
-    const params = new URLSearchParams()
-    if (filters.search) params.append('search', filters.search)
-    if (filters.zone) params.append('zone', filters.zone)
-    if (filters.capacity_kw) params.append('capacity_kw', filters.capacity_kw)
-    if (filters.heater) params.append('heater', filters.heater)
-    if (filters.controller) params.append('controller', filters.controller)
-    if (filters.card) params.append('card', filters.card)
-    if (filters.body) params.append('body', filters.body)
-    if (filters.sold_by) params.append('sold_by', filters.sold_by)
-    if (filters.lead_source) params.append('lead_source', filters.lead_source)
-    if (filters.date_from) params.append('date_from', filters.date_from)
-    if (filters.date_to) params.append('date_to', filters.date_to)
-
-    const token = localStorage.getItem('token')
-    const baseUrl = import.meta.env.VITE_API_URL || '/api'
-    const url = `${baseUrl}/export/${type}.${format}?${params}`
-    
-    return { url, token }
-  }
-
-  const handleExport = async (format: string) => {
-    const { url, token } = buildExportUrl(format)
-    
+  const handleExport = async (format: ExportFormat) => {
     try {
-      // Use fetch with auth headers for downloads
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-        },
-      })
-      
-      if (!response.ok) {
-        throw new Error('Export failed')
-      }
-      
-      const blob = await response.blob()
+      const blob = await exportApi.download(type, format, filters)
       const downloadUrl = window.URL.createObjectURL(blob)
       const link = document.createElement('a')
       link.href = downloadUrl
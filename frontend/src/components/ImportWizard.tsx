@@ -0,0 +1,284 @@
+import { useState } from 'react'
+import { Link } from 'react-router-dom'
+import { importApi } from '../services/client'
+import { FIELD_LABELS } from './RecordHistory'
+import { ImportPreview, ImportResult } from '../types'
+
+type Step = 'upload' | 'map' | 'review' | 'done'
+
+const STEPS: { step: Step; label: string }[] = [
+  { step: 'upload', label: 'Upload' },
+  { step: 'map', label: 'Map Columns' },
+  { step: 'review', label: 'Dry Run' },
+  { step: 'done', label: 'Imported' },
+]
+
+function ImportWizard() {
+  const [step, setStep] = useState<Step>('upload')
+  const [file, setFile] = useState<File | null>(null)
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [mapping, setMapping] = useState<{ [column: string]: string | null }>({})
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState('')
+
+  const errorMessage = (err: any, fallback: string) =>
+    err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || fallback
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!file) return
+    setWorking(true)
+    setError('')
+    try {
+      const data = await importApi.preview(file)
+      setPreview(data)
+      setMapping(data.suggested_mapping)
+      setStep('map')
+    } catch (err: any) {
+      console.error('Error reading import file:', err)
+      setError(errorMessage(err, 'Failed to read the file'))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleMappingChange = (column: string, field: string) => {
+    const next = { ...mapping }
+    // A field comes from one column only, so take it off whichever column had it
+    if (field) {
+      Object.keys(next).forEach((other) => {
+        if (next[other] === field) next[other] = null
+      })
+    }
+    next[column] = field || null
+    setMapping(next)
+  }
+
+  const mappedFields = Object.values(mapping).filter(Boolean) as string[]
+  const missingRequired = preview ? preview.required_fields.filter((field) => !mappedFields.includes(field)) : []
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return
+    setWorking(true)
+    setError('')
+    try {
+      const data = await importApi.run(file, mapping, dryRun)
+      setResult(data)
+      setStep(dryRun ? 'review' : 'done')
+    } catch (err: any) {
+      console.error('Error importing records:', err)
+      setError(errorMessage(err, 'Import failed'))
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const startOver = () => {
+    setStep('upload')
+    setFile(null)
+    setPreview(null)
+    setMapping({})
+    setResult(null)
+    setError('')
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const primaryButton = 'px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50'
+  const secondaryButton = 'px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all'
+  const stepIndex = STEPS.findIndex((s) => s.step === step)
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-6">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Import Records</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Bring in records from a CSV or Excel sheet. Nothing is saved until every row passes the dry run.</p>
+      </div>
+
+      <ol className="flex flex-wrap gap-2 mb-6">
+        {STEPS.map((s, index) => (
+          <li
+            key={s.step}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold ${
+              index === stepIndex
+                ? 'bg-primary-600 text-white'
+                : index < stepIndex
+                ? 'bg-primary-100 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            {index + 1}. {s.label}
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+          <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+        </div>
+      )}
+
+      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+        {step === 'upload' && (
+          <form onSubmit={handleUpload} className="space-y-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Spreadsheet (.csv or .xlsx, up to 5 MB)</label>
+              <input
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+                className={inputClass}
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+                The first row must hold the column headings. Dates can be YYYY-MM-DD or DD/MM/YYYY.
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <button type="submit" disabled={!file || working} className={primaryButton}>
+                {working ? 'Reading...' : 'Next'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'map' && preview && (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              <span className="font-semibold text-gray-900 dark:text-white">{preview.filename}</span> has {preview.row_count} rows.
+              Choose the record field each column holds; leave a column on "Skip" to ignore it.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                    <th className="py-2 pr-4">Column</th>
+                    <th className="py-2 pr-4">Sample</th>
+                    <th className="py-2 w-64">Field</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {preview.columns.map((column) => (
+                    <tr key={column}>
+                      <td className="py-2 pr-4 font-medium text-gray-900 dark:text-white">{column}</td>
+                      <td className="py-2 pr-4 text-gray-600 dark:text-gray-400 truncate max-w-xs">
+                        {preview.sample_rows.map((row) => row[column]).filter(Boolean).slice(0, 3).join(', ') || '—'}
+                      </td>
+                      <td className="py-2">
+                        <select
+                          value={mapping[column] || ''}
+                          onChange={(e) => handleMappingChange(column, e.target.value)}
+                          className={inputClass}
+                        >
+                          <option value="">Skip</option>
+                          {preview.fields.map((field) => (
+                            <option key={field} value={field}>
+                              {FIELD_LABELS[field] || field}
+                              {preview.required_fields.includes(field) ? ' *' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Map a column to: {missingRequired.map((field) => FIELD_LABELS[field] || field).join(', ')}
+              </p>
+            )}
+            {!mappedFields.includes('record_id') && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">No Record ID column mapped, so new IDs will be generated.</p>
+            )}
+            <div className="flex justify-between">
+              <button onClick={startOver} className={secondaryButton}>Back</button>
+              <button
+                onClick={() => runImport(true)}
+                disabled={working || missingRequired.length > 0}
+                className={primaryButton}
+              >
+                {working ? 'Checking...' : 'Run Dry Run'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && result && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="p-4 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600">
+                <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">Rows</p>
+                <p className="text-2xl font-bold text-gray-900 dark:text-white">{result.total_rows}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+                <p className="text-xs font-semibold text-green-700 dark:text-green-300 uppercase">Ready</p>
+                <p className="text-2xl font-bold text-green-800 dark:text-green-300">{result.valid_rows}</p>
+              </div>
+              <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                <p className="text-xs font-semibold text-red-700 dark:text-red-300 uppercase">Errors</p>
+                <p className="text-2xl font-bold text-red-800 dark:text-red-300">{result.errors.length}</p>
+              </div>
+            </div>
+
+            {result.errors.length > 0 ? (
+              <div>
+                <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-2 uppercase tracking-wide">Fix these rows and upload again</h3>
+                <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-600">
+                  {result.errors.map((rowError, index) => (
+                    <div key={index} className="px-4 py-2 grid grid-cols-6 gap-3 text-sm">
+                      <span className="font-semibold text-gray-900 dark:text-white">Row {rowError.row}</span>
+                      <span className="text-gray-600 dark:text-gray-400">{rowError.field ? FIELD_LABELS[rowError.field] || rowError.field : '—'}</span>
+                      <span className="col-span-4 text-red-700 dark:text-red-300">{rowError.message}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-green-700 dark:text-green-300 font-medium">
+                Every row passed. {result.created.length} records will be created.
+              </p>
+            )}
+
+            <div className="flex justify-between">
+              <button onClick={() => setStep('map')} className={secondaryButton}>Back to Mapping</button>
+              <div className="flex gap-3">
+                <button onClick={startOver} className={secondaryButton}>Upload Another File</button>
+                <button
+                  onClick={() => runImport(false)}
+                  disabled={working || result.errors.length > 0 || result.created.length === 0}
+                  className={primaryButton}
+                >
+                  {working ? 'Importing...' : `Import ${result.created.length} Records`}
+                </button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <p className="text-sm text-green-700 dark:text-green-300 font-medium">
+              Imported {result.created.length} records.
+            </p>
+            <div className="max-h-96 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-600">
+              {result.created.map((record) => (
+                <div key={record.record_id} className="px-4 py-2 grid grid-cols-6 gap-3 text-sm">
+                  <span className="text-gray-500 dark:text-gray-400">Row {record.row}</span>
+                  <span className="font-semibold text-gray-900 dark:text-white">{record.record_id}</span>
+                  <span className="col-span-4 text-gray-700 dark:text-gray-300">{record.client_name}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end gap-3">
+              <button onClick={startOver} className={secondaryButton}>Import Another File</button>
+              <Link to="/maintenance" className={primaryButton}>View Records</Link>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ImportWizard
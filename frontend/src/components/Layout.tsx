@@ -1,6 +1,8 @@
+import { useState } from 'react'
 import { Link, useNavigate, useLocation } from 'react-router-dom'
-import { useAuth } from '../contexts/AuthContext'
+import { useAuth, homePathForRole } from '../contexts/AuthContext'
 import { useDarkMode } from '../contexts/DarkModeContext'
+import CommandPalette from './CommandPalette'
 
 interface LayoutProps {
   children: React.ReactNode
@@ -11,6 +13,7 @@ function Layout({ children }: LayoutProps) {
   const { darkMode, toggleDarkMode } = useDarkMode()
   const navigate = useNavigate()
   const location = useLocation()
+  const [paletteOpen, setPaletteOpen] = useState(false)
 
   const handleLogout = () => {
     logout()
@@ -19,10 +22,19 @@ function Layout({ children }: LayoutProps) {
 
   const isMaintenance = user?.role === 'maintenance'
   const isSales = user?.role === 'sales'
+  const isAdmin = user?.role === 'admin'
+
+  const linkClass = (active: boolean) =>
+    `inline-flex items-center px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
+      active
+        ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 border border-primary-200 dark:border-primary-700'
+        : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
+    }`
 
   const handleHome = () => {
-    const homePath = isMaintenance ? '/maintenance' : '/sales'
-    navigate(homePath, { state: { clearFilters: true } })
+    if (!user) return
+    // Filters live in the query string, so the bare path starts from a clean list
+    navigate(homePathForRole(user.role))
   }
 
   return (
@@ -41,7 +53,8 @@ function Layout({ children }: LayoutProps) {
                   onClick={handleHome}
                   className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
                     (isMaintenance && location.pathname === '/maintenance' && !location.pathname.includes('/records') && !location.pathname.includes('/warranty')) ||
-                    (isSales && location.pathname === '/sales' && !location.pathname.includes('/summary'))
+                    (isSales && location.pathname === '/sales' && !location.pathname.includes('/summary')) ||
+                    (isAdmin && location.pathname === '/admin')
                       ? 'bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 border border-primary-200 dark:border-primary-700'
                       : 'text-gray-600 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 hover:text-gray-900 dark:hover:text-white'
                   }`}
@@ -51,8 +64,36 @@ function Layout({ children }: LayoutProps) {
                   </svg>
                   Home
                 </button>
-                {isMaintenance && (
+                {isAdmin && (
                   <>
+                    <Link to="/admin/settings" className={linkClass(location.pathname === '/admin/settings')}>
+                      Settings
+                    </Link>
+                    <Link to="/admin/warranty-policies" className={linkClass(location.pathname === '/admin/warranty-policies')}>
+                      Warranty Policies
+                    </Link>
+                    <Link to="/admin/targets" className={linkClass(location.pathname === '/admin/targets')}>
+                      Targets
+                    </Link>
+                    <Link to="/maintenance" className={linkClass(location.pathname === '/maintenance')}>
+                      Maintenance
+                    </Link>
+                    <Link to="/sales" className={linkClass(location.pathname === '/sales')}>
+                      Sales
+                    </Link>
+                  </>
+                )}
+                {(isMaintenance || (isAdmin && location.pathname.startsWith('/maintenance'))) && (
+                  <>
+                    <Link to="/maintenance/tickets" className={linkClass(location.pathname === '/maintenance/tickets')}>
+                      Tickets
+                    </Link>
+                    <Link to="/maintenance/calendar" className={linkClass(location.pathname === '/maintenance/calendar')}>
+                      Calendar
+                    </Link>
+                    <Link to="/maintenance/duplicates" className={linkClass(location.pathname === '/maintenance/duplicates')}>
+                      Duplicates
+                    </Link>
                     <Link
                       to="/maintenance/warranty"
                       className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
@@ -63,10 +104,30 @@ function Layout({ children }: LayoutProps) {
                     >
                       Warranty Reports
                     </Link>
+                    <Link to="/maintenance/reminders" className={linkClass(location.pathname === '/maintenance/reminders')}>
+                      Reminders
+                    </Link>
+                    <Link to="/maintenance/deleted" className={linkClass(location.pathname === '/maintenance/deleted')}>
+                      Recently Deleted
+                    </Link>
+                    {isMaintenance && (
+                      <Link to="/maintenance/import" className={linkClass(location.pathname === '/maintenance/import')}>
+                        Import
+                      </Link>
+                    )}
                   </>
                 )}
-                {isSales && (
+                {(isSales || (isAdmin && location.pathname.startsWith('/sales'))) && (
                   <>
+                    <Link to="/sales/pipeline" className={linkClass(location.pathname === '/sales/pipeline')}>
+                      Pipeline
+                    </Link>
+                    <Link to="/sales/receivables" className={linkClass(location.pathname === '/sales/receivables')}>
+                      Receivables
+                    </Link>
+                    <Link to="/sales/leaderboard" className={linkClass(location.pathname === '/sales/leaderboard')}>
+                      Leaderboard
+                    </Link>
                     <Link
                       to="/sales/summary"
                       className={`inline-flex items-center px-3 py-2 rounded-lg text-sm font-semibold transition-all ${
@@ -82,6 +143,14 @@ function Layout({ children }: LayoutProps) {
               </div>
             </div>
             <div className="flex items-center gap-3">
+              <button
+                onClick={() => setPaletteOpen(true)}
+                className="hidden md:inline-flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-sm text-gray-500 dark:text-gray-400 transition-all border border-gray-200 dark:border-gray-600"
+                type="button"
+              >
+                Search
+                <kbd className="px-1.5 py-0.5 text-xs font-semibold rounded bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600">Ctrl K</kbd>
+              </button>
               <button
                 onClick={() => {
                   console.log('Dark mode button clicked, current state:', darkMode)
@@ -101,8 +170,8 @@ function Layout({ children }: LayoutProps) {
                   </svg>
                 )}
               </button>
-              <span className="text-sm font-semibold text-gray-700 dark:text-gray-300 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg capitalize border border-gray-200 dark:border-gray-600">
-                {user?.role} Role
+              <span className="text-sm font-semibold text-gray-700 dark:text-gray-300 px-3 py-1.5 bg-gray-100 dark:bg-gray-700 rounded-lg border border-gray-200 dark:border-gray-600">
+                {user?.displayName} <span className="capitalize font-medium text-gray-500 dark:text-gray-400">· {user?.role}</span>
               </span>
               <button
                 onClick={handleLogout}
@@ -115,6 +184,7 @@ function Layout({ children }: LayoutProps) {
         </div>
       </nav>
       <main className="max-w-7xl mx-auto py-6 sm:px-6 lg:px-8">{children}</main>
+      <CommandPalette isOpen={paletteOpen} setIsOpen={setPaletteOpen} />
     </div>
   )
 }
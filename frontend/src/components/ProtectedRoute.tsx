@@ -1,12 +1,13 @@
 import { Navigate } from 'react-router-dom'
-import { useAuth } from '../contexts/AuthContext'
+import { useAuth, homePathForRole } from '../contexts/AuthContext'
+import { UserRole } from '../types'
 
 interface ProtectedRouteProps {
   children: React.ReactNode
-  allowedRole: 'maintenance' | 'sales'
+  allowedRoles: UserRole[]
 }
 
-function ProtectedRoute({ children, allowedRole }: ProtectedRouteProps) {
+function ProtectedRoute({ children, allowedRoles }: ProtectedRouteProps) {
   const { user, isLoading } = useAuth()
 
   if (isLoading) {
@@ -21,8 +22,8 @@ function ProtectedRoute({ children, allowedRole }: ProtectedRouteProps) {
     return <Navigate to="/login" replace />
   }
 
-  if (user.role !== allowedRole) {
-    return <Navigate to={user.role === 'maintenance' ? '/maintenance' : '/sales'} replace />
+  if (!allowedRoles.includes(user.role)) {
+    return <Navigate to={homePathForRole(user.role)} replace />
   }
 
   return <>{children}</>
@@ -0,0 +1,186 @@
+import { Fragment, useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { salesApi } from '../services/client'
+import { ReceivablesReport } from '../types'
+import RecordFiltersComponent, { useUrlFilters } from './RecordFilters'
+import SavedFilterViews from './SavedFilterViews'
+import RecordPayments from './RecordPayments'
+
+// Same buckets as the backend (AGEING_BUCKETS in app/crud.py)
+const BUCKET_STYLES: { [bucket: string]: string } = {
+  '0-30': 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  '31-60': 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  '61-90': 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  '90+': 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+}
+
+const formatMoney = (value: number) => `₹${Math.round(value).toLocaleString()}`
+
+function Receivables() {
+  const [report, setReport] = useState<ReceivablesReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [bucket, setBucket] = useState('')
+  const [openRecordId, setOpenRecordId] = useState<number | null>(null)
+  const { filters, setFilters } = useUrlFilters()
+
+  const fetchReport = async () => {
+    setLoading(true)
+    try {
+      setReport(await salesApi.receivables(filters))
+    } catch (error) {
+      console.error('Error fetching receivables:', error)
+      alert('Failed to load receivables')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReport()
+  }, [filters])
+
+  // Only the first load blanks the page; refetches keep the filters open while they run
+  if (loading && !report) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+      </div>
+    )
+  }
+
+  if (!report) {
+    return <div className="text-center py-12 dark:text-gray-400">No receivables data available</div>
+  }
+
+  const rows = bucket ? report.rows.filter((row) => row.bucket === bucket) : report.rows
+  const collectionRate = report.total_billed > 0 ? Math.round((report.total_collected / report.total_billed) * 100) : 0
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Receivables</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Balances still due per sale, aged from the delivery date
+        </p>
+      </div>
+
+      <SavedFilterViews screen="sales" filters={filters} onApply={setFilters} />
+
+      <RecordFiltersComponent filters={filters} onFiltersChange={setFilters} showSort={false} />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
+        <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Billed</p>
+          <p className="text-3xl font-bold text-gray-900 dark:text-white">{formatMoney(report.total_billed)}</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Collected</p>
+          <p className="text-3xl font-bold text-green-600 dark:text-green-400">{formatMoney(report.total_collected)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{collectionRate}% of billed</p>
+        </div>
+        <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+          <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Outstanding</p>
+          <p className="text-3xl font-bold text-red-600 dark:text-red-400">{formatMoney(report.total_outstanding)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {report.rows.length} {report.rows.length === 1 ? 'sale' : 'sales'} with a balance due
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        <button
+          onClick={() => setBucket('')}
+          className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+            bucket === ''
+              ? 'bg-primary-600 text-white border-primary-600'
+              : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+          }`}
+        >
+          All ({formatMoney(report.total_outstanding)})
+        </button>
+        {Object.entries(report.buckets).map(([label, amount]) => (
+          <button
+            key={label}
+            onClick={() => setBucket(label)}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+              bucket === label
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {label} days ({formatMoney(amount)})
+          </button>
+        ))}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">Nothing outstanding</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                <th className="px-4 py-3">Record</th>
+                <th className="px-4 py-3">Client</th>
+                <th className="px-4 py-3">Sold by</th>
+                <th className="px-4 py-3">Delivered</th>
+                <th className="px-4 py-3 text-right">Billed</th>
+                <th className="px-4 py-3 text-right">Collected</th>
+                <th className="px-4 py-3 text-right">Balance due</th>
+                <th className="px-4 py-3">Age</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rows.map((row) => (
+                <Fragment key={row.record_id}>
+                  <tr className="text-gray-700 dark:text-gray-300">
+                    <td className="px-4 py-3 font-mono text-xs text-primary-600 dark:text-primary-400">{row.record_code}</td>
+                    <td className="px-4 py-3">
+                      <p className="font-semibold text-gray-900 dark:text-white">{row.client_name}</p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">{[row.client_phone, row.zone].filter(Boolean).join(' · ')}</p>
+                    </td>
+                    <td className="px-4 py-3">{row.sold_by || '—'}</td>
+                    <td className="px-4 py-3">
+                      {format(new Date(row.billed_on), 'MMM dd, yyyy')}
+                      {row.last_payment_on && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">Last paid {format(new Date(row.last_payment_on), 'MMM dd, yyyy')}</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.billed)}</td>
+                    <td className="px-4 py-3 text-right">{formatMoney(row.collected)}</td>
+                    <td className="px-4 py-3 text-right font-bold text-gray-900 dark:text-white">{formatMoney(row.balance_due)}</td>
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${BUCKET_STYLES[row.bucket] || ''}`}>
+                        {row.days_outstanding}d
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => setOpenRecordId(openRecordId === row.record_id ? null : row.record_id)}
+                        className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                      >
+                        {openRecordId === row.record_id ? 'Close' : 'Payments'}
+                      </button>
+                    </td>
+                  </tr>
+                  {openRecordId === row.record_id && (
+                    <tr>
+                      <td colSpan={9} className="px-4 py-4 bg-gray-50/50 dark:bg-gray-900/20">
+                        <RecordPayments recordId={row.record_id} onChange={fetchReport} />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default Receivables
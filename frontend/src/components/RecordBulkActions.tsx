@@ -0,0 +1,150 @@
+import { useState } from 'react'
+import { recordsApi } from '../services/client'
+import { useSettings } from '../contexts/SettingsContext'
+import { Record, RecordBatchUpdate, RecordFilters, RecordUpdate } from '../types'
+import ExportButtons from './ExportButtons'
+
+interface RecordBulkActionsProps {
+  selectedIds: number[]
+  filters: RecordFilters
+  // Admins can export a selection but not change it
+  readOnly: boolean
+  // Left out once the whole page is selected
+  onSelectPage?: () => void
+  onClear: () => void
+  // Called after records were changed or deleted, to reload the list
+  onDone: () => void
+}
+
+// Client details (name, phone, address, zone) belong to the client, so the server refuses
+// a change that would reach its unselected records until the user agrees. Null if they don't.
+export const updateRecordsConfirmed = async (batch: RecordBatchUpdate): Promise<Record[] | null> => {
+  try {
+    return await recordsApi.updateMany(batch)
+  } catch (err: any) {
+    if (err.response?.status !== 409) throw err
+    if (!confirm(`${err.response.data.detail}. Apply it anyway?`)) return null
+    return recordsApi.updateMany({ ...batch, include_client_records: true })
+  }
+}
+
+function RecordBulkActions({ selectedIds, filters, readOnly, onSelectPage, onClear, onDone }: RecordBulkActionsProps) {
+  const { settings } = useSettings()
+  const [working, setWorking] = useState(false)
+  const count = selectedIds.length
+  const noun = count === 1 ? 'record' : 'records'
+
+  const runUpdate = async (question: string, changes: RecordUpdate, appendRemark?: string) => {
+    if (!confirm(question)) return
+    setWorking(true)
+    try {
+      if (await updateRecordsConfirmed({ ids: selectedIds, changes, append_remark: appendRemark })) onDone()
+    } catch (err: any) {
+      console.error('Error updating records:', err)
+      alert(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to update records')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleAssign = (field: 'installation_done_by' | 'commission_done_by', label: string, value: string) => {
+    if (!value) return
+    runUpdate(`Set ${label} to "${value}" on ${count} ${noun}?`, { [field]: value })
+  }
+
+  const handleRemark = () => {
+    const remark = prompt(`Remark to add to ${count} ${noun}`)?.trim()
+    if (!remark) return
+    runUpdate(`Add this remark to ${count} ${noun}?\n\n${remark}`, {}, remark)
+  }
+
+  const handleDelete = async () => {
+    if (!confirm(`Move ${count} ${noun} to Recently Deleted? They can be restored from there.`)) return
+    setWorking(true)
+    try {
+      await recordsApi.removeMany(selectedIds)
+      onDone()
+    } catch (err: any) {
+      console.error('Error deleting records:', err)
+      alert(err.response?.data?.detail || 'Failed to delete records')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const selectClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500 disabled:opacity-50'
+
+  return (
+    <div className="sticky top-0 z-20 mb-4 flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl shadow-md border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-gray-800">
+      <span className="text-sm font-semibold text-primary-800 dark:text-primary-300">
+        {count} {noun} selected
+      </span>
+      {onSelectPage && (
+        <button onClick={onSelectPage} className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline">
+          Select whole page
+        </button>
+      )}
+      <button onClick={onClear} className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:underline">
+        Clear
+      </button>
+      <div className="flex-1" />
+      {!readOnly && (
+        <>
+          {/* Picking an option applies it; the select snaps back to its label */}
+          <select
+            value=""
+            disabled={working}
+            onChange={(e) => e.target.value && runUpdate(`Set zone to "${e.target.value}" on ${count} ${noun}?`, { zone: e.target.value })}
+            className={selectClass}
+          >
+            <option value="">Set zone...</option>
+            {settings.zones.map((zone) => (
+              <option key={zone} value={zone}>{zone}</option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={working}
+            onChange={(e) => handleAssign('installation_done_by', 'installed by', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Installed by...</option>
+            {settings.technicians.map((technician) => (
+              <option key={technician} value={technician}>{technician}</option>
+            ))}
+          </select>
+          <select
+            value=""
+            disabled={working}
+            onChange={(e) => handleAssign('commission_done_by', 'commissioned by', e.target.value)}
+            className={selectClass}
+          >
+            <option value="">Commissioned by...</option>
+            {settings.technicians.map((technician) => (
+              <option key={technician} value={technician}>{technician}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleRemark}
+            disabled={working}
+            className="px-3 py-2 text-sm font-medium rounded-lg border border-primary-300 dark:border-primary-700 text-primary-700 dark:text-primary-300 bg-white dark:bg-gray-800 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all disabled:opacity-50"
+          >
+            Add Remark
+          </button>
+        </>
+      )}
+      <ExportButtons filters={{ ...filters, ids: selectedIds }} type="records" />
+      {!readOnly && (
+        <button
+          onClick={handleDelete}
+          disabled={working}
+          className="px-3 py-2 text-sm font-medium rounded-lg border border-red-300 dark:border-red-700 text-red-600 dark:text-red-400 bg-white dark:bg-gray-800 hover:bg-red-50 dark:hover:bg-red-900/30 transition-all disabled:opacity-50"
+        >
+          Delete
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default RecordBulkActions
@@ -1,32 +1,34 @@
 import { useState } from 'react'
 import { format } from 'date-fns'
 import { Record } from '../types'
+import { useAuth } from '../contexts/AuthContext'
 import RecordDetailModal from './RecordDetailModal'
+import { FIELD_LABELS } from './RecordHistory'
 
 interface RecordCardProps {
   record: Record
-  onDelete: (id: number) => void
-  onEdit: (id: number) => void
+  // Omitted for read-only viewers (admin browsing maintenance records)
+  onDelete?: (id: number) => void
+  onEdit?: (id: number) => void
+  // Multi-select for bulk actions
+  selected?: boolean
+  onSelect?: (id: number, selected: boolean) => void
 }
 
-function RecordCard({ record, onDelete, onEdit }: RecordCardProps) {
+function RecordCard({ record, onDelete, onEdit, selected, onSelect }: RecordCardProps) {
+  const { user } = useAuth()
   const [showModal, setShowModal] = useState(false)
+  const [loggingVisit, setLoggingVisit] = useState(false)
 
-  const calculateWarrantyStatus = () => {
-    if (!record.date_of_delivery) return { status: 'out_of_warranty', daysRemaining: 0 }
-    
-    const delivery = new Date(record.date_of_delivery)
-    const expiry = new Date(delivery)
-    expiry.setFullYear(expiry.getFullYear() + 1)
-    const today = new Date()
-    const daysRemaining = Math.ceil((expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-    
-    if (daysRemaining < 0) return { status: 'out_of_warranty', expiry, daysRemaining: Math.abs(daysRemaining) }
-    if (daysRemaining <= 30) return { status: 'expiring_soon', expiry, daysRemaining }
-    return { status: 'in_warranty', expiry, daysRemaining }
+  const openModal = (logVisit: boolean) => {
+    setLoggingVisit(logVisit)
+    setShowModal(true)
   }
 
-  const warranty = calculateWarrantyStatus()
+  const warranty = {
+    status: record.warranty_status || 'out_of_warranty',
+    daysRemaining: record.warranty_days_remaining ?? 0,
+  }
 
   const getWarrantyBadge = () => {
     if (warranty.status === 'out_of_warranty') {
@@ -41,13 +43,25 @@ function RecordCard({ record, onDelete, onEdit }: RecordCardProps) {
   return (
     <>
       <div 
-        onClick={() => setShowModal(true)}
-        className="group bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-xl transition-all duration-300 cursor-pointer border border-gray-200 dark:border-gray-700 overflow-hidden transform hover:-translate-y-1"
+        onClick={() => openModal(false)}
+        className={`group bg-white dark:bg-gray-800 rounded-xl shadow-sm hover:shadow-xl transition-all duration-300 cursor-pointer border overflow-hidden transform hover:-translate-y-1 ${
+          selected ? 'border-primary-500 ring-2 ring-primary-500' : 'border-gray-200 dark:border-gray-700'
+        }`}
       >
         <div className="p-6">
           {/* Header - Client Name First */}
           <div className="mb-4">
             <div className="flex items-start justify-between mb-2">
+              {onSelect && (
+                <input
+                  type="checkbox"
+                  checked={!!selected}
+                  onClick={(e) => e.stopPropagation()}
+                  onChange={(e) => onSelect(record.id, e.target.checked)}
+                  aria-label={`Select ${record.record_id}`}
+                  className="mt-1.5 mr-3 h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+              )}
               <div className="flex-1 min-w-0">
                 <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-1 truncate">{record.client_name}</h3>
                 <p className="text-xs text-gray-500 dark:text-gray-400 font-mono">{record.record_id}</p>
@@ -68,6 +82,26 @@ function RecordCard({ record, onDelete, onEdit }: RecordCardProps) {
             )}
           </div>
 
+          {/* Search match */}
+          {record.search_match && (
+            <div className="mb-4 px-3 py-2 rounded-lg bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800">
+              <p className="text-xs font-medium text-yellow-800 dark:text-yellow-300 uppercase tracking-wide mb-0.5">
+                Matched in {FIELD_LABELS[record.search_match.field] || record.search_match.field}
+              </p>
+              <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-3">
+                {record.search_match.parts.map((part, index) =>
+                  part.highlight ? (
+                    <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-gray-900 dark:text-white rounded px-0.5">
+                      {part.text}
+                    </mark>
+                  ) : (
+                    <span key={index}>{part.text}</span>
+                  )
+                )}
+              </p>
+            </div>
+          )}
+
           {/* Info Grid */}
           <div className="grid grid-cols-2 gap-4 mb-4 pt-4 border-t border-gray-100 dark:border-gray-700">
             <div className="space-y-1">
@@ -120,33 +154,48 @@ function RecordCard({ record, onDelete, onEdit }: RecordCardProps) {
             <button
               onClick={(e) => {
                 e.stopPropagation()
-                setShowModal(true)
+                openModal(false)
               }}
               className="text-sm font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 transition-colors"
             >
               View Details
             </button>
             <div className="flex gap-2">
-              <button
-                onClick={(e) => {
-                  e.stopPropagation()
-                  onEdit(record.id)
-                }}
-                className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
-              >
-                Edit
-              </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation()
-                  if (confirm('Are you sure you want to delete this record?')) {
-                    onDelete(record.id)
-                  }
-                }}
-                className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
-              >
-                Delete
-              </button>
+              {user?.role === 'maintenance' && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    openModal(true)
+                  }}
+                  className="px-3 py-1.5 text-xs font-medium text-green-600 dark:text-green-400 hover:text-green-700 dark:hover:text-green-300 border border-green-300 dark:border-green-700 rounded-lg hover:bg-green-50 dark:hover:bg-green-900/30 transition-all"
+                >
+                  Log Visit
+                </button>
+              )}
+              {onEdit && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onEdit(record.id)
+                  }}
+                  className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 hover:text-primary-700 dark:hover:text-primary-300 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                >
+                  Edit
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    if (confirm('Move this record to Recently Deleted? It can be restored from there.')) {
+                      onDelete(record.id)
+                    }
+                  }}
+                  className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 hover:text-red-700 dark:hover:text-red-300 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                >
+                  Delete
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -155,6 +204,8 @@ function RecordCard({ record, onDelete, onEdit }: RecordCardProps) {
       <RecordDetailModal 
         record={record} 
         isOpen={showModal} 
+        initialTab={loggingVisit ? 'visits' : 'details'}
+        logVisit={loggingVisit}
         onClose={() => setShowModal(false)}
         onEdit={onEdit}
         onDelete={onDelete}
@@ -0,0 +1,314 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { contractsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { ContractStatus, ContractType, RenewalStatus, ServiceContract, ServiceContractInput } from '../types'
+
+interface RecordContractsProps {
+  recordId: number
+  onChange?: () => void
+}
+
+export const CONTRACT_TYPE_LABELS: { [type in ContractType]: string } = {
+  amc: 'AMC',
+  extended_warranty: 'Extended Warranty',
+}
+
+const RENEWAL_LABELS: { [status in RenewalStatus]: string } = {
+  pending: 'Renewal pending',
+  renewed: 'Renewed',
+  not_renewing: 'Not renewing',
+}
+
+export const CONTRACT_STATUS_STYLES: { [status in ContractStatus]: { label: string; className: string } } = {
+  upcoming: { label: 'Upcoming', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  active: { label: 'Active', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  expiring: { label: 'Expiring', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300' },
+  expired: { label: 'Expired', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+}
+
+const emptyForm: ServiceContractInput = {
+  contract_type: 'amc',
+  start_date: '',
+  end_date: '',
+  coverage: '',
+  renewal_status: 'pending',
+  sold_by: '',
+}
+
+function RecordContracts({ recordId, onChange }: RecordContractsProps) {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  // Contracts are maintained by the maintenance team; other roles only see them
+  const canEdit = user?.role === 'maintenance'
+  const [contracts, setContracts] = useState<ServiceContract[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ServiceContractInput | null>(null)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchContracts = async () => {
+    setLoading(true)
+    try {
+      setContracts(await contractsApi.list(recordId))
+    } catch (error) {
+      console.error('Error fetching contracts:', error)
+      setContracts([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchContracts()
+    closeForm()
+  }, [recordId])
+
+  const closeForm = () => {
+    setForm(null)
+    setEditingId(null)
+    setError('')
+  }
+
+  const handleEdit = (contract: ServiceContract) => {
+    setEditingId(contract.id)
+    setError('')
+    setForm({
+      contract_type: contract.contract_type,
+      start_date: contract.start_date,
+      end_date: contract.end_date,
+      price: contract.price,
+      coverage: contract.coverage || '',
+      renewal_status: contract.renewal_status,
+      sold_by: contract.sold_by || '',
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setError('')
+    try {
+      if (editingId) {
+        await contractsApi.update(editingId, form)
+      } else {
+        await contractsApi.create(recordId, form)
+      }
+      closeForm()
+      fetchContracts()
+      onChange?.()
+    } catch (err: any) {
+      console.error('Error saving contract:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save contract')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (contract: ServiceContract) => {
+    if (!confirm(`Delete this ${CONTRACT_TYPE_LABELS[contract.contract_type]} contract?`)) return
+    try {
+      await contractsApi.remove(contract.id)
+      if (editingId === contract.id) closeForm()
+      fetchContracts()
+      onChange?.()
+    } catch (error) {
+      console.error('Error deleting contract:', error)
+      alert('Failed to delete contract')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Loading contracts...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && !form && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setForm(emptyForm)}
+            className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + Add Contract
+          </button>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h5 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+            {editingId ? 'Edit Contract' : 'New Contract'}
+          </h5>
+          {error && (
+            <div className="mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Type</label>
+              <select
+                value={form.contract_type}
+                onChange={(e) => setForm({ ...form, contract_type: e.target.value as ContractType })}
+                className={inputClass}
+              >
+                <option value="amc">AMC</option>
+                <option value="extended_warranty">Extended Warranty</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Start Date</label>
+              <input
+                type="date"
+                required
+                value={form.start_date}
+                onChange={(e) => setForm({ ...form, start_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>End Date</label>
+              <input
+                type="date"
+                required
+                min={form.start_date || undefined}
+                value={form.end_date}
+                onChange={(e) => setForm({ ...form, end_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Price (₹)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.price ?? ''}
+                onChange={(e) => setForm({ ...form, price: e.target.value ? Number(e.target.value) : undefined })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Renewal</label>
+              <select
+                value={form.renewal_status}
+                onChange={(e) => setForm({ ...form, renewal_status: e.target.value as RenewalStatus })}
+                className={inputClass}
+              >
+                <option value="pending">Renewal pending</option>
+                <option value="renewed">Renewed</option>
+                <option value="not_renewing">Not renewing</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Sold By</label>
+              <input
+                type="text"
+                list="contract-salespeople-list"
+                value={form.sold_by || ''}
+                onChange={(e) => setForm({ ...form, sold_by: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Coverage</label>
+              <textarea
+                rows={2}
+                placeholder="Parts, visits and services covered"
+                value={form.coverage || ''}
+                onChange={(e) => setForm({ ...form, coverage: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <datalist id="contract-salespeople-list">
+            {settings.salespeople.map((person) => (
+              <option key={person} value={person} />
+            ))}
+          </datalist>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Contract' : 'Add Contract'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {contracts.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No AMC or extended warranty contracts</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {contracts.map((contract) => {
+            const status = CONTRACT_STATUS_STYLES[contract.status]
+            return (
+              <div key={contract.id} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-sm font-bold text-gray-900 dark:text-white">{CONTRACT_TYPE_LABELS[contract.contract_type]}</span>
+                      <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>{status.label}</span>
+                      <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                        {RENEWAL_LABELS[contract.renewal_status]}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {format(new Date(contract.start_date), 'MMM dd, yyyy')} – {format(new Date(contract.end_date), 'MMM dd, yyyy')}
+                      {contract.price != null && <> | ₹{Number(contract.price).toLocaleString()}</>}
+                      {contract.sold_by && <> | Sold by {contract.sold_by}</>}
+                    </p>
+                    {contract.coverage && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 whitespace-pre-line">{contract.coverage}</p>
+                    )}
+                  </div>
+                  {canEdit && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleEdit(contract)}
+                        className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(contract)}
+                        className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecordContracts
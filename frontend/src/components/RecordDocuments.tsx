@@ -0,0 +1,399 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { documentsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { DocumentLineItem, DocumentType, RecordDocument, RecordDocumentInput } from '../types'
+
+interface RecordDocumentsProps {
+  recordId: number
+}
+
+const DOCUMENT_LABELS: { [type in DocumentType]: string } = {
+  quotation: 'Quotation',
+  invoice: 'Tax Invoice',
+}
+
+const round = (value: number) => Math.round(value * 100) / 100
+
+// Same arithmetic as the backend (app/utils/documents.py), for the preview before issuing
+const previewTotals = (form: RecordDocumentInput) => {
+  const rate = form.gst_rate ?? 0
+  const taxable = round(
+    form.line_items.reduce((sum, item) => {
+      const unitPrice = round(form.prices_include_gst ? (item.unit_price * 100) / (100 + rate) : item.unit_price)
+      return sum + round(unitPrice * (item.quantity || 1))
+    }, 0)
+  )
+  const tax = round((taxable * rate) / 100)
+  return { taxable, tax, total: round(taxable + tax) }
+}
+
+function RecordDocuments({ recordId }: RecordDocumentsProps) {
+  const { user } = useAuth()
+  // Documents are issued by the maintenance team; other roles can download them
+  const canEdit = user?.role === 'maintenance'
+  const [documents, setDocuments] = useState<RecordDocument[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<RecordDocumentInput | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchDocuments = async () => {
+    setLoading(true)
+    try {
+      setDocuments(await documentsApi.list(recordId))
+    } catch (error) {
+      console.error('Error fetching documents:', error)
+      setDocuments([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDocuments()
+    closeForm()
+  }, [recordId])
+
+  const closeForm = () => {
+    setForm(null)
+    setError('')
+  }
+
+  const openForm = async (docType: DocumentType) => {
+    try {
+      const draft = await documentsApi.draft(recordId)
+      setError('')
+      setForm({
+        record_id: recordId,
+        doc_type: docType,
+        issued_on: format(new Date(), 'yyyy-MM-dd'),
+        line_items: draft.line_items,
+        gst_rate: draft.gst_rate,
+        prices_include_gst: false,
+        interstate: false,
+        client_gstin: '',
+        place_of_supply: draft.place_of_supply || '',
+        notes: '',
+      })
+    } catch (error) {
+      console.error('Error preparing document:', error)
+      alert('Failed to prepare document')
+    }
+  }
+
+  const setLineItem = (index: number, changes: Partial<DocumentLineItem>) => {
+    if (!form) return
+    setForm({ ...form, line_items: form.line_items.map((item, i) => (i === index ? { ...item, ...changes } : item)) })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setError('')
+    try {
+      const issued = await documentsApi.create({
+        ...form,
+        client_gstin: form.client_gstin || undefined,
+        place_of_supply: form.place_of_supply || undefined,
+        notes: form.notes || undefined,
+      })
+      closeForm()
+      fetchDocuments()
+      handleDownload(issued)
+    } catch (err: any) {
+      console.error('Error issuing document:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to issue document')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDownload = async (doc: RecordDocument) => {
+    try {
+      const blob = await documentsApi.download(doc.id)
+      const downloadUrl = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = downloadUrl
+      link.download = `${doc.number.replace(/\//g, '-')}.pdf`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(downloadUrl)
+    } catch (error) {
+      console.error('Error downloading document:', error)
+      alert('Failed to download document')
+    }
+  }
+
+  const handleDelete = async (doc: RecordDocument) => {
+    if (!confirm(`Delete quotation ${doc.number}?`)) return
+    try {
+      await documentsApi.remove(doc.id)
+      fetchDocuments()
+    } catch (err: any) {
+      console.error('Error deleting document:', err)
+      alert(err.response?.data?.detail || 'Failed to delete document')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Loading documents...</p>
+      </div>
+    )
+  }
+
+  const totals = form ? previewTotals(form) : null
+
+  return (
+    <div className="space-y-4">
+      {canEdit && !form && (
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={() => openForm('quotation')}
+            className="px-4 py-2 border border-primary-300 dark:border-primary-700 rounded-lg text-sm font-semibold text-primary-600 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+          >
+            + Quotation
+          </button>
+          <button
+            onClick={() => openForm('invoice')}
+            className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + Tax Invoice
+          </button>
+        </div>
+      )}
+
+      {form && totals && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h5 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+            New {DOCUMENT_LABELS[form.doc_type]}
+          </h5>
+          {error && (
+            <div className="mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4">
+            <div>
+              <label className={labelClass}>Type</label>
+              <select
+                value={form.doc_type}
+                onChange={(e) => setForm({ ...form, doc_type: e.target.value as DocumentType })}
+                className={inputClass}
+              >
+                <option value="quotation">Quotation</option>
+                <option value="invoice">Tax Invoice</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Date</label>
+              <input
+                type="date"
+                required
+                value={form.issued_on || ''}
+                onChange={(e) => setForm({ ...form, issued_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Client GSTIN</label>
+              <input
+                type="text"
+                maxLength={15}
+                value={form.client_gstin || ''}
+                onChange={(e) => setForm({ ...form, client_gstin: e.target.value.toUpperCase() })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Place of Supply</label>
+              <input
+                type="text"
+                value={form.place_of_supply || ''}
+                onChange={(e) => setForm({ ...form, place_of_supply: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2 mb-3">
+            <div className="hidden md:grid grid-cols-12 gap-2 text-xs font-semibold text-gray-600 dark:text-gray-400">
+              <span className="col-span-6">Description</span>
+              <span className="col-span-2">HSN/SAC</span>
+              <span className="col-span-1">Qty</span>
+              <span className="col-span-2">Rate (₹)</span>
+            </div>
+            {form.line_items.map((item, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <input
+                  type="text"
+                  required
+                  value={item.description}
+                  onChange={(e) => setLineItem(index, { description: e.target.value })}
+                  className={`${inputClass} col-span-12 md:col-span-6`}
+                />
+                <input
+                  type="text"
+                  value={item.hsn || ''}
+                  onChange={(e) => setLineItem(index, { hsn: e.target.value })}
+                  className={`${inputClass} col-span-4 md:col-span-2`}
+                />
+                <input
+                  type="number"
+                  required
+                  min={0.01}
+                  step="any"
+                  value={item.quantity}
+                  onChange={(e) => setLineItem(index, { quantity: Number(e.target.value) })}
+                  className={`${inputClass} col-span-3 md:col-span-1`}
+                />
+                <input
+                  type="number"
+                  required
+                  min={0}
+                  step="0.01"
+                  value={item.unit_price}
+                  onChange={(e) => setLineItem(index, { unit_price: Number(e.target.value) })}
+                  className={`${inputClass} col-span-4 md:col-span-2`}
+                />
+                <button
+                  type="button"
+                  onClick={() => setForm({ ...form, line_items: form.line_items.filter((_, i) => i !== index) })}
+                  disabled={form.line_items.length === 1}
+                  className="col-span-1 text-red-600 dark:text-red-400 text-lg disabled:opacity-30"
+                  title="Remove line"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, line_items: [...form.line_items, { description: '', quantity: 1, unit_price: 0 }] })}
+              className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              + Add line
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+            <div>
+              <label className={labelClass}>GST Rate (%)</label>
+              <input
+                type="number"
+                required
+                min={0}
+                max={28}
+                step="0.01"
+                value={form.gst_rate ?? ''}
+                onChange={(e) => setForm({ ...form, gst_rate: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+              <input
+                type="checkbox"
+                checked={form.prices_include_gst}
+                onChange={(e) => setForm({ ...form, prices_include_gst: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Rates include GST
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 pb-2">
+              <input
+                type="checkbox"
+                checked={form.interstate}
+                onChange={(e) => setForm({ ...form, interstate: e.target.checked })}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Interstate (IGST)
+            </label>
+            <div className="text-sm text-right text-gray-700 dark:text-gray-300">
+              <p>Taxable ₹{totals.taxable.toLocaleString()}</p>
+              <p>{form.interstate ? 'IGST' : 'CGST + SGST'} ₹{totals.tax.toLocaleString()}</p>
+              <p className="font-bold text-gray-900 dark:text-white">Total ₹{totals.total.toLocaleString()}</p>
+            </div>
+            <div className="md:col-span-4">
+              <label className={labelClass}>Notes</label>
+              <textarea
+                rows={2}
+                maxLength={1000}
+                value={form.notes || ''}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Issuing...' : `Issue ${DOCUMENT_LABELS[form.doc_type]}`}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {documents.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No quotations or invoices</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {documents.map((doc) => (
+            <div key={doc.id} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-bold text-gray-900 dark:text-white">{DOCUMENT_LABELS[doc.doc_type]}</span>
+                    <span className="font-mono text-sm text-primary-600 dark:text-primary-400">{doc.number}</span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    {format(new Date(doc.issued_on), 'MMM dd, yyyy')} | ₹{Number(doc.total).toLocaleString()} incl. GST
+                    {doc.valid_until && <> | Valid until {format(new Date(doc.valid_until), 'MMM dd, yyyy')}</>}
+                    {doc.created_by && <> | By {doc.created_by}</>}
+                  </p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => handleDownload(doc)}
+                    className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                  >
+                    Download PDF
+                  </button>
+                  {canEdit && doc.doc_type === 'quotation' && (
+                    <button
+                      onClick={() => handleDelete(doc)}
+                      className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecordDocuments
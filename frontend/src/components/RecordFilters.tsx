@@ -1,25 +1,163 @@
-import { useState, useEffect, useRef } from 'react'
-import { RecordFilters as RecordFiltersType } from '../types'
-import api from '../services/api'
+import { useState, useEffect, useRef, useMemo } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { RecordFilters as RecordFiltersType, RecordSortField, FilterOptions, MultiFilterKey } from '../types'
+import { filtersApi, buildFilterParams, parseFilterParams } from '../services/client'
+
+const SORT_OPTIONS: { value: RecordSortField; label: string }[] = [
+  { value: 'relevance', label: 'Best Match' },
+  { value: 'date_of_delivery', label: 'Delivery Date' },
+  { value: 'date_of_installation', label: 'Installation Date' },
+  { value: 'sale_price', label: 'Sale Price' },
+  { value: 'client_name', label: 'Client Name' },
+  { value: 'zone', label: 'Zone' },
+  { value: 'updated_at', label: 'Last Updated' },
+  { value: 'warranty_expiry', label: 'Warranty Expiry' },
+]
+
+const MULTI_FILTERS: { key: MultiFilterKey; label: string; options: keyof FilterOptions; all: string; suffix?: string }[] = [
+  { key: 'zone', label: 'Zone', options: 'zones', all: 'All Zones' },
+  { key: 'capacity_kw', label: 'Capacity (KW)', options: 'capacity_kw', all: 'All Capacities', suffix: ' KW' },
+  { key: 'heater', label: 'Heater', options: 'heaters', all: 'All Heaters' },
+  { key: 'controller', label: 'Controller', options: 'controllers', all: 'All Controllers' },
+  { key: 'card', label: 'Card', options: 'cards', all: 'All Cards' },
+  { key: 'body', label: 'Body', options: 'bodies', all: 'All Bodies' },
+  { key: 'sold_by', label: 'Sold By', options: 'sold_by', all: 'All Salespeople' },
+  { key: 'lead_source', label: 'Lead Source', options: 'lead_sources', all: 'All Lead Sources' },
+]
+
+type RangeKey =
+  | 'price_min' | 'price_max' | 'capacity_min' | 'capacity_max'
+  | 'date_from' | 'date_to' | 'installation_from' | 'installation_to' | 'site_visit_from' | 'site_visit_to'
+
+const RANGE_FILTERS: { label: string; from: RangeKey; to: RangeKey; type: 'number' | 'date' }[] = [
+  { label: 'Sale Price (₹)', from: 'price_min', to: 'price_max', type: 'number' },
+  { label: 'Capacity (KW)', from: 'capacity_min', to: 'capacity_max', type: 'number' },
+  { label: 'Delivery Date', from: 'date_from', to: 'date_to', type: 'date' },
+  { label: 'Installation Date', from: 'installation_from', to: 'installation_to', type: 'date' },
+  { label: 'Site Visit Date', from: 'site_visit_from', to: 'site_visit_to', type: 'date' },
+]
+
+const labelClass = 'block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5'
+const inputClass = 'w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+
+/**
+ * Filters and page kept in the query string, so a refresh keeps them and the
+ * address can be shared. Changing the filters goes back to page 1.
+ */
+export function useUrlFilters() {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = searchParams.toString()
+  // Same query string, same object, so effects depending on filters don't refire
+  const filters = useMemo(() => parseFilterParams(new URLSearchParams(query)), [query])
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1', 10) || 1)
+
+  const update = (nextFilters: RecordFiltersType, nextPage: number) => {
+    const params = buildFilterParams(nextFilters)
+    if (nextPage > 1) params.set('page', nextPage.toString())
+    // Replace rather than push: typing in a filter shouldn't fill the back button's history
+    setSearchParams(params, { replace: true })
+  }
+
+  return {
+    filters,
+    page,
+    setFilters: (nextFilters: RecordFiltersType) => update(nextFilters, 1),
+    setPage: (nextPage: number) => update(filters, nextPage),
+  }
+}
+
+interface MultiSelectProps {
+  label: string
+  allLabel: string
+  options: string[]
+  selected: string[]
+  suffix?: string
+  loading: boolean
+  onChange: (values: string[]) => void
+}
+
+function MultiSelect({ label, allLabel, options, selected, suffix = '', loading, onChange }: MultiSelectProps) {
+  const [open, setOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  // Values from a shared link may no longer be among the options; keep them visible so they can be unticked
+  const allOptions = [...options, ...selected.filter((value) => !options.includes(value))]
+  const summary =
+    selected.length === 0
+      ? allLabel
+      : selected.length <= 2
+      ? selected.map((value) => `${value}${suffix}`).join(', ')
+      : `${selected.length} selected`
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((v) => v !== value) : [...selected, value])
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      <label className={labelClass}>{label}</label>
+      {loading ? (
+        <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
+          Loading...
+        </div>
+      ) : (
+        <button type="button" onClick={() => setOpen(!open)} className={`${inputClass} flex justify-between items-center text-left`}>
+          <span className="truncate">{summary}</span>
+          <span className="ml-2 text-gray-400">▾</span>
+        </button>
+      )}
+      {open && (
+        <div className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-lg shadow-lg py-1">
+          {allOptions.length === 0 ? (
+            <p className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">No values yet</p>
+          ) : (
+            allOptions.map((value) => (
+              <label
+                key={value}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-600 cursor-pointer"
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.includes(value)}
+                  onChange={() => toggle(value)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                {value}{suffix}
+              </label>
+            ))
+          )}
+          {selected.length > 0 && (
+            <button
+              type="button"
+              onClick={() => onChange([])}
+              className="w-full text-left px-3 py-1.5 text-xs font-semibold text-primary-600 dark:text-primary-400 border-t border-gray-200 dark:border-gray-600"
+            >
+              Clear selection
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
 
 interface RecordFiltersProps {
   filters: RecordFiltersType
   onFiltersChange: (filters: RecordFiltersType) => void
-  showDateRange?: boolean
-}
-
-interface FilterOptions {
-  zones: string[]
-  capacity_kw: string[]
-  heaters: string[]
-  controllers: string[]
-  cards: string[]
-  bodies: string[]
-  sold_by: string[]
-  lead_sources: string[]
+  showSort?: boolean
 }
 
-function RecordFiltersComponent({ filters, onFiltersChange, showDateRange = false }: RecordFiltersProps) {
+function RecordFiltersComponent({ filters, onFiltersChange, showSort = true }: RecordFiltersProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [localFilters, setLocalFilters] = useState<RecordFiltersType>(filters)
   const searchDebounceTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
@@ -44,8 +182,7 @@ function RecordFiltersComponent({ filters, onFiltersChange, showDateRange = fals
     // Fetch filter options from API
     const fetchFilterOptions = async () => {
       try {
-        const response = await api.get('/filters/options')
-        setFilterOptions(response.data)
+        setFilterOptions(await filtersApi.options())
       } catch (error) {
         console.error('Error fetching filter options:', error)
       } finally {
@@ -71,13 +208,36 @@ function RecordFiltersComponent({ filters, onFiltersChange, showDateRange = fals
     }, 500)
   }
 
-  const handleFilterChange = (key: keyof RecordFiltersType, value: string) => {
-    const newFilters = { ...localFilters, [key]: value || undefined }
+  const handleFilterChange = (key: keyof RecordFiltersType, value: string | string[]) => {
+    const newFilters = { ...localFilters, [key]: value.length ? value : undefined }
     setLocalFilters(newFilters)
-    // Apply filter immediately for dropdowns
+    // Apply filter immediately for dropdowns and dates
     onFiltersChange(newFilters)
   }
 
+  // Numbers apply when the field is left (or on Enter), not on every keystroke
+  const handleRangeInput = (key: RangeKey, value: string) => {
+    setLocalFilters({ ...localFilters, [key]: value || undefined })
+  }
+
+  // Sorting is applied server-side, so changing it refetches from page 1 like any other filter.
+  // With no sort chosen the server ranks searches by relevance and everything else by delivery date.
+  const defaultSort: RecordSortField = localFilters.search ? 'relevance' : 'date_of_delivery'
+  const handleSortChange = (sortBy: RecordSortField, sortDesc: boolean) => {
+    const newFilters = {
+      ...localFilters,
+      sort_by: sortBy === defaultSort ? undefined : sortBy,
+      sort_desc: sortDesc ? undefined : false,
+    }
+    setLocalFilters(newFilters)
+    onFiltersChange(newFilters)
+  }
+
+  const sortBy = localFilters.sort_by || defaultSort
+  const sortDesc = localFilters.sort_desc !== false
+  // Relevance only means something while searching
+  const sortOptions = SORT_OPTIONS.filter((option) => option.value !== 'relevance' || localFilters.search || sortBy === 'relevance')
+
   const handleApply = () => {
     onFiltersChange(localFilters)
   }
@@ -114,209 +274,81 @@ function RecordFiltersComponent({ filters, onFiltersChange, showDateRange = fals
         </button>
       </div>
 
-      <div className="mb-4">
+      <div className="mb-4 flex flex-col md:flex-row gap-3">
         <input
           type="text"
-          placeholder="Search by record ID, name, phone, or address... (filters as you type)"
+          placeholder="Search records, clients, machines, technicians and remarks... (filters as you type)"
           value={localFilters.search || ''}
           onChange={(e) => handleSearchChange(e.target.value)}
-          className="w-full px-4 py-3 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
+          className="flex-1 px-4 py-3 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
         />
+        {showSort && (
+          <div className="flex gap-2">
+            <select
+              value={sortBy}
+              onChange={(e) => handleSortChange(e.target.value as RecordSortField, sortDesc)}
+              aria-label="Sort by"
+              className="px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            >
+              {sortOptions.map((option) => (
+                <option key={option.value} value={option.value}>
+                  Sort: {option.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => handleSortChange(sortBy, !sortDesc)}
+              title={sortDesc ? 'Descending' : 'Ascending'}
+              className="px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all whitespace-nowrap"
+            >
+              {sortDesc ? '↓ Desc' : '↑ Asc'}
+            </button>
+          </div>
+        )}
       </div>
 
       {isOpen && (
-        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Zone</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.zone || ''}
-                onChange={(e) => handleFilterChange('zone', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Zones</option>
-                {filterOptions.zones.map((zone) => (
-                  <option key={zone} value={zone}>
-                    {zone}
-                  </option>
-                ))}
-              </select>
-            )}
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-4 gap-4">
+            {MULTI_FILTERS.map((filter) => (
+              <MultiSelect
+                key={filter.key}
+                label={filter.label}
+                allLabel={filter.all}
+                options={filterOptions[filter.options]}
+                selected={localFilters[filter.key] || []}
+                suffix={filter.suffix}
+                loading={loadingOptions}
+                onChange={(values) => handleFilterChange(filter.key, values)}
+              />
+            ))}
           </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Capacity (KW)</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mt-4">
+            {RANGE_FILTERS.map((range) => (
+              <div key={range.from}>
+                <label className={labelClass}>{range.label}</label>
+                <div className="flex items-center gap-2">
+                  {([range.from, range.to] as RangeKey[]).map((key, index) => (
+                    <input
+                      key={key}
+                      type={range.type}
+                      min={range.type === 'number' ? 0 : undefined}
+                      placeholder={index === 0 ? 'From' : 'To'}
+                      aria-label={`${range.label} ${index === 0 ? 'from' : 'to'}`}
+                      value={localFilters[key] || ''}
+                      onChange={(e) =>
+                        range.type === 'date' ? handleFilterChange(key, e.target.value) : handleRangeInput(key, e.target.value)
+                      }
+                      onBlur={range.type === 'number' ? handleApply : undefined}
+                      onKeyDown={(e) => range.type === 'number' && e.key === 'Enter' && handleApply()}
+                      className={inputClass}
+                    />
+                  ))}
+                </div>
               </div>
-            ) : (
-              <select
-                value={localFilters.capacity_kw || ''}
-                onChange={(e) => handleFilterChange('capacity_kw', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Capacities</option>
-                {filterOptions.capacity_kw.map((capacity) => (
-                  <option key={capacity} value={capacity}>
-                    {capacity} KW
-                  </option>
-                ))}
-              </select>
-            )}
+            ))}
           </div>
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Heater</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2 border border-gray-300 rounded-md bg-gray-50 text-sm text-gray-500">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.heater || ''}
-                onChange={(e) => handleFilterChange('heater', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Heaters</option>
-                {filterOptions.heaters.map((heater) => (
-                  <option key={heater} value={heater}>
-                    {heater}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Controller</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.controller || ''}
-                onChange={(e) => handleFilterChange('controller', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Controllers</option>
-                {filterOptions.controllers.map((controller) => (
-                  <option key={controller} value={controller}>
-                    {controller}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Card</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.card || ''}
-                onChange={(e) => handleFilterChange('card', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Cards</option>
-                {filterOptions.cards.map((card) => (
-                  <option key={card} value={card}>
-                    {card}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Body</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.body || ''}
-                onChange={(e) => handleFilterChange('body', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Bodies</option>
-                {filterOptions.bodies.map((body) => (
-                  <option key={body} value={body}>
-                    {body}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Sold By</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.sold_by || ''}
-                onChange={(e) => handleFilterChange('sold_by', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Salespeople</option>
-                {filterOptions.sold_by.map((soldBy) => (
-                  <option key={soldBy} value={soldBy}>
-                    {soldBy}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Lead Source</label>
-            {loadingOptions ? (
-              <div className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg bg-gray-50 dark:bg-gray-700 text-sm text-gray-500 dark:text-gray-400">
-                Loading...
-              </div>
-            ) : (
-              <select
-                value={localFilters.lead_source || ''}
-                onChange={(e) => handleFilterChange('lead_source', e.target.value)}
-                className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-              >
-                <option value="">All Lead Sources</option>
-                {filterOptions.lead_sources.map((source) => (
-                  <option key={source} value={source}>
-                    {source}
-                  </option>
-                ))}
-              </select>
-            )}
-          </div>
-          {showDateRange && (
-            <>
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Date From</label>
-                <input
-                  type="date"
-                  value={localFilters.date_from || ''}
-                  onChange={(e) => handleFilterChange('date_from', e.target.value)}
-                  className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                />
-              </div>
-              <div>
-                <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1.5">Date To</label>
-                <input
-                  type="date"
-                  value={localFilters.date_to || ''}
-                  onChange={(e) => handleFilterChange('date_to', e.target.value)}
-                  className="w-full px-3 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-                />
-              </div>
-            </>
-          )}
-        </div>
+        </>
       )}
 
       <div className="flex justify-end gap-3 mt-6">
@@ -1,22 +1,73 @@
 import { useState, useEffect } from 'react'
-import { useParams, useNavigate, Link } from 'react-router-dom'
+import { useParams, useNavigate, useSearchParams, Link } from 'react-router-dom'
 import { useForm } from 'react-hook-form'
-import api from '../services/api'
-import { Record, RecordCreate, RecordUpdate } from '../types'
+import { recordsApi, clientsApi, leadsApi } from '../services/client'
+import { RecordCreate, RecordUpdate } from '../types'
+import { useSettings } from '../contexts/SettingsContext'
 
 function RecordForm() {
-  const { id } = useParams<{ id: string }>()
+  // leadId: creating the record for a won lead from the sales pipeline
+  const { id, leadId } = useParams<{ id: string; leadId: string }>()
   const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
   const isEdit = !!id
+  const backPath = leadId ? '/sales/pipeline' : '/maintenance'
+  const { settings } = useSettings()
   const { register, handleSubmit, formState: { errors }, reset } = useForm<RecordCreate | RecordUpdate>()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState('')
+  // The client this record belongs to; "Add machine" on a client profile passes ?client=<id>
+  const [clientId, setClientId] = useState<number | undefined>(undefined)
+  const [newClient, setNewClient] = useState(false)
+  const [leadNumber, setLeadNumber] = useState('')
+  const clientPreset = !isEdit && clientId !== undefined
+
+  useEffect(() => {
+    if (!leadId) return
+    leadsApi.get(Number(leadId))
+      .then((lead) => {
+        setLeadNumber(lead.lead_number)
+        reset({
+          client_name: lead.contact_name,
+          client_phone: lead.contact_phone,
+          client_address: lead.contact_address,
+          zone: lead.zone,
+          capacity_kw: lead.capacity_kw,
+          sale_price: lead.expected_value ?? undefined,
+          sold_by: lead.owner,
+          lead_source: lead.source,
+          remarks: lead.notes,
+        })
+      })
+      .catch((err) => {
+        console.error('Error loading lead:', err)
+        setError('Failed to load lead')
+      })
+  }, [leadId, reset])
+
+  useEffect(() => {
+    const preset = searchParams.get('client')
+    if (isEdit || !preset) return
+    clientsApi.profile(Number(preset))
+      .then(({ client }) => {
+        setClientId(client.id)
+        reset({
+          client_name: client.name,
+          client_phone: client.phone,
+          client_address: client.address,
+          zone: client.zone,
+        })
+      })
+      .catch((err) => {
+        console.error('Error loading client:', err)
+      })
+  }, [isEdit, searchParams, reset])
 
   useEffect(() => {
     if (isEdit && id) {
-      api.get<Record>(`/records/${id}`)
-        .then((response) => {
-          const record = response.data
+      recordsApi.get(id)
+        .then((record) => {
+          setClientId(record.client_id)
           reset({
             record_id: record.record_id,
             date_of_delivery: record.date_of_delivery ? record.date_of_delivery.split('T')[0] : '',
@@ -58,14 +109,18 @@ function RecordForm() {
         date_of_delivery: data.date_of_delivery ? data.date_of_delivery : undefined,
         date_of_installation: data.date_of_installation ? data.date_of_installation : undefined,
         date_of_site_visit: data.date_of_site_visit ? new Date(data.date_of_site_visit).toISOString() : undefined,
+        // On edit the client only changes when split off; client detail edits apply to the client itself
+        client_id: isEdit ? (newClient ? null : undefined) : clientId,
       }
 
       if (isEdit && id) {
-        await api.patch(`/records/${id}`, formattedData)
+        await recordsApi.update(id, formattedData)
+      } else if (leadId) {
+        await leadsApi.convert(Number(leadId), formattedData as RecordCreate)
       } else {
-        await api.post('/records', formattedData)
+        await recordsApi.create(formattedData as RecordCreate)
       }
-      navigate('/maintenance')
+      navigate(backPath)
     } catch (err: any) {
       console.error('Error saving record:', err)
       setError(err.response?.data?.detail || 'Failed to save record')
@@ -82,14 +137,18 @@ function RecordForm() {
             {isEdit ? 'Edit Record' : 'Create New Record'}
           </h2>
           <p className="text-sm text-gray-600">
-            {isEdit ? 'Update record information' : 'Add a new maintenance record'}
+            {isEdit
+              ? 'Update record information'
+              : leadId
+              ? `Record for won lead ${leadNumber}; check the details and add the delivery date`
+              : 'Add a new maintenance record'}
           </p>
         </div>
         <Link
-          to="/maintenance"
+          to={backPath}
           className="text-gray-600 hover:text-gray-900 text-sm font-semibold px-4 py-2 rounded-lg hover:bg-gray-50 transition-all"
         >
-          ← Back to Records
+          {leadId ? '← Back to Pipeline' : '← Back to Records'}
         </Link>
       </div>
 
@@ -175,6 +234,7 @@ function RecordForm() {
             <input
               type="text"
               {...register('installation_done_by')}
+              list="technicians-list"
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
           </div>
@@ -185,6 +245,7 @@ function RecordForm() {
             <input
               type="text"
               {...register('commission_done_by')}
+              list="technicians-list"
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
           </div>
@@ -262,6 +323,28 @@ function RecordForm() {
           {/* Client Section */}
           <div className="md:col-span-2 mt-6">
             <h3 className="text-lg font-bold text-gray-900 mb-5 pb-2 border-b-2 border-primary-500">Client</h3>
+            {clientId && (
+              <div className="-mt-2 flex flex-wrap items-center justify-between gap-3 text-sm text-gray-600">
+                <p>
+                  {!isEdit
+                    ? 'Adding a machine for an existing client; edit their details on the client profile.'
+                    : newClient
+                    ? 'This machine will move to the client below (an existing one with the same name and phone, or a new one).'
+                    : 'Client details are shared by all of this client\'s machines; changes here update every one of them.'}
+                </p>
+                {isEdit && (
+                  <label className="flex items-center gap-2 font-medium">
+                    <input
+                      type="checkbox"
+                      checked={newClient}
+                      onChange={(e) => setNewClient(e.target.checked)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    Belongs to a different client
+                  </label>
+                )}
+              </div>
+            )}
           </div>
           <div className="md:col-span-2">
             <label className="block text-sm font-semibold text-gray-700 mb-2">
@@ -270,6 +353,7 @@ function RecordForm() {
             <input
               type="text"
               {...register('client_name', { required: 'Client name is required' })}
+              readOnly={clientPreset}
               className={`w-full px-4 py-2.5 border-2 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm ${
                 errors.client_name ? 'border-red-300' : 'border-gray-300'
               }`}
@@ -285,6 +369,7 @@ function RecordForm() {
             <input
               type="text"
               {...register('client_phone')}
+              readOnly={clientPreset}
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
           </div>
@@ -295,6 +380,8 @@ function RecordForm() {
             <input
               type="text"
               {...register('zone')}
+              readOnly={clientPreset}
+              list="zones-list"
               placeholder="Delhi, GGN, etc."
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
@@ -305,6 +392,7 @@ function RecordForm() {
             </label>
             <textarea
               {...register('client_address')}
+              readOnly={clientPreset}
               rows={3}
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
@@ -332,6 +420,7 @@ function RecordForm() {
             <input
               type="text"
               {...register('sold_by')}
+              list="salespeople-list"
               className="w-full px-4 py-2.5 border-2 border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm"
             />
           </div>
@@ -364,7 +453,7 @@ function RecordForm() {
 
         <div className="mt-6 flex justify-end gap-4">
           <Link
-            to="/maintenance"
+            to={backPath}
             className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
           >
             Cancel
@@ -377,6 +466,22 @@ function RecordForm() {
             {loading ? 'Saving...' : isEdit ? 'Update Record' : 'Create Record'}
           </button>
         </div>
+        {/* Suggestions from the admin-managed lists; free text is still accepted */}
+        <datalist id="zones-list">
+          {settings.zones.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+        <datalist id="technicians-list">
+          {settings.technicians.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+        <datalist id="salespeople-list">
+          {settings.salespeople.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
       </form>
     </div>
   )
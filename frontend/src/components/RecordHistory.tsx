@@ -0,0 +1,130 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { recordsApi } from '../services/client'
+import { FieldChange, RecordChange, RecordChangeAction } from '../types'
+
+interface RecordHistoryProps {
+  recordId: number
+}
+
+export const FIELD_LABELS: { [field: string]: string } = {
+  record_id: 'Record ID',
+  date_of_delivery: 'Delivery Date',
+  date_of_installation: 'Installation Date',
+  date_of_site_visit: 'Site Visit',
+  site_visit_done_by: 'Site Visit By',
+  installation_done_by: 'Installation Done By',
+  commission_done_by: 'Commission Done By',
+  capacity_kw: 'Capacity (kW)',
+  heater: 'Heater',
+  controller: 'Controller',
+  card: 'Card',
+  body: 'Body',
+  client_id: 'Client',
+  client_name: 'Client Name',
+  client_phone: 'Phone',
+  client_address: 'Address',
+  zone: 'Zone',
+  sale_price: 'Sale Price',
+  sold_by: 'Sold By',
+  lead_source: 'Lead Source',
+  remarks: 'Remarks',
+}
+
+const ACTION_STYLES: { [action in RecordChangeAction]: { label: string; className: string } } = {
+  create: { label: 'Created', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  update: { label: 'Updated', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  delete: { label: 'Deleted', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+  restore: { label: 'Restored', className: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300' },
+  purge: { label: 'Purged', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+}
+
+const ACTION_NOTES: { [action in RecordChangeAction]?: string } = {
+  delete: 'Moved to Recently Deleted',
+  restore: 'Restored from Recently Deleted',
+  purge: 'Permanently deleted',
+}
+
+const formatValue = (field: string, value: FieldChange['old']) => {
+  if (value === null || value === undefined || value === '') return '—'
+  if (field === 'sale_price') return `₹${Number(value).toLocaleString()}`
+  if (field === 'date_of_site_visit') return format(new Date(value), 'MMM dd, yyyy HH:mm')
+  if (field.startsWith('date_of_')) return format(new Date(value), 'MMM dd, yyyy')
+  return String(value)
+}
+
+function RecordHistory({ recordId }: RecordHistoryProps) {
+  const [entries, setEntries] = useState<RecordChange[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    setLoading(true)
+    recordsApi
+      .history(recordId)
+      .then(setEntries)
+      .catch((error) => {
+        console.error('Error fetching record history:', error)
+        setEntries([])
+      })
+      .finally(() => setLoading(false))
+  }, [recordId])
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Loading history...</p>
+      </div>
+    )
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+        <p className="text-sm text-gray-500 dark:text-gray-400">No changes recorded yet</p>
+      </div>
+    )
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 dark:border-gray-600 ml-2 space-y-6">
+      {entries.map((entry) => {
+        const action = ACTION_STYLES[entry.action]
+        const fields = Object.keys(entry.changes)
+        return (
+          <li key={entry.id} className="ml-6">
+            <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-primary-500 dark:bg-primary-400 border-2 border-white dark:border-gray-800"></span>
+            <div className="flex flex-wrap items-center gap-2 mb-2">
+              <span className={`px-2.5 py-0.5 text-xs font-semibold rounded-full ${action.className}`}>{action.label}</span>
+              <span className="text-sm font-semibold text-gray-900 dark:text-white">{entry.actor_name || 'Unknown user'}</span>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {format(new Date(entry.created_at), 'MMM dd, yyyy HH:mm')}
+              </span>
+            </div>
+            {entry.action === 'update' ? (
+              <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-600">
+                {fields.map((field) => (
+                  <div key={field} className="px-4 py-2 grid grid-cols-3 gap-3 text-sm">
+                    <span className="font-medium text-gray-600 dark:text-gray-400">{FIELD_LABELS[field] || field}</span>
+                    <span className="text-red-700 dark:text-red-300 line-through break-words">
+                      {formatValue(field, entry.changes[field].old)}
+                    </span>
+                    <span className="text-green-700 dark:text-green-300 break-words">
+                      {formatValue(field, entry.changes[field].new)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {ACTION_NOTES[entry.action] || `${fields.length} field${fields.length === 1 ? '' : 's'} set`}
+              </p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+export default RecordHistory
@@ -0,0 +1,303 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { paymentsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { Payment, PaymentInput, PaymentLedger, PaymentMode } from '../types'
+
+interface RecordPaymentsProps {
+  recordId: number
+  onChange?: () => void
+}
+
+export const PAYMENT_MODE_LABELS: { [mode in PaymentMode]: string } = {
+  cash: 'Cash',
+  upi: 'UPI',
+  bank_transfer: 'Bank transfer',
+  cheque: 'Cheque',
+  card: 'Card',
+}
+
+const formatMoney = (value: number) => `₹${Math.round(value).toLocaleString()}`
+
+function RecordPayments({ recordId, onChange }: RecordPaymentsProps) {
+  const { user } = useAuth()
+  // Both teams take payments from clients; admins only see the ledger
+  const canEdit = user?.role === 'maintenance' || user?.role === 'sales'
+  const [ledger, setLedger] = useState<PaymentLedger | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<PaymentInput | null>(null)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchLedger = async () => {
+    setLoading(true)
+    try {
+      setLedger(await paymentsApi.ledger(recordId))
+    } catch (error) {
+      console.error('Error fetching payments:', error)
+      setLedger(null)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchLedger()
+    closeForm()
+  }, [recordId])
+
+  const closeForm = () => {
+    setForm(null)
+    setEditingId(null)
+    setError('')
+  }
+
+  const handleAdd = () => {
+    setEditingId(null)
+    setError('')
+    setForm({
+      // Suggest the balance still due
+      amount: ledger && ledger.balance_due > 0 ? ledger.balance_due : 0,
+      paid_on: format(new Date(), 'yyyy-MM-dd'),
+      mode: 'upi',
+      reference: '',
+      notes: '',
+    })
+  }
+
+  const handleEdit = (payment: Payment) => {
+    setEditingId(payment.id)
+    setError('')
+    setForm({
+      amount: payment.amount,
+      paid_on: payment.paid_on,
+      mode: payment.mode,
+      reference: payment.reference || '',
+      notes: payment.notes || '',
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setError('')
+    try {
+      if (editingId) {
+        await paymentsApi.update(editingId, form)
+      } else {
+        await paymentsApi.create(recordId, form)
+      }
+      closeForm()
+      fetchLedger()
+      onChange?.()
+    } catch (err: any) {
+      console.error('Error saving payment:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save payment')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (payment: Payment) => {
+    if (!confirm(`Delete the payment of ${formatMoney(payment.amount)} on ${format(new Date(payment.paid_on), 'MMM dd, yyyy')}?`)) return
+    try {
+      await paymentsApi.remove(payment.id)
+      if (editingId === payment.id) closeForm()
+      fetchLedger()
+      onChange?.()
+    } catch (error) {
+      console.error('Error deleting payment:', error)
+      alert('Failed to delete payment')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Loading payments...</p>
+      </div>
+    )
+  }
+
+  if (!ledger) {
+    return <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">Failed to load payments</p>
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-3">
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Billed</p>
+          <p className="text-xl font-bold text-gray-900 dark:text-white">{formatMoney(ledger.billed)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Sale price + contracts</p>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Collected</p>
+          <p className="text-xl font-bold text-green-600 dark:text-green-400">{formatMoney(ledger.collected)}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            {ledger.payments.length} {ledger.payments.length === 1 ? 'payment' : 'payments'}
+          </p>
+        </div>
+        <div className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">
+            {ledger.balance_due < 0 ? 'Paid in advance' : 'Balance due'}
+          </p>
+          <p className={`text-xl font-bold ${ledger.balance_due > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'}`}>
+            {formatMoney(Math.abs(ledger.balance_due))}
+          </p>
+        </div>
+      </div>
+
+      {canEdit && !form && (
+        <div className="flex justify-end">
+          <button
+            onClick={handleAdd}
+            className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + Record Payment
+          </button>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h5 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+            {editingId ? 'Edit Payment' : 'New Payment'}
+          </h5>
+          {error && (
+            <div className="mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Amount (₹)</label>
+              <input
+                type="number"
+                required
+                min={0.01}
+                step="0.01"
+                value={form.amount || ''}
+                onChange={(e) => setForm({ ...form, amount: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Date</label>
+              <input
+                type="date"
+                required
+                value={form.paid_on}
+                onChange={(e) => setForm({ ...form, paid_on: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Mode</label>
+              <select
+                value={form.mode}
+                onChange={(e) => setForm({ ...form, mode: e.target.value as PaymentMode })}
+                className={inputClass}
+              >
+                {Object.entries(PAYMENT_MODE_LABELS).map(([mode, label]) => (
+                  <option key={mode} value={mode}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Reference</label>
+              <input
+                type="text"
+                maxLength={100}
+                placeholder="UTR, cheque or receipt no."
+                value={form.reference || ''}
+                onChange={(e) => setForm({ ...form, reference: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-4">
+              <label className={labelClass}>Notes</label>
+              <input
+                type="text"
+                maxLength={500}
+                placeholder="e.g. advance, on delivery, after commissioning"
+                value={form.notes || ''}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Payment' : 'Add Payment'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {ledger.payments.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No payments recorded</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {ledger.payments.map((payment) => (
+            <div key={payment.id} className="p-4 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-bold text-gray-900 dark:text-white">{formatMoney(payment.amount)}</span>
+                    <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">
+                      {PAYMENT_MODE_LABELS[payment.mode]}
+                    </span>
+                  </div>
+                  <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                    {format(new Date(payment.paid_on), 'MMM dd, yyyy')}
+                    {payment.reference && <> | Ref {payment.reference}</>}
+                    {payment.recorded_by && <> | Recorded by {payment.recorded_by}</>}
+                  </p>
+                  {payment.notes && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{payment.notes}</p>}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleEdit(payment)}
+                      className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(payment)}
+                      className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecordPayments
@@ -0,0 +1,433 @@
+import { useState, useEffect, useRef } from 'react'
+import { format } from 'date-fns'
+import { AppSettings, Record, RecordSortField, RecordUpdate, TableColumnLayout } from '../types'
+import { useSettings } from '../contexts/SettingsContext'
+import RecordDetailModal from './RecordDetailModal'
+
+// How a cell is edited in place: a free input, or a pick from one of the settings lists
+type CellEditor = 'text' | 'number' | 'date' | keyof Pick<AppSettings, 'zones' | 'technicians' | 'salespeople'>
+
+interface TableColumn {
+  field: string
+  label: string
+  width: number
+  // Header click sorts by this (server-side, through the filters)
+  sortField?: RecordSortField
+  // Columns that are a record field can be edited in the cell
+  edit?: CellEditor
+  render: (record: Record) => React.ReactNode
+}
+
+const formatDate = (value?: string) => (value ? format(new Date(value), 'MMM dd, yyyy') : '')
+
+const WARRANTY_LABELS = {
+  in_warranty: { label: 'In Warranty', className: 'text-green-700 dark:text-green-400' },
+  expiring_soon: { label: 'Expiring Soon', className: 'text-yellow-700 dark:text-yellow-400' },
+  out_of_warranty: { label: 'Out of Warranty', className: 'text-red-700 dark:text-red-400' },
+}
+
+export const TABLE_COLUMNS: TableColumn[] = [
+  { field: 'record_id', label: 'Record ID', width: 120, render: (r) => <span className="font-mono text-xs">{r.record_id}</span> },
+  { field: 'client_name', label: 'Client Name', width: 200, sortField: 'client_name', render: (r) => <span className="font-semibold">{r.client_name}</span> },
+  { field: 'client_phone', label: 'Phone', width: 130, edit: 'text', render: (r) => r.client_phone },
+  { field: 'client_address', label: 'Address', width: 240, edit: 'text', render: (r) => r.client_address },
+  { field: 'zone', label: 'Zone', width: 110, sortField: 'zone', edit: 'zones', render: (r) => r.zone },
+  { field: 'capacity_kw', label: 'Capacity', width: 100, edit: 'text', render: (r) => (r.capacity_kw ? `${r.capacity_kw} KW` : '') },
+  { field: 'heater', label: 'Heater', width: 110, edit: 'text', render: (r) => r.heater },
+  { field: 'controller', label: 'Controller', width: 110, edit: 'text', render: (r) => r.controller },
+  { field: 'card', label: 'Card', width: 100, edit: 'text', render: (r) => r.card },
+  { field: 'body', label: 'Body', width: 100, edit: 'text', render: (r) => r.body },
+  { field: 'date_of_delivery', label: 'Delivery', width: 120, sortField: 'date_of_delivery', edit: 'date', render: (r) => formatDate(r.date_of_delivery) },
+  { field: 'date_of_installation', label: 'Installation', width: 120, sortField: 'date_of_installation', edit: 'date', render: (r) => formatDate(r.date_of_installation) },
+  { field: 'date_of_site_visit', label: 'Site Visit', width: 120, render: (r) => formatDate(r.date_of_site_visit) },
+  { field: 'site_visit_done_by', label: 'Site Visit By', width: 140, edit: 'technicians', render: (r) => r.site_visit_done_by },
+  { field: 'installation_done_by', label: 'Installed By', width: 140, edit: 'technicians', render: (r) => r.installation_done_by },
+  { field: 'commission_done_by', label: 'Commissioned By', width: 140, edit: 'technicians', render: (r) => r.commission_done_by },
+  {
+    field: 'warranty',
+    label: 'Warranty',
+    width: 170,
+    sortField: 'warranty_expiry',
+    render: (r) => {
+      if (!r.warranty_status) return ''
+      const status = WARRANTY_LABELS[r.warranty_status]
+      return (
+        <span className={status.className}>
+          {status.label}{r.warranty_expiry && ` · ${formatDate(r.warranty_expiry)}`}
+        </span>
+      )
+    },
+  },
+  { field: 'sale_price', label: 'Sale Price', width: 110, sortField: 'sale_price', edit: 'number', render: (r) => (r.sale_price != null ? `₹${r.sale_price.toLocaleString()}` : '') },
+  { field: 'sold_by', label: 'Sold By', width: 130, edit: 'salespeople', render: (r) => r.sold_by },
+  { field: 'lead_source', label: 'Lead Source', width: 130, edit: 'text', render: (r) => r.lead_source },
+  { field: 'remarks', label: 'Remarks', width: 260, edit: 'text', render: (r) => r.remarks },
+  { field: 'updated_at', label: 'Last Updated', width: 120, sortField: 'updated_at', render: (r) => formatDate(r.updated_at) },
+]
+
+const DEFAULT_FIELDS = ['record_id', 'client_name', 'client_phone', 'zone', 'capacity_kw', 'date_of_delivery', 'date_of_installation', 'warranty', 'sale_price']
+
+export const DEFAULT_TABLE_LAYOUT: TableColumnLayout[] = DEFAULT_FIELDS.map((field) => ({
+  field,
+  width: TABLE_COLUMNS.find((column) => column.field === field)!.width,
+}))
+
+// Rows have a fixed height so the visible slice can be worked out from the scroll position
+const ROW_HEIGHT = 40
+const OVERSCAN = 10
+
+interface RecordTableProps {
+  records: Record[]
+  // Visible columns in display order; empty means the default layout
+  layout: TableColumnLayout[]
+  onLayoutChange: (layout: TableColumnLayout[]) => void
+  sortBy?: RecordSortField
+  sortDesc?: boolean
+  onSort: (sortBy: RecordSortField, sortDesc: boolean) => void
+  // Omitted for read-only viewers (admin browsing maintenance records)
+  onDelete?: (id: number) => void
+  onEdit?: (id: number) => void
+  onInlineEdit?: (record: Record, changes: RecordUpdate) => Promise<void>
+  // Multi-select for bulk actions
+  selectedIds?: number[]
+  onSelectionChange?: (ids: number[]) => void
+}
+
+const SELECT_COLUMN_WIDTH = 40
+
+function RecordTable({
+  records, layout, onLayoutChange, sortBy, sortDesc, onSort, onDelete, onEdit, onInlineEdit, selectedIds, onSelectionChange,
+}: RecordTableProps) {
+  const { settings } = useSettings()
+  const [scrollTop, setScrollTop] = useState(0)
+  const [viewportHeight, setViewportHeight] = useState(600)
+  const [dragField, setDragField] = useState<string | null>(null)
+  const [chooserOpen, setChooserOpen] = useState(false)
+  const [openRecord, setOpenRecord] = useState<Record | null>(null)
+  const [editing, setEditing] = useState<{ id: number; field: string } | null>(null)
+  const [draft, setDraft] = useState('')
+  const [saving, setSaving] = useState(false)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const chooserRef = useRef<HTMLDivElement>(null)
+  // The cell being edited; cleared on save or cancel so a blur while unmounting doesn't save again
+  const activeEdit = useRef<string | null>(null)
+
+  // A stored layout may name columns that no longer exist
+  const known = layout.filter((item) => TABLE_COLUMNS.some((column) => column.field === item.field))
+  const visible = known.length > 0 ? known : DEFAULT_TABLE_LAYOUT
+  const columns = visible.map((item) => ({ ...TABLE_COLUMNS.find((column) => column.field === item.field)!, width: item.width }))
+  const selectable = !!onSelectionChange
+  const tableWidth = columns.reduce((sum, column) => sum + column.width, selectable ? SELECT_COLUMN_WIDTH : 0)
+  const selected = new Set(selectedIds || [])
+  const allSelected = records.length > 0 && records.every((record) => selected.has(record.id))
+
+  useEffect(() => {
+    const measure = () => setViewportHeight(scrollRef.current?.clientHeight || 600)
+    measure()
+    window.addEventListener('resize', measure)
+    return () => window.removeEventListener('resize', measure)
+  }, [])
+
+  // A new page of records starts at the top (an edited row being swapped in keeps the position)
+  const firstId = records[0]?.id
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: 0 })
+    setScrollTop(0)
+  }, [firstId, records.length])
+
+  useEffect(() => {
+    if (!chooserOpen) return
+    const handleClick = (e: MouseEvent) => {
+      if (chooserRef.current && !chooserRef.current.contains(e.target as Node)) setChooserOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [chooserOpen])
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN)
+  const last = Math.min(records.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN)
+  const rows = records.slice(first, last)
+
+  const toggleColumn = (field: string, shown: boolean) => {
+    if (shown) {
+      if (visible.length === 1) return  // keep at least one column
+      onLayoutChange(visible.filter((item) => item.field !== field))
+    } else {
+      onLayoutChange([...visible, { field, width: TABLE_COLUMNS.find((column) => column.field === field)!.width }])
+    }
+  }
+
+  const handleDrop = (targetField: string) => {
+    if (!dragField || dragField === targetField) return
+    const moved = visible.find((item) => item.field === dragField)!
+    const rest = visible.filter((item) => item.field !== dragField)
+    const targetIndex = rest.findIndex((item) => item.field === targetField)
+    // Dropping on a column to the right places the dragged one after it
+    const after = visible.findIndex((item) => item.field === dragField) < visible.findIndex((item) => item.field === targetField)
+    rest.splice(targetIndex + (after ? 1 : 0), 0, moved)
+    onLayoutChange(rest)
+  }
+
+  const startResize = (e: React.MouseEvent, field: string, startWidth: number) => {
+    // Stops the header from starting a column drag
+    e.preventDefault()
+    e.stopPropagation()
+    const startX = e.clientX
+    const handleMove = (move: MouseEvent) => {
+      const width = Math.min(1000, Math.max(60, startWidth + move.clientX - startX))
+      onLayoutChange(visible.map((item) => (item.field === field ? { ...item, width } : item)))
+    }
+    const handleUp = () => {
+      window.removeEventListener('mousemove', handleMove)
+      window.removeEventListener('mouseup', handleUp)
+    }
+    window.addEventListener('mousemove', handleMove)
+    window.addEventListener('mouseup', handleUp)
+  }
+
+  const toggleSelected = (id: number, checked: boolean) => {
+    onSelectionChange?.(checked ? [...selected, id] : [...selected].filter((selectedId) => selectedId !== id))
+  }
+
+  const startEdit = (record: Record, column: TableColumn) => {
+    const value = record[column.field as keyof Record]
+    activeEdit.current = `${record.id}:${column.field}`
+    setEditing({ id: record.id, field: column.field })
+    setDraft(value == null ? '' : String(value).slice(0, column.edit === 'date' ? 10 : undefined))
+  }
+
+  const cancelEdit = () => {
+    activeEdit.current = null
+    setEditing(null)
+  }
+
+  const saveEdit = async (record: Record, column: TableColumn, value: string) => {
+    if (activeEdit.current !== `${record.id}:${column.field}`) return
+    cancelEdit()
+    const current = record[column.field as keyof Record]
+    const before = current == null ? '' : String(current).slice(0, column.edit === 'date' ? 10 : undefined)
+    if (!onInlineEdit || value.trim() === before) return
+    if (value.trim() === '' && column.field === 'date_of_delivery') return  // required
+    let newValue: string | number | null = value.trim() || null
+    if (column.edit === 'number' && newValue !== null) {
+      newValue = Number(newValue)
+      if (Number.isNaN(newValue)) return
+    }
+    setSaving(true)
+    try {
+      await onInlineEdit(record, { [column.field]: newValue } as RecordUpdate)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderEditor = (record: Record, column: TableColumn) => {
+    const editorClass = 'w-full h-8 px-2 text-sm border-2 border-primary-500 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none'
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+      if (e.key === 'Enter') saveEdit(record, column, draft)
+      if (e.key === 'Escape') cancelEdit()
+    }
+    if (column.edit === 'zones' || column.edit === 'technicians' || column.edit === 'salespeople') {
+      const options = settings[column.edit]
+      return (
+        <select
+          autoFocus
+          value={draft}
+          onChange={(e) => saveEdit(record, column, e.target.value)}
+          onBlur={cancelEdit}
+          onKeyDown={handleKeyDown}
+          className={editorClass}
+        >
+          <option value="">None</option>
+          {draft && !options.includes(draft) && <option value={draft}>{draft}</option>}
+          {options.map((option) => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )
+    }
+    return (
+      <input
+        autoFocus
+        type={column.edit}
+        step={column.edit === 'number' ? '0.01' : undefined}
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => saveEdit(record, column, draft)}
+        onKeyDown={handleKeyDown}
+        className={editorClass}
+      />
+    )
+  }
+
+  const handleSort = (column: TableColumn) => {
+    if (!column.sortField) return
+    // First click sorts descending, the next flips it
+    onSort(column.sortField, sortBy === column.sortField ? !sortDesc : true)
+  }
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Drag headers to reorder, drag their edges to resize{onInlineEdit && '; click a highlighted cell to edit it in place'}
+          {saving && <span className="ml-2 text-primary-600 dark:text-primary-400">Saving...</span>}
+        </p>
+        <div className="relative" ref={chooserRef}>
+          <button
+            onClick={() => setChooserOpen(!chooserOpen)}
+            className="px-3 py-1.5 text-sm font-medium rounded-lg border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+          >
+            Columns ({visible.length})
+          </button>
+          {chooserOpen && (
+            <div className="absolute right-0 z-30 mt-1 w-56 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-gray-200 dark:border-gray-700 py-1">
+              {TABLE_COLUMNS.map((column) => {
+                const shown = visible.some((item) => item.field === column.field)
+                return (
+                  <label key={column.field} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={shown}
+                      onChange={() => toggleColumn(column.field, shown)}
+                      className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {column.label}
+                  </label>
+                )
+              })}
+              <button
+                onClick={() => onLayoutChange([])}
+                className="w-full text-left px-3 py-1.5 mt-1 border-t border-gray-200 dark:border-gray-700 text-sm text-primary-600 dark:text-primary-400 hover:bg-gray-50 dark:hover:bg-gray-700"
+              >
+                Reset to default columns
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="h-[70vh] overflow-auto bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700"
+      >
+        <table className="table-fixed border-separate border-spacing-0 text-sm" style={{ width: tableWidth }}>
+          <colgroup>
+            {selectable && <col style={{ width: SELECT_COLUMN_WIDTH }} />}
+            {columns.map((column) => (
+              <col key={column.field} style={{ width: column.width }} />
+            ))}
+          </colgroup>
+          <thead>
+            <tr>
+              {selectable && (
+                <th className="sticky top-0 z-10 px-3 bg-gray-50 dark:bg-gray-700 border-b border-gray-200 dark:border-gray-600" style={{ height: ROW_HEIGHT }}>
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={(e) => onSelectionChange!(e.target.checked ? records.map((record) => record.id) : [])}
+                    aria-label="Select all on this page"
+                    className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  />
+                </th>
+              )}
+              {columns.map((column) => (
+                <th
+                  key={column.field}
+                  draggable
+                  onDragStart={() => setDragField(column.field)}
+                  onDragEnd={() => setDragField(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={() => handleDrop(column.field)}
+                  onClick={() => handleSort(column)}
+                  className={`sticky top-0 z-10 px-3 text-left text-xs font-semibold uppercase tracking-wide bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 border-b border-gray-200 dark:border-gray-600 select-none ${
+                    column.sortField ? 'cursor-pointer hover:text-primary-600 dark:hover:text-primary-400' : 'cursor-move'
+                  } ${dragField === column.field ? 'opacity-50' : ''}`}
+                  style={{ height: ROW_HEIGHT }}
+                >
+                  <span className="block truncate pr-2">
+                    {column.label}
+                    {column.sortField && sortBy === column.sortField && (sortDesc ? ' ↓' : ' ↑')}
+                  </span>
+                  <span
+                    onMouseDown={(e) => startResize(e, column.field, column.width)}
+                    onClick={(e) => e.stopPropagation()}
+                    title="Drag to resize"
+                    className="absolute top-0 right-0 h-full w-1.5 cursor-col-resize hover:bg-primary-400"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {first > 0 && (
+              <tr style={{ height: first * ROW_HEIGHT }}>
+                <td colSpan={columns.length + (selectable ? 1 : 0)} />
+              </tr>
+            )}
+            {rows.map((record) => (
+              <tr
+                key={record.id}
+                onClick={() => setOpenRecord(record)}
+                className={`cursor-pointer hover:bg-primary-50 dark:hover:bg-primary-900/20 ${
+                  selected.has(record.id) ? 'bg-primary-50 dark:bg-primary-900/30' : ''
+                }`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                {selectable && (
+                  <td className="px-3 border-b border-gray-100 dark:border-gray-700" onClick={(e) => e.stopPropagation()}>
+                    <input
+                      type="checkbox"
+                      checked={selected.has(record.id)}
+                      onChange={(e) => toggleSelected(record.id, e.target.checked)}
+                      aria-label={`Select ${record.record_id}`}
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                  </td>
+                )}
+                {columns.map((column) => {
+                  const editable = !!onInlineEdit && !!column.edit
+                  const isEditing = editing?.id === record.id && editing.field === column.field
+                  return (
+                    <td
+                      key={column.field}
+                      onClick={editable ? (e) => {
+                        // Editable cells edit in place; the rest of the row opens the details
+                        e.stopPropagation()
+                        startEdit(record, column)
+                      } : undefined}
+                      title={editable && !isEditing ? 'Click to edit' : undefined}
+                      className={`truncate whitespace-nowrap border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300 ${
+                        isEditing ? 'px-1' : 'px-3'
+                      } ${editable && !isEditing ? 'cursor-text hover:ring-1 hover:ring-inset hover:ring-primary-300' : ''}`}
+                    >
+                      {isEditing ? renderEditor(record, column) : column.render(record)}
+                    </td>
+                  )
+                })}
+              </tr>
+            ))}
+            {last < records.length && (
+              <tr style={{ height: (records.length - last) * ROW_HEIGHT }}>
+                <td colSpan={columns.length + (selectable ? 1 : 0)} />
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {openRecord && (
+        <RecordDetailModal
+          record={openRecord}
+          isOpen={true}
+          onClose={() => setOpenRecord(null)}
+          onEdit={onEdit}
+          onDelete={onDelete}
+        />
+      )}
+    </>
+  )
+}
+
+export default RecordTable
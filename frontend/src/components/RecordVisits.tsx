@@ -0,0 +1,309 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { visitsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { ServiceVisit, ServiceVisitInput } from '../types'
+
+interface RecordVisitsProps {
+  recordId: number
+  // Open the log form straight away (the "Log visit" action on RecordCard)
+  startLogging?: boolean
+  onChange?: () => void
+}
+
+// datetime-local inputs take 'yyyy-MM-ddTHH:mm'
+const toInputValue = (value: string) => format(new Date(value), "yyyy-MM-dd'T'HH:mm")
+
+const newVisitForm = (): ServiceVisitInput => ({
+  visit_date: format(new Date(), "yyyy-MM-dd'T'HH:mm"),
+  technician: '',
+  issue_reported: '',
+  work_done: '',
+  parts_replaced: '',
+})
+
+function RecordVisits({ recordId, startLogging = false, onChange }: RecordVisitsProps) {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  const canEdit = user?.role === 'maintenance'
+  const [visits, setVisits] = useState<ServiceVisit[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<ServiceVisitInput | null>(null)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchVisits = async () => {
+    setLoading(true)
+    try {
+      setVisits(await visitsApi.list(recordId))
+    } catch (error) {
+      console.error('Error fetching service visits:', error)
+      setVisits([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchVisits()
+    setEditingId(null)
+    setError('')
+    setForm(startLogging && canEdit ? newVisitForm() : null)
+  }, [recordId, startLogging])
+
+  const closeForm = () => {
+    setForm(null)
+    setEditingId(null)
+    setError('')
+  }
+
+  const handleEdit = (visit: ServiceVisit) => {
+    setEditingId(visit.id)
+    setError('')
+    setForm({
+      visit_date: toInputValue(visit.visit_date),
+      technician: visit.technician || '',
+      issue_reported: visit.issue_reported || '',
+      work_done: visit.work_done || '',
+      parts_replaced: visit.parts_replaced || '',
+      charge: visit.charge,
+      under_warranty: visit.under_warranty,
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setError('')
+    try {
+      const data = { ...form, visit_date: new Date(form.visit_date).toISOString() }
+      if (editingId) {
+        await visitsApi.update(editingId, data)
+      } else {
+        await visitsApi.create(recordId, data)
+      }
+      closeForm()
+      fetchVisits()
+      onChange?.()
+    } catch (err: any) {
+      console.error('Error saving service visit:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save service visit')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (visit: ServiceVisit) => {
+    if (!confirm(`Delete the visit on ${format(new Date(visit.visit_date), 'MMM dd, yyyy')}?`)) return
+    try {
+      await visitsApi.remove(visit.id)
+      if (editingId === visit.id) closeForm()
+      fetchVisits()
+      onChange?.()
+    } catch (error) {
+      console.error('Error deleting service visit:', error)
+      alert('Failed to delete service visit')
+    }
+  }
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">Loading visits...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {canEdit && !form && (
+        <div className="flex justify-end">
+          <button
+            onClick={() => setForm(newVisitForm())}
+            className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + Log Visit
+          </button>
+        </div>
+      )}
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+          <h5 className="text-sm font-bold text-gray-700 dark:text-gray-300 mb-3 uppercase tracking-wide">
+            {editingId ? 'Edit Visit' : 'Log Visit'}
+          </h5>
+          {error && (
+            <div className="mb-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div>
+              <label className={labelClass}>Visit Date</label>
+              <input
+                type="datetime-local"
+                required
+                value={form.visit_date}
+                onChange={(e) => setForm({ ...form, visit_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Technician</label>
+              <input
+                type="text"
+                list="visit-technicians-list"
+                value={form.technician || ''}
+                onChange={(e) => setForm({ ...form, technician: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Charge (₹)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.charge ?? ''}
+                onChange={(e) => setForm({ ...form, charge: e.target.value ? Number(e.target.value) : undefined })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Issue Reported</label>
+              <textarea
+                rows={2}
+                value={form.issue_reported || ''}
+                onChange={(e) => setForm({ ...form, issue_reported: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Work Done</label>
+              <textarea
+                rows={2}
+                value={form.work_done || ''}
+                onChange={(e) => setForm({ ...form, work_done: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>Parts Replaced</label>
+              <input
+                type="text"
+                value={form.parts_replaced || ''}
+                onChange={(e) => setForm({ ...form, parts_replaced: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Under Warranty</label>
+              <select
+                value={form.under_warranty === undefined ? '' : String(form.under_warranty)}
+                onChange={(e) =>
+                  setForm({ ...form, under_warranty: e.target.value === '' ? undefined : e.target.value === 'true' })
+                }
+                className={inputClass}
+              >
+                {!editingId && <option value="">From warranty status</option>}
+                <option value="true">Yes</option>
+                <option value="false">No (chargeable)</option>
+              </select>
+            </div>
+          </div>
+          <datalist id="visit-technicians-list">
+            {settings.technicians.map((technician) => (
+              <option key={technician} value={technician} />
+            ))}
+          </datalist>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={closeForm}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : editingId ? 'Save Visit' : 'Log Visit'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {visits.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600">
+          <p className="text-sm text-gray-500 dark:text-gray-400">No service visits logged yet</p>
+        </div>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 dark:border-gray-600 ml-2 space-y-6">
+          {visits.map((visit) => (
+            <li key={visit.id} className="ml-6">
+              <span className="absolute -left-[7px] mt-1.5 h-3 w-3 rounded-full bg-primary-500 dark:bg-primary-400 border-2 border-white dark:border-gray-800"></span>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                    {format(new Date(visit.visit_date), 'MMM dd, yyyy HH:mm')}
+                  </span>
+                  {visit.technician && <span className="text-sm text-gray-600 dark:text-gray-400">by {visit.technician}</span>}
+                  {visit.under_warranty ? (
+                    <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">Under warranty</span>
+                  ) : (
+                    <span className="px-2.5 py-0.5 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">Chargeable</span>
+                  )}
+                  {visit.charge != null && (
+                    <span className="text-sm font-semibold text-primary-700 dark:text-primary-400">₹{Number(visit.charge).toLocaleString()}</span>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => handleEdit(visit)}
+                      className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(visit)}
+                      className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                )}
+              </div>
+              <div className="mt-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg border border-gray-200 dark:border-gray-600 divide-y divide-gray-200 dark:divide-gray-600">
+                {[
+                  ['Issue', visit.issue_reported],
+                  ['Work Done', visit.work_done],
+                  ['Parts', visit.parts_replaced],
+                ].map(([label, value]) => (
+                  <div key={label} className="px-4 py-2 grid grid-cols-4 gap-3 text-sm">
+                    <span className="font-medium text-gray-600 dark:text-gray-400">{label}</span>
+                    <span className="col-span-3 text-gray-900 dark:text-white whitespace-pre-line break-words">{value || '—'}</span>
+                  </div>
+                ))}
+              </div>
+              {visit.logged_by && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">Logged by {visit.logged_by}</p>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default RecordVisits
@@ -1,50 +1,79 @@
-import { useState, useEffect } from 'react'
-import { Link, useNavigate, useLocation } from 'react-router-dom'
-import api from '../services/api'
-import { Record, RecordListResponse, RecordFilters } from '../types'
-import RecordFiltersComponent from './RecordFilters'
+import { useState, useEffect, useRef } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
+import { recordsApi, preferencesApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { Record, RecordUpdate, RecordsView, RecordsViewPreference, TableColumnLayout } from '../types'
+import RecordFiltersComponent, { useUrlFilters } from './RecordFilters'
+import SavedFilterViews from './SavedFilterViews'
 import ExportButtons from './ExportButtons'
 import RecordCard from './RecordCard'
+import RecordTable from './RecordTable'
+import RecordBulkActions, { updateRecordsConfirmed } from './RecordBulkActions'
+
+// Record fields copied from the client (CLIENT_FIELDS in app/crud.py)
+const CLIENT_DETAIL_FIELDS = ['client_name', 'client_phone', 'client_address', 'zone']
 
 function RecordsList() {
   const navigate = useNavigate()
-  const location = useLocation()
+  const { user } = useAuth()
+  // Admins can browse maintenance records but not change them
+  const readOnly = user?.role === 'admin'
   const [records, setRecords] = useState<Record[]>([])
   const [loading, setLoading] = useState(true)
   const [total, setTotal] = useState(0)
-  const [page, setPage] = useState(1)
-  const [pageSize] = useState(12)  // Reduced for card layout
-  const [filters, setFilters] = useState<RecordFilters>({})
+  // Selection for bulk actions; only ever records on the current page
+  const [selectedIds, setSelectedIds] = useState<number[]>([])
+  // Cards or table, and the table's columns, are remembered per user on the server
+  const [viewPreference, setViewPreference] = useState<RecordsViewPreference>({ view: 'cards', columns: [] })
+  const [preferenceLoaded, setPreferenceLoaded] = useState(false)
+  const preferenceChanged = useRef(false)
+  // The table scrolls through long pages; cards stay short
+  const pageSize = viewPreference.view === 'table' ? 200 : 12
+  // Filters and page live in the URL; the home button clears them by dropping the query string
+  const { filters, page, setFilters, setPage } = useUrlFilters()
 
-  // Clear filters when navigating from home button
   useEffect(() => {
-    if (location.state?.clearFilters) {
-      setFilters({})
-      setPage(1)
-      // Clear the state to avoid clearing on subsequent renders
-      navigate(location.pathname, { replace: true, state: {} })
+    const fetchPreference = async () => {
+      try {
+        setViewPreference(await preferencesApi.getRecordsView())
+      } catch (error) {
+        console.error('Error fetching view preference:', error)
+      } finally {
+        setPreferenceLoaded(true)
+      }
     }
-  }, [location.state, location.pathname, navigate])
+    fetchPreference()
+  }, [])
+
+  // Saved a moment after the last change, so dragging a column edge doesn't send a request per pixel
+  useEffect(() => {
+    if (!preferenceChanged.current) return
+    const timer = setTimeout(() => {
+      preferencesApi.setRecordsView(viewPreference).catch((error) => {
+        console.error('Error saving view preference:', error)
+      })
+    }, 800)
+    return () => clearTimeout(timer)
+  }, [viewPreference])
+
+  const updatePreference = (changes: Partial<RecordsViewPreference>) => {
+    preferenceChanged.current = true
+    setViewPreference((current) => ({ ...current, ...changes }))
+  }
+
+  const handleViewChange = (view: RecordsView) => {
+    if (view === viewPreference.view) return
+    updatePreference({ view })
+    // Page numbers mean something else at the other page size
+    setPage(1)
+  }
 
   const fetchRecords = async () => {
     setLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (filters.search) params.append('search', filters.search)
-      if (filters.zone) params.append('zone', filters.zone)
-      if (filters.capacity_kw) params.append('capacity_kw', filters.capacity_kw)
-      if (filters.heater) params.append('heater', filters.heater)
-      if (filters.controller) params.append('controller', filters.controller)
-      if (filters.card) params.append('card', filters.card)
-      if (filters.body) params.append('body', filters.body)
-      if (filters.sold_by) params.append('sold_by', filters.sold_by)
-      if (filters.lead_source) params.append('lead_source', filters.lead_source)
-      params.append('page', page.toString())
-      params.append('page_size', pageSize.toString())
-
-      const response = await api.get<RecordListResponse>(`/records?${params}`)
-      setRecords(response.data.records)
-      setTotal(response.data.total)
+      const data = await recordsApi.list(filters, page, pageSize)
+      setRecords(data.records)
+      setTotal(data.total)
     } catch (error) {
       console.error('Error fetching records:', error)
       alert('Failed to load records')
@@ -54,12 +83,40 @@ function RecordsList() {
   }
 
   useEffect(() => {
+    setSelectedIds([])
+    // Wait for the preference so the first fetch uses the right page size
+    if (preferenceLoaded) fetchRecords()
+  }, [page, filters, pageSize, preferenceLoaded])
+
+  const handleSelect = (id: number, selected: boolean) => {
+    setSelectedIds(selected ? [...selectedIds, id] : selectedIds.filter((selectedId) => selectedId !== id))
+  }
+
+  const handleBulkDone = () => {
+    setSelectedIds([])
     fetchRecords()
-  }, [page, filters])
+  }
+
+  const handleInlineEdit = async (record: Record, changes: RecordUpdate) => {
+    try {
+      // Through the batch endpoint so a client detail edit asks before changing the client's other records
+      const updated = await updateRecordsConfirmed({ ids: [record.id], changes })
+      if (!updated) return
+      // Other records of the client on this page may have changed with it
+      if (Object.keys(changes).some((field) => CLIENT_DETAIL_FIELDS.includes(field))) {
+        fetchRecords()
+      } else {
+        setRecords((current) => current.map((r) => (r.id === updated[0].id ? updated[0] : r)))
+      }
+    } catch (err: any) {
+      console.error('Error updating record:', err)
+      alert(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to update record')
+    }
+  }
 
   const handleDelete = async (id: number) => {
     try {
-      await api.delete(`/records/${id}`)
+      await recordsApi.remove(id)
       fetchRecords()
     } catch (error) {
       console.error('Error deleting record:', error)
@@ -81,22 +138,38 @@ function RecordsList() {
           <p className="text-sm text-gray-600">Manage and track maintenance records</p>
         </div>
         <div className="flex gap-3">
+          <div className="inline-flex rounded-lg border border-gray-300 dark:border-gray-600 overflow-hidden" role="group" aria-label="Layout">
+            {(['cards', 'table'] as RecordsView[]).map((view) => (
+              <button
+                key={view}
+                onClick={() => handleViewChange(view)}
+                className={`px-3 py-2 text-sm font-medium transition-all ${
+                  viewPreference.view === view
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700'
+                }`}
+              >
+                {view === 'cards' ? 'Cards' : 'Table'}
+              </button>
+            ))}
+          </div>
           <ExportButtons filters={filters} type="records" />
-          <Link
-            to="/maintenance/records/new"
-            className="bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 text-white px-5 py-2.5 rounded-lg text-sm font-semibold shadow-md hover:shadow-lg transition-all transform hover:-translate-y-0.5"
-          >
-            Add New Record
-          </Link>
+          {!readOnly && (
+            <Link
+              to="/maintenance/records/new"
+              className="bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 text-white px-5 py-2.5 rounded-lg text-sm font-semibold shadow-md hover:shadow-lg transition-all transform hover:-translate-y-0.5"
+            >
+              Add New Record
+            </Link>
+          )}
         </div>
       </div>
 
+      <SavedFilterViews screen="records" filters={filters} onApply={setFilters} />
+
       <RecordFiltersComponent
         filters={filters}
-        onFiltersChange={(newFilters) => {
-          setFilters(newFilters)
-          setPage(1)
-        }}
+        onFiltersChange={setFilters}
       />
 
       {loading ? (
@@ -109,17 +182,46 @@ function RecordsList() {
         </div>
       ) : (
         <>
-          {/* Card Grid Layout */}
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {records.map((record) => (
-              <RecordCard
-                key={record.id}
-                record={record}
-                onDelete={handleDelete}
-                onEdit={handleEdit}
-              />
-            ))}
-          </div>
+          {selectedIds.length > 0 && (
+            <RecordBulkActions
+              selectedIds={selectedIds}
+              filters={filters}
+              readOnly={readOnly}
+              onSelectPage={selectedIds.length < records.length ? () => setSelectedIds(records.map((record) => record.id)) : undefined}
+              onClear={() => setSelectedIds([])}
+              onDone={handleBulkDone}
+            />
+          )}
+
+          {viewPreference.view === 'table' ? (
+            <RecordTable
+              records={records}
+              layout={viewPreference.columns}
+              onLayoutChange={(columns: TableColumnLayout[]) => updatePreference({ columns })}
+              sortBy={filters.sort_by || (filters.search ? 'relevance' : 'date_of_delivery')}
+              sortDesc={filters.sort_desc !== false}
+              onSort={(sort_by, desc) => setFilters({ ...filters, sort_by, sort_desc: desc ? undefined : false })}
+              onDelete={readOnly ? undefined : handleDelete}
+              onEdit={readOnly ? undefined : handleEdit}
+              onInlineEdit={readOnly ? undefined : handleInlineEdit}
+              selectedIds={selectedIds}
+              onSelectionChange={setSelectedIds}
+            />
+          ) : (
+            /* Card Grid Layout */
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {records.map((record) => (
+                <RecordCard
+                  key={record.id}
+                  record={record}
+                  onDelete={readOnly ? undefined : handleDelete}
+                  onEdit={readOnly ? undefined : handleEdit}
+                  selected={selectedIds.includes(record.id)}
+                  onSelect={handleSelect}
+                />
+              ))}
+            </div>
+          )}
 
           {totalPages > 1 && (
             <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6 mt-4 rounded-md">
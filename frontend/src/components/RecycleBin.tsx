@@ -0,0 +1,138 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { recordsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { Record } from '../types'
+
+function RecycleBin() {
+  const { user } = useAuth()
+  // Admins can look through the bin but restoring and purging stays with maintenance
+  const readOnly = user?.role === 'admin'
+  const [records, setRecords] = useState<Record[]>([])
+  const [loading, setLoading] = useState(true)
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const pageSize = 50
+
+  const fetchDeleted = async () => {
+    setLoading(true)
+    try {
+      const data = await recordsApi.listDeleted(page, pageSize)
+      setRecords(data.records)
+      setTotal(data.total)
+    } catch (error) {
+      console.error('Error fetching deleted records:', error)
+      alert('Failed to load deleted records')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchDeleted()
+  }, [page])
+
+  const handleRestore = async (record: Record) => {
+    try {
+      await recordsApi.restore(record.id)
+      fetchDeleted()
+    } catch (error) {
+      console.error('Error restoring record:', error)
+      alert('Failed to restore record')
+    }
+  }
+
+  const handlePurge = async (record: Record) => {
+    if (!confirm(`Permanently delete ${record.record_id} (${record.client_name})? This cannot be undone.`)) return
+    try {
+      await recordsApi.purge(record.id)
+      fetchDeleted()
+    } catch (err: any) {
+      console.error('Error purging record:', err)
+      alert(err.response?.data?.detail || 'Failed to permanently delete record')
+    }
+  }
+
+  const totalPages = Math.ceil(total / pageSize)
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Recently Deleted</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Deleted records are hidden from lists, warranty reports and exports until restored</p>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : records.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">No deleted records</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md border border-gray-200 dark:border-gray-700">
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {records.map((record) => (
+              <li key={record.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between gap-4">
+                  <div>
+                    <div className="flex items-center">
+                      <p className="text-sm font-medium text-primary-600 dark:text-primary-400">{record.record_id}</p>
+                      <p className="ml-2 text-sm text-gray-500 dark:text-gray-400">{record.client_name}</p>
+                    </div>
+                    <div className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      Zone: {record.zone || 'N/A'} | Delivery: {format(new Date(record.date_of_delivery), 'MMM dd, yyyy')}
+                      {record.deleted_at && (
+                        <> | Deleted {format(new Date(record.deleted_at), 'MMM dd, yyyy HH:mm')}{record.deleted_by && ` by ${record.deleted_by}`}</>
+                      )}
+                    </div>
+                  </div>
+                  {!readOnly && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      <button
+                        onClick={() => handleRestore(record)}
+                        className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                      >
+                        Restore
+                      </button>
+                      <button
+                        onClick={() => handlePurge(record)}
+                        className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                      >
+                        Delete Forever
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {totalPages > 1 && (
+            <div className="bg-white dark:bg-gray-800 px-4 py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 sm:px-6">
+              <button
+                onClick={() => setPage(Math.max(1, page - 1))}
+                disabled={page === 1}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(Math.min(totalPages, page + 1))}
+                disabled={page >= totalPages}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default RecycleBin
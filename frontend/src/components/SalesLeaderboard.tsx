@@ -0,0 +1,269 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { addMonths, format, parseISO, startOfMonth, startOfQuarter } from 'date-fns'
+import { LineChart, Line, ResponsiveContainer, Tooltip } from 'recharts'
+import { targetsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { AttainmentStatus, Leaderboard, LeaderboardRow, TargetPeriod, TargetScope } from '../types'
+
+// Quarters are calendar quarters, as in app/utils/targets.py
+export const periodStartOf = (periodType: TargetPeriod, day: Date) =>
+  periodType === 'month' ? startOfMonth(day) : startOfQuarter(day)
+
+export const shiftPeriod = (periodType: TargetPeriod, start: Date, periods: number) =>
+  addMonths(start, periods * (periodType === 'month' ? 1 : 3))
+
+export const formatPeriod = (periodType: TargetPeriod, start: Date) =>
+  periodType === 'month' ? format(start, 'MMM yyyy') : `${format(start, 'MMM')}–${format(addMonths(start, 2), 'MMM yyyy')}`
+
+const STATUS_STYLES: { [status in AttainmentStatus]: { label: string; className: string } } = {
+  exceeded: { label: 'Target met', className: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300' },
+  on_track: { label: 'On track', className: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300' },
+  behind: { label: 'Behind', className: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300' },
+}
+
+const formatMoney = (value: number) => `₹${Math.round(value).toLocaleString()}`
+
+// Change in attainment from the previous period, in percentage points
+const attainmentChange = (row: LeaderboardRow) => {
+  const [previous, current] = row.trend.slice(-2)
+  if (!previous || previous.attainment == null || current.attainment == null) return null
+  return Math.round(current.attainment - previous.attainment)
+}
+
+function SalesLeaderboard() {
+  const { user } = useAuth()
+  const [periodType, setPeriodType] = useState<TargetPeriod>('month')
+  const [scope, setScope] = useState<TargetScope>('salesperson')
+  const [start, setStart] = useState(() => periodStartOf('month', new Date()))
+  const [board, setBoard] = useState<Leaderboard | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const fetchBoard = async () => {
+      setLoading(true)
+      try {
+        setBoard(await targetsApi.leaderboard(periodType, format(start, 'yyyy-MM-dd'), scope))
+      } catch (error) {
+        console.error('Error fetching leaderboard:', error)
+        alert('Failed to load leaderboard')
+      } finally {
+        setLoading(false)
+      }
+    }
+    fetchBoard()
+  }, [periodType, start, scope])
+
+  const changePeriodType = (type: TargetPeriod) => {
+    setPeriodType(type)
+    setStart(periodStartOf(type, start))
+  }
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+      active
+        ? 'bg-primary-600 text-white border-primary-600'
+        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+    }`
+
+  const rows = board?.rows || []
+  const exceeded = rows.filter((row) => row.status === 'exceeded')
+  const behind = rows.filter((row) => row.status === 'behind')
+  const teamAttainment = board && board.total_target > 0 ? Math.round((board.total_achieved / board.total_target) * 100) : null
+  const isCurrent = periodStartOf(periodType, new Date()).getTime() === start.getTime()
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Leaderboard</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Sales against target per {scope === 'salesperson' ? 'salesperson' : 'zone'}: machine sales by delivery date plus contracts by start date
+          </p>
+        </div>
+        {user?.role === 'admin' && (
+          <Link to="/admin/targets" className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+            Set targets →
+          </Link>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="flex gap-2">
+          <button onClick={() => changePeriodType('month')} className={toggleClass(periodType === 'month')}>Monthly</button>
+          <button onClick={() => changePeriodType('quarter')} className={toggleClass(periodType === 'quarter')}>Quarterly</button>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={() => setScope('salesperson')} className={toggleClass(scope === 'salesperson')}>Salespeople</button>
+          <button onClick={() => setScope('zone')} className={toggleClass(scope === 'zone')}>Zones</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setStart(shiftPeriod(periodType, start, -1))}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            ←
+          </button>
+          <span className="min-w-[9rem] text-center text-sm font-semibold text-gray-900 dark:text-white">{formatPeriod(periodType, start)}</span>
+          <button
+            onClick={() => setStart(shiftPeriod(periodType, start, 1))}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            →
+          </button>
+          {!isCurrent && (
+            <button
+              onClick={() => setStart(periodStartOf(periodType, new Date()))}
+              className="text-xs font-semibold text-primary-600 dark:text-primary-400 hover:underline"
+            >
+              Current
+            </button>
+          )}
+        </div>
+      </div>
+
+      {loading && !board ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : !board ? (
+        <div className="text-center py-12 dark:text-gray-400">No leaderboard data available</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-6">
+            <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Target</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{board.total_target > 0 ? formatMoney(board.total_target) : 'Not set'}</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Achieved</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{formatMoney(board.total_achieved)}</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Attainment</p>
+              <p className="text-2xl font-bold text-primary-600 dark:text-primary-400">{teamAttainment != null ? `${teamAttainment}%` : '—'}</p>
+            </div>
+            <div className="bg-white dark:bg-gray-800 p-5 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700">
+              <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Period elapsed</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">{Math.round(board.elapsed_pct)}%</p>
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                {format(parseISO(board.period_start), 'MMM dd')} – {format(parseISO(board.period_end), 'MMM dd, yyyy')}
+              </p>
+            </div>
+          </div>
+
+          {(exceeded.length > 0 || behind.length > 0) && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+              <div className="p-4 rounded-xl border border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/20">
+                <p className="text-sm font-bold text-green-800 dark:text-green-300 mb-1">Target met</p>
+                <p className="text-sm text-green-700 dark:text-green-400">
+                  {exceeded.length > 0 ? exceeded.map((row) => `${row.name} (${Math.round(row.attainment ?? 0)}%)`).join(', ') : 'No one yet'}
+                </p>
+              </div>
+              <div className="p-4 rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                <p className="text-sm font-bold text-red-800 dark:text-red-300 mb-1">Behind pace</p>
+                <p className="text-sm text-red-700 dark:text-red-400">
+                  {behind.length > 0 ? behind.map((row) => `${row.name} (${Math.round(row.attainment ?? 0)}%)`).join(', ') : 'No one'}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {rows.length === 0 ? (
+            <div className="text-center py-12">
+              <p className="text-gray-500 dark:text-gray-400">No targets or sales in this period</p>
+            </div>
+          ) : (
+            <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-700/50">
+                  <tr className="text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                    <th className="px-4 py-3">Rank</th>
+                    <th className="px-4 py-3">{scope === 'salesperson' ? 'Salesperson' : 'Zone'}</th>
+                    <th className="px-4 py-3 text-right">Target</th>
+                    <th className="px-4 py-3 text-right">Achieved</th>
+                    <th className="px-4 py-3 w-56">Attainment</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3">Trend</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {rows.map((row) => {
+                    const change = attainmentChange(row)
+                    const hasTargets = row.trend.some((point) => point.attainment != null)
+                    const trendData = row.trend.map((point) => ({
+                      period: formatPeriod(periodType, parseISO(point.period_start)),
+                      value: hasTargets ? point.attainment : point.achieved,
+                    }))
+                    return (
+                      <tr
+                        key={row.name}
+                        className={`text-gray-700 dark:text-gray-300 ${
+                          row.status === 'exceeded' ? 'bg-green-50/60 dark:bg-green-900/10' : row.status === 'behind' ? 'bg-red-50/60 dark:bg-red-900/10' : ''
+                        }`}
+                      >
+                        <td className="px-4 py-3 font-bold text-gray-900 dark:text-white">{row.rank ?? '—'}</td>
+                        <td className="px-4 py-3 font-semibold text-gray-900 dark:text-white">{row.name}</td>
+                        <td className="px-4 py-3 text-right">{row.target != null ? formatMoney(row.target) : <span className="text-gray-400">No target</span>}</td>
+                        <td className="px-4 py-3 text-right">{formatMoney(row.achieved)}</td>
+                        <td className="px-4 py-3">
+                          {row.attainment != null ? (
+                            <div className="flex items-center gap-2">
+                              <div className="relative flex-1 h-2 rounded-full bg-gray-200 dark:bg-gray-700">
+                                <div
+                                  className={`h-2 rounded-full ${row.status === 'behind' ? 'bg-red-500' : row.status === 'exceeded' ? 'bg-green-500' : 'bg-primary-500'}`}
+                                  style={{ width: `${Math.min(100, row.attainment)}%` }}
+                                />
+                                {/* Where they should be by now */}
+                                <div className="absolute top-[-3px] h-3.5 w-0.5 bg-gray-500" style={{ left: `${board.elapsed_pct}%` }} />
+                              </div>
+                              <span className="w-14 text-right font-semibold">{Math.round(row.attainment)}%</span>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">—</span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          {row.status && (
+                            <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[row.status].className}`}>
+                              {STATUS_STYLES[row.status].label}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-2">
+                            <div className="w-28 h-8">
+                              <ResponsiveContainer width="100%" height="100%">
+                                <LineChart data={trendData}>
+                                  <Tooltip
+                                    formatter={(value: number | undefined) =>
+                                      value == null ? '—' : hasTargets ? `${Math.round(value)}%` : formatMoney(value)
+                                    }
+                                    labelFormatter={(_, payload) => payload?.[0]?.payload?.period ?? ''}
+                                    contentStyle={{ fontSize: '11px', padding: '2px 6px' }}
+                                  />
+                                  <Line type="monotone" dataKey="value" name={hasTargets ? 'Attainment' : 'Achieved'} stroke="#3b82f6" strokeWidth={2} dot={false} connectNulls />
+                                </LineChart>
+                              </ResponsiveContainer>
+                            </div>
+                            {change != null && change !== 0 && (
+                              <span className={`text-xs font-semibold ${change > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                                {change > 0 ? '▲' : '▼'} {Math.abs(change)} pts
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default SalesLeaderboard
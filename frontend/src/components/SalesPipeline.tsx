@@ -0,0 +1,487 @@
+import { useState, useEffect } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { format } from 'date-fns'
+import { leadsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { Lead, LeadFilters, LeadInput, LeadStage, LeadUpdate } from '../types'
+
+const COLUMNS: { stage: LeadStage; label: string }[] = [
+  { stage: 'new', label: 'New' },
+  { stage: 'contacted', label: 'Contacted' },
+  { stage: 'quoted', label: 'Quoted' },
+  { stage: 'negotiation', label: 'Negotiation' },
+  { stage: 'won', label: 'Won' },
+  { stage: 'lost', label: 'Lost' },
+]
+
+const formatMoney = (value: number) => `₹${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`
+
+const emptyForm = (): LeadInput => ({
+  enquiry_date: format(new Date(), 'yyyy-MM-dd'),
+  contact_name: '',
+  contact_phone: '',
+  contact_address: '',
+  zone: '',
+  source: '',
+  capacity_kw: '',
+  expected_value: null,
+  owner: '',
+  notes: '',
+})
+
+function SalesPipeline() {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  const navigate = useNavigate()
+  // Admins can watch the pipeline; working leads stays with sales
+  const readOnly = user?.role !== 'sales'
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<LeadFilters>({ closed_days: 90 })
+  const [search, setSearch] = useState('')
+  const [showForm, setShowForm] = useState(false)
+  const [editing, setEditing] = useState<Lead | null>(null)
+  const [form, setForm] = useState<LeadInput>(emptyForm())
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+  const [dragging, setDragging] = useState<Lead | null>(null)
+
+  const fetchLeads = async () => {
+    try {
+      const data = await leadsApi.list(filters)
+      setLeads(data.leads)
+    } catch (error) {
+      console.error('Error fetching leads:', error)
+      alert('Failed to load leads')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchLeads()
+  }, [filters])
+
+  // Search after a short pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      const value = search.trim() || undefined
+      if (value !== filters.search) setFilters({ ...filters, search: value })
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [search])
+
+  const resetForm = () => {
+    setShowForm(false)
+    setEditing(null)
+    setForm(emptyForm())
+    setError('')
+  }
+
+  const openLead = (lead: Lead) => {
+    if (readOnly) return
+    setEditing(lead)
+    setForm({
+      enquiry_date: lead.enquiry_date,
+      contact_name: lead.contact_name,
+      contact_phone: lead.contact_phone || '',
+      contact_address: lead.contact_address || '',
+      zone: lead.zone || '',
+      source: lead.source || '',
+      capacity_kw: lead.capacity_kw || '',
+      expected_value: lead.expected_value ?? null,
+      owner: lead.owner || '',
+      notes: lead.notes || '',
+    })
+    setError('')
+    setShowForm(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+    try {
+      if (editing) {
+        await leadsApi.update(editing.id, form)
+      } else {
+        await leadsApi.create(form)
+      }
+      resetForm()
+      fetchLeads()
+    } catch (err: any) {
+      console.error('Error saving lead:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save lead')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!editing || !confirm(`Delete lead ${editing.lead_number} (${editing.contact_name})?`)) return
+    try {
+      await leadsApi.remove(editing.id)
+      resetForm()
+      fetchLeads()
+    } catch (err: any) {
+      console.error('Error deleting lead:', err)
+      alert(err.response?.data?.detail || 'Failed to delete lead')
+    }
+  }
+
+  const handleMove = async (lead: Lead, stage: LeadStage) => {
+    if (lead.stage === stage) return
+    const data: LeadUpdate = { stage }
+    if (stage === 'lost') {
+      const reason = prompt('Why was this lead lost? (optional)', lead.lost_reason || '')
+      if (reason === null) return
+      data.lost_reason = reason
+    }
+    try {
+      const updated = await leadsApi.update(lead.id, data)
+      setLeads(leads.map((l) => (l.id === updated.id ? updated : l)))
+      if (stage === 'won' && confirm(`${lead.contact_name} is won. Create their record now?`)) {
+        navigate(`/sales/leads/${lead.id}/record`)
+      }
+    } catch (err: any) {
+      console.error('Error moving lead:', err)
+      alert(err.response?.data?.detail || 'Failed to move lead')
+    }
+  }
+
+  const dropProps = (stage: LeadStage) =>
+    readOnly
+      ? {}
+      : {
+          onDragOver: (e: React.DragEvent) => e.preventDefault(),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault()
+            const lead = dragging
+            setDragging(null)
+            if (lead) handleMove(lead, stage)
+          },
+        }
+
+  const inputClass = 'w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const labelClass = 'block text-xs font-semibold text-gray-600 dark:text-gray-400 mb-1'
+  const smallButtonClass = 'px-2.5 py-1 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all'
+
+  const openValue = leads
+    .filter((lead) => lead.stage !== 'won' && lead.stage !== 'lost')
+    .reduce((sum, lead) => sum + Number(lead.expected_value || 0), 0)
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Sales Pipeline</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Enquiries from first contact to a delivered machine · {formatMoney(openValue)} open
+            {!readOnly && '. Drag a lead to another stage'}
+          </p>
+        </div>
+        {!readOnly && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + New Lead
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">
+            {editing ? `Edit ${editing.lead_number}` : 'New Lead'}
+          </h3>
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div>
+              <label className={labelClass}>Contact Name *</label>
+              <input
+                type="text"
+                required
+                value={form.contact_name}
+                onChange={(e) => setForm({ ...form, contact_name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Phone</label>
+              <input
+                type="text"
+                value={form.contact_phone || ''}
+                onChange={(e) => setForm({ ...form, contact_phone: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Zone</label>
+              <input
+                type="text"
+                list="pipeline-zones-list"
+                value={form.zone || ''}
+                onChange={(e) => setForm({ ...form, zone: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Enquiry Date *</label>
+              <input
+                type="date"
+                required
+                value={form.enquiry_date}
+                onChange={(e) => setForm({ ...form, enquiry_date: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Source</label>
+              <input
+                type="text"
+                placeholder="Referral, exhibition..."
+                value={form.source || ''}
+                onChange={(e) => setForm({ ...form, source: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Capacity (KW)</label>
+              <input
+                type="text"
+                value={form.capacity_kw || ''}
+                onChange={(e) => setForm({ ...form, capacity_kw: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Expected Value (₹)</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={form.expected_value ?? ''}
+                onChange={(e) => setForm({ ...form, expected_value: e.target.value === '' ? null : Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Owner</label>
+              <select
+                value={form.owner || ''}
+                onChange={(e) => setForm({ ...form, owner: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Unassigned</option>
+                {/* Keep a salesperson no longer in Settings selectable on old leads */}
+                {form.owner && !settings.salespeople.includes(form.owner) && (
+                  <option value={form.owner}>{form.owner}</option>
+                )}
+                {settings.salespeople.map((salesperson) => (
+                  <option key={salesperson} value={salesperson}>{salesperson}</option>
+                ))}
+              </select>
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>Address</label>
+              <textarea
+                rows={2}
+                value={form.contact_address || ''}
+                onChange={(e) => setForm({ ...form, contact_address: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label className={labelClass}>Notes</label>
+              <textarea
+                rows={2}
+                value={form.notes || ''}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+          <div className="flex justify-between gap-3 mt-4">
+            <div>
+              {editing && !editing.converted_record_id && (
+                <button
+                  type="button"
+                  onClick={handleDelete}
+                  className="px-5 py-2.5 border border-red-300 dark:border-red-700 rounded-lg text-sm font-semibold text-red-600 dark:text-red-400 bg-white dark:bg-gray-700 hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                >
+                  Delete
+                </button>
+              )}
+            </div>
+            <div className="flex gap-3">
+              <button
+                type="button"
+                onClick={resetForm}
+                className="px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : editing ? 'Save Lead' : 'Add Lead'}
+              </button>
+            </div>
+          </div>
+          <datalist id="pipeline-zones-list">
+            {settings.zones.map((zone) => (
+              <option key={zone} value={zone} />
+            ))}
+          </datalist>
+        </form>
+      )}
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-4">
+        <input
+          type="text"
+          placeholder="Search name, phone, lead no."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className={`${inputClass} md:w-64`}
+        />
+        <select
+          value={filters.owner || ''}
+          onChange={(e) => setFilters({ ...filters, owner: e.target.value || undefined })}
+          className={`${inputClass} md:w-48`}
+        >
+          <option value="">All owners</option>
+          <option value="unassigned">Unassigned</option>
+          {settings.salespeople.map((salesperson) => (
+            <option key={salesperson} value={salesperson}>{salesperson}</option>
+          ))}
+        </select>
+        <select
+          value={filters.zone || ''}
+          onChange={(e) => setFilters({ ...filters, zone: e.target.value || undefined })}
+          className={`${inputClass} md:w-48`}
+        >
+          <option value="">All zones</option>
+          {settings.zones.map((zone) => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+        <select
+          value={filters.closed_days}
+          onChange={(e) => setFilters({ ...filters, closed_days: Number(e.target.value) })}
+          className={`${inputClass} md:w-56`}
+        >
+          <option value={30}>Won/lost in last 30 days</option>
+          <option value={90}>Won/lost in last 90 days</option>
+          <option value={365}>Won/lost in last year</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-6 gap-4">
+          {COLUMNS.map((column) => {
+            const columnLeads = leads.filter((lead) => lead.stage === column.stage)
+            const columnValue = columnLeads.reduce((sum, lead) => sum + Number(lead.expected_value || 0), 0)
+            return (
+              <div
+                key={column.stage}
+                {...dropProps(column.stage)}
+                className={`bg-gray-100 dark:bg-gray-800/60 rounded-xl p-3 border transition-all ${
+                  dragging && dragging.stage !== column.stage
+                    ? 'border-primary-300 dark:border-primary-700 border-dashed'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-3 px-1">
+                  <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wide">{column.label}</h3>
+                  <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">{columnLeads.length}</span>
+                </div>
+                {columnValue > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 -mt-2 mb-3 px-1">{formatMoney(columnValue)}</p>
+                )}
+                <div className="space-y-3 min-h-[4rem]">
+                  {columnLeads.map((lead) => {
+                    const locked = readOnly || !!lead.converted_record_id
+                    return (
+                      <div
+                        key={lead.id}
+                        draggable={!locked}
+                        onDragStart={() => setDragging(lead)}
+                        onDragEnd={() => setDragging(null)}
+                        onClick={() => openLead(lead)}
+                        className={`bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-3 ${
+                          readOnly ? '' : 'cursor-pointer hover:border-primary-300 dark:hover:border-primary-700'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{lead.lead_number}</span>
+                          {lead.expected_value != null && (
+                            <span className="text-xs font-semibold text-primary-700 dark:text-primary-400">{formatMoney(Number(lead.expected_value))}</span>
+                          )}
+                        </div>
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">{lead.contact_name}</p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                          {lead.zone || 'No zone'}
+                          {lead.contact_phone && <> · {lead.contact_phone}</>}
+                          {lead.capacity_kw && <> · {lead.capacity_kw} KW</>}
+                        </p>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {format(new Date(lead.enquiry_date), 'MMM dd, yyyy')}
+                          {lead.source && <> · {lead.source}</>}
+                        </p>
+                        <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">{lead.owner || 'Unassigned'}</p>
+                        {lead.stage === 'lost' && lead.lost_reason && (
+                          <p className="text-xs text-red-600 dark:text-red-400 mt-1 line-clamp-2">{lead.lost_reason}</p>
+                        )}
+                        {lead.stage === 'won' && (
+                          <div className="mt-2" onClick={(e) => e.stopPropagation()}>
+                            {lead.converted_record ? (
+                              <p className="text-xs font-medium text-green-700 dark:text-green-300">✓ Record {lead.converted_record.record_id}</p>
+                            ) : !readOnly ? (
+                              <button onClick={() => navigate(`/sales/leads/${lead.id}/record`)} className={smallButtonClass}>
+                                Create Record
+                              </button>
+                            ) : (
+                              <p className="text-xs text-gray-500 dark:text-gray-400">No record yet</p>
+                            )}
+                          </div>
+                        )}
+                        {/* Moving without dragging, e.g. on a touch screen */}
+                        {!locked && (
+                          <select
+                            value={lead.stage}
+                            onClick={(e) => e.stopPropagation()}
+                            onChange={(e) => handleMove(lead, e.target.value as LeadStage)}
+                            className="mt-2 w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                          >
+                            {COLUMNS.map((option) => (
+                              <option key={option.stage} value={option.stage}>{option.label}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SalesPipeline
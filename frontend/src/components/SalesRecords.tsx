@@ -1,52 +1,25 @@
 import { useState, useEffect } from 'react'
 import { format } from 'date-fns'
-import { useLocation, useNavigate } from 'react-router-dom'
-import api from '../services/api'
-import { Record, RecordListResponse, RecordFilters } from '../types'
-import RecordFiltersComponent from './RecordFilters'
+import { salesApi } from '../services/client'
+import { Record } from '../types'
+import RecordFiltersComponent, { useUrlFilters } from './RecordFilters'
+import SavedFilterViews from './SavedFilterViews'
 import ExportButtons from './ExportButtons'
 
 function SalesRecords() {
-  const navigate = useNavigate()
-  const location = useLocation()
   const [records, setRecords] = useState<Record[]>([])
   const [loading, setLoading] = useState(true)
   const [total, setTotal] = useState(0)
-  const [page, setPage] = useState(1)
   const [pageSize] = useState(50)
-  const [filters, setFilters] = useState<RecordFilters>({})
-
-  // Clear filters when navigating from home button
-  useEffect(() => {
-    if (location.state?.clearFilters) {
-      setFilters({})
-      setPage(1)
-      // Clear the state to avoid clearing on subsequent renders
-      navigate(location.pathname, { replace: true, state: {} })
-    }
-  }, [location.state, location.pathname, navigate])
+  // Filters and page live in the URL; the home button clears them by dropping the query string
+  const { filters, page, setFilters, setPage } = useUrlFilters()
 
   const fetchRecords = async () => {
     setLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (filters.search) params.append('search', filters.search)
-      if (filters.zone) params.append('zone', filters.zone)
-      if (filters.capacity_kw) params.append('capacity_kw', filters.capacity_kw)
-      if (filters.heater) params.append('heater', filters.heater)
-      if (filters.controller) params.append('controller', filters.controller)
-      if (filters.card) params.append('card', filters.card)
-      if (filters.body) params.append('body', filters.body)
-      if (filters.sold_by) params.append('sold_by', filters.sold_by)
-      if (filters.lead_source) params.append('lead_source', filters.lead_source)
-      if (filters.date_from) params.append('date_from', filters.date_from)
-      if (filters.date_to) params.append('date_to', filters.date_to)
-      params.append('page', page.toString())
-      params.append('page_size', pageSize.toString())
-
-      const response = await api.get<RecordListResponse>(`/sales/records?${params}`)
-      setRecords(response.data.records)
-      setTotal(response.data.total)
+      const data = await salesApi.records(filters, page, pageSize)
+      setRecords(data.records)
+      setTotal(data.total)
     } catch (error) {
       console.error('Error fetching sales records:', error)
       alert('Failed to load sales records')
@@ -71,13 +44,11 @@ function SalesRecords() {
         <ExportButtons filters={filters} type="sales" />
       </div>
 
+      <SavedFilterViews screen="sales" filters={filters} onApply={setFilters} />
+
       <RecordFiltersComponent
         filters={filters}
-        onFiltersChange={(newFilters) => {
-          setFilters(newFilters)
-          setPage(1)
-        }}
-        showDateRange={true}
+        onFiltersChange={setFilters}
       />
 
       {loading ? (
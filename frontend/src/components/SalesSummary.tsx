@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
 import {
   LineChart,
   Line,
@@ -14,13 +15,15 @@ import {
   Legend,
   ResponsiveContainer
 } from 'recharts'
-import api from '../services/api'
-import { SalesSummary as SalesSummaryType, RecordFilters } from '../types'
+import { salesApi } from '../services/client'
+import { SalesSummary as SalesSummaryType } from '../types'
+import RecordFiltersComponent, { useUrlFilters } from './RecordFilters'
+import SavedFilterViews from './SavedFilterViews'
 
 function SalesSummary() {
   const [summary, setSummary] = useState<SalesSummaryType | null>(null)
   const [loading, setLoading] = useState(true)
-  const [filters, setFilters] = useState<RecordFilters>({})
+  const { filters, setFilters } = useUrlFilters()
 
   useEffect(() => {
     fetchSummary()
@@ -29,14 +32,7 @@ function SalesSummary() {
   const fetchSummary = async () => {
     setLoading(true)
     try {
-      const params = new URLSearchParams()
-      if (filters.zone) params.append('zone', filters.zone)
-      if (filters.sold_by) params.append('sold_by', filters.sold_by)
-      if (filters.date_from) params.append('date_from', filters.date_from)
-      if (filters.date_to) params.append('date_to', filters.date_to)
-
-      const response = await api.get<SalesSummaryType>(`/sales/summary?${params}`)
-      setSummary(response.data)
+      setSummary(await salesApi.summary(filters))
     } catch (error: any) {
       console.error('Error fetching sales summary:', error)
       const errorMessage = error.response?.data?.detail || error.message || 'Failed to load sales summary'
@@ -65,6 +61,7 @@ function SalesSummary() {
       actualCount: summary?.monthly_trends.find(m => m.month === item.month)?.count || 0,
       projectedCount: summary?.projected_sales.find(m => m.month === item.month)?.count || 0,
       actualRevenue: summary?.monthly_trends.find(m => m.month === item.month)?.revenue || 0,
+      actualCollected: summary?.monthly_trends.find(m => m.month === item.month)?.collected || 0,
       projectedRevenue: summary?.projected_sales.find(m => m.month === item.month)?.revenue || 0,
       isProjected: !!summary?.projected_sales.find(m => m.month === item.month)
     }))
@@ -105,7 +102,8 @@ function SalesSummary() {
       .sort((a, b) => b.revenue - a.revenue)
   }
 
-  if (loading) {
+  // Only the first load blanks the page; refetches keep the filters open while they run
+  if (loading && !summary) {
     return (
       <div className="text-center py-12">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
@@ -129,58 +127,10 @@ function SalesSummary() {
         <p className="text-sm text-gray-600 dark:text-gray-400">Comprehensive sales analytics and projections</p>
       </div>
 
-      {/* Filters */}
-      <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 mb-8">
-        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Filters</h3>
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Zone</label>
-            <input
-              type="text"
-              value={filters.zone || ''}
-              onChange={(e) => setFilters({ ...filters, zone: e.target.value || undefined })}
-              className="w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
-              placeholder="Filter by zone"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Sold By</label>
-            <input
-              type="text"
-              value={filters.sold_by || ''}
-              onChange={(e) => setFilters({ ...filters, sold_by: e.target.value || undefined })}
-              className="w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500"
-              placeholder="Filter by salesperson"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Date From</label>
-            <input
-              type="date"
-              value={filters.date_from || ''}
-              onChange={(e) => setFilters({ ...filters, date_from: e.target.value || undefined })}
-              className="w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            />
-          </div>
-          <div>
-            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Date To</label>
-            <input
-              type="date"
-              value={filters.date_to || ''}
-              onChange={(e) => setFilters({ ...filters, date_to: e.target.value || undefined })}
-              className="w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm font-medium bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            />
-          </div>
-        </div>
-        <div className="mt-4 flex justify-end">
-          <button
-            onClick={() => setFilters({})}
-            className="px-5 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
-          >
-            Clear Filters
-          </button>
-        </div>
-      </div>
+      <SavedFilterViews screen="sales" filters={filters} onApply={setFilters} />
+
+      {/* Sort doesn't change a summary */}
+      <RecordFiltersComponent filters={filters} onFiltersChange={setFilters} showSort={false} />
 
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
@@ -216,6 +166,11 @@ function SalesSummary() {
                   <dd className="text-3xl font-bold text-gray-900 dark:text-white">
                     {summary.total_revenue ? `₹${Math.round(summary.total_revenue).toLocaleString()}` : 'N/A'}
                   </dd>
+                  {summary.contract_count > 0 && (
+                    <dd className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      Machines ₹{Math.round(summary.sales_revenue).toLocaleString()} · AMC/EW ₹{Math.round(summary.contract_revenue).toLocaleString()} ({summary.contract_count})
+                    </dd>
+                  )}
                 </dl>
               </div>
             </div>
@@ -291,6 +246,38 @@ function SalesSummary() {
         </div>
       </div>
 
+      {/* Billed vs Collected */}
+      <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 mb-8">
+        <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Billed vs Collected</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Sales and contracts booked against the payments received for them</p>
+          </div>
+          <Link to="/sales/receivables" className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+            View receivables →
+          </Link>
+        </div>
+        <div className="p-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-6">
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Billed</p>
+              <p className="text-2xl font-bold text-gray-900 dark:text-white">₹{Math.round(summary.billed).toLocaleString()}</p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Collected</p>
+              <p className="text-2xl font-bold text-green-600 dark:text-green-400">₹{Math.round(summary.collected).toLocaleString()}</p>
+              <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                {summary.billed > 0 ? `${Math.round((summary.collected / summary.billed) * 100)}% of billed` : '0%'}
+              </p>
+            </div>
+            <div className="bg-gray-50 dark:bg-gray-700/50 p-4 rounded-lg border border-gray-200 dark:border-gray-600">
+              <p className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wide mb-1">Outstanding</p>
+              <p className="text-2xl font-bold text-red-600 dark:text-red-400">₹{Math.round(summary.outstanding).toLocaleString()}</p>
+            </div>
+          </div>
+        </div>
+      </div>
+
       {/* Monthly Sales Trends with Projections */}
       <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 mb-8">
         <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700">
@@ -366,7 +353,8 @@ function SalesSummary() {
                     }}
                   />
                   <Legend />
-                  <Bar dataKey="actualRevenue" name="Actual Revenue" fill="#3b82f6" radius={[8, 8, 0, 0]} />
+                  <Bar dataKey="actualRevenue" name="Billed" fill="#3b82f6" radius={[8, 8, 0, 0]} />
+                  <Bar dataKey="actualCollected" name="Collected" fill="#8b5cf6" radius={[8, 8, 0, 0]} />
                   <Bar dataKey="projectedRevenue" name="Projected Revenue" fill="#10b981" radius={[8, 8, 0, 0]} />
                 </BarChart>
               </ResponsiveContainer>
@@ -500,9 +488,14 @@ function SalesSummary() {
 
       {/* Breakdown by Sold By */}
       <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 mb-8">
-        <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700">
-          <h3 className="text-xl font-bold text-gray-900 dark:text-white">Performance by Salesperson</h3>
-          <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Orders and revenue breakdown by salesperson</p>
+        <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 flex flex-wrap justify-between items-start gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white">Performance by Salesperson</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">Orders and revenue breakdown by salesperson</p>
+          </div>
+          <Link to="/sales/leaderboard" className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+            Against targets →
+          </Link>
         </div>
         <div className="p-6">
           {soldByData.length > 0 ? (
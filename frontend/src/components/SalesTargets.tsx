@@ -0,0 +1,222 @@
+import { useState, useEffect } from 'react'
+import { Link } from 'react-router-dom'
+import { format } from 'date-fns'
+import { targetsApi } from '../services/client'
+import { useSettings } from '../contexts/SettingsContext'
+import { SalesTarget, TargetPeriod, TargetScope } from '../types'
+import { formatPeriod, periodStartOf, shiftPeriod } from './SalesLeaderboard'
+
+const SCOPES: { scope: TargetScope; label: string; hint: string }[] = [
+  { scope: 'salesperson', label: 'Salespeople', hint: 'Matched against the sold by field; contracts count for whoever sold them' },
+  { scope: 'zone', label: 'Zones', hint: 'Matched against the record zone' },
+]
+
+// Amounts as typed, by name; an empty amount removes the target
+type TargetForm = { [name: string]: string }
+
+const toForm = (targets: SalesTarget[], scope: TargetScope): TargetForm =>
+  Object.fromEntries(targets.filter((target) => target.scope === scope).map((target) => [target.name, String(target.target_amount)]))
+
+function SalesTargets() {
+  const { settings } = useSettings()
+  const [periodType, setPeriodType] = useState<TargetPeriod>('month')
+  const [start, setStart] = useState(() => periodStartOf('month', new Date()))
+  const [forms, setForms] = useState<{ [scope in TargetScope]: TargetForm }>({ salesperson: {}, zone: {} })
+  const [newNames, setNewNames] = useState<{ [scope in TargetScope]: string }>({ salesperson: '', zone: '' })
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState<TargetScope | null>(null)
+  const [message, setMessage] = useState('')
+
+  const loadTargets = async (periodStart: Date) => {
+    const targets = await targetsApi.list(periodType, format(periodStart, 'yyyy-MM-dd'))
+    return { salesperson: toForm(targets, 'salesperson'), zone: toForm(targets, 'zone') }
+  }
+
+  useEffect(() => {
+    setLoading(true)
+    setMessage('')
+    loadTargets(start)
+      .then(setForms)
+      .catch((error) => {
+        console.error('Error fetching targets:', error)
+        alert('Failed to load targets')
+      })
+      .finally(() => setLoading(false))
+  }, [periodType, start])
+
+  const changePeriodType = (type: TargetPeriod) => {
+    setPeriodType(type)
+    setStart(periodStartOf(type, start))
+  }
+
+  // Start from last period's numbers; nothing is saved until Save
+  const copyPrevious = async () => {
+    try {
+      const previous = await loadTargets(shiftPeriod(periodType, start, -1))
+      if (!Object.keys(previous.salesperson).length && !Object.keys(previous.zone).length) {
+        alert('No targets were set for the previous period')
+        return
+      }
+      setForms(previous)
+      setMessage('Copied from the previous period; save each list to keep them')
+    } catch (error) {
+      console.error('Error fetching targets:', error)
+      alert('Failed to load the previous period')
+    }
+  }
+
+  const setAmount = (scope: TargetScope, name: string, amount: string) => {
+    setForms({ ...forms, [scope]: { ...forms[scope], [name]: amount } })
+  }
+
+  const addName = (scope: TargetScope) => {
+    const name = newNames[scope].trim()
+    if (!name) return
+    setAmount(scope, name, forms[scope][name] ?? '')
+    setNewNames({ ...newNames, [scope]: '' })
+  }
+
+  const handleSave = async (scope: TargetScope) => {
+    setSaving(scope)
+    setMessage('')
+    try {
+      const targets = Object.entries(forms[scope])
+        .filter(([, amount]) => Number(amount) > 0)
+        .map(([name, amount]) => ({ name, target_amount: Number(amount) }))
+      const saved = await targetsApi.set(periodType, format(start, 'yyyy-MM-dd'), scope, targets)
+      setForms({ ...forms, [scope]: toForm(saved, scope) })
+      setMessage(`${SCOPES.find((s) => s.scope === scope)?.label} targets saved for ${formatPeriod(periodType, start)}`)
+    } catch (err: any) {
+      console.error('Error saving targets:', err)
+      alert(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save targets')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  const toggleClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+      active
+        ? 'bg-primary-600 text-white border-primary-600'
+        : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+    }`
+  const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Sales Targets</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Revenue targets per salesperson and zone, tracked on the sales leaderboard</p>
+        </div>
+        <Link to="/sales/leaderboard" className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+          View leaderboard →
+        </Link>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <div className="flex gap-2">
+          <button onClick={() => changePeriodType('month')} className={toggleClass(periodType === 'month')}>Monthly</button>
+          <button onClick={() => changePeriodType('quarter')} className={toggleClass(periodType === 'quarter')}>Quarterly</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setStart(shiftPeriod(periodType, start, -1))}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            ←
+          </button>
+          <span className="min-w-[9rem] text-center text-sm font-semibold text-gray-900 dark:text-white">{formatPeriod(periodType, start)}</span>
+          <button
+            onClick={() => setStart(shiftPeriod(periodType, start, 1))}
+            className="px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+          >
+            →
+          </button>
+        </div>
+        <button onClick={copyPrevious} className="text-sm font-semibold text-primary-600 dark:text-primary-400 hover:underline">
+          Copy previous {periodType}
+        </button>
+        {message && <span className="text-sm font-medium text-green-600 dark:text-green-400">{message}</span>}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {SCOPES.map(({ scope, label, hint }) => {
+            // Names from settings first, then any others that already have a target
+            const listed = scope === 'salesperson' ? settings.salespeople : settings.zones
+            const names = [...listed, ...Object.keys(forms[scope]).filter((name) => !listed.includes(name))]
+            const total = Object.values(forms[scope]).reduce((sum, amount) => sum + (Number(amount) || 0), 0)
+            return (
+              <div key={scope} className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+                <div className="flex justify-between items-start mb-1">
+                  <h3 className="text-lg font-bold text-gray-900 dark:text-white">{label}</h3>
+                  <span className="text-sm font-semibold text-gray-600 dark:text-gray-400">Total ₹{Math.round(total).toLocaleString()}</span>
+                </div>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">{hint}. Leave an amount empty for no target.</p>
+                <div className="space-y-2">
+                  {names.length === 0 && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      Add {scope === 'salesperson' ? 'salespeople' : 'zones'} in Settings, or type a name below
+                    </p>
+                  )}
+                  {names.map((name) => (
+                    <div key={name} className="flex items-center gap-3">
+                      <label className="flex-1 text-sm font-medium text-gray-700 dark:text-gray-300 truncate">{name}</label>
+                      <input
+                        type="number"
+                        min={0}
+                        step="1000"
+                        placeholder="No target"
+                        value={forms[scope][name] ?? ''}
+                        onChange={(e) => setAmount(scope, name, e.target.value)}
+                        className={`${inputClass} max-w-[12rem]`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-4">
+                  <input
+                    type="text"
+                    value={newNames[scope]}
+                    onChange={(e) => setNewNames({ ...newNames, [scope]: e.target.value })}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault()
+                        addName(scope)
+                      }
+                    }}
+                    placeholder={scope === 'salesperson' ? 'Another salesperson' : 'Another zone'}
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => addName(scope)}
+                    className="px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+                  >
+                    Add
+                  </button>
+                </div>
+                <div className="flex justify-end mt-4">
+                  <button
+                    onClick={() => handleSave(scope)}
+                    disabled={saving !== null}
+                    className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+                  >
+                    {saving === scope ? 'Saving...' : `Save ${label}`}
+                  </button>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default SalesTargets
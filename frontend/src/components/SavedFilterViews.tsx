@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import { savedFiltersApi, buildFilterParams, parseFilterParams } from '../services/client'
+import { RecordFilters, SavedFilter, SavedFilterScreen } from '../types'
+
+interface SavedFilterViewsProps {
+  screen: SavedFilterScreen
+  filters: RecordFilters
+  onApply: (filters: RecordFilters) => void
+}
+
+function SavedFilterViews({ screen, filters, onApply }: SavedFilterViewsProps) {
+  const [views, setViews] = useState<SavedFilter[]>([])
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    const fetchViews = async () => {
+      try {
+        setViews(await savedFiltersApi.list(screen))
+      } catch (error) {
+        console.error('Error fetching saved filters:', error)
+      }
+    }
+    fetchViews()
+  }, [screen])
+
+  const currentQuery = buildFilterParams(filters).toString()
+
+  const handleSave = async () => {
+    const name = prompt('Name this view (an existing name is replaced)')?.trim()
+    if (!name) return
+    setSaving(true)
+    try {
+      const saved = await savedFiltersApi.save({ name, screen, query: currentQuery })
+      setViews(
+        [...views.filter((view) => view.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name))
+      )
+    } catch (error) {
+      console.error('Error saving filter view:', error)
+      alert('Failed to save view')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (view: SavedFilter) => {
+    if (!confirm(`Delete saved view "${view.name}"?`)) return
+    try {
+      await savedFiltersApi.remove(view.id)
+      setViews(views.filter((v) => v.id !== view.id))
+    } catch (error) {
+      console.error('Error deleting filter view:', error)
+      alert('Failed to delete view')
+    }
+  }
+
+  return (
+    <div className="mb-4 flex flex-wrap items-center gap-2">
+      {views.map((view) => {
+        const active = view.query === currentQuery
+        return (
+          <span
+            key={view.id}
+            className={`inline-flex items-center rounded-full text-xs font-semibold border transition-all ${
+              active
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white dark:bg-gray-800 text-primary-700 dark:text-primary-300 border-primary-300 dark:border-primary-700 hover:bg-primary-50 dark:hover:bg-primary-900/30'
+            }`}
+          >
+            <button
+              onClick={() => onApply(parseFilterParams(new URLSearchParams(view.query)))}
+              className="pl-3 pr-1.5 py-1"
+            >
+              {view.name}
+            </button>
+            <button
+              onClick={() => handleDelete(view)}
+              title="Delete view"
+              className="pr-2.5 pl-1 py-1 opacity-60 hover:opacity-100"
+            >
+              ×
+            </button>
+          </span>
+        )
+      })}
+      <button
+        onClick={handleSave}
+        disabled={saving || !currentQuery}
+        title={currentQuery ? 'Save the current filters as a view' : 'Set some filters first'}
+        className="px-3 py-1 rounded-full text-xs font-semibold border border-dashed border-gray-400 dark:border-gray-500 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700 transition-all disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : '+ Save View'}
+      </button>
+    </div>
+  )
+}
+
+export default SavedFilterViews
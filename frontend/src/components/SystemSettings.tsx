@@ -0,0 +1,388 @@
+import { useState, useEffect } from 'react'
+import { settingsApi } from '../services/client'
+import { useSettings } from '../contexts/SettingsContext'
+import { AppSettings, CompanySettings, ReminderChannel, ReminderTemplate, WarrantyStart } from '../types'
+
+type ListKey = 'zones' | 'technicians' | 'salespeople'
+
+const LISTS: { key: ListKey; label: string; hint: string }[] = [
+  { key: 'zones', label: 'Zones', hint: 'Suggested in the record form zone field' },
+  { key: 'technicians', label: 'Technicians', hint: 'Suggested for installation and commissioning' },
+  { key: 'salespeople', label: 'Salespeople', hint: 'Suggested for the sold by field' },
+]
+
+const CHANNELS: { key: ReminderChannel; label: string }[] = [
+  { key: 'sms', label: 'SMS' },
+  { key: 'whatsapp', label: 'WhatsApp' },
+  { key: 'email', label: 'Email' },
+]
+
+// Placeholders the backend fills in (app/utils/reminders.py), with sample values for the preview
+const TEMPLATE_SAMPLE: { [field: string]: string } = {
+  client_name: 'Ramesh Kumar',
+  client_phone: '98450 12345',
+  client_address: '12 MG Road, Bengaluru',
+  zone: 'North',
+  record_id: 'RMZ-000123',
+  capacity_kw: '6',
+  heater: 'Ceramic',
+  controller: 'Digital',
+  warranty_expiry: '15 Nov 2026',
+  days_remaining: '28',
+}
+
+const previewTemplate = (text: string) => text.replace(/\{(\w+)\}/g, (match, field) => TEMPLATE_SAMPLE[field] ?? match)
+
+// Lists are edited as one entry per line
+const toLines = (values: string[]) => values.join('\n')
+const fromLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+function SystemSettings() {
+  const { setSettings } = useSettings()
+  const [form, setForm] = useState<AppSettings | null>(null)
+  const [lists, setLists] = useState<Record<ListKey, string>>({ zones: '', technicians: '', salespeople: '' })
+  // Reminder steps are edited as "30, 7"
+  const [reminderDays, setReminderDays] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState('')
+
+  const applySettings = (data: AppSettings) => {
+    setForm(data)
+    setLists({
+      zones: toLines(data.zones),
+      technicians: toLines(data.technicians),
+      salespeople: toLines(data.salespeople),
+    })
+    setReminderDays(data.reminders.days_before.join(', '))
+  }
+
+  useEffect(() => {
+    settingsApi
+      .get()
+      .then(applySettings)
+      .catch((error) => {
+        console.error('Error fetching settings:', error)
+        alert('Failed to load settings')
+      })
+      .finally(() => setLoading(false))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!form) return
+    setSaving(true)
+    setMessage('')
+    try {
+      const saved = await settingsApi.update({
+        ...form,
+        zones: fromLines(lists.zones),
+        technicians: fromLines(lists.technicians),
+        salespeople: fromLines(lists.salespeople),
+        reminders: {
+          ...form.reminders,
+          days_before: reminderDays
+            .split(',')
+            .map((value) => Number(value.trim()))
+            .filter((days) => Number.isInteger(days) && days > 0),
+        },
+      })
+      applySettings(saved)
+      setSettings(saved)
+      setMessage('Settings saved')
+    } catch (err: any) {
+      console.error('Error saving settings:', err)
+      alert(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const setTemplate = (channel: ReminderChannel, changes: Partial<ReminderTemplate>) => {
+    if (!form) return
+    const templates = { ...form.reminders.templates, [channel]: { ...form.reminders.templates[channel], ...changes } }
+    setForm({ ...form, reminders: { ...form.reminders, templates } })
+  }
+
+  const toggleChannel = (channel: ReminderChannel, checked: boolean) => {
+    if (!form) return
+    const channels = checked
+      ? [...form.reminders.channels, channel]
+      : form.reminders.channels.filter((c) => c !== channel)
+    setForm({ ...form, reminders: { ...form.reminders, channels } })
+  }
+
+  const setCompany = (changes: Partial<CompanySettings>) => {
+    if (!form) return
+    setForm({ ...form, company: { ...form.company, ...changes } })
+  }
+
+  const inputClass = 'w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+
+  if (loading || !form) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Settings</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Zones, staff lists, default warranty and the letterhead used across the app</p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-6">
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">Lists</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {LISTS.map(({ key, label, hint }) => (
+              <div key={key}>
+                <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">{hint}. One per line.</p>
+                <textarea
+                  rows={8}
+                  value={lists[key]}
+                  onChange={(e) => setLists({ ...lists, [key]: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Default Warranty</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">Applies to records that no warranty policy matches</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Warranty duration (days)</label>
+              <input
+                type="number"
+                required
+                min={1}
+                max={3650}
+                value={form.warranty.duration_days}
+                onChange={(e) => setForm({ ...form, warranty: { ...form.warranty, duration_days: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Starts from</label>
+              <select
+                value={form.warranty.start_from}
+                onChange={(e) => setForm({ ...form, warranty: { ...form.warranty, start_from: e.target.value as WarrantyStart } })}
+                className={inputClass}
+              >
+                <option value="delivery">Delivery date</option>
+                <option value="installation">Installation date (delivery if not installed)</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Expiring soon threshold (days)</label>
+              <input
+                type="number"
+                required
+                min={1}
+                max={365}
+                value={form.warranty.expiring_soon_days}
+                onChange={(e) => setForm({ ...form, warranty: { ...form.warranty, expiring_soon_days: Number(e.target.value) } })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Warranty Reminders</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            Messages sent to clients before their warranty expires. The queue and delivery status are under Maintenance → Reminders.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <label className="flex items-center gap-3 text-sm font-semibold text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={form.reminders.enabled}
+                onChange={(e) => setForm({ ...form, reminders: { ...form.reminders, enabled: e.target.checked } })}
+                className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Send reminders automatically (checked every hour)
+            </label>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Days before expiry</label>
+              <input
+                type="text"
+                value={reminderDays}
+                onChange={(e) => setReminderDays(e.target.value)}
+                placeholder="30, 7"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <p className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Channels</p>
+              <div className="flex gap-4 pt-2">
+                {CHANNELS.map(({ key, label }) => (
+                  <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={form.reminders.channels.includes(key)}
+                      onChange={(e) => toggleChannel(key, e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Placeholders: {Object.keys(TEMPLATE_SAMPLE).map((field) => `{${field}}`).join(' ')}
+          </p>
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {CHANNELS.map(({ key, label }) => {
+              const template = form.reminders.templates[key]
+              return (
+                <div key={key}>
+                  <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{label} message</label>
+                  {key === 'email' && (
+                    <input
+                      type="text"
+                      value={template.subject}
+                      onChange={(e) => setTemplate(key, { subject: e.target.value })}
+                      placeholder="Subject"
+                      className={`${inputClass} mb-2`}
+                    />
+                  )}
+                  <textarea
+                    rows={6}
+                    required
+                    value={template.body}
+                    onChange={(e) => setTemplate(key, { body: e.target.value })}
+                    className={inputClass}
+                  />
+                  <div className="mt-2 p-3 rounded-lg bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 text-xs text-gray-700 dark:text-gray-300 whitespace-pre-line">
+                    {key === 'email' && <p className="font-semibold mb-1">{previewTemplate(template.subject)}</p>}
+                    {previewTemplate(template.body)}
+                  </div>
+                </div>
+              )
+            })}
+          </div>
+        </div>
+
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-1">Company & Documents</h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+            Letterhead, GST and numbering for quotations and tax invoices issued from a record. Numbers run per prefix and financial year, e.g. INV/2026-27/0001.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Company name</label>
+              <input type="text" value={form.company.name} onChange={(e) => setCompany({ name: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Phone</label>
+              <input type="text" value={form.company.phone} onChange={(e) => setCompany({ phone: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Email</label>
+              <input type="email" value={form.company.email} onChange={(e) => setCompany({ email: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-3">
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Address</label>
+              <textarea rows={2} value={form.company.address} onChange={(e) => setCompany({ address: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">GSTIN</label>
+              <input
+                type="text"
+                maxLength={15}
+                value={form.company.gstin}
+                onChange={(e) => setCompany({ gstin: e.target.value.toUpperCase() })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">State (default place of supply)</label>
+              <input type="text" value={form.company.state} onChange={(e) => setCompany({ state: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Default GST rate (%)</label>
+              <input
+                type="number"
+                required
+                min={0}
+                max={28}
+                step="0.01"
+                value={form.company.gst_rate}
+                onChange={(e) => setCompany({ gst_rate: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Quotation prefix</label>
+              <input
+                type="text"
+                required
+                maxLength={10}
+                value={form.company.quotation_prefix}
+                onChange={(e) => setCompany({ quotation_prefix: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Invoice prefix</label>
+              <input
+                type="text"
+                required
+                maxLength={10}
+                value={form.company.invoice_prefix}
+                onChange={(e) => setCompany({ invoice_prefix: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Quotation valid for (days)</label>
+              <input
+                type="number"
+                required
+                min={1}
+                max={365}
+                value={form.company.quotation_valid_days}
+                onChange={(e) => setCompany({ quotation_valid_days: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Bank details (on invoices)</label>
+              <textarea rows={4} value={form.company.bank_details} onChange={(e) => setCompany({ bank_details: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-2">
+              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">Terms and conditions</label>
+              <textarea rows={4} value={form.company.terms} onChange={(e) => setCompany({ terms: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-end items-center gap-4">
+          {message && <span className="text-sm font-medium text-green-600 dark:text-green-400">{message}</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
+
+export default SystemSettings
@@ -0,0 +1,306 @@
+import { useState, useEffect } from 'react'
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  isToday,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+import { recordsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { Record, RecordUpdate, ScheduleEvent } from '../types'
+import RecordDetailModal from './RecordDetailModal'
+
+type CalendarView = 'day' | 'week' | 'month'
+
+const UNASSIGNED = ''
+
+const dayKey = (day: Date) => format(day, 'yyyy-MM-dd')
+
+const eventKey = (event: ScheduleEvent) => `${event.kind}-${event.record.id}`
+
+// The range each view loads; the month view pads out to whole weeks
+function viewRange(view: CalendarView, anchor: Date): Date[] {
+  if (view === 'day') return [anchor]
+  if (view === 'week') {
+    return eachDayOfInterval({ start: startOfWeek(anchor, { weekStartsOn: 1 }), end: endOfWeek(anchor, { weekStartsOn: 1 }) })
+  }
+  return eachDayOfInterval({
+    start: startOfWeek(startOfMonth(anchor), { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(anchor), { weekStartsOn: 1 }),
+  })
+}
+
+/**
+ * The record fields to PATCH when an event is dropped on another day (and,
+ * in the day and week views, another technician). Site visits keep their time.
+ */
+function rescheduleUpdate(event: ScheduleEvent, day: string, technician?: string): RecordUpdate {
+  if (event.kind === 'installation') {
+    return {
+      date_of_installation: day,
+      ...(technician !== undefined && { installation_done_by: technician }),
+    }
+  }
+  const time = event.start?.split('T')[1] || '09:00:00'
+  return {
+    date_of_site_visit: `${day}T${time}`,
+    ...(technician !== undefined && { site_visit_done_by: technician }),
+  }
+}
+
+function TechnicianCalendar() {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  const canReschedule = user?.role === 'maintenance'
+  const [view, setView] = useState<CalendarView>('week')
+  const [anchor, setAnchor] = useState(new Date())
+  const [events, setEvents] = useState<ScheduleEvent[]>([])
+  const [doubleBooked, setDoubleBooked] = useState<string[]>([])
+  const [loading, setLoading] = useState(true)
+  const [dragging, setDragging] = useState<ScheduleEvent | null>(null)
+  const [selectedRecord, setSelectedRecord] = useState<Record | null>(null)
+
+  const days = viewRange(view, anchor)
+
+  const fetchSchedule = async () => {
+    setLoading(true)
+    try {
+      const data = await recordsApi.schedule(dayKey(days[0]), dayKey(days[days.length - 1]))
+      setEvents(data.events)
+      setDoubleBooked(data.double_booked_technicians)
+    } catch (error) {
+      console.error('Error fetching schedule:', error)
+      alert('Failed to load schedule')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSchedule()
+  }, [view, dayKey(days[0])])
+
+  const move = (direction: 1 | -1) => {
+    if (view === 'day') setAnchor(addDays(anchor, direction))
+    else if (view === 'week') setAnchor(addWeeks(anchor, direction))
+    else setAnchor(addMonths(anchor, direction))
+  }
+
+  const handleDrop = async (day: string, technician?: string) => {
+    const event = dragging
+    setDragging(null)
+    if (!event) return
+    const sameTechnician = technician === undefined || technician === (event.technician || UNASSIGNED)
+    if (event.date === day && sameTechnician) return
+    try {
+      await recordsApi.update(event.record.id, rescheduleUpdate(event, day, technician))
+      fetchSchedule()
+    } catch (err: any) {
+      console.error('Error rescheduling record:', err)
+      alert(err.response?.data?.detail || 'Failed to reschedule')
+    }
+  }
+
+  const openRecord = async (event: ScheduleEvent) => {
+    try {
+      setSelectedRecord(await recordsApi.get(event.record.id))
+    } catch (error) {
+      console.error('Error fetching record:', error)
+    }
+  }
+
+  // Rows for the day and week views: every technician in Settings plus anyone booked who isn't
+  // (names compare case-insensitively, as they do for double-booking on the server)
+  const technicians = new Map<string, string>()
+  for (const name of [...settings.technicians, ...events.map((event) => event.technician || UNASSIGNED)]) {
+    if (name && !technicians.has(name.toLowerCase())) technicians.set(name.toLowerCase(), name)
+  }
+  const rows = [...technicians.values(), UNASSIGNED]
+
+  const eventsFor = (day: string, technician?: string) =>
+    events.filter(
+      (event) =>
+        event.date === day &&
+        (technician === undefined || (event.technician || UNASSIGNED).toLowerCase() === technician.toLowerCase())
+    )
+
+  const renderEvent = (event: ScheduleEvent, showTechnician: boolean) => (
+    <div
+      key={eventKey(event)}
+      draggable={canReschedule}
+      onDragStart={() => setDragging(event)}
+      onDragEnd={() => setDragging(null)}
+      onClick={() => openRecord(event)}
+      title={event.double_booked ? 'Technician is double-booked' : undefined}
+      className={`px-2 py-1 rounded-md text-xs border cursor-pointer mb-1 ${
+        event.kind === 'installation'
+          ? 'bg-blue-50 dark:bg-blue-900/30 border-blue-200 dark:border-blue-700 text-blue-800 dark:text-blue-200'
+          : 'bg-green-50 dark:bg-green-900/30 border-green-200 dark:border-green-700 text-green-800 dark:text-green-200'
+      } ${event.double_booked ? 'ring-2 ring-red-500' : ''} ${canReschedule ? 'active:cursor-grabbing' : ''}`}
+    >
+      <div className="font-semibold truncate">
+        {event.double_booked && <span className="text-red-600 dark:text-red-400 mr-1">⚠</span>}
+        {event.kind === 'installation' ? 'Install' : event.start ? format(new Date(event.start), 'HH:mm') : 'Visit'} · {event.record.client_name}
+      </div>
+      <div className="truncate opacity-75">
+        {event.record.zone || 'No zone'}
+        {showTechnician && <> · {event.technician || 'Unassigned'}</>}
+      </div>
+    </div>
+  )
+
+  const dropProps = (day: string, technician?: string) =>
+    canReschedule
+      ? {
+          onDragOver: (e: React.DragEvent) => e.preventDefault(),
+          onDrop: (e: React.DragEvent) => {
+            e.preventDefault()
+            handleDrop(day, technician)
+          },
+        }
+      : {}
+
+  const title =
+    view === 'day'
+      ? format(anchor, 'EEEE, MMM dd, yyyy')
+      : view === 'week'
+      ? `${format(days[0], 'MMM dd')} – ${format(days[days.length - 1], 'MMM dd, yyyy')}`
+      : format(anchor, 'MMMM yyyy')
+
+  const buttonClass = (active: boolean) =>
+    `px-3 py-1.5 text-sm font-semibold rounded-lg border transition-all ${
+      active
+        ? 'bg-primary-600 text-white border-primary-600'
+        : 'bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-600'
+    }`
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Technician Calendar</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Planned installations and site visits{canReschedule && '. Drag an entry to reschedule or reassign it'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {(['day', 'week', 'month'] as const).map((option) => (
+            <button key={option} onClick={() => setView(option)} className={`${buttonClass(view === option)} capitalize`}>
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <button onClick={() => move(-1)} className={buttonClass(false)}>‹</button>
+          <button onClick={() => setAnchor(new Date())} className={buttonClass(false)}>Today</button>
+          <button onClick={() => move(1)} className={buttonClass(false)}>›</button>
+          <span className="ml-2 text-lg font-bold text-gray-900 dark:text-white">{title}</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs text-gray-600 dark:text-gray-400">
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded bg-blue-200 dark:bg-blue-700"></span>Installation</span>
+          <span className="inline-flex items-center gap-1"><span className="w-3 h-3 rounded bg-green-200 dark:bg-green-700"></span>Site visit</span>
+        </div>
+      </div>
+
+      {doubleBooked.length > 0 && (
+        <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+          <p className="text-sm font-medium text-red-800 dark:text-red-300">
+            ⚠ Double-booked: {doubleBooked.join(', ')}
+          </p>
+        </div>
+      )}
+
+      {loading && events.length === 0 ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : view === 'month' ? (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 overflow-hidden">
+          <div className="grid grid-cols-7 bg-gray-50 dark:bg-gray-700/50 border-b border-gray-200 dark:border-gray-700">
+            {days.slice(0, 7).map((day) => (
+              <div key={dayKey(day)} className="px-2 py-2 text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider text-center">
+                {format(day, 'EEE')}
+              </div>
+            ))}
+          </div>
+          <div className="grid grid-cols-7">
+            {days.map((day) => (
+              <div
+                key={dayKey(day)}
+                {...dropProps(dayKey(day))}
+                className={`min-h-[110px] p-1.5 border-b border-r border-gray-100 dark:border-gray-700 ${
+                  isSameMonth(day, anchor) ? '' : 'bg-gray-50 dark:bg-gray-900/40 opacity-60'
+                }`}
+              >
+                <div className={`text-xs font-semibold mb-1 ${isToday(day) ? 'text-primary-600 dark:text-primary-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                  {format(day, 'd')}
+                </div>
+                {eventsFor(dayKey(day)).map((event) => renderEvent(event, true))}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-md border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full border-collapse">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className="px-3 py-2 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider w-40">Technician</th>
+                {days.map((day) => (
+                  <th
+                    key={dayKey(day)}
+                    className={`px-2 py-2 text-left text-xs font-bold uppercase tracking-wider ${
+                      isToday(day) ? 'text-primary-600 dark:text-primary-400' : 'text-gray-500 dark:text-gray-400'
+                    }`}
+                  >
+                    {format(day, view === 'day' ? 'EEEE dd' : 'EEE dd')}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((technician) => (
+                <tr key={technician || 'unassigned'} className="border-t border-gray-100 dark:border-gray-700">
+                  <td className="px-3 py-2 align-top text-sm font-semibold text-gray-900 dark:text-white whitespace-nowrap">
+                    {technician || <span className="text-gray-500 dark:text-gray-400 italic">Unassigned</span>}
+                    {technician && doubleBooked.some((name) => name.toLowerCase() === technician.toLowerCase()) && (
+                      <span className="ml-1 text-red-600 dark:text-red-400" title="Double-booked">⚠</span>
+                    )}
+                  </td>
+                  {days.map((day) => (
+                    <td
+                      key={dayKey(day)}
+                      {...dropProps(dayKey(day), technician)}
+                      className={`px-1.5 py-1.5 align-top border-l border-gray-100 dark:border-gray-700 ${
+                        view === 'day' ? 'min-w-[320px]' : 'min-w-[130px]'
+                      } h-16`}
+                    >
+                      {eventsFor(dayKey(day), technician).map((event) => renderEvent(event, false))}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selectedRecord && (
+        <RecordDetailModal record={selectedRecord} isOpen={true} onClose={() => setSelectedRecord(null)} />
+      )}
+    </div>
+  )
+}
+
+export default TechnicianCalendar
@@ -0,0 +1,393 @@
+import { useState, useEffect } from 'react'
+import { format, formatDistanceToNow } from 'date-fns'
+import { ticketsApi, recordsApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { Record, Ticket, TicketFilters, TicketInput, TicketPriority, TicketStatus } from '../types'
+
+const COLUMNS: { status: TicketStatus; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'assigned', label: 'Assigned' },
+  { status: 'in_progress', label: 'In Progress' },
+  { status: 'resolved', label: 'Resolved' },
+  { status: 'closed', label: 'Closed' },
+]
+
+// Forward move offered on each card (mirrors TICKET_TRANSITIONS in app/utils/tickets.py)
+const NEXT_STATUS: { [status in TicketStatus]?: { status: TicketStatus; label: string } } = {
+  assigned: { status: 'in_progress', label: 'Start' },
+  in_progress: { status: 'resolved', label: 'Resolve' },
+  resolved: { status: 'closed', label: 'Close' },
+}
+
+const PREVIOUS_STATUS: { [status in TicketStatus]?: { status: TicketStatus; label: string } } = {
+  in_progress: { status: 'assigned', label: 'Back' },
+  resolved: { status: 'in_progress', label: 'Reopen' },
+}
+
+const PRIORITY_STYLES: { [priority in TicketPriority]: string } = {
+  urgent: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  high: 'bg-orange-100 dark:bg-orange-900/30 text-orange-800 dark:text-orange-300',
+  medium: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-800 dark:text-yellow-300',
+  low: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+}
+
+const emptyForm: TicketInput = {
+  title: '',
+  description: '',
+  priority: 'medium',
+  technician: '',
+}
+
+function TicketBoard() {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  // Admins can watch the board; moving tickets stays with maintenance
+  const readOnly = user?.role !== 'maintenance'
+  const [tickets, setTickets] = useState<Ticket[]>([])
+  const [loading, setLoading] = useState(true)
+  const [filters, setFilters] = useState<TicketFilters>({})
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState<TicketInput>(emptyForm)
+  const [recordSearch, setRecordSearch] = useState('')
+  const [recordMatches, setRecordMatches] = useState<Record[]>([])
+  const [selectedRecord, setSelectedRecord] = useState<Record | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchTickets = async () => {
+    try {
+      const data = await ticketsApi.list(filters)
+      setTickets(data.tickets)
+    } catch (error) {
+      console.error('Error fetching tickets:', error)
+      alert('Failed to load tickets')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchTickets()
+  }, [filters])
+
+  // Look records up as the user types so a ticket can be raised from the board
+  useEffect(() => {
+    if (!showForm || selectedRecord || recordSearch.trim().length < 2) {
+      setRecordMatches([])
+      return
+    }
+    const timeout = setTimeout(() => {
+      recordsApi
+        .list({ search: recordSearch.trim() }, 1, 8)
+        .then((data) => setRecordMatches(data.records))
+        .catch((error) => console.error('Error searching records:', error))
+    }, 300)
+    return () => clearTimeout(timeout)
+  }, [recordSearch, selectedRecord, showForm])
+
+  const resetForm = () => {
+    setShowForm(false)
+    setForm(emptyForm)
+    setRecordSearch('')
+    setSelectedRecord(null)
+    setError('')
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedRecord) {
+      setError('Pick the record this ticket is for')
+      return
+    }
+    setSaving(true)
+    setError('')
+    try {
+      await ticketsApi.create(selectedRecord.id, form)
+      resetForm()
+      fetchTickets()
+    } catch (err: any) {
+      console.error('Error creating ticket:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to create ticket')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const updateTicket = async (ticket: Ticket, data: Parameters<typeof ticketsApi.update>[1]) => {
+    try {
+      const updated = await ticketsApi.update(ticket.id, data)
+      setTickets(tickets.map((t) => (t.id === updated.id ? updated : t)))
+    } catch (err: any) {
+      console.error('Error updating ticket:', err)
+      alert(err.response?.data?.detail || 'Failed to update ticket')
+    }
+  }
+
+  const handleMove = (ticket: Ticket, status: TicketStatus) => {
+    if (status === 'resolved') {
+      const resolution = prompt('What was done to resolve this ticket?', ticket.resolution || '')
+      if (resolution === null) return
+      updateTicket(ticket, { status, resolution })
+      return
+    }
+    updateTicket(ticket, { status })
+  }
+
+  const inputClass = 'w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const smallButtonClass = 'px-2.5 py-1 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all'
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Service Tickets</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Breakdown calls from open to closed, with resolution SLAs by priority</p>
+        </div>
+        {!readOnly && !showForm && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all"
+          >
+            + New Ticket
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mb-6 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">New Ticket</h3>
+          {error && (
+            <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+              <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+            </div>
+          )}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="relative">
+              {selectedRecord ? (
+                <div className="flex items-center justify-between px-4 py-2.5 border-2 border-primary-300 dark:border-primary-700 rounded-lg bg-primary-50 dark:bg-primary-900/30 text-sm">
+                  <span className="font-semibold text-gray-900 dark:text-white truncate">
+                    {selectedRecord.record_id} · {selectedRecord.client_name}
+                  </span>
+                  <button type="button" onClick={() => setSelectedRecord(null)} className="ml-2 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                    ×
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="text"
+                  placeholder="Find record (ID, client, phone)"
+                  value={recordSearch}
+                  onChange={(e) => setRecordSearch(e.target.value)}
+                  className={inputClass}
+                />
+              )}
+              {recordMatches.length > 0 && (
+                <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-64 overflow-y-auto">
+                  {recordMatches.map((record) => (
+                    <li key={record.id}>
+                      <button
+                        type="button"
+                        onClick={() => setSelectedRecord(record)}
+                        className="w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700"
+                      >
+                        <span className="font-semibold text-gray-900 dark:text-white">{record.client_name}</span>
+                        <span className="ml-2 text-xs text-gray-500 dark:text-gray-400 font-mono">{record.record_id}</span>
+                        {record.zone && <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{record.zone}</span>}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <input
+              type="text"
+              required
+              placeholder="Issue (e.g. Heater not working)"
+              value={form.title}
+              onChange={(e) => setForm({ ...form, title: e.target.value })}
+              className={inputClass}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <select
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value as TicketPriority })}
+                className={inputClass}
+              >
+                <option value="low">Low</option>
+                <option value="medium">Medium</option>
+                <option value="high">High</option>
+                <option value="urgent">Urgent</option>
+              </select>
+              <select
+                value={form.technician || ''}
+                onChange={(e) => setForm({ ...form, technician: e.target.value })}
+                className={inputClass}
+              >
+                <option value="">Unassigned</option>
+                {settings.technicians.map((technician) => (
+                  <option key={technician} value={technician}>{technician}</option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              rows={2}
+              placeholder="Details from the call"
+              value={form.description || ''}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+              className={`${inputClass} md:col-span-3`}
+            />
+          </div>
+          <div className="flex justify-end gap-3 mt-4">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Raise Ticket'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Filters */}
+      <div className="mb-6 flex flex-wrap gap-4">
+        <select
+          value={filters.zone || ''}
+          onChange={(e) => setFilters({ ...filters, zone: e.target.value || undefined })}
+          className={`${inputClass} md:w-48`}
+        >
+          <option value="">All zones</option>
+          {settings.zones.map((zone) => (
+            <option key={zone} value={zone}>{zone}</option>
+          ))}
+        </select>
+        <select
+          value={filters.technician || ''}
+          onChange={(e) => setFilters({ ...filters, technician: e.target.value || undefined })}
+          className={`${inputClass} md:w-48`}
+        >
+          <option value="">All technicians</option>
+          <option value="unassigned">Unassigned</option>
+          {settings.technicians.map((technician) => (
+            <option key={technician} value={technician}>{technician}</option>
+          ))}
+        </select>
+        <select
+          value={filters.priority || ''}
+          onChange={(e) => setFilters({ ...filters, priority: (e.target.value || undefined) as TicketPriority | undefined })}
+          className={`${inputClass} md:w-40`}
+        >
+          <option value="">All priorities</option>
+          <option value="urgent">Urgent</option>
+          <option value="high">High</option>
+          <option value="medium">Medium</option>
+          <option value="low">Low</option>
+        </select>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          {COLUMNS.map((column) => {
+            const columnTickets = tickets.filter((ticket) => ticket.status === column.status)
+            return (
+              <div key={column.status} className="bg-gray-100 dark:bg-gray-800/60 rounded-xl p-3 border border-gray-200 dark:border-gray-700">
+                <div className="flex items-center justify-between mb-3 px-1">
+                  <h3 className="text-sm font-bold text-gray-700 dark:text-gray-300 uppercase tracking-wide">{column.label}</h3>
+                  <span className="text-xs font-semibold text-gray-500 dark:text-gray-400">{columnTickets.length}</span>
+                </div>
+                <div className="space-y-3">
+                  {columnTickets.map((ticket) => {
+                    const next = NEXT_STATUS[ticket.status]
+                    const previous = PREVIOUS_STATUS[ticket.status]
+                    const done = ticket.status === 'resolved' || ticket.status === 'closed'
+                    return (
+                      <div key={ticket.id} className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-3">
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-xs font-mono text-gray-500 dark:text-gray-400">{ticket.ticket_number}</span>
+                          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${PRIORITY_STYLES[ticket.priority]}`}>
+                            {ticket.priority}
+                          </span>
+                        </div>
+                        <p className="text-sm font-semibold text-gray-900 dark:text-white">{ticket.title}</p>
+                        {ticket.record && (
+                          <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+                            {ticket.record.client_name} · {ticket.record.zone || 'No zone'}
+                            {ticket.record.client_phone && <> · {ticket.record.client_phone}</>}
+                          </p>
+                        )}
+                        {ticket.description && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 line-clamp-3">{ticket.description}</p>
+                        )}
+                        {ticket.resolution && (
+                          <p className="text-xs text-green-700 dark:text-green-300 mt-1 line-clamp-3">✓ {ticket.resolution}</p>
+                        )}
+                        <p
+                          className={`text-xs mt-2 ${ticket.sla_breached ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}
+                          title={`Opened ${format(new Date(ticket.created_at), 'MMM dd, yyyy HH:mm')}${ticket.opened_by ? ` by ${ticket.opened_by}` : ''}`}
+                        >
+                          {done && ticket.resolved_at
+                            ? `Resolved ${format(new Date(ticket.resolved_at), 'MMM dd, HH:mm')}${ticket.sla_breached ? ' · SLA missed' : ''}`
+                            : ticket.sla_breached
+                            ? `SLA breached ${formatDistanceToNow(new Date(ticket.due_at))} ago`
+                            : `Due in ${formatDistanceToNow(new Date(ticket.due_at))}`}
+                        </p>
+                        <div className="mt-2">
+                          {readOnly || ticket.status === 'closed' ? (
+                            <p className="text-xs text-gray-600 dark:text-gray-400">{ticket.technician || 'Unassigned'}</p>
+                          ) : (
+                            <select
+                              value={ticket.technician || ''}
+                              onChange={(e) => updateTicket(ticket, { technician: e.target.value })}
+                              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-xs bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                            >
+                              <option value="">Unassigned</option>
+                              {/* Keep a technician no longer in Settings selectable on old tickets */}
+                              {ticket.technician && !settings.technicians.includes(ticket.technician) && (
+                                <option value={ticket.technician}>{ticket.technician}</option>
+                              )}
+                              {settings.technicians.map((technician) => (
+                                <option key={technician} value={technician}>{technician}</option>
+                              ))}
+                            </select>
+                          )}
+                        </div>
+                        {!readOnly && (previous || next) && (
+                          <div className="flex justify-end gap-2 mt-2">
+                            {previous && (
+                              <button onClick={() => handleMove(ticket, previous.status)} className={smallButtonClass}>
+                                {previous.label}
+                              </button>
+                            )}
+                            {next && (
+                              <button onClick={() => handleMove(ticket, next.status)} className={smallButtonClass}>
+                                {next.label}
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      </div>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TicketBoard
@@ -0,0 +1,238 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { usersApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { UserAccount, UserCreate, UserRole } from '../types'
+
+const ROLES: UserRole[] = ['maintenance', 'sales', 'admin']
+
+const emptyForm: UserCreate = {
+  username: '',
+  display_name: '',
+  password: '',
+  role: 'maintenance',
+}
+
+function UserManagement() {
+  const { user: currentUser } = useAuth()
+  const [users, setUsers] = useState<UserAccount[]>([])
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<UserCreate>(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchUsers = async () => {
+    setLoading(true)
+    try {
+      setUsers(await usersApi.list())
+    } catch (error) {
+      console.error('Error fetching users:', error)
+      alert('Failed to load users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchUsers()
+  }, [])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+    try {
+      await usersApi.create(form)
+      setForm(emptyForm)
+      fetchUsers()
+    } catch (err: any) {
+      console.error('Error creating user:', err)
+      setError(err.response?.data?.detail || 'Failed to create user')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleToggleActive = async (account: UserAccount) => {
+    const action = account.is_active ? 'disable' : 'enable'
+    if (!confirm(`Are you sure you want to ${action} ${account.display_name}?`)) return
+    try {
+      await usersApi.update(account.id, { is_active: !account.is_active })
+      fetchUsers()
+    } catch (err: any) {
+      console.error('Error updating user:', err)
+      alert(err.response?.data?.detail || 'Failed to update user')
+    }
+  }
+
+  const handleRoleChange = async (account: UserAccount, role: UserRole) => {
+    try {
+      await usersApi.update(account.id, { role })
+      fetchUsers()
+    } catch (err: any) {
+      console.error('Error updating user:', err)
+      alert(err.response?.data?.detail || 'Failed to update user')
+    }
+  }
+
+  const handleResetPassword = async (account: UserAccount) => {
+    const password = prompt(`New password for ${account.display_name} (min 6 characters):`)
+    if (!password) return
+    if (password.length < 6) {
+      alert('Password must be at least 6 characters')
+      return
+    }
+    try {
+      await usersApi.update(account.id, { password })
+      alert('Password updated')
+    } catch (err: any) {
+      console.error('Error resetting password:', err)
+      alert(err.response?.data?.detail || 'Failed to reset password')
+    }
+  }
+
+  const inputClass = 'w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Users</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">Create accounts and control who can sign in</p>
+      </div>
+
+      <form onSubmit={handleCreate} className="mb-8 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">New Account</h3>
+        {error && (
+          <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+            <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <input
+            type="text"
+            required
+            placeholder="Username"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            required
+            placeholder="Display name"
+            value={form.display_name}
+            onChange={(e) => setForm({ ...form, display_name: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="password"
+            required
+            minLength={6}
+            placeholder="Password"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+            className={inputClass}
+          />
+          <select
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as UserRole })}
+            className={`${inputClass} capitalize`}
+          >
+            {ROLES.map((role) => (
+              <option key={role} value={role}>
+                {role}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex justify-end mt-4">
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Creating...' : 'Create Account'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Username</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Role</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Last Login</th>
+                <th className="px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {users.map((account) => {
+                const isSelf = account.id === currentUser?.id
+                return (
+                  <tr key={account.id} className={account.is_active ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-white">{account.display_name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400 font-mono">{account.username}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <select
+                        value={account.role}
+                        disabled={isSelf}
+                        onChange={(e) => handleRoleChange(account, e.target.value as UserRole)}
+                        className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white capitalize disabled:opacity-50"
+                      >
+                        {ROLES.map((role) => (
+                          <option key={role} value={role}>
+                            {role}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {account.last_login_at ? format(new Date(account.last_login_at), 'MMM dd, yyyy HH:mm') : 'Never'}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {account.is_active ? (
+                        <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">Active</span>
+                      ) : (
+                        <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">Disabled</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                      <button
+                        onClick={() => handleResetPassword(account)}
+                        className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                      >
+                        Reset Password
+                      </button>
+                      {!isSelf && (
+                        <button
+                          onClick={() => handleToggleActive(account)}
+                          className={`px-3 py-1.5 text-xs font-medium border rounded-lg transition-all ${
+                            account.is_active
+                              ? 'text-red-600 dark:text-red-400 border-red-300 dark:border-red-700 hover:bg-red-50 dark:hover:bg-red-900/30'
+                              : 'text-green-600 dark:text-green-400 border-green-300 dark:border-green-700 hover:bg-green-50 dark:hover:bg-green-900/30'
+                          }`}
+                        >
+                          {account.is_active ? 'Disable' : 'Enable'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default UserManagement
@@ -0,0 +1,284 @@
+import { useState, useEffect } from 'react'
+import { warrantyPoliciesApi, filtersApi } from '../services/client'
+import { FilterOptions, WarrantyPolicy, WarrantyPolicyInput, WarrantyStart } from '../types'
+
+const emptyForm: WarrantyPolicyInput = {
+  name: '',
+  capacity_kw: '',
+  heater: '',
+  controller: '',
+  duration_days: 365,
+  start_from: 'delivery',
+  is_active: true,
+}
+
+function WarrantyPolicies() {
+  const [policies, setPolicies] = useState<WarrantyPolicy[]>([])
+  const [options, setOptions] = useState<FilterOptions | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [form, setForm] = useState<WarrantyPolicyInput>(emptyForm)
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState('')
+
+  const fetchPolicies = async () => {
+    setLoading(true)
+    try {
+      setPolicies(await warrantyPoliciesApi.list())
+    } catch (error) {
+      console.error('Error fetching warranty policies:', error)
+      alert('Failed to load warranty policies')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPolicies()
+    filtersApi
+      .options()
+      .then(setOptions)
+      .catch((error) => console.error('Error fetching filter options:', error))
+  }, [])
+
+  const resetForm = () => {
+    setForm(emptyForm)
+    setEditingId(null)
+    setError('')
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setError('')
+    try {
+      if (editingId) {
+        await warrantyPoliciesApi.update(editingId, form)
+      } else {
+        await warrantyPoliciesApi.create(form)
+      }
+      resetForm()
+      fetchPolicies()
+    } catch (err: any) {
+      console.error('Error saving warranty policy:', err)
+      setError(err.response?.data?.detail?.[0]?.msg || err.response?.data?.detail || 'Failed to save warranty policy')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleEdit = (policy: WarrantyPolicy) => {
+    setEditingId(policy.id)
+    setError('')
+    setForm({
+      name: policy.name,
+      capacity_kw: policy.capacity_kw || '',
+      heater: policy.heater || '',
+      controller: policy.controller || '',
+      duration_days: policy.duration_days,
+      start_from: policy.start_from,
+      is_active: policy.is_active,
+    })
+  }
+
+  const handleToggleActive = async (policy: WarrantyPolicy) => {
+    try {
+      await warrantyPoliciesApi.update(policy.id, { is_active: !policy.is_active })
+      fetchPolicies()
+    } catch (error) {
+      console.error('Error updating warranty policy:', error)
+      alert('Failed to update warranty policy')
+    }
+  }
+
+  const handleDelete = async (policy: WarrantyPolicy) => {
+    if (!confirm(`Delete the "${policy.name}" warranty policy?`)) return
+    try {
+      await warrantyPoliciesApi.remove(policy.id)
+      if (editingId === policy.id) resetForm()
+      fetchPolicies()
+    } catch (error) {
+      console.error('Error deleting warranty policy:', error)
+      alert('Failed to delete warranty policy')
+    }
+  }
+
+  const inputClass = 'w-full px-4 py-2.5 border-2 border-gray-300 dark:border-gray-600 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 transition-all text-sm bg-white dark:bg-gray-700 text-gray-900 dark:text-white'
+  const headerClass = 'px-6 py-3 text-left text-xs font-bold text-gray-500 dark:text-gray-400 uppercase tracking-wider'
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="mb-8">
+        <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Warranty Policies</h2>
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Coverage by machine configuration. The policy matching the most fields wins; records no policy matches use the default warranty from Settings.
+        </p>
+      </div>
+
+      <form onSubmit={handleSubmit} className="mb-8 bg-white dark:bg-gray-800 p-6 rounded-xl shadow-md border border-gray-200 dark:border-gray-700">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4">{editingId ? 'Edit Policy' : 'New Policy'}</h3>
+        {error && (
+          <div className="mb-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3">
+            <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <input
+            type="text"
+            required
+            placeholder="Policy name"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="number"
+            required
+            min={1}
+            max={3650}
+            placeholder="Duration (days)"
+            value={form.duration_days}
+            onChange={(e) => setForm({ ...form, duration_days: Number(e.target.value) })}
+            className={inputClass}
+          />
+          <select
+            value={form.start_from}
+            onChange={(e) => setForm({ ...form, start_from: e.target.value as WarrantyStart })}
+            className={inputClass}
+          >
+            <option value="delivery">Starts from delivery</option>
+            <option value="installation">Starts from installation</option>
+          </select>
+          <input
+            type="text"
+            list="policy-capacity-list"
+            placeholder="Capacity (kW) — any"
+            value={form.capacity_kw || ''}
+            onChange={(e) => setForm({ ...form, capacity_kw: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            list="policy-heater-list"
+            placeholder="Heater — any"
+            value={form.heater || ''}
+            onChange={(e) => setForm({ ...form, heater: e.target.value })}
+            className={inputClass}
+          />
+          <input
+            type="text"
+            list="policy-controller-list"
+            placeholder="Controller — any"
+            value={form.controller || ''}
+            onChange={(e) => setForm({ ...form, controller: e.target.value })}
+            className={inputClass}
+          />
+        </div>
+        <div className="flex justify-end gap-3 mt-4">
+          {editingId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-5 py-2.5 border border-gray-300 dark:border-gray-600 rounded-lg text-sm font-semibold text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 transition-all"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-5 py-2.5 border border-transparent rounded-lg shadow-md text-sm font-semibold text-white bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 transition-all disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : editingId ? 'Save Policy' : 'Create Policy'}
+          </button>
+        </div>
+        <datalist id="policy-capacity-list">
+          {options?.capacity_kw.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+        <datalist id="policy-heater-list">
+          {options?.heaters.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+        <datalist id="policy-controller-list">
+          {options?.controllers.map((value) => (
+            <option key={value} value={value} />
+          ))}
+        </datalist>
+      </form>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : policies.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">No warranty policies yet. Every record uses the default warranty.</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow-lg rounded-xl border border-gray-200 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700">
+            <thead className="bg-gray-50 dark:bg-gray-700/50">
+              <tr>
+                <th className={headerClass}>Name</th>
+                <th className={headerClass}>Applies To</th>
+                <th className={headerClass}>Coverage</th>
+                <th className={headerClass}>Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
+              {policies.map((policy) => {
+                const criteria = [
+                  policy.capacity_kw && `${policy.capacity_kw} kW`,
+                  policy.heater && `Heater ${policy.heater}`,
+                  policy.controller && `Controller ${policy.controller}`,
+                ].filter(Boolean)
+                return (
+                  <tr key={policy.id} className={policy.is_active ? '' : 'opacity-60'}>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-gray-900 dark:text-white">{policy.name}</td>
+                    <td className="px-6 py-4 text-sm text-gray-600 dark:text-gray-400">{criteria.length ? criteria.join(' · ') : 'All machines'}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600 dark:text-gray-400">
+                      {policy.duration_days} days from {policy.start_from}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      {policy.is_active ? (
+                        <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300">Active</span>
+                      ) : (
+                        <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300">Inactive</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm space-x-2">
+                      <button
+                        onClick={() => handleEdit(policy)}
+                        className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(policy)}
+                        className="px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-all"
+                      >
+                        {policy.is_active ? 'Deactivate' : 'Activate'}
+                      </button>
+                      <button
+                        onClick={() => handleDelete(policy)}
+                        className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WarrantyPolicies
@@ -0,0 +1,223 @@
+import { useState, useEffect } from 'react'
+import { format } from 'date-fns'
+import { remindersApi } from '../services/client'
+import { useAuth } from '../contexts/AuthContext'
+import { useSettings } from '../contexts/SettingsContext'
+import { ReminderChannel, ReminderMessage, ReminderStatus } from '../types'
+
+const STATUS_TABS: { status: ReminderStatus | ''; label: string }[] = [
+  { status: '', label: 'All' },
+  { status: 'queued', label: 'Queued' },
+  { status: 'sent', label: 'Sent' },
+  { status: 'failed', label: 'Failed' },
+  { status: 'cancelled', label: 'Cancelled' },
+]
+
+const STATUS_STYLES: { [status in ReminderStatus]: string } = {
+  queued: 'bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300',
+  sent: 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300',
+  failed: 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-300',
+  cancelled: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300',
+}
+
+const CHANNEL_LABELS: { [channel in ReminderChannel]: string } = {
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+}
+
+function WarrantyReminders() {
+  const { user } = useAuth()
+  const { settings } = useSettings()
+  // Admins can look at the queue and send what is due; retrying and cancelling stay with maintenance
+  const readOnly = user?.role === 'admin'
+  const [messages, setMessages] = useState<ReminderMessage[]>([])
+  const [counts, setCounts] = useState<{ [status: string]: number }>({})
+  const [status, setStatus] = useState<ReminderStatus | ''>('')
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [result, setResult] = useState('')
+  const [total, setTotal] = useState(0)
+  const [page, setPage] = useState(1)
+  const pageSize = 50
+
+  const fetchMessages = async () => {
+    setLoading(true)
+    try {
+      const data = await remindersApi.list(status, page, pageSize)
+      setMessages(data.messages)
+      setCounts(data.counts)
+      setTotal(data.total)
+    } catch (error) {
+      console.error('Error fetching reminders:', error)
+      alert('Failed to load reminders')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchMessages()
+  }, [status, page])
+
+  const handleRun = async () => {
+    setRunning(true)
+    setResult('')
+    try {
+      const run = await remindersApi.run()
+      setResult(`${run.queued} queued, ${run.sent} sent, ${run.failed} failed`)
+      fetchMessages()
+    } catch (error) {
+      console.error('Error running reminders:', error)
+      alert('Failed to send reminders')
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleAction = async (message: ReminderMessage, action: 'retry' | 'cancel') => {
+    try {
+      const updated = action === 'retry' ? await remindersApi.retry(message.id) : await remindersApi.cancel(message.id)
+      if (updated.status === 'failed' && action === 'retry') {
+        alert(`Still failing: ${updated.error}`)
+      }
+      fetchMessages()
+    } catch (err: any) {
+      console.error(`Error on reminder ${action}:`, err)
+      alert(err.response?.data?.detail || `Failed to ${action} reminder`)
+    }
+  }
+
+  const totalPages = Math.ceil(total / pageSize)
+  const allCount = Object.values(counts).reduce((sum, count) => sum + count, 0)
+
+  return (
+    <div className="px-4 py-8 sm:px-0">
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-8">
+        <div>
+          <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-1">Warranty Reminders</h2>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {settings.reminders.enabled
+              ? `Sent automatically ${settings.reminders.days_before.join(' and ')} days before a warranty expires`
+              : 'Automatic reminders are off; an admin can turn them on in Settings'}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {result && <span className="text-sm font-medium text-green-600 dark:text-green-400">{result}</span>}
+          <button
+            onClick={handleRun}
+            disabled={running}
+            className="bg-gradient-to-r from-primary-600 to-primary-700 hover:from-primary-700 hover:to-primary-800 text-white px-5 py-2.5 rounded-lg text-sm font-semibold shadow-md transition-all disabled:opacity-50"
+          >
+            {running ? 'Sending...' : 'Send Due Reminders Now'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUS_TABS.map((tab) => (
+          <button
+            key={tab.label}
+            onClick={() => {
+              setStatus(tab.status)
+              setPage(1)
+            }}
+            className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+              status === tab.status
+                ? 'bg-primary-600 text-white border-primary-600'
+                : 'bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700'
+            }`}
+          >
+            {tab.label} ({tab.status ? counts[tab.status] || 0 : allCount})
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <div className="text-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600 dark:border-primary-400 mx-auto"></div>
+        </div>
+      ) : messages.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-gray-500 dark:text-gray-400">No reminders</p>
+        </div>
+      ) : (
+        <div className="bg-white dark:bg-gray-800 shadow overflow-hidden sm:rounded-md border border-gray-200 dark:border-gray-700">
+          <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+            {messages.map((message) => (
+              <li key={message.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[message.status]}`}>
+                        {message.status}
+                      </span>
+                      <span className="text-xs font-semibold text-gray-600 dark:text-gray-400">{CHANNEL_LABELS[message.channel]}</span>
+                      <p className="text-sm font-medium text-primary-600 dark:text-primary-400">{message.record_code}</p>
+                      <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {message.client_name}{message.recipient && ` · ${message.recipient}`}
+                      </p>
+                    </div>
+                    <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                      Expires {format(new Date(message.warranty_expiry), 'MMM dd, yyyy')} | {message.days_before}-day reminder |{' '}
+                      {message.sent_at
+                        ? `Sent ${format(new Date(message.sent_at), 'MMM dd, yyyy HH:mm')}${message.provider ? ` via ${message.provider}` : ''}`
+                        : `Queued ${format(new Date(message.created_at), 'MMM dd, yyyy HH:mm')}`}
+                      {message.attempts > 1 && ` | ${message.attempts} attempts`}
+                    </div>
+                    {message.subject && <p className="mt-2 text-sm font-semibold text-gray-700 dark:text-gray-300">{message.subject}</p>}
+                    <p className="mt-1 text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line line-clamp-3">{message.body}</p>
+                    {message.error && <p className="mt-1 text-sm text-red-600 dark:text-red-400">{message.error}</p>}
+                  </div>
+                  {!readOnly && (
+                    <div className="flex gap-2 flex-shrink-0">
+                      {(message.status === 'failed' || message.status === 'cancelled') && (
+                        <button
+                          onClick={() => handleAction(message, 'retry')}
+                          className="px-3 py-1.5 text-xs font-medium text-primary-600 dark:text-primary-400 border border-primary-300 dark:border-primary-700 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-all"
+                        >
+                          Retry
+                        </button>
+                      )}
+                      {(message.status === 'queued' || message.status === 'failed') && (
+                        <button
+                          onClick={() => handleAction(message, 'cancel')}
+                          className="px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/30 transition-all"
+                        >
+                          Cancel
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+          {totalPages > 1 && (
+            <div className="bg-white dark:bg-gray-800 px-4 py-3 flex items-center justify-between border-t border-gray-200 dark:border-gray-700 sm:px-6">
+              <button
+                onClick={() => setPage(Math.max(1, page - 1))}
+                disabled={page === 1}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm text-gray-700 dark:text-gray-300">
+                Page {page} of {totalPages}
+              </span>
+              <button
+                onClick={() => setPage(Math.min(totalPages, page + 1))}
+                disabled={page >= totalPages}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default WarrantyReminders
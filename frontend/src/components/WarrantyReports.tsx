@@ -1,21 +1,30 @@
 import { useState, useEffect } from 'react'
 import { format } from 'date-fns'
-import api from '../services/api'
-import { Record, RecordListResponse, WarrantySummary } from '../types'
+import { Link } from 'react-router-dom'
+import { warrantyApi, contractsApi } from '../services/client'
+import { Record, ServiceContract, WarrantySummary } from '../types'
+import { useSettings } from '../contexts/SettingsContext'
 
 function WarrantyReports() {
   const [summary, setSummary] = useState<WarrantySummary | null>(null)
   const [outOfWarranty, setOutOfWarranty] = useState<Record[]>([])
   const [expiringSoon, setExpiringSoon] = useState<Record[]>([])
+  const [amcExpiring, setAmcExpiring] = useState<ServiceContract[]>([])
   const [loading, setLoading] = useState(true)
-  const [activeTab, setActiveTab] = useState<'summary' | 'out' | 'expiring'>('summary')
-  const [days, setDays] = useState(30)
+  const [activeTab, setActiveTab] = useState<'summary' | 'out' | 'expiring' | 'amc'>('summary')
+  const { settings } = useSettings()
+  const [days, setDays] = useState(settings.warranty.expiring_soon_days)
   const [outPage, setOutPage] = useState(1)
   const [expiringPage, setExpiringPage] = useState(1)
   const [outTotal, setOutTotal] = useState(0)
   const [expiringTotal, setExpiringTotal] = useState(0)
   const pageSize = 50
 
+  // Follow the admin-configured threshold once settings have loaded
+  useEffect(() => {
+    setDays(settings.warranty.expiring_soon_days)
+  }, [settings.warranty.expiring_soon_days])
+
   useEffect(() => {
     fetchSummary()
   }, [days])
@@ -25,13 +34,14 @@ function WarrantyReports() {
       fetchOutOfWarranty()
     } else if (activeTab === 'expiring') {
       fetchExpiringSoon()
+    } else if (activeTab === 'amc') {
+      fetchAmcExpiring()
     }
   }, [activeTab, days, outPage, expiringPage])
 
   const fetchSummary = async () => {
     try {
-      const response = await api.get<WarrantySummary>(`/records/warranty/summary?days=${days}`)
-      setSummary(response.data)
+      setSummary(await warrantyApi.summary(days))
     } catch (error) {
       console.error('Error fetching warranty summary:', error)
       alert('Failed to load warranty summary')
@@ -42,11 +52,9 @@ function WarrantyReports() {
 
   const fetchOutOfWarranty = async () => {
     try {
-      const response = await api.get<RecordListResponse>(
-        `/records/warranty/out-of-warranty?page=${outPage}&page_size=${pageSize}`
-      )
-      setOutOfWarranty(response.data.records)
-      setOutTotal(response.data.total)
+      const data = await warrantyApi.outOfWarranty(outPage, pageSize)
+      setOutOfWarranty(data.records)
+      setOutTotal(data.total)
     } catch (error) {
       console.error('Error fetching out of warranty records:', error)
       alert('Failed to load out of warranty records')
@@ -55,35 +63,22 @@ function WarrantyReports() {
 
   const fetchExpiringSoon = async () => {
     try {
-      const response = await api.get<RecordListResponse>(
-        `/records/warranty/expiring-soon?days=${days}&page=${expiringPage}&page_size=${pageSize}`
-      )
-      setExpiringSoon(response.data.records)
-      setExpiringTotal(response.data.total)
+      const data = await warrantyApi.expiringSoon(days, expiringPage, pageSize)
+      setExpiringSoon(data.records)
+      setExpiringTotal(data.total)
     } catch (error) {
       console.error('Error fetching expiring soon records:', error)
       alert('Failed to load expiring soon records')
     }
   }
 
-  const calculateWarrantyExpiry = (deliveryDate: string) => {
-    const delivery = new Date(deliveryDate)
-    const expiry = new Date(delivery)
-    expiry.setFullYear(expiry.getFullYear() + 1)
-    return expiry
-  }
-
-  const getWarrantyStatus = (deliveryDate: string) => {
-    const expiry = calculateWarrantyExpiry(deliveryDate)
-    const today = new Date()
-    const daysRemaining = Math.ceil((expiry.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
-
-    if (daysRemaining < 0) {
-      return { status: 'out_of_warranty', daysRemaining, expiry }
-    } else if (daysRemaining <= days) {
-      return { status: 'expiring_soon', daysRemaining, expiry }
-    } else {
-      return { status: 'in_warranty', daysRemaining, expiry }
+  const fetchAmcExpiring = async () => {
+    try {
+      const contracts = await contractsApi.expiring(days)
+      setAmcExpiring(contracts.filter((contract) => contract.contract_type === 'amc'))
+    } catch (error) {
+      console.error('Error fetching expiring AMC contracts:', error)
+      alert('Failed to load expiring AMC contracts')
     }
   }
 
@@ -153,12 +148,22 @@ function WarrantyReports() {
           >
             Expiring Soon ({expiringTotal})
           </button>
+          <button
+            onClick={() => setActiveTab('amc')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'amc'
+                ? 'border-primary-500 text-primary-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+            }`}
+          >
+            AMC Expiring ({summary?.amc_expiring ?? 0})
+          </button>
         </nav>
       </div>
 
       {/* Summary Tab */}
       {activeTab === 'summary' && summary && (
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <div className="bg-white overflow-hidden shadow rounded-lg">
             <div className="p-5">
               <div className="flex items-center">
@@ -230,6 +235,42 @@ function WarrantyReports() {
               </div>
             </div>
           </div>
+
+          <div className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <div className="w-8 h-8 bg-primary-100 rounded-md flex items-center justify-center">
+                    <span className="text-primary-600 font-bold">A</span>
+                  </div>
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">Under AMC</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{summary.under_amc}</dd>
+                  </dl>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white overflow-hidden shadow rounded-lg">
+            <div className="p-5">
+              <div className="flex items-center">
+                <div className="flex-shrink-0">
+                  <div className="w-8 h-8 bg-orange-100 rounded-md flex items-center justify-center">
+                    <span className="text-orange-600 font-bold">!</span>
+                  </div>
+                </div>
+                <div className="ml-5 w-0 flex-1">
+                  <dl>
+                    <dt className="text-sm font-medium text-gray-500 truncate">AMC Expiring</dt>
+                    <dd className="text-2xl font-semibold text-gray-900">{summary.amc_expiring}</dd>
+                  </dl>
+                </div>
+              </div>
+            </div>
+          </div>
         </div>
       )}
 
@@ -237,25 +278,22 @@ function WarrantyReports() {
       {activeTab === 'out' && (
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
           <ul className="divide-y divide-gray-200">
-            {outOfWarranty.map((record) => {
-              const { expiry } = getWarrantyStatus(record.date_of_delivery)
-              return (
-                <li key={record.id} className="px-4 py-4 sm:px-6">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <p className="text-sm font-medium text-primary-600">{record.record_id}</p>
-                      <p className="ml-2 text-sm text-gray-500">{record.client_name}</p>
-                    </div>
-                    <div className="text-sm text-gray-500">
-                      Expired: {format(expiry, 'MMM dd, yyyy')}
-                    </div>
+            {outOfWarranty.map((record) => (
+              <li key={record.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <p className="text-sm font-medium text-primary-600">{record.record_id}</p>
+                    <p className="ml-2 text-sm text-gray-500">{record.client_name}</p>
                   </div>
-                  <div className="mt-2 text-sm text-gray-500">
-                    Zone: {record.zone || 'N/A'} | Delivery: {format(new Date(record.date_of_delivery), 'MMM dd, yyyy')}
+                  <div className="text-sm text-gray-500">
+                    Expired: {record.warranty_expiry && format(new Date(record.warranty_expiry), 'MMM dd, yyyy')}
                   </div>
-                </li>
-              )
-            })}
+                </div>
+                <div className="mt-2 text-sm text-gray-500">
+                  Zone: {record.zone || 'N/A'} | Delivery: {format(new Date(record.date_of_delivery), 'MMM dd, yyyy')}
+                </div>
+              </li>
+            ))}
           </ul>
           {Math.ceil(outTotal / pageSize) > 1 && (
             <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
@@ -284,26 +322,31 @@ function WarrantyReports() {
       {/* Expiring Soon Tab */}
       {activeTab === 'expiring' && (
         <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <div className="px-4 py-3 sm:px-6 bg-primary-50 border-b border-gray-200 text-sm text-gray-700">
+            {settings.reminders.enabled
+              ? `Clients get a ${settings.reminders.channels.join('/').toUpperCase()} reminder ${settings.reminders.days_before.join(' and ')} days before expiry. `
+              : 'Automatic reminders to these clients are off. '}
+            <Link to="/maintenance/reminders" className="font-semibold text-primary-600 hover:text-primary-700">
+              View reminders →
+            </Link>
+          </div>
           <ul className="divide-y divide-gray-200">
-            {expiringSoon.map((record) => {
-              const { expiry, daysRemaining } = getWarrantyStatus(record.date_of_delivery)
-              return (
-                <li key={record.id} className="px-4 py-4 sm:px-6">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center">
-                      <p className="text-sm font-medium text-primary-600">{record.record_id}</p>
-                      <p className="ml-2 text-sm text-gray-500">{record.client_name}</p>
-                    </div>
-                    <div className="text-sm text-yellow-600 font-medium">
-                      {daysRemaining} days remaining
-                    </div>
+            {expiringSoon.map((record) => (
+              <li key={record.id} className="px-4 py-4 sm:px-6">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center">
+                    <p className="text-sm font-medium text-primary-600">{record.record_id}</p>
+                    <p className="ml-2 text-sm text-gray-500">{record.client_name}</p>
                   </div>
-                  <div className="mt-2 text-sm text-gray-500">
-                    Zone: {record.zone || 'N/A'} | Expires: {format(expiry, 'MMM dd, yyyy')}
+                  <div className="text-sm text-yellow-600 font-medium">
+                    {record.warranty_days_remaining} days remaining
                   </div>
-                </li>
-              )
-            })}
+                </div>
+                <div className="mt-2 text-sm text-gray-500">
+                  Zone: {record.zone || 'N/A'} | Expires: {record.warranty_expiry && format(new Date(record.warranty_expiry), 'MMM dd, yyyy')}
+                </div>
+              </li>
+            ))}
           </ul>
           {Math.ceil(expiringTotal / pageSize) > 1 && (
             <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
@@ -328,6 +371,34 @@ function WarrantyReports() {
           )}
         </div>
       )}
+
+      {/* AMC Expiring Tab */}
+      {activeTab === 'amc' && (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          {amcExpiring.length === 0 ? (
+            <p className="px-4 py-8 text-center text-sm text-gray-500">No AMC contracts ending in the next {days} days</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {amcExpiring.map((contract) => (
+                <li key={contract.id} className="px-4 py-4 sm:px-6">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center">
+                      <p className="text-sm font-medium text-primary-600">{contract.record?.record_id}</p>
+                      <p className="ml-2 text-sm text-gray-500">{contract.record?.client_name}</p>
+                    </div>
+                    <div className="text-sm text-yellow-600 font-medium">
+                      Ends: {format(new Date(contract.end_date), 'MMM dd, yyyy')}
+                    </div>
+                  </div>
+                  <div className="mt-2 text-sm text-gray-500">
+                    Zone: {contract.record?.zone || 'N/A'} | Phone: {contract.record?.client_phone || 'N/A'} | Renewal: {contract.renewal_status.replace('_', ' ')}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -1,20 +1,31 @@
 import React, { createContext, useContext, useState, useEffect } from 'react'
 import api from '../services/api'
+import { authApi } from '../services/client'
+import { UserRole } from '../types'
 
-interface User {
-  role: 'maintenance' | 'sales'
+export interface User {
+  id: number
+  username: string
+  displayName: string
+  role: UserRole
   token: string
 }
 
 interface AuthContextType {
   user: User | null
-  login: (passcode: string) => Promise<void>
+  login: (username: string, password: string) => Promise<User>
   logout: () => void
   isLoading: boolean
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// Landing page for each role
+export function homePathForRole(role: UserRole) {
+  if (role === 'admin') return '/admin'
+  return role === 'maintenance' ? '/maintenance' : '/sales'
+}
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [isLoading, setIsLoading] = useState(true)
@@ -22,29 +33,43 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   useEffect(() => {
     // Check if user is logged in from localStorage
     const storedToken = localStorage.getItem('token')
-    const storedRole = localStorage.getItem('role') as 'maintenance' | 'sales' | null
+    const storedUser = localStorage.getItem('user')
 
-    if (storedToken && storedRole) {
-      setUser({ token: storedToken, role: storedRole })
-      api.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`
+    if (storedToken && storedUser) {
+      try {
+        const parsed = JSON.parse(storedUser) as Omit<User, 'token'>
+        setUser({ ...parsed, token: storedToken })
+        api.defaults.headers.common['Authorization'] = `Bearer ${storedToken}`
+      } catch {
+        localStorage.removeItem('token')
+        localStorage.removeItem('user')
+      }
     }
     setIsLoading(false)
   }, [])
 
-  const login = async (passcode: string) => {
+  const login = async (username: string, password: string) => {
     try {
-      const response = await api.post('/auth/login', { passcode })
-      const { access_token, role } = response.data
+      const response = await authApi.login(username, password)
 
       const userData: User = {
-        token: access_token,
-        role,
+        id: response.user_id,
+        username: response.username,
+        displayName: response.display_name,
+        role: response.role,
+        token: response.access_token,
       }
 
       setUser(userData)
-      localStorage.setItem('token', access_token)
-      localStorage.setItem('role', role)
-      api.defaults.headers.common['Authorization'] = `Bearer ${access_token}`
+      localStorage.setItem('token', response.access_token)
+      localStorage.setItem('user', JSON.stringify({
+        id: userData.id,
+        username: userData.username,
+        displayName: userData.displayName,
+        role: userData.role,
+      }))
+      api.defaults.headers.common['Authorization'] = `Bearer ${response.access_token}`
+      return userData
     } catch (error: any) {
       if (error.code === 'ECONNABORTED' || error.message?.includes('timeout')) {
         throw new Error('Request timed out. The backend may be waking up (this can take 30-60 seconds on the free tier). Please try again.')
@@ -52,14 +77,14 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
       if (error.message?.includes('Network Error') || !error.response) {
         throw new Error('Cannot reach the backend server. Please check if the backend is running and VITE_API_URL is set correctly.')
       }
-      throw new Error(error.response?.data?.detail || 'Invalid passcode')
+      throw new Error(error.response?.data?.detail || 'Invalid username or password')
     }
   }
 
   const logout = () => {
     setUser(null)
     localStorage.removeItem('token')
-    localStorage.removeItem('role')
+    localStorage.removeItem('user')
     delete api.defaults.headers.common['Authorization']
   }
 
@@ -0,0 +1,74 @@
+import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
+import { settingsApi } from '../services/client'
+import { AppSettings } from '../types'
+import { useAuth } from './AuthContext'
+
+// Used until the server copy has loaded (matches the backend defaults)
+export const DEFAULT_SETTINGS: AppSettings = {
+  zones: [],
+  technicians: [],
+  salespeople: [],
+  warranty: {
+    duration_days: 365,
+    start_from: 'delivery',
+    expiring_soon_days: 30,
+  },
+  reminders: {
+    enabled: false,
+    days_before: [30, 7],
+    channels: ['sms'],
+    templates: {
+      sms: { subject: '', body: '' },
+      whatsapp: { subject: '', body: '' },
+      email: { subject: '', body: '' },
+    },
+  },
+  company: {
+    name: '',
+    address: '',
+    phone: '',
+    email: '',
+    gstin: '',
+    state: '',
+    gst_rate: 18,
+    quotation_prefix: 'QTN',
+    invoice_prefix: 'INV',
+    quotation_valid_days: 30,
+    bank_details: '',
+    terms: '',
+  },
+}
+
+interface SettingsContextType {
+  settings: AppSettings
+  setSettings: (settings: AppSettings) => void
+}
+
+const SettingsContext = createContext<SettingsContextType | undefined>(undefined)
+
+export function SettingsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS)
+
+  useEffect(() => {
+    if (!user) return
+    settingsApi
+      .get()
+      .then(setSettings)
+      .catch((error) => console.error('Error fetching settings:', error))
+  }, [user?.id])
+
+  return (
+    <SettingsContext.Provider value={{ settings, setSettings }}>
+      {children}
+    </SettingsContext.Provider>
+  )
+}
+
+export function useSettings() {
+  const context = useContext(SettingsContext)
+  if (context === undefined) {
+    throw new Error('useSettings must be used within a SettingsProvider')
+  }
+  return context
+}
@@ -0,0 +1,28 @@
+import { Routes, Route, Navigate } from 'react-router-dom'
+import Layout from '../components/Layout'
+import UserManagement from '../components/UserManagement'
+import SystemSettings from '../components/SystemSettings'
+import WarrantyPolicies from '../components/WarrantyPolicies'
+import SalesTargets from '../components/SalesTargets'
+import { useAuth } from '../contexts/AuthContext'
+
+function AdminDashboard() {
+  const { user } = useAuth()
+
+  if (user?.role !== 'admin') {
+    return <Navigate to="/login" replace />
+  }
+
+  return (
+    <Layout>
+      <Routes>
+        <Route index element={<UserManagement />} />
+        <Route path="settings" element={<SystemSettings />} />
+        <Route path="warranty-policies" element={<WarrantyPolicies />} />
+        <Route path="targets" element={<SalesTargets />} />
+      </Routes>
+    </Layout>
+  )
+}
+
+export default AdminDashboard
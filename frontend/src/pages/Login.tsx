@@ -1,9 +1,10 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
-import { useAuth } from '../contexts/AuthContext'
+import { useAuth, homePathForRole } from '../contexts/AuthContext'
 
 function Login() {
-  const [passcode, setPasscode] = useState('')
+  const [username, setUsername] = useState('')
+  const [password, setPassword] = useState('')
   const [error, setError] = useState('')
   const [isLoading, setIsLoading] = useState(false)
   const { login } = useAuth()
@@ -15,11 +16,10 @@ function Login() {
     setIsLoading(true)
 
     try {
-      await login(passcode)
-      const role = localStorage.getItem('role')
-      navigate(role === 'maintenance' ? '/maintenance' : '/sales')
+      const user = await login(username, password)
+      navigate(homePathForRole(user.role))
     } catch (err: any) {
-      setError(err.message || 'Invalid passcode')
+      setError(err.message || 'Invalid username or password')
     } finally {
       setIsLoading(false)
     }
@@ -33,7 +33,7 @@ function Login() {
             Maintenance CRM + Sales Report
           </h2>
           <p className="mt-3 text-center text-sm font-medium text-gray-600 dark:text-gray-400">
-            Enter your passcode to continue
+            Sign in with your account to continue
           </p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
@@ -42,21 +42,41 @@ function Login() {
               <div className="text-sm font-medium text-red-800 dark:text-red-300">{error}</div>
             </div>
           )}
-          <div>
-            <label htmlFor="passcode" className="sr-only">
-              Passcode
-            </label>
-            <input
-              id="passcode"
-              name="passcode"
-              type="password"
-              required
-              className="appearance-none rounded-lg relative block w-full px-4 py-3 border-2 border-gray-300 dark:border-gray-600 placeholder-gray-400 dark:placeholder-gray-500 text-gray-900 dark:text-white bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 focus:z-10 text-sm transition-all"
-              placeholder="Enter passcode"
-              value={passcode}
-              onChange={(e) => setPasscode(e.target.value)}
-              disabled={isLoading}
-            />
+          <div className="space-y-4">
+            <div>
+              <label htmlFor="username" className="sr-only">
+                Username
+              </label>
+              <input
+                id="username"
+                name="username"
+                type="text"
+                autoComplete="username"
+                required
+                className="appearance-none rounded-lg relative block w-full px-4 py-3 border-2 border-gray-300 dark:border-gray-600 placeholder-gray-400 dark:placeholder-gray-500 text-gray-900 dark:text-white bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 focus:z-10 text-sm transition-all"
+                placeholder="Username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+            <div>
+              <label htmlFor="password" className="sr-only">
+                Password
+              </label>
+              <input
+                id="password"
+                name="password"
+                type="password"
+                autoComplete="current-password"
+                required
+                className="appearance-none rounded-lg relative block w-full px-4 py-3 border-2 border-gray-300 dark:border-gray-600 placeholder-gray-400 dark:placeholder-gray-500 text-gray-900 dark:text-white bg-white dark:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500 focus:z-10 text-sm transition-all"
+                placeholder="Password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
           </div>
           <div>
             <button
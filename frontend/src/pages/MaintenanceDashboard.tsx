@@ -3,12 +3,19 @@ import Layout from '../components/Layout'
 import RecordsList from '../components/RecordsList'
 import RecordForm from '../components/RecordForm'
 import WarrantyReports from '../components/WarrantyReports'
+import RecycleBin from '../components/RecycleBin'
+import TicketBoard from '../components/TicketBoard'
+import TechnicianCalendar from '../components/TechnicianCalendar'
+import ImportWizard from '../components/ImportWizard'
+import DuplicateClients from '../components/DuplicateClients'
+import ClientProfile from '../components/ClientProfile'
+import WarrantyReminders from '../components/WarrantyReminders'
 import { useAuth } from '../contexts/AuthContext'
 
 function MaintenanceDashboard() {
   const { user } = useAuth()
 
-  if (user?.role !== 'maintenance') {
+  if (user?.role !== 'maintenance' && user?.role !== 'admin') {
     return <Navigate to="/login" replace />
   }
 
@@ -16,9 +23,20 @@ function MaintenanceDashboard() {
     <Layout>
       <Routes>
         <Route index element={<RecordsList />} />
-        <Route path="records/new" element={<RecordForm />} />
-        <Route path="records/:id/edit" element={<RecordForm />} />
+        {user.role === 'maintenance' && (
+          <>
+            <Route path="records/new" element={<RecordForm />} />
+            <Route path="records/:id/edit" element={<RecordForm />} />
+            <Route path="import" element={<ImportWizard />} />
+          </>
+        )}
+        <Route path="tickets" element={<TicketBoard />} />
+        <Route path="calendar" element={<TechnicianCalendar />} />
+        <Route path="clients/:id" element={<ClientProfile />} />
+        <Route path="duplicates" element={<DuplicateClients />} />
         <Route path="warranty" element={<WarrantyReports />} />
+        <Route path="reminders" element={<WarrantyReminders />} />
+        <Route path="deleted" element={<RecycleBin />} />
       </Routes>
     </Layout>
   )
@@ -2,12 +2,16 @@ import { Routes, Route, Navigate } from 'react-router-dom'
 import Layout from '../components/Layout'
 import SalesRecords from '../components/SalesRecords'
 import SalesSummary from '../components/SalesSummary'
+import SalesPipeline from '../components/SalesPipeline'
+import Receivables from '../components/Receivables'
+import SalesLeaderboard from '../components/SalesLeaderboard'
+import RecordForm from '../components/RecordForm'
 import { useAuth } from '../contexts/AuthContext'
 
 function SalesDashboard() {
   const { user } = useAuth()
 
-  if (user?.role !== 'sales') {
+  if (user?.role !== 'sales' && user?.role !== 'admin') {
     return <Navigate to="/login" replace />
   }
 
@@ -16,6 +20,10 @@ function SalesDashboard() {
       <Routes>
         <Route index element={<SalesRecords />} />
         <Route path="summary" element={<SalesSummary />} />
+        <Route path="pipeline" element={<SalesPipeline />} />
+        <Route path="receivables" element={<Receivables />} />
+        <Route path="leaderboard" element={<SalesLeaderboard />} />
+        {user.role === 'sales' && <Route path="leads/:leadId/record" element={<RecordForm />} />}
       </Routes>
     </Layout>
   )
@@ -29,7 +29,7 @@ api.interceptors.response.use(
   (error) => {
     if (error.response?.status === 401) {
       localStorage.removeItem('token')
-      localStorage.removeItem('role')
+      localStorage.removeItem('user')
       window.location.href = '/login'
     }
     return Promise.reject(error)
@@ -0,0 +1,502 @@
+import api from './api'
+import {
+  Record,
+  RecordCreate,
+  RecordUpdate,
+  RecordBatchUpdate,
+  RecordListResponse,
+  RecordFilters,
+  MultiFilterKey,
+  FilterOptions,
+  SalesSummary,
+  WarrantySummary,
+  TokenResponse,
+  UserAccount,
+  UserCreate,
+  UserUpdate,
+  AppSettings,
+  RecordChange,
+  WarrantyPolicy,
+  WarrantyPolicyInput,
+  ServiceContract,
+  ServiceContractInput,
+  ServiceVisit,
+  ServiceVisitInput,
+  TicketInput,
+  TicketUpdate,
+  Ticket,
+  TicketFilters,
+  TicketListResponse,
+  Lead,
+  LeadInput,
+  LeadUpdate,
+  LeadFilters,
+  LeadListResponse,
+  RecordDocument,
+  RecordDocumentInput,
+  DocumentDraft,
+  Payment,
+  PaymentInput,
+  PaymentLedger,
+  ReceivablesReport,
+  SalesTarget,
+  SalesTargetAmount,
+  TargetPeriod,
+  TargetScope,
+  Leaderboard,
+  ScheduleResponse,
+  ImportPreview,
+  ImportResult,
+  Client,
+  ClientInput,
+  ClientListResponse,
+  ClientProfile,
+  DuplicateClientsResponse,
+  ClientMergeResult,
+  SavedFilter,
+  SavedFilterInput,
+  SavedFilterScreen,
+  RecordsViewPreference,
+  ReminderListResponse,
+  ReminderMessage,
+  ReminderRunResult,
+  ReminderStatus,
+} from '../types'
+
+export type ExportType = 'records' | 'sales'
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf'
+
+export const MULTI_FILTER_KEYS: MultiFilterKey[] = [
+  'zone', 'capacity_kw', 'heater', 'controller', 'card', 'body', 'sold_by', 'lead_source',
+]
+
+/**
+ * Serialize RecordFilters into query params. Every screen goes through this,
+ * so a field added to RecordFilters is sent everywhere without further changes.
+ * Multi-select values are repeated (zone=North&zone=South).
+ */
+export function buildFilterParams(filters: RecordFilters = {}): URLSearchParams {
+  const params = new URLSearchParams()
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return
+    if (Array.isArray(value)) {
+      value.forEach((item) => params.append(key, String(item)))
+      return
+    }
+    params.append(key, String(value))
+  })
+  return params
+}
+
+/** Read RecordFilters back from query params (the inverse of buildFilterParams; page is left out) */
+export function parseFilterParams(params: URLSearchParams): RecordFilters {
+  const filters: { [key: string]: string | string[] | boolean } = {}
+  params.forEach((value, key) => {
+    if (key === 'page' || key === 'page_size' || !value) return
+    if ((MULTI_FILTER_KEYS as string[]).includes(key)) {
+      filters[key] = [...((filters[key] as string[]) || []), value]
+    } else {
+      filters[key] = key === 'sort_desc' ? value === 'true' : value
+    }
+  })
+  return filters as RecordFilters
+}
+
+function withPage(filters: RecordFilters, page: number, pageSize: number): URLSearchParams {
+  const params = buildFilterParams(filters)
+  params.set('page', page.toString())
+  params.set('page_size', pageSize.toString())
+  return params
+}
+
+export const authApi = {
+  login: async (username: string, password: string) => {
+    const response = await api.post<TokenResponse>('/auth/login', { username, password })
+    return response.data
+  },
+}
+
+export const usersApi = {
+  list: async () => {
+    const response = await api.get<UserAccount[]>('/users')
+    return response.data
+  },
+  create: async (data: UserCreate) => {
+    const response = await api.post<UserAccount>('/users', data)
+    return response.data
+  },
+  update: async (id: number, data: UserUpdate) => {
+    const response = await api.patch<UserAccount>(`/users/${id}`, data)
+    return response.data
+  },
+}
+
+export const settingsApi = {
+  get: async () => {
+    const response = await api.get<AppSettings>('/settings')
+    return response.data
+  },
+  update: async (data: AppSettings) => {
+    const response = await api.put<AppSettings>('/settings', data)
+    return response.data
+  },
+}
+
+export const recordsApi = {
+  list: async (filters: RecordFilters, page: number, pageSize: number) => {
+    const response = await api.get<RecordListResponse>(`/records?${withPage(filters, page, pageSize)}`)
+    return response.data
+  },
+  get: async (id: number | string) => {
+    const response = await api.get<Record>(`/records/${id}`)
+    return response.data
+  },
+  create: async (data: RecordCreate) => {
+    const response = await api.post<Record>('/records', data)
+    return response.data
+  },
+  update: async (id: number | string, data: RecordUpdate) => {
+    const response = await api.patch<Record>(`/records/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/records/${id}`)
+  },
+  // One change to several records; all are saved or none are
+  updateMany: async (data: RecordBatchUpdate) => {
+    const response = await api.patch<Record[]>('/records/batch', data)
+    return response.data
+  },
+  removeMany: async (ids: number[]) => {
+    await api.post('/records/batch/delete', { ids })
+  },
+  listDeleted: async (page: number, pageSize: number) => {
+    const response = await api.get<RecordListResponse>(`/records/deleted?page=${page}&page_size=${pageSize}`)
+    return response.data
+  },
+  restore: async (id: number) => {
+    const response = await api.post<Record>(`/records/${id}/restore`)
+    return response.data
+  },
+  purge: async (id: number) => {
+    await api.delete(`/records/${id}/purge`)
+  },
+  history: async (id: number) => {
+    const response = await api.get<RecordChange[]>(`/records/${id}/history`)
+    return response.data
+  },
+  schedule: async (dateFrom: string, dateTo: string) => {
+    const response = await api.get<ScheduleResponse>(`/records/schedule?date_from=${dateFrom}&date_to=${dateTo}`)
+    return response.data
+  },
+}
+
+export const warrantyApi = {
+  summary: async (days: number) => {
+    const response = await api.get<WarrantySummary>(`/records/warranty/summary?days=${days}`)
+    return response.data
+  },
+  outOfWarranty: async (page: number, pageSize: number) => {
+    const response = await api.get<RecordListResponse>(
+      `/records/warranty/out-of-warranty?page=${page}&page_size=${pageSize}`
+    )
+    return response.data
+  },
+  expiringSoon: async (days: number, page: number, pageSize: number) => {
+    const response = await api.get<RecordListResponse>(
+      `/records/warranty/expiring-soon?days=${days}&page=${page}&page_size=${pageSize}`
+    )
+    return response.data
+  },
+}
+
+export const warrantyPoliciesApi = {
+  list: async () => {
+    const response = await api.get<WarrantyPolicy[]>('/warranty-policies')
+    return response.data
+  },
+  create: async (data: WarrantyPolicyInput) => {
+    const response = await api.post<WarrantyPolicy>('/warranty-policies', data)
+    return response.data
+  },
+  update: async (id: number, data: Partial<WarrantyPolicyInput>) => {
+    const response = await api.patch<WarrantyPolicy>(`/warranty-policies/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/warranty-policies/${id}`)
+  },
+}
+
+export const contractsApi = {
+  list: async (recordId?: number) => {
+    const params = recordId !== undefined ? `?record_id=${recordId}` : ''
+    const response = await api.get<ServiceContract[]>(`/contracts${params}`)
+    return response.data
+  },
+  expiring: async (days: number) => {
+    const response = await api.get<ServiceContract[]>(`/contracts/expiring?days=${days}`)
+    return response.data
+  },
+  create: async (recordId: number, data: ServiceContractInput) => {
+    const response = await api.post<ServiceContract>('/contracts', { ...data, record_id: recordId })
+    return response.data
+  },
+  update: async (id: number, data: Partial<ServiceContractInput>) => {
+    const response = await api.patch<ServiceContract>(`/contracts/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/contracts/${id}`)
+  },
+}
+
+export const visitsApi = {
+  list: async (recordId: number) => {
+    const response = await api.get<ServiceVisit[]>(`/visits?record_id=${recordId}`)
+    return response.data
+  },
+  create: async (recordId: number, data: ServiceVisitInput) => {
+    const response = await api.post<ServiceVisit>('/visits', { ...data, record_id: recordId })
+    return response.data
+  },
+  update: async (id: number, data: Partial<ServiceVisitInput>) => {
+    const response = await api.patch<ServiceVisit>(`/visits/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/visits/${id}`)
+  },
+}
+
+export const ticketsApi = {
+  list: async (filters: TicketFilters = {}) => {
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value))
+    })
+    const response = await api.get<TicketListResponse>(`/tickets?${params}`)
+    return response.data
+  },
+  create: async (recordId: number, data: TicketInput) => {
+    const response = await api.post<Ticket>('/tickets', { ...data, record_id: recordId })
+    return response.data
+  },
+  update: async (id: number, data: TicketUpdate) => {
+    const response = await api.patch<Ticket>(`/tickets/${id}`, data)
+    return response.data
+  },
+}
+
+export const leadsApi = {
+  list: async (filters: LeadFilters = {}) => {
+    const params = new URLSearchParams()
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined && value !== '') params.append(key, String(value))
+    })
+    const response = await api.get<LeadListResponse>(`/leads?${params}`)
+    return response.data
+  },
+  get: async (id: number) => {
+    const response = await api.get<Lead>(`/leads/${id}`)
+    return response.data
+  },
+  create: async (data: LeadInput) => {
+    const response = await api.post<Lead>('/leads', data)
+    return response.data
+  },
+  update: async (id: number, data: LeadUpdate) => {
+    const response = await api.patch<Lead>(`/leads/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/leads/${id}`)
+  },
+  // Create the record for a won lead
+  convert: async (id: number, data: RecordCreate) => {
+    const response = await api.post<Record>(`/leads/${id}/convert`, data)
+    return response.data
+  },
+}
+
+export const documentsApi = {
+  list: async (recordId: number) => {
+    const response = await api.get<RecordDocument[]>(`/documents?record_id=${recordId}`)
+    return response.data
+  },
+  // Line items from the record's machine, to start a new document from
+  draft: async (recordId: number) => {
+    const response = await api.get<DocumentDraft>(`/documents/draft?record_id=${recordId}`)
+    return response.data
+  },
+  create: async (data: RecordDocumentInput) => {
+    const response = await api.post<RecordDocument>('/documents', data)
+    return response.data
+  },
+  download: async (id: number) => {
+    const response = await api.get<Blob>(`/documents/${id}/pdf`, { responseType: 'blob' })
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/documents/${id}`)
+  },
+}
+
+export const paymentsApi = {
+  ledger: async (recordId: number) => {
+    const response = await api.get<PaymentLedger>(`/payments?record_id=${recordId}`)
+    return response.data
+  },
+  create: async (recordId: number, data: PaymentInput) => {
+    const response = await api.post<Payment>('/payments', { ...data, record_id: recordId })
+    return response.data
+  },
+  update: async (id: number, data: Partial<PaymentInput>) => {
+    const response = await api.patch<Payment>(`/payments/${id}`, data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/payments/${id}`)
+  },
+}
+
+export const targetsApi = {
+  list: async (periodType: TargetPeriod, periodStart: string) => {
+    const response = await api.get<SalesTarget[]>(`/targets?period_type=${periodType}&period_start=${periodStart}`)
+    return response.data
+  },
+  // Replaces every target of the scope for the period
+  set: async (periodType: TargetPeriod, periodStart: string, scope: TargetScope, targets: SalesTargetAmount[]) => {
+    const response = await api.put<SalesTarget[]>('/targets', { period_type: periodType, period_start: periodStart, scope, targets })
+    return response.data
+  },
+  leaderboard: async (periodType: TargetPeriod, periodStart: string, scope: TargetScope) => {
+    const params = new URLSearchParams({ period_type: periodType, period_start: periodStart, scope })
+    const response = await api.get<Leaderboard>(`/targets/leaderboard?${params}`)
+    return response.data
+  },
+}
+
+export const clientsApi = {
+  list: async (search: string, page = 1, pageSize = 20) => {
+    const params = new URLSearchParams({ page: String(page), page_size: String(pageSize) })
+    if (search) params.append('search', search)
+    const response = await api.get<ClientListResponse>(`/clients?${params}`)
+    return response.data
+  },
+  profile: async (id: number) => {
+    const response = await api.get<ClientProfile>(`/clients/${id}`)
+    return response.data
+  },
+  update: async (id: number, data: Partial<ClientInput>) => {
+    const response = await api.patch<Client>(`/clients/${id}`, data)
+    return response.data
+  },
+  duplicates: async () => {
+    const response = await api.get<DuplicateClientsResponse>('/clients/duplicates')
+    return response.data
+  },
+  merge: async (clientIds: number[], details: ClientInput) => {
+    const response = await api.post<ClientMergeResult>('/clients/merge', { ...details, client_ids: clientIds })
+    return response.data
+  },
+}
+
+export const salesApi = {
+  records: async (filters: RecordFilters, page: number, pageSize: number) => {
+    const response = await api.get<RecordListResponse>(`/sales/records?${withPage(filters, page, pageSize)}`)
+    return response.data
+  },
+  summary: async (filters: RecordFilters) => {
+    const response = await api.get<SalesSummary>(`/sales/summary?${buildFilterParams(filters)}`)
+    return response.data
+  },
+  receivables: async (filters: RecordFilters) => {
+    const response = await api.get<ReceivablesReport>(`/sales/receivables?${buildFilterParams(filters)}`)
+    return response.data
+  },
+}
+
+export const filtersApi = {
+  options: async () => {
+    const response = await api.get<FilterOptions>('/filters/options')
+    return response.data
+  },
+}
+
+export const exportApi = {
+  download: async (type: ExportType, format: ExportFormat, filters: RecordFilters) => {
+    const response = await api.get<Blob>(`/export/${type}.${format}?${buildFilterParams(filters)}`, {
+      responseType: 'blob',
+    })
+    return response.data
+  },
+}
+
+export const importApi = {
+  preview: async (file: File) => {
+    const form = new FormData()
+    form.append('file', file)
+    const response = await api.post<ImportPreview>('/import/preview', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+    return response.data
+  },
+  run: async (file: File, mapping: { [column: string]: string | null }, dryRun: boolean) => {
+    const form = new FormData()
+    form.append('file', file)
+    form.append('mapping', JSON.stringify(mapping))
+    form.append('dry_run', String(dryRun))
+    const response = await api.post<ImportResult>('/import/records', form, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    })
+    return response.data
+  },
+}
+
+export const savedFiltersApi = {
+  list: async (screen: SavedFilterScreen) => {
+    const response = await api.get<SavedFilter[]>(`/saved-filters?screen=${screen}`)
+    return response.data
+  },
+  save: async (data: SavedFilterInput) => {
+    const response = await api.post<SavedFilter>('/saved-filters', data)
+    return response.data
+  },
+  remove: async (id: number) => {
+    await api.delete(`/saved-filters/${id}`)
+  },
+}
+
+export const preferencesApi = {
+  getRecordsView: async () => {
+    const response = await api.get<RecordsViewPreference>('/preferences/records-view')
+    return response.data
+  },
+  setRecordsView: async (preference: RecordsViewPreference) => {
+    const response = await api.put<RecordsViewPreference>('/preferences/records-view', preference)
+    return response.data
+  },
+}
+
+export const remindersApi = {
+  list: async (status: ReminderStatus | '', page: number, pageSize: number) => {
+    const params = new URLSearchParams({ page: page.toString(), page_size: pageSize.toString() })
+    if (status) params.set('status', status)
+    const response = await api.get<ReminderListResponse>(`/reminders?${params}`)
+    return response.data
+  },
+  // Queue the reminders now due and send the queue
+  run: async () => {
+    const response = await api.post<ReminderRunResult>('/reminders/run')
+    return response.data
+  },
+  retry: async (id: number) => {
+    const response = await api.post<ReminderMessage>(`/reminders/${id}/retry`)
+    return response.data
+  },
+  cancel: async (id: number) => {
+    const response = await api.post<ReminderMessage>(`/reminders/${id}/cancel`)
+    return response.data
+  },
+}
@@ -14,6 +14,7 @@ export interface Record {
   controller?: string
   card?: string
   body?: string
+  client_id?: number
   client_name: string
   client_phone?: string
   client_address?: string
@@ -22,8 +23,33 @@ export interface Record {
   sold_by?: string
   lead_source?: string
   remarks?: string
+  deleted_at?: string
+  deleted_by?: string
+  // Computed server-side from the warranty policies
+  warranty_expiry?: string
+  warranty_status?: WarrantyStatus
+  warranty_days_remaining?: number
+  warranty_policy?: string
+  // Only on searched lists: where the search words were found
+  search_match?: SearchMatch | null
 }
 
+export interface RecordBatchUpdate {
+  ids: number[]
+  changes: RecordUpdate
+  // Added as a new line to each record's remarks
+  append_remark?: string
+  // Lets client detail changes reach unselected records of the same clients
+  include_client_records?: boolean
+}
+
+export interface SearchMatch {
+  field: string
+  parts: { text: string; highlight: boolean }[]
+}
+
+export type WarrantyStatus = 'in_warranty' | 'expiring_soon' | 'out_of_warranty'
+
 export interface RecordCreate {
   record_id?: string
   date_of_delivery: string
@@ -37,6 +63,8 @@ export interface RecordCreate {
   controller?: string
   card?: string
   body?: string
+  // Omit to match an existing client by phone and name
+  client_id?: number | null
   client_name: string
   client_phone?: string
   client_address?: string
@@ -60,6 +88,8 @@ export interface RecordUpdate {
   controller?: string
   card?: string
   body?: string
+  // null moves the record to a new client
+  client_id?: number | null
   client_name?: string
   client_phone?: string
   client_address?: string
@@ -82,12 +112,15 @@ export interface WarrantySummary {
   out_of_warranty: number
   expiring_soon: number
   total: number
+  under_amc: number
+  amc_expiring: number
 }
 
 export interface MonthlyTrend {
   month: string
   count: number
   revenue: number
+  collected: number  // payments received in the month
 }
 
 export interface ProjectedSale {
@@ -108,6 +141,12 @@ export interface OrderDetails {
 export interface SalesSummary {
   total_records: number
   total_revenue?: number
+  sales_revenue: number
+  contract_revenue: number
+  contract_count: number
+  billed: number  // machine sales + contracts
+  collected: number
+  outstanding: number
   average_order_value?: number
   by_zone: { [key: string]: number }
   by_zone_revenue: { [key: string]: number }
@@ -120,18 +159,630 @@ export interface SalesSummary {
   order_details: OrderDetails
 }
 
+export type RecordSortField =
+  | 'relevance'
+  | 'date_of_delivery'
+  | 'date_of_installation'
+  | 'sale_price'
+  | 'client_name'
+  | 'zone'
+  | 'updated_at'
+  | 'warranty_expiry'
+
 export interface RecordFilters {
   search?: string
-  zone?: string
-  capacity_kw?: string
-  heater?: string
-  controller?: string
-  card?: string
-  body?: string
-  sold_by?: string
-  lead_source?: string
+  // Multi-select: records matching any of the values
+  zone?: string[]
+  capacity_kw?: string[]
+  heater?: string[]
+  controller?: string[]
+  card?: string[]
+  body?: string[]
+  sold_by?: string[]
+  lead_source?: string[]
+  // Ranges, inclusive; date_from / date_to are the delivery date
+  price_min?: string
+  price_max?: string
+  capacity_min?: string
+  capacity_max?: string
   date_from?: string
   date_to?: string
+  installation_from?: string
+  installation_to?: string
+  site_visit_from?: string
+  site_visit_to?: string
+  sort_by?: RecordSortField
+  sort_desc?: boolean
+  // Only these records (exporting a selection); never kept in the URL
+  ids?: number[]
   page?: number
   page_size?: number
 }
+
+export type MultiFilterKey = 'zone' | 'capacity_kw' | 'heater' | 'controller' | 'card' | 'body' | 'sold_by' | 'lead_source'
+
+export type SavedFilterScreen = 'records' | 'sales'
+
+export interface SavedFilterInput {
+  name: string
+  screen: SavedFilterScreen
+  query: string
+}
+
+export interface SavedFilter extends SavedFilterInput {
+  id: number
+  created_at: string
+  updated_at: string
+}
+
+export type RecordsView = 'cards' | 'table'
+
+export interface TableColumnLayout {
+  field: string
+  width: number
+}
+
+export interface RecordsViewPreference {
+  view: RecordsView
+  columns: TableColumnLayout[]
+}
+
+export interface FilterOptions {
+  zones: string[]
+  capacity_kw: string[]
+  heaters: string[]
+  controllers: string[]
+  cards: string[]
+  bodies: string[]
+  sold_by: string[]
+  lead_sources: string[]
+}
+
+export type UserRole = 'maintenance' | 'sales' | 'admin'
+
+export interface TokenResponse {
+  access_token: string
+  token_type: string
+  role: UserRole
+  user_id: number
+  username: string
+  display_name: string
+}
+
+export interface UserAccount {
+  id: number
+  username: string
+  display_name: string
+  role: UserRole
+  is_active: boolean
+  created_at: string
+  last_login_at?: string
+}
+
+export interface UserCreate {
+  username: string
+  display_name: string
+  password: string
+  role: UserRole
+}
+
+export interface UserUpdate {
+  display_name?: string
+  password?: string
+  role?: UserRole
+  is_active?: boolean
+}
+
+export type WarrantyStart = 'delivery' | 'installation'
+
+export interface WarrantyPolicySettings {
+  duration_days: number
+  start_from: WarrantyStart
+  expiring_soon_days: number
+}
+
+export interface WarrantyPolicy {
+  id: number
+  name: string
+  capacity_kw?: string | null
+  heater?: string | null
+  controller?: string | null
+  duration_days: number
+  start_from: WarrantyStart
+  is_active: boolean
+  created_at: string
+  updated_at: string
+}
+
+export type WarrantyPolicyInput = Omit<WarrantyPolicy, 'id' | 'created_at' | 'updated_at'>
+
+export interface AppSettings {
+  zones: string[]
+  technicians: string[]
+  salespeople: string[]
+  warranty: WarrantyPolicySettings
+  reminders: ReminderSettings
+  company: CompanySettings
+}
+
+// Letterhead, GST and numbering for quotations and tax invoices
+export interface CompanySettings {
+  name: string
+  address: string
+  phone: string
+  email: string
+  gstin: string
+  state: string
+  gst_rate: number
+  quotation_prefix: string
+  invoice_prefix: string
+  quotation_valid_days: number
+  bank_details: string
+  terms: string
+}
+
+export type ReminderChannel = 'sms' | 'whatsapp' | 'email'
+
+export type ReminderStatus = 'queued' | 'sent' | 'failed' | 'cancelled'
+
+export interface ReminderTemplate {
+  subject: string  // email only
+  body: string
+}
+
+export interface ReminderSettings {
+  enabled: boolean
+  days_before: number[]
+  channels: ReminderChannel[]
+  templates: { [channel in ReminderChannel]: ReminderTemplate }
+}
+
+export interface ReminderMessage {
+  id: number
+  record_id: number
+  record_code: string
+  client_name: string
+  channel: ReminderChannel
+  warranty_expiry: string
+  days_before: number
+  recipient?: string
+  subject?: string
+  body: string
+  status: ReminderStatus
+  provider?: string
+  error?: string
+  attempts: number
+  created_at: string
+  sent_at?: string
+}
+
+export interface ReminderListResponse {
+  messages: ReminderMessage[]
+  total: number
+  page: number
+  page_size: number
+  counts: { [status in ReminderStatus]?: number }
+}
+
+export interface ReminderRunResult {
+  queued: number
+  sent: number
+  failed: number
+}
+
+export type RecordChangeAction = 'create' | 'update' | 'delete' | 'restore' | 'purge'
+
+export interface FieldChange {
+  old: string | number | null
+  new: string | number | null
+}
+
+export interface RecordChange {
+  id: number
+  // Null once the record was purged
+  record_id: number | null
+  record_code: string
+  action: RecordChangeAction
+  changes: { [field: string]: FieldChange }
+  actor_name?: string
+  created_at: string
+}
+
+export type ContractType = 'amc' | 'extended_warranty'
+export type RenewalStatus = 'pending' | 'renewed' | 'not_renewing'
+export type ContractStatus = 'upcoming' | 'active' | 'expiring' | 'expired'
+
+export interface ServiceContractInput {
+  contract_type: ContractType
+  start_date: string
+  end_date: string
+  price?: number
+  coverage?: string
+  renewal_status: RenewalStatus
+  sold_by?: string
+}
+
+// The few record fields returned alongside a contract or ticket
+export interface RecordBrief {
+  id: number
+  record_id: string
+  client_name: string
+  client_phone?: string
+  client_address?: string
+  zone?: string
+}
+
+export interface ServiceContract extends ServiceContractInput {
+  id: number
+  record_id: number
+  record?: RecordBrief
+  status: ContractStatus
+  created_at: string
+  updated_at: string
+}
+
+export interface ServiceVisitInput {
+  visit_date: string
+  technician?: string
+  issue_reported?: string
+  work_done?: string
+  parts_replaced?: string
+  charge?: number
+  under_warranty?: boolean
+}
+
+export interface ServiceVisit extends ServiceVisitInput {
+  id: number
+  record_id: number
+  under_warranty: boolean
+  logged_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export type TicketPriority = 'low' | 'medium' | 'high' | 'urgent'
+export type TicketStatus = 'open' | 'assigned' | 'in_progress' | 'resolved' | 'closed'
+
+export interface TicketInput {
+  title: string
+  description?: string
+  priority: TicketPriority
+  technician?: string
+}
+
+export interface TicketUpdate extends Partial<TicketInput> {
+  status?: TicketStatus
+  resolution?: string
+}
+
+export interface Ticket extends TicketInput {
+  id: number
+  ticket_number: string
+  record_id: number
+  record?: RecordBrief
+  status: TicketStatus
+  resolution?: string
+  opened_by?: string
+  created_at: string
+  due_at: string
+  assigned_at?: string
+  started_at?: string
+  resolved_at?: string
+  closed_at?: string
+  updated_at: string
+  sla_breached: boolean
+}
+
+export interface TicketFilters {
+  zone?: string
+  technician?: string
+  priority?: TicketPriority
+  record_id?: number
+}
+
+export interface TicketListResponse {
+  tickets: Ticket[]
+  total: number
+}
+
+export type LeadStage = 'new' | 'contacted' | 'quoted' | 'negotiation' | 'won' | 'lost'
+
+export interface LeadInput {
+  enquiry_date: string
+  source?: string
+  capacity_kw?: string
+  notes?: string
+  contact_name: string
+  contact_phone?: string
+  contact_address?: string
+  zone?: string
+  expected_value?: number | null
+  owner?: string
+}
+
+export interface LeadUpdate extends Partial<LeadInput> {
+  stage?: LeadStage
+  lost_reason?: string
+}
+
+export interface Lead extends LeadInput {
+  id: number
+  lead_number: string
+  stage: LeadStage
+  lost_reason?: string
+  closed_at?: string
+  converted_record_id?: number
+  converted_record?: RecordBrief
+  created_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface LeadFilters {
+  owner?: string
+  zone?: string
+  search?: string
+  closed_days?: number
+}
+
+export interface LeadListResponse {
+  leads: Lead[]
+  total: number
+}
+
+export type ScheduleKind = 'installation' | 'site_visit'
+
+export interface ScheduleEvent {
+  record: RecordBrief
+  kind: ScheduleKind
+  date: string
+  start?: string
+  technician?: string
+  double_booked: boolean
+}
+
+export interface ScheduleResponse {
+  date_from: string
+  date_to: string
+  events: ScheduleEvent[]
+  double_booked_technicians: string[]
+}
+
+export interface ImportPreview {
+  filename: string
+  columns: string[]
+  row_count: number
+  sample_rows: { [column: string]: string }[]
+  suggested_mapping: { [column: string]: string | null }
+  fields: string[]
+  required_fields: string[]
+}
+
+export interface ImportRowError {
+  row: number
+  field?: string
+  message: string
+}
+
+export interface ImportedRecord {
+  row: number
+  id?: number
+  record_id: string
+  client_name: string
+}
+
+export interface ImportResult {
+  dry_run: boolean
+  total_rows: number
+  valid_rows: number
+  errors: ImportRowError[]
+  created: ImportedRecord[]
+}
+
+export interface ClientInput {
+  name: string
+  phone?: string
+  address?: string
+  zone?: string
+  email?: string  // for email reminders; not copied onto records
+}
+
+export interface Client extends ClientInput {
+  id: number
+  record_count: number
+  created_at: string
+  updated_at: string
+}
+
+export interface ClientListResponse {
+  clients: Client[]
+  total: number
+  page: number
+  page_size: number
+}
+
+export interface ClientProfile {
+  client: Client
+  records: Record[]
+  visits: ServiceVisit[]
+  contracts: ServiceContract[]
+  tickets: Ticket[]
+  sales_value: number
+  contract_value: number
+  service_value: number
+  lifetime_value: number
+}
+
+export type DuplicateReason = 'phone' | 'name' | 'address'
+
+export interface DuplicateClientMember extends ClientInput {
+  id: number
+  records: RecordBrief[]
+}
+
+export interface DuplicateClientGroup {
+  members: DuplicateClientMember[]
+  reasons: DuplicateReason[]
+  record_count: number
+}
+
+export interface DuplicateClientsResponse {
+  groups: DuplicateClientGroup[]
+  total: number
+}
+
+export interface ClientMergeResult {
+  client_id: number
+  merged: number
+  updated: number
+}
+
+export type DocumentType = 'quotation' | 'invoice'
+
+export interface DocumentLineItem {
+  description: string
+  hsn?: string
+  quantity: number
+  unit_price: number
+  amount?: number  // before GST, set by the server
+}
+
+export interface RecordDocumentInput {
+  record_id: number
+  doc_type: DocumentType
+  issued_on?: string
+  line_items: DocumentLineItem[]
+  gst_rate?: number
+  prices_include_gst: boolean
+  interstate: boolean
+  client_gstin?: string
+  place_of_supply?: string
+  notes?: string
+}
+
+export interface DocumentDraft {
+  line_items: DocumentLineItem[]
+  gst_rate: number
+  place_of_supply?: string
+}
+
+export interface RecordDocument {
+  id: number
+  record_id: number
+  doc_type: DocumentType
+  number: string
+  issued_on: string
+  valid_until?: string
+  client_name: string
+  client_gstin?: string
+  place_of_supply?: string
+  line_items: DocumentLineItem[]
+  gst_rate: number
+  interstate: boolean
+  taxable_value: number
+  cgst: number
+  sgst: number
+  igst: number
+  total: number
+  notes?: string
+  created_by?: string
+  created_at: string
+}
+
+export type PaymentMode = 'cash' | 'upi' | 'bank_transfer' | 'cheque' | 'card'
+
+export interface PaymentInput {
+  amount: number
+  paid_on: string
+  mode: PaymentMode
+  reference?: string
+  notes?: string
+}
+
+export interface Payment extends PaymentInput {
+  id: number
+  record_id: number
+  recorded_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface PaymentLedger {
+  record_id: number
+  billed: number  // sale price + AMC / extended warranty contracts
+  collected: number
+  balance_due: number
+  payments: Payment[]
+}
+
+export interface ReceivableRow {
+  record_id: number
+  record_code: string
+  client_name: string
+  client_phone?: string
+  zone?: string
+  sold_by?: string
+  billed_on: string
+  billed: number
+  collected: number
+  balance_due: number
+  last_payment_on?: string
+  days_outstanding: number
+  bucket: string
+}
+
+export interface ReceivablesReport {
+  rows: ReceivableRow[]
+  buckets: { [bucket: string]: number }
+  total_billed: number
+  total_collected: number
+  total_outstanding: number
+}
+
+export type TargetPeriod = 'month' | 'quarter'
+
+export type TargetScope = 'salesperson' | 'zone'
+
+export interface SalesTargetAmount {
+  name: string  // salesperson or zone
+  target_amount: number
+}
+
+export interface SalesTarget extends SalesTargetAmount {
+  id: number
+  period_type: TargetPeriod
+  period_start: string
+  scope: TargetScope
+  set_by?: string
+  updated_at: string
+}
+
+export interface TargetTrendPoint {
+  period_start: string
+  target?: number
+  achieved: number
+  attainment?: number  // percent of target
+}
+
+export type AttainmentStatus = 'exceeded' | 'on_track' | 'behind'
+
+export interface LeaderboardRow {
+  name: string
+  target?: number
+  achieved: number
+  attainment?: number
+  rank?: number
+  status?: AttainmentStatus
+  trend: TargetTrendPoint[]
+}
+
+export interface Leaderboard {
+  period_type: TargetPeriod
+  period_start: string
+  period_end: string
+  scope: TargetScope
+  elapsed_pct: number
+  total_target: number
+  total_achieved: number
+  rows: LeaderboardRow[]
+}
@@ -0,0 +1,26 @@
+import os
+import tempfile
+
+# Point the app at a throwaway database before anything imports app.config
+os.environ["DATABASE_URL"] = f"sqlite:///{os.path.join(tempfile.mkdtemp(), 'test.db')}"
+
+import pytest
+from app.database import Base, engine, SessionLocal
+from app import models  # noqa: F401  (registers the tables)
+from app.utils.search import ensure_search_index, drop_search_index
+
+
+@pytest.fixture
+def db():
+    """A session on empty tables, dropped again after the test"""
+    Base.metadata.create_all(bind=engine)
+    with engine.begin() as connection:
+        ensure_search_index(connection)
+    session = SessionLocal()
+    try:
+        yield session
+    finally:
+        session.close()
+        with engine.begin() as connection:
+            drop_search_index(connection)
+        Base.metadata.drop_all(bind=engine)
@@ -0,0 +1,29 @@
+import csv
+import io
+from app.crud import get_records
+from app.schemas import RecordFilters
+from app.utils.export_utils import export_to_csv
+from tests.test_records import make_record
+
+
+def csv_rows(records):
+    return list(csv.DictReader(io.StringIO(export_to_csv(records).getvalue().decode("utf-8"))))
+
+
+def test_csv_export_follows_the_sort(db):
+    for price in (250000, 100000, 175000):
+        make_record(db, sale_price=price)
+
+    records, _ = get_records(db, RecordFilters(sort_by="sale_price", sort_desc=True), page=1, page_size=10000)
+    assert [float(row["Sale Price"]) for row in csv_rows(records)] == [250000.0, 175000.0, 100000.0]
+
+
+def test_csv_export_of_a_selection(db):
+    chosen = [make_record(db, client_name=name) for name in ("Asha", "Bala", "Chitra")]
+    make_record(db, client_name="Not selected")
+
+    ids = [chosen[0].id, chosen[2].id]
+    records, _ = get_records(db, RecordFilters(ids=ids), page=1, page_size=10000)
+    rows = csv_rows(records)
+    assert sorted(int(row["ID"]) for row in rows) == sorted(ids)
+    assert {row["Client Name"] for row in rows} == {"Asha", "Chitra"}
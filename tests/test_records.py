@@ -0,0 +1,39 @@
+from datetime import date, datetime
+from app.crud import create_record, delete_record, purge_record, get_record_history, get_records, get_sales_summary
+from app.schemas import RecordCreate, RecordFilters
+
+
+def make_record(db, **fields):
+    values = {"record_id": "", "date_of_delivery": date(2026, 6, 1), "client_name": "Ramesh Traders"}
+    values.update(fields)
+    return create_record(db, RecordCreate(**values))
+
+
+def test_purged_record_history_and_code_are_not_reused(db):
+    purged = make_record(db, client_name="Old Client")
+    purged_id, purged_code = purged.id, purged.record_id
+    delete_record(db, purged_id)
+    purge_record(db, purged_id)
+
+    record = make_record(db, client_name="New Client")
+    assert record.record_id != purged_code
+    history = get_record_history(db, record.id)
+    assert [entry.action for entry in history] == ["create"]
+    assert history[0].record_code == record.record_id
+
+
+def test_date_range_includes_both_boundary_days(db):
+    make_record(db, date_of_delivery=date(2026, 5, 31))
+    first = make_record(db, date_of_delivery=date(2026, 6, 1), date_of_installation=date(2026, 6, 1))
+    last = make_record(db, date_of_delivery=date(2026, 6, 30))
+    make_record(db, date_of_delivery=date(2026, 7, 1))
+
+    records, total = get_records(db, RecordFilters(date_from=datetime(2026, 6, 1), date_to=datetime(2026, 6, 30)))
+    assert total == 2
+    assert {r.id for r in records} == {first.id, last.id}
+
+    records, total = get_records(
+        db, RecordFilters(installation_from=datetime(2026, 6, 1), installation_to=datetime(2026, 6, 1))
+    )
+    assert [r.id for r in records] == [first.id]
+    assert get_sales_summary(db, RecordFilters(date_from=datetime(2026, 6, 1), date_to=datetime(2026, 6, 1)))["total_orders"] == 1
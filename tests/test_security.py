@@ -0,0 +1,8 @@
+from app.security import hash_password, verify_password
+
+
+def test_hash_and_verify_password():
+    password_hash = hash_password("admin123")
+    assert password_hash != "admin123"
+    assert verify_password("admin123", password_hash)
+    assert not verify_password("admin124", password_hash)